@@ -0,0 +1,112 @@
+// Live item changes for open clients, streamed as server-sent events. Every event
+// gets an increasing id and the latest ones are kept, so a client reconnecting with
+// Last-Event-ID receives what it missed; when that is more than the buffer holds
+// (or the server restarted) it gets a `reset` event and reloads instead.
+// Events carry the X-Client-Id of the request that caused them, so a client can
+// tell its own changes apart.
+const { AsyncLocalStorage, AsyncResource } = require('async_hooks');
+
+const ITEM_EVENT_TYPES = ['created', 'updated', 'moved', 'deleted'];
+const MAX_BUFFERED_EVENTS = 500;
+const RETRY_DELAY = 1000; // Reconnection delay suggested to EventSource
+const HEARTBEAT_INTERVAL = 25 * 1000; // Keeps proxies from closing idle streams
+// Event ids are `<stream>-<sequence>`: ids of an earlier server run never match
+const STREAM_ID = Date.now().toString(36);
+
+const clients = new Set();
+const requestClient = new AsyncLocalStorage();
+const buffer = [];
+let lastEventId = 0;
+
+function formatEvent(event) {
+	return `id: ${STREAM_ID}-${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Broadcast a change of `item`: `created`, `updated` (renamed, new content),
+ * `moved` (`extra.previousParentId` is where it was) or `deleted` (moved to the trash)
+ */
+function publishItemEvent(type, item, extra = {}) {
+	if (!ITEM_EVENT_TYPES.includes(type)) {
+		throw new Error(`Unknown item event type: ${type}`);
+	}
+
+	const { originalPath, trashedAt, trashRootId, ...publicItem } = item;
+	const clientId = requestClient.getStore();
+	const event = {
+		id: ++lastEventId,
+		type,
+		data: { type, item: publicItem, ...extra, ...(clientId && { clientId }) },
+	};
+	buffer.push(event);
+	if (buffer.length > MAX_BUFFERED_EVENTS) {
+		buffer.shift();
+	}
+	clients.forEach(res => res.write(formatEvent(event)));
+}
+
+// Events after the one with id `lastId`, or null when they cannot all be replayed
+function getEventsSince(lastId) {
+	const [stream, sequence] = String(lastId).split('-');
+	const since = Number(sequence);
+	if (stream !== STREAM_ID || !Number.isInteger(since) || since > lastEventId) {
+		return null; // Ids from before a server restart
+	}
+	if (since < lastEventId && (!buffer.length || buffer[0].id > since + 1)) {
+		return null;
+	}
+	return buffer.filter(event => event.id > since);
+}
+
+/**
+ * Request handler of the event stream; EventSource sends Last-Event-ID itself
+ * when it reconnects, `?lastEventId=` covers a fresh EventSource picking up
+ */
+function streamEvents(req, res) {
+	res.writeHead(200, {
+		'Content-Type': 'text/event-stream',
+		// no-transform keeps the compression middleware from buffering the stream
+		'Cache-Control': 'no-cache, no-transform',
+		Connection: 'keep-alive',
+		'X-Accel-Buffering': 'no',
+	});
+	res.write(`retry: ${RETRY_DELAY}\n\n`);
+
+	const lastId = req.get('Last-Event-ID') ?? req.query.lastEventId;
+	const missed = lastId ? getEventsSince(lastId) : [];
+	if (missed) {
+		missed.forEach(event => res.write(formatEvent(event)));
+	}
+	// `ready` (or `reset` when missed events are gone) carries the latest id,
+	// so the next reconnection resumes from here
+	res.write(
+		formatEvent({ id: lastEventId, type: missed ? 'ready' : 'reset', data: {} })
+	);
+
+	clients.add(res);
+	const heartbeat = setInterval(
+		() => res.write(': heartbeat\n\n'),
+		HEARTBEAT_INTERVAL
+	);
+	req.on('close', () => {
+		clearInterval(heartbeat);
+		clients.delete(res);
+	});
+}
+
+/**
+ * Middleware: changes published while handling the request are tagged with its client
+ */
+function trackClient(req, res, next) {
+	requestClient.run(req.get('X-Client-Id') || null, next);
+}
+
+/**
+ * Wrap a middleware that calls `next` from stream events (e.g. multer), which
+ * would lose the request's client otherwise
+ */
+function keepClient(middleware) {
+	return (req, res, next) => middleware(req, res, AsyncResource.bind(next));
+}
+
+module.exports = { publishItemEvent, streamEvents, trackClient, keepClient };
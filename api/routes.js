@@ -5,13 +5,47 @@ const db = require('./db');
 const multer = require('multer');
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
+const sharp = require('sharp');
+const { writeZip, MAX_ZIP_SIZE, MAX_ZIP_ENTRIES } = require('./zip');
+const {
+	publishItemEvent,
+	streamEvents,
+	trackClient,
+	keepClient,
+} = require('./events');
 
 let itemsIndex = {};
 const upload = multer({ dest: 'uploads/' });
 
+// Chunked uploads: each session lives in uploads/chunks/<uploadId>/
+// (session.json + one <index>.part file per received chunk)
+const CHUNKS_DIR = path.join(__dirname, 'uploads', 'chunks');
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_CHUNK_SIZE = 10 * 1024 * 1024;
+// Sessions untouched for this long were abandoned (closed tab, lost client) and are swept
+const UPLOAD_SESSION_TTL = 24 * 60 * 60 * 1000;
+const UPLOAD_SWEEP_INTERVAL = 60 * 60 * 1000;
+
+// Thumbnails are generated on first request and cached in uploads/thumbnails/
+// as <filePath>-<size>.webp (a replaced file gets a new filePath, so a new cache entry)
+const THUMBNAILS_DIR = path.join(__dirname, 'uploads', 'thumbnails');
+const THUMBNAIL_SIZES = [64, 128, 256, 512];
+const DEFAULT_THUMBNAIL_SIZE = 256;
+const THUMBNAIL_MIME_TYPES = [
+	'image/jpeg',
+	'image/png',
+	'image/gif',
+	'image/webp',
+	'image/avif',
+	'image/tiff',
+	'image/svg+xml',
+];
+const pendingThumbnails = new Map();
+
 function buildItemsIndex() {
 	itemsIndex = {};
-	db.items.forEach(item => {
+	liveItems().forEach(item => {
 		if (!itemsIndex[item.parentId]) {
 			itemsIndex[item.parentId] = [];
 		}
@@ -19,6 +53,12 @@ function buildItemsIndex() {
 	});
 }
 
+// Every error response uses the same envelope: { code, message, ...details }
+// (details are endpoint specific, e.g. `errors` for uploads or `missingChunks`)
+function sendError(res, status, code, message, details = {}) {
+	return res.status(status).json({ code, message, ...details });
+}
+
 function saveDatabase() {
 	try {
 		const dbPath = path.join(__dirname, 'db.js');
@@ -30,64 +70,890 @@ function saveDatabase() {
 	}
 }
 
+// Trashed items (and their subtree) keep their record with a `trashedAt` date
+function liveItems() {
+	return db.items.filter(item => !item.trashedAt);
+}
+
+function findLiveItem(itemId) {
+	return db.items.find(i => i.id === itemId && !i.trashedAt);
+}
+
+function getSubtree(rootItem) {
+	const subtree = [rootItem];
+	for (let i = 0; i < subtree.length; i++) {
+		if (subtree[i].folder) {
+			subtree.push(...db.items.filter(item => item.parentId === subtree[i].id));
+		}
+	}
+	return subtree;
+}
+
+function removeBlob(fileName) {
+	const filePath = path.join(__dirname, 'uploads', fileName);
+	if (fs.existsSync(filePath)) {
+		fs.unlinkSync(filePath);
+	}
+	removeThumbnails(fileName);
+}
+
+// Removes the blobs of every version of a file, and its version records
+function removeStoredFile(item) {
+	if (!item.folder && item.filePath) {
+		new Set([
+			item.filePath,
+			...getVersions(item).map(version => version.filePath),
+		]).forEach(removeBlob);
+		db.versions = db.versions.filter(version => version.itemId !== item.id);
+	}
+}
+
+// File versions live in db.versions, one record per stored revision
+// ({ itemId, version, filePath, size, mimeType, uploadedBy, created, restoredFrom? }).
+// The item itself holds the head: its filePath, size, mimeType and `version`.
+// Files stored before versioning existed (and copies) only have their head.
+function getVersions(item) {
+	const versions = db.versions
+		.filter(version => version.itemId === item.id)
+		.sort((a, b) => a.version - b.version);
+	return versions.length > 0
+		? versions
+		: [
+				{
+					itemId: item.id,
+					version: 1,
+					filePath: item.filePath,
+					size: item.size,
+					mimeType: item.mimeType,
+					uploadedBy: null,
+					created: item.creation,
+				},
+			];
+}
+
+// No accounts yet: the client address identifies who uploaded a version
+function getUploader(req) {
+	return req.ip || null;
+}
+
+// Record `content` ({ filePath, size, mimeType, uploadedBy }) as the item's next
+// head version; `extra` is stored with the record (e.g. restoredFrom)
+function addVersion(item, content, extra = {}) {
+	const now = new Date().toISOString();
+	const versions = getVersions(item);
+	const head = {
+		itemId: item.id,
+		version: versions[versions.length - 1].version + 1,
+		...content,
+		created: now,
+		...extra,
+	};
+	if (!db.versions.some(version => version.itemId === item.id)) {
+		db.versions.push(versions[0]); // Keep the legacy head as version 1
+	}
+	db.versions.push(head);
+	Object.assign(item, {
+		filePath: content.filePath,
+		size: content.size,
+		mimeType: content.mimeType,
+		version: head.version,
+		modification: now,
+	});
+	publishItemEvent('updated', item);
+	return item;
+}
+
+// True when `itemId` is `ancestorId` itself or sits anywhere below it
+function isDescendantOf(itemId, ancestorId) {
+	let current = itemId ? db.items.find(i => i.id === itemId) : null;
+	while (current) {
+		if (current.id === ancestorId) return true;
+		current = current.parentId
+			? db.items.find(i => i.id === current.parentId)
+			: null;
+	}
+	return false;
+}
+
+function getParentPath(item) {
+	const pathItems = [];
+	let current = item.parentId
+		? db.items.find(i => i.id === item.parentId)
+		: null;
+
+	while (current) {
+		pathItems.unshift({ id: current.id, name: current.name });
+		current = current.parentId
+			? db.items.find(i => i.id === current.parentId)
+			: null;
+	}
+
+	return pathItems;
+}
+
+function moveToTrash(item) {
+	const trashedAt = new Date().toISOString();
+	item.originalPath = getParentPath(item);
+
+	// Descendants already in the trash keep their own trash entry
+	getSubtree(item)
+		.filter(i => !i.trashedAt)
+		.forEach(i => {
+			i.trashedAt = trashedAt;
+			i.trashRootId = item.id;
+		});
+	publishItemEvent('deleted', item);
+}
+
+// Resolve the parent/name an item would have after a move and/or rename
+function getUpdateTarget(item, changes) {
+	return {
+		parentId:
+			changes.parentId !== undefined ? changes.parentId || null : item.parentId,
+		name: changes.name !== undefined ? changes.name : item.name,
+	};
+}
+
+// Returns `{ status, code, message }` when the change is not allowed, null otherwise
+// (`replacedId`: sibling that will be trashed by a "replace" conflict strategy)
+function validateItemUpdate(item, changes, replacedId = null) {
+	const target = getUpdateTarget(item, changes);
+
+	if (changes.parentId !== undefined) {
+		if (target.parentId === item.id) {
+			return {
+				status: 400,
+				code: 'INVALID_PARENT',
+				message: 'Item cannot be its own parent',
+			};
+		}
+
+		const parent = target.parentId ? findLiveItem(target.parentId) : null;
+		if (target.parentId && !parent) {
+			return {
+				status: 404,
+				code: 'PARENT_NOT_FOUND',
+				message: 'Parent item not found',
+			};
+		}
+
+		if (parent && !parent.folder) {
+			return {
+				status: 400,
+				code: 'INVALID_PARENT',
+				message: 'Parent must be a folder',
+			};
+		}
+
+		if (item.folder && isDescendantOf(target.parentId, item.id)) {
+			return {
+				status: 400,
+				code: 'INVALID_PARENT',
+				message: 'A folder cannot be moved into one of its own subfolders',
+			};
+		}
+	}
+
+	if (
+		changes.name !== undefined &&
+		(typeof changes.name !== 'string' || !changes.name.trim())
+	) {
+		return {
+			status: 400,
+			code: 'INVALID_NAME',
+			message: 'Name cannot be empty',
+		};
+	}
+
+	const sibling = findSibling(target.parentId, target.name, item.id);
+	if (sibling && sibling.id !== replacedId) {
+		return {
+			status: 409,
+			code: 'DUPLICATE_NAME',
+			message: 'An item with this name already exists in this location',
+		};
+	}
+
+	return null;
+}
+
+function applyItemUpdate(item, changes) {
+	const target = getUpdateTarget(item, changes);
+	const previousParentId = item.parentId;
+	item.parentId = target.parentId;
+	item.name = target.name;
+	item.modification = new Date().toISOString();
+	if (item.parentId === previousParentId) {
+		publishItemEvent('updated', item);
+	} else {
+		publishItemEvent('moved', item, { previousParentId });
+	}
+}
+
+// Name conflicts: upload, create-folder, PATCH, copy and batch move accept a `conflict` strategy
+// - fail (default): 409 DUPLICATE_NAME
+// - replace: the existing item is overwritten (files) or moved to the trash
+// - keep-both: the new name gets a " (n)" suffix, e.g. "Report (1).pdf"
+// - skip: nothing is changed
+// - new-version (file uploads only): the upload becomes the existing file's new head version
+const CONFLICT_STRATEGIES = ['fail', 'replace', 'keep-both', 'skip'];
+const UPLOAD_CONFLICT_STRATEGIES = [...CONFLICT_STRATEGIES, 'new-version'];
+
+// Returns the strategy, or null when the value is not supported
+function parseConflictStrategy(value, strategies = CONFLICT_STRATEGIES) {
+	if (value === undefined || value === null || value === '') return 'fail';
+	return strategies.includes(value) ? value : null;
+}
+
+function findSibling(parentId, name, excludeId = null) {
+	return liveItems().find(
+		i =>
+			i.parentId === (parentId || null) && i.name === name && i.id !== excludeId
+	);
+}
+
+// "Report.pdf" -> "Report (1).pdf", "Report (1).pdf" -> "Report (2).pdf"
+function getUniqueName(parentId, name, isFolder) {
+	const dot = isFolder ? -1 : name.lastIndexOf('.');
+	const stem = dot > 0 ? name.slice(0, dot) : name;
+	const extension = dot > 0 ? name.slice(dot) : '';
+	const numbered = stem.match(/^(.*) \((\d+)\)$/);
+	const base = numbered ? numbered[1] : stem;
+	let counter = numbered ? Number(numbered[2]) + 1 : 1;
+
+	let candidate = name;
+	while (findSibling(parentId, candidate)) {
+		candidate = `${base} (${counter++})${extension}`;
+	}
+	return candidate;
+}
+
+// Move and/or rename honouring the conflict strategy
+// Returns `{ error }` when refused, `{ item, skipped }` otherwise
+function updateItemWithConflict(item, changes, conflict) {
+	const target = getUpdateTarget(item, changes);
+	const sibling = findSibling(target.parentId, target.name, item.id);
+	let effectiveChanges = changes;
+	let replaced = null;
+
+	if (sibling && conflict === 'skip') {
+		return { item, skipped: true };
+	}
+	if (sibling && conflict === 'keep-both') {
+		effectiveChanges = {
+			...changes,
+			name: getUniqueName(target.parentId, target.name, item.folder),
+		};
+	}
+	if (sibling && conflict === 'replace') {
+		if (isDescendantOf(item.id, sibling.id)) {
+			return {
+				error: {
+					status: 400,
+					code: 'INVALID_PARENT',
+					message: 'An item cannot replace a folder that contains it',
+				},
+			};
+		}
+		replaced = sibling;
+	}
+
+	const error = validateItemUpdate(item, effectiveChanges, replaced?.id);
+	if (error) {
+		return { error };
+	}
+
+	if (replaced) {
+		moveToTrash(replaced);
+	}
+	applyItemUpdate(item, effectiveChanges);
+	return { item, skipped: false };
+}
+
+// How an uploaded file lands in `parentId` given the conflict strategy: `{ action: 'create', name }`,
+// `{ action: 'replace' | 'version', item }`, `{ action: 'skip' }` or `{ action: 'fail' }`
+function resolveUploadConflict(parentId, name, conflict) {
+	const existing = findDuplicateFile(parentId, name);
+	if (!existing) return { action: 'create', name };
+
+	switch (conflict) {
+		case 'replace':
+			return { action: 'replace', item: existing };
+		case 'new-version':
+			return { action: 'version', item: existing };
+		case 'keep-both':
+			return { action: 'create', name: getUniqueName(parentId, name, false) };
+		case 'skip':
+			return { action: 'skip' };
+		default:
+			return { action: 'fail' };
+	}
+}
+
+// Create the item for a stored upload, add it as a new version, or swap the
+// content of the replaced one (replace rewrites the head version, history is kept)
+function storeUploadedFile(resolution, parentId, content) {
+	const { filePath, size, mimeType, uploadedBy } = content;
+	const now = new Date().toISOString();
+
+	if (resolution.action === 'version') {
+		return addVersion(resolution.item, content);
+	}
+
+	if (resolution.action === 'replace') {
+		const item = resolution.item;
+		const head = db.versions.find(
+			version => version.itemId === item.id && version.version === item.version
+		);
+		removeBlob(item.filePath);
+		Object.assign(item, {
+			filePath,
+			size,
+			mimeType,
+			modification: now,
+		});
+		if (head) {
+			Object.assign(head, content, { created: now });
+			delete head.restoredFrom;
+		}
+		publishItemEvent('updated', item);
+		return item;
+	}
+
+	const newItem = {
+		id: uuidv4(),
+		parentId: parentId || null,
+		name: resolution.name,
+		folder: false,
+		filePath,
+		size,
+		mimeType,
+		creation: now,
+		modification: now,
+		version: 1,
+	};
+	db.items.push(newItem);
+	db.versions.push({
+		itemId: newItem.id,
+		version: 1,
+		filePath,
+		size,
+		mimeType,
+		uploadedBy,
+		created: now,
+	});
+	publishItemEvent('created', newItem);
+	return newItem;
+}
+
+// Chunked upload sessions
+function getSessionDir(uploadId) {
+	// Session ids are generated uuids; reject anything that could escape CHUNKS_DIR
+	return /^[a-f0-9-]+$/i.test(uploadId)
+		? path.join(CHUNKS_DIR, uploadId)
+		: null;
+}
+
+function readUploadSession(uploadId) {
+	const dir = getSessionDir(uploadId);
+	const sessionFile = dir && path.join(dir, 'session.json');
+	if (!sessionFile || !fs.existsSync(sessionFile)) {
+		return null;
+	}
+	return JSON.parse(fs.readFileSync(sessionFile, 'utf8'));
+}
+
+function getReceivedChunks(session) {
+	return fs
+		.readdirSync(getSessionDir(session.uploadId))
+		.filter(file => file.endsWith('.part'))
+		.map(file => Number(path.basename(file, '.part')))
+		.sort((a, b) => a - b);
+}
+
+function toSessionResponse(session) {
+	return { ...session, receivedChunks: getReceivedChunks(session) };
+}
+
+// A session directory's mtime changes with every chunk stored in it
+function sweepUploadSessions() {
+	if (!fs.existsSync(CHUNKS_DIR)) {
+		return;
+	}
+	const expiredBefore = Date.now() - UPLOAD_SESSION_TTL;
+	fs.readdirSync(CHUNKS_DIR).forEach(uploadId => {
+		const dir = path.join(CHUNKS_DIR, uploadId);
+		try {
+			if (fs.statSync(dir).mtimeMs < expiredBefore) {
+				fs.rmSync(dir, { recursive: true, force: true });
+			}
+		} catch (error) {
+			console.error(`Error sweeping upload session ${uploadId}:`, error);
+		}
+	});
+}
+
+// Thumbnails
+// Requested sizes are rounded up to a known size so the cache stays bounded
+function parseThumbnailSize(value) {
+	if (value === undefined) {
+		return DEFAULT_THUMBNAIL_SIZE;
+	}
+	const size = Number(value);
+	if (!Number.isInteger(size) || size <= 0) {
+		return null;
+	}
+	return (
+		THUMBNAIL_SIZES.find(known => known >= size) ||
+		THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1]
+	);
+}
+
+function getThumbnailPath(item, size) {
+	return path.join(THUMBNAILS_DIR, `${item.filePath}-${size}.webp`);
+}
+
+// Resolves with the cached thumbnail path, generating it on first use.
+// Concurrent requests for the same thumbnail share one generation.
+function ensureThumbnail(item, size) {
+	const thumbnailPath = getThumbnailPath(item, size);
+	if (fs.existsSync(thumbnailPath)) {
+		return Promise.resolve(thumbnailPath);
+	}
+
+	if (!pendingThumbnails.has(thumbnailPath)) {
+		const sourcePath = path.join(__dirname, 'uploads', item.filePath);
+		const tempPath = `${thumbnailPath}.${crypto.randomUUID()}.tmp`;
+		fs.mkdirSync(THUMBNAILS_DIR, { recursive: true });
+
+		const generation = sharp(sourcePath)
+			.rotate() // Apply EXIF orientation
+			.resize(size, size, { fit: 'inside', withoutEnlargement: true })
+			.webp({ quality: 80 })
+			.toFile(tempPath)
+			.then(() => {
+				fs.renameSync(tempPath, thumbnailPath);
+				return thumbnailPath;
+			})
+			.catch(error => {
+				fs.rmSync(tempPath, { force: true });
+				throw error;
+			})
+			.finally(() => pendingThumbnails.delete(thumbnailPath));
+		pendingThumbnails.set(thumbnailPath, generation);
+	}
+
+	return pendingThumbnails.get(thumbnailPath);
+}
+
+function removeThumbnails(filePath) {
+	if (!fs.existsSync(THUMBNAILS_DIR)) {
+		return;
+	}
+	fs.readdirSync(THUMBNAILS_DIR)
+		.filter(file => file.startsWith(`${filePath}-`))
+		.forEach(file =>
+			fs.rmSync(path.join(THUMBNAILS_DIR, file), { force: true })
+		);
+}
+
+function findDuplicateFile(parentId, name) {
+	return liveItems().find(
+		item =>
+			item.parentId === (parentId || null) &&
+			item.name === name &&
+			item.folder === false
+	);
+}
+
 // Initialisation
+db.versions = db.versions || [];
 buildItemsIndex();
+sweepUploadSessions();
+setInterval(sweepUploadSessions, UPLOAD_SWEEP_INTERVAL).unref();
+
+router.use(trackClient);
+
+// -----------------------------
+// GET /api/events (Live item changes, server-sent events)
+// -----------------------------
+router.get('/events', streamEvents);
+
 // -----------------------------
 // GET /api/items
 // -----------------------------
 router.get('/items', (req, res) => {
 	const parentId = req.query.parentId || null;
-	const items = parentId ? itemsIndex[parentId] || [] : db.items;
+	const items = parentId ? itemsIndex[parentId] || [] : liveItems();
 	res.json({ items });
 });
 
+// -----------------------------
+// GET /api/items/search?q= (Recursive name search)
+// -----------------------------
+const SEARCH_RESULTS_LIMIT = 200;
+
+router.get('/items/search', (req, res) => {
+	try {
+		const query = String(req.query.q || '')
+			.trim()
+			.toLowerCase();
+		if (!query) {
+			return res.json({ items: [] });
+		}
+
+		const items = liveItems()
+			.filter(item => item.name.toLowerCase().includes(query))
+			.sort((a, b) => {
+				if (a.folder !== b.folder) return a.folder ? -1 : 1;
+				const aPrefix = a.name.toLowerCase().startsWith(query);
+				const bPrefix = b.name.toLowerCase().startsWith(query);
+				if (aPrefix !== bPrefix) return aPrefix ? -1 : 1;
+				return a.name.localeCompare(b.name);
+			})
+			.slice(0, SEARCH_RESULTS_LIMIT)
+			.map(item => ({ ...item, parentPath: getParentPath(item) }));
+
+		res.json({ items });
+	} catch (error) {
+		console.error('Error searching items:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// GET /api/items/tree?parentId=&depth= (Folders-only subtree for the sidebar)
+// -----------------------------
+const DEFAULT_TREE_DEPTH = 1;
+const MAX_TREE_DEPTH = 10;
+
+// Children are listed down to `depth` levels, deeper folders only report `hasChildren`
+function buildFolderTree(parentId, depth) {
+	return (itemsIndex[parentId] || [])
+		.filter(item => item.folder)
+		.sort((a, b) => a.name.localeCompare(b.name))
+		.map(folder => {
+			const node = {
+				id: folder.id,
+				name: folder.name,
+				parentId: folder.parentId,
+				hasChildren: (itemsIndex[folder.id] || []).some(item => item.folder),
+			};
+			if (depth > 1 && node.hasChildren) {
+				node.children = buildFolderTree(folder.id, depth - 1);
+			}
+			return node;
+		});
+}
+
+router.get('/items/tree', (req, res) => {
+	try {
+		const parentId = req.query.parentId || null;
+		const depth =
+			req.query.depth === undefined
+				? DEFAULT_TREE_DEPTH
+				: Number(req.query.depth);
+		if (!Number.isInteger(depth) || depth < 1 || depth > MAX_TREE_DEPTH) {
+			return sendError(
+				res,
+				400,
+				'INVALID_INPUT',
+				`depth must be an integer between 1 and ${MAX_TREE_DEPTH}`
+			);
+		}
+
+		if (parentId) {
+			const parent = findLiveItem(parentId);
+			if (!parent) {
+				return sendError(
+					res,
+					404,
+					'PARENT_NOT_FOUND',
+					'Parent folder not found'
+				);
+			}
+			if (!parent.folder) {
+				return sendError(res, 400, 'INVALID_PARENT', 'Parent is not a folder');
+			}
+		}
+
+		res.json({ items: buildFolderTree(parentId, depth) });
+	} catch (error) {
+		console.error('Error building folder tree:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// GET /api/items/archive?ids=<id>,<id> (ZIP of files and whole folders, streamed)
+// -----------------------------
+// Entries keep their path relative to the requested items; top-level names that
+// clash (items from different folders) are numbered like "Report (1).pdf"
+function collectArchiveEntries(item, name, entries) {
+	if (!item.folder) {
+		entries.push({
+			name,
+			modification: item.modification,
+			filePath: path.join(__dirname, 'uploads', item.filePath),
+			size: item.size || 0,
+		});
+		return;
+	}
+
+	entries.push({ name, modification: item.modification, directory: true });
+	(itemsIndex[item.id] || [])
+		.slice()
+		.sort((a, b) => a.name.localeCompare(b.name))
+		.forEach(child =>
+			collectArchiveEntries(child, `${name}/${child.name}`, entries)
+		);
+}
+
+function getArchiveName(items) {
+	if (items.length === 1) {
+		return `${items[0].name}.zip`;
+	}
+	return `files-${new Date().toISOString().slice(0, 10)}.zip`;
+}
+
+router.get('/items/archive', async (req, res) => {
+	try {
+		const ids = [
+			...new Set(
+				String(req.query.ids || '')
+					.split(',')
+					.map(id => id.trim())
+					.filter(Boolean)
+			),
+		];
+		if (ids.length === 0) {
+			return sendError(res, 400, 'INVALID_INPUT', 'ids is required');
+		}
+
+		const items = ids.map(id => findLiveItem(id));
+		const missingIds = ids.filter((id, index) => !items[index]);
+		if (missingIds.length > 0) {
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found', {
+				missingIds,
+			});
+		}
+
+		// An item inside another requested folder is already part of its subtree
+		const roots = items.filter(
+			item =>
+				!items.some(
+					other => other !== item && isDescendantOf(item.id, other.id)
+				)
+		);
+		const usedNames = new Set();
+		const entries = [];
+		roots.forEach(item => {
+			const dot = item.folder ? -1 : item.name.lastIndexOf('.');
+			const stem = dot > 0 ? item.name.slice(0, dot) : item.name;
+			const extension = dot > 0 ? item.name.slice(dot) : '';
+			let name = item.name;
+			for (let counter = 1; usedNames.has(name); counter++) {
+				name = `${stem} (${counter})${extension}`;
+			}
+			usedNames.add(name);
+			collectArchiveEntries(item, name, entries);
+		});
+
+		const totalSize = entries.reduce(
+			(sum, entry) => sum + (entry.size || 0),
+			0
+		);
+		if (entries.length > MAX_ZIP_ENTRIES || totalSize > MAX_ZIP_SIZE) {
+			return sendError(
+				res,
+				413,
+				'PAYLOAD_TOO_LARGE',
+				'Archives are limited to 4 GB and 65535 entries'
+			);
+		}
+
+		const missingFiles = entries.filter(
+			entry => !entry.directory && !fs.existsSync(entry.filePath)
+		);
+		if (missingFiles.length > 0) {
+			return sendError(res, 404, 'FILE_NOT_FOUND', 'File not found on server', {
+				missingFiles: missingFiles.map(entry => entry.name),
+			});
+		}
+
+		res.attachment(getArchiveName(roots));
+		res.type('application/zip');
+		// HEAD lets clients check an archive before handing the URL to the browser
+		if (req.method === 'HEAD') {
+			return res.end();
+		}
+
+		try {
+			await writeZip(entries, res);
+			res.end();
+		} catch (error) {
+			// Headers are gone: cut the response so the download shows as failed
+			console.error('Error streaming archive:', error);
+			res.destroy(error);
+		}
+	} catch (error) {
+		console.error('Error creating archive:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// POST /api/items/batch (Apply one operation to many items)
+// -----------------------------
+const BATCH_OPERATIONS = ['delete', 'move'];
+
+router.post('/items/batch', (req, res) => {
+	try {
+		const { operation, ids, parentId } = req.body;
+		const conflict = parseConflictStrategy(req.body.conflict);
+
+		if (
+			!BATCH_OPERATIONS.includes(operation) ||
+			!Array.isArray(ids) ||
+			ids.length === 0
+		) {
+			return sendError(
+				res,
+				400,
+				'INVALID_INPUT',
+				'A supported operation (delete, move) and a non-empty ids array are required'
+			);
+		}
+
+		if (!conflict) {
+			return sendError(res, 400, 'INVALID_INPUT', 'Unknown conflict strategy');
+		}
+
+		if (operation === 'move' && parentId === undefined) {
+			return sendError(
+				res,
+				400,
+				'INVALID_INPUT',
+				'parentId is required for the move operation'
+			);
+		}
+
+		const trashedRoots = new Set();
+		const results = ids.map(id => {
+			const item = findLiveItem(id);
+			if (!item) {
+				// Already trashed along with an ancestor from the same batch
+				const trashedWithAncestor = db.items.some(
+					i => i.id === id && trashedRoots.has(i.trashRootId)
+				);
+				// Skipped: undo restores the ancestor, which brings the item back
+				return trashedWithAncestor
+					? { id, success: true, skipped: true }
+					: {
+							id,
+							success: false,
+							code: 'NOT_FOUND',
+							message: 'Item not found',
+						};
+			}
+
+			if (operation === 'delete') {
+				moveToTrash(item);
+				trashedRoots.add(item.id);
+				return { id, success: true };
+			}
+
+			const result = updateItemWithConflict(item, { parentId }, conflict);
+			if (result.error) {
+				return {
+					id,
+					success: false,
+					code: result.error.code,
+					message: result.error.message,
+				};
+			}
+
+			return { id, success: true, item: result.item, skipped: result.skipped };
+		});
+
+		if (results.some(result => result.success)) {
+			buildItemsIndex();
+			saveDatabase();
+		}
+
+		if (results.every(result => result.success)) {
+			return res.json({ results });
+		}
+
+		sendError(
+			res,
+			207,
+			'PARTIAL_SUCCESS',
+			'Some items could not be processed',
+			{ results }
+		);
+	} catch (error) {
+		console.error('Error processing batch:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
 // -----------------------------
 // POST /api/items (Create folder or multiple files)
 // -----------------------------
-router.post('/items', upload.array('files', 10), (req, res) => {
+router.post('/items', keepClient(upload.array('files', 10)), (req, res) => {
 	try {
 		const { name, folder, parentId } = req.body;
+		const conflict = parseConflictStrategy(
+			req.body.conflict,
+			UPLOAD_CONFLICT_STRATEGIES
+		);
+
+		if (!conflict) {
+			(req.files || []).forEach(file => fs.rmSync(file.path, { force: true }));
+			return sendError(res, 400, 'INVALID_INPUT', 'Unknown conflict strategy');
+		}
 
 		if (req.files && req.files.length > 0) {
 			const newItems = [];
 			const errors = [];
+			const skipped = [];
 
 			req.files.forEach((file, index) => {
 				try {
-					const duplicate = db.items.find(
-						item =>
-							item.parentId === (parentId || null) &&
-							item.name === file.originalname &&
-							item.folder === false
+					const resolution = resolveUploadConflict(
+						parentId,
+						file.originalname,
+						conflict
 					);
 
-					if (duplicate) {
-						errors.push({
-							filename: file.originalname,
-							error: 'DUPLICATE',
-							message: 'A file with this name already exists in this location',
-						});
+					if (resolution.action === 'fail' || resolution.action === 'skip') {
+						fs.rmSync(file.path, { force: true });
+						if (resolution.action === 'skip') {
+							skipped.push(file.originalname);
+						} else {
+							errors.push({
+								filename: file.originalname,
+								code: 'DUPLICATE_NAME',
+								message:
+									'A file with this name already exists in this location',
+							});
+						}
 						return;
 					}
 
-					const newItem = {
-						id: uuidv4(),
-						parentId: parentId || null,
-						name: file.originalname,
-						folder: false,
-						filePath: file.filename,
-						size: file.size,
-						mimeType: file.mimetype,
-						creation: new Date().toISOString(),
-						modification: new Date().toISOString(),
-					};
-
-					db.items.push(newItem);
-					newItems.push(newItem);
+					newItems.push(
+						storeUploadedFile(resolution, parentId, {
+							filePath: file.filename,
+							size: file.size,
+							mimeType: file.mimetype,
+							uploadedBy: getUploader(req),
+						})
+					);
 				} catch (fileError) {
 					errors.push({
 						filename: file.originalname,
-						error: 'PROCESSING_ERROR',
+						code: 'PROCESSING_ERROR',
 						message: 'Failed to process file',
 					});
 				}
@@ -98,51 +964,73 @@ router.post('/items', upload.array('files', 10), (req, res) => {
 				saveDatabase();
 			}
 
-			if (errors.length > 0 && newItems.length === 0) {
-				return res.status(400).json({
-					code: 'UPLOAD_FAILED',
-					desc: 'All files failed to upload',
-					errors: errors,
-				});
+			if (errors.length > 0 && newItems.length === 0 && skipped.length === 0) {
+				return sendError(
+					res,
+					400,
+					'UPLOAD_FAILED',
+					'All files failed to upload',
+					{ errors }
+				);
 			} else if (errors.length > 0) {
-				return res.status(207).json({
-					code: 'PARTIAL_SUCCESS',
-					message: 'Some files were uploaded successfully',
-					successful: newItems,
-					failed: errors,
-				});
+				return sendError(
+					res,
+					207,
+					'PARTIAL_SUCCESS',
+					`${errors.length} of ${req.files.length} files could not be uploaded`,
+					{ items: newItems, errors, skipped }
+				);
 			} else {
 				return res.status(201).json({
 					items: newItems,
+					skipped,
 				});
 			}
 		}
 
 		if (!name || folder === undefined) {
-			return res.status(400).json({
-				code: 'INVALID_INPUT',
-				desc: 'Name and folder are required for folder creation',
-			});
+			return sendError(
+				res,
+				400,
+				'INVALID_INPUT',
+				'Name and folder are required for folder creation'
+			);
+		}
+
+		if (conflict === 'new-version') {
+			return sendError(res, 400, 'INVALID_INPUT', 'Folders have no versions');
 		}
 
-		const duplicateFolder = db.items.find(
+		const duplicateFolder = liveItems().find(
 			item =>
 				item.parentId === (parentId || null) &&
 				item.name === name &&
 				item.folder === true
 		);
 
+		let folderName = name.trim();
 		if (duplicateFolder) {
-			return res.status(409).json({
-				code: 'DUPLICATE_FOLDER',
-				desc: 'A folder with this name already exists in this location',
-			});
+			if (conflict === 'skip') {
+				return res.json({ item: duplicateFolder, skipped: true });
+			}
+			if (conflict === 'replace') {
+				moveToTrash(duplicateFolder);
+			} else if (conflict === 'keep-both') {
+				folderName = getUniqueName(parentId, folderName, true);
+			} else {
+				return sendError(
+					res,
+					409,
+					'DUPLICATE_NAME',
+					'A folder with this name already exists in this location'
+				);
+			}
 		}
 
 		const newItem = {
 			id: uuidv4(),
 			parentId: parentId || null,
-			name: name.trim(),
+			name: folderName,
 			folder: folder === 'true' || folder === true,
 			creation: new Date().toISOString(),
 			modification: new Date().toISOString(),
@@ -151,16 +1039,19 @@ router.post('/items', upload.array('files', 10), (req, res) => {
 		db.items.push(newItem);
 		buildItemsIndex();
 		saveDatabase();
+		publishItemEvent('created', newItem);
 
 		res.status(201).json({
 			item: newItem,
 		});
 	} catch (error) {
 		console.error('Error creating item:', error);
-		res.status(500).json({
-			code: 'SERVER_ERROR',
-			desc: 'Internal server error while processing request',
-		});
+		sendError(
+			res,
+			500,
+			'SERVER_ERROR',
+			'Internal server error while processing request'
+		);
 	}
 });
 
@@ -169,75 +1060,102 @@ router.post('/items', upload.array('files', 10), (req, res) => {
 // -----------------------------
 router.get('/items/:itemId', (req, res) => {
 	try {
-		const item = db.items.find(i => i.id === req.params.itemId);
+		const item = findLiveItem(req.params.itemId);
 		if (!item) {
-			return res
-				.status(404)
-				.json({ code: 'NOT_FOUND', desc: 'Item not found' });
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found');
 		}
 
 		if (item.folder) {
-			return res
-				.status(400)
-				.json({ code: 'IS_FOLDER', desc: 'Cannot download a folder' });
+			return sendError(res, 400, 'IS_FOLDER', 'Cannot download a folder');
 		}
 
 		const filePath = path.join(__dirname, 'uploads', item.filePath);
 		if (!fs.existsSync(filePath)) {
-			return res
-				.status(404)
-				.json({ code: 'FILE_NOT_FOUND', desc: 'File not found on server' });
+			return sendError(res, 404, 'FILE_NOT_FOUND', 'File not found on server');
 		}
 
 		res.download(filePath, item.name);
 	} catch (error) {
 		console.error('Error downloading file:', error);
-		res
-			.status(500)
-			.json({ code: 'SERVER_ERROR', desc: 'Internal server error' });
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
 	}
 });
 
 // -----------------------------
-// DELETE /api/items/:itemId
+// GET /api/items/:itemId/thumbnail (Downscaled image preview)
 // -----------------------------
-router.delete('/items/:itemId', (req, res) => {
+router.get('/items/:itemId/thumbnail', async (req, res) => {
 	try {
-		const index = db.items.findIndex(i => i.id === req.params.itemId);
-		if (index === -1) {
-			return res
-				.status(404)
-				.json({ code: 'NOT_FOUND', desc: 'Item not found' });
+		const item = findLiveItem(req.params.itemId);
+		if (!item) {
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found');
 		}
 
-		const item = db.items[index];
-
 		if (item.folder) {
-			const hasChildren = db.items.some(i => i.parentId === item.id);
-			if (hasChildren) {
-				return res.status(400).json({
-					code: 'FOLDER_NOT_EMPTY',
-					desc: 'Cannot delete folder that contains items',
-				});
-			}
+			return sendError(res, 400, 'IS_FOLDER', 'Folders have no thumbnail');
 		}
 
-		if (!item.folder && item.filePath) {
-			const filePath = path.join(__dirname, 'uploads', item.filePath);
-			if (fs.existsSync(filePath)) {
-				fs.unlinkSync(filePath);
-			}
+		if (!THUMBNAIL_MIME_TYPES.includes(item.mimeType)) {
+			return sendError(
+				res,
+				415,
+				'UNSUPPORTED_TYPE',
+				'No thumbnail available for this file type'
+			);
+		}
+
+		const size = parseThumbnailSize(req.query.size);
+		if (!size) {
+			return sendError(
+				res,
+				400,
+				'INVALID_INPUT',
+				'Size must be a positive integer'
+			);
+		}
+
+		if (!fs.existsSync(path.join(__dirname, 'uploads', item.filePath))) {
+			return sendError(res, 404, 'FILE_NOT_FOUND', 'File not found on server');
+		}
+
+		let thumbnailPath;
+		try {
+			thumbnailPath = await ensureThumbnail(item, size);
+		} catch (error) {
+			console.error('Error generating thumbnail:', error);
+			return sendError(
+				res,
+				422,
+				'PROCESSING_ERROR',
+				'The image could not be processed'
+			);
 		}
 
-		db.items.splice(index, 1);
+		// Clients add the item modification date to the URL, so the response can be cached
+		res.sendFile(thumbnailPath, { maxAge: '7d' });
+	} catch (error) {
+		console.error('Error serving thumbnail:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// DELETE /api/items/:itemId (Move item and its subtree to the trash)
+// -----------------------------
+router.delete('/items/:itemId', (req, res) => {
+	try {
+		const item = findLiveItem(req.params.itemId);
+		if (!item) {
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found');
+		}
+
+		moveToTrash(item);
 		buildItemsIndex();
 		saveDatabase();
 		res.status(204).send();
 	} catch (error) {
 		console.error('Error deleting item:', error);
-		res
-			.status(500)
-			.json({ code: 'SERVER_ERROR', desc: 'Internal server error' });
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
 	}
 });
 
@@ -246,68 +1164,286 @@ router.delete('/items/:itemId', (req, res) => {
 // -----------------------------
 router.patch('/items/:itemId', (req, res) => {
 	try {
-		const item = db.items.find(i => i.id === req.params.itemId);
+		const item = findLiveItem(req.params.itemId);
 		if (!item) {
-			return res
-				.status(404)
-				.json({ code: 'NOT_FOUND', desc: 'Item not found' });
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found');
 		}
 
-		if (req.body.parentId !== undefined) {
-			if (req.body.parentId === item.id) {
-				return res.status(400).json({
-					code: 'INVALID_PARENT',
-					desc: 'Item cannot be its own parent',
-				});
-			}
+		const { name, parentId } = req.body;
+		const conflict = parseConflictStrategy(req.body.conflict);
+		if (!conflict) {
+			return sendError(res, 400, 'INVALID_INPUT', 'Unknown conflict strategy');
+		}
 
-			if (
-				req.body.parentId &&
-				!db.items.some(i => i.id === req.body.parentId)
-			) {
-				return res.status(404).json({
-					code: 'PARENT_NOT_FOUND',
-					desc: 'Parent item not found',
-				});
-			}
+		const result = updateItemWithConflict(item, { name, parentId }, conflict);
+		if (result.error) {
+			const { status, code, message } = result.error;
+			return sendError(res, status, code, message);
+		}
 
-			item.parentId = req.body.parentId;
+		if (!result.skipped) {
+			buildItemsIndex();
+			saveDatabase();
 		}
+		res.json(item);
+	} catch (error) {
+		console.error('Error updating item:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
 
-		if (req.body.name !== undefined) {
-			if (!req.body.name.trim()) {
-				return res.status(400).json({
-					code: 'INVALID_NAME',
-					desc: 'Name cannot be empty',
-				});
-			}
+// -----------------------------
+// POST /api/items/:itemId/copy (Copy a file or a whole folder)
+// -----------------------------
+// Copies get fresh ids and timestamps; files get their own copy of the stored blob
+function copyItemTree(source, parentId, name, now, copies) {
+	const copy = {
+		id: uuidv4(),
+		parentId,
+		name,
+		folder: source.folder,
+		creation: now,
+		modification: now,
+	};
+	if (!source.folder) {
+		copy.filePath = crypto.randomBytes(16).toString('hex');
+		copy.size = source.size;
+		copy.mimeType = source.mimeType;
+		fs.copyFileSync(
+			path.join(__dirname, 'uploads', source.filePath),
+			path.join(__dirname, 'uploads', copy.filePath),
+			fs.constants.COPYFILE_FICLONE
+		);
+	}
+	copies.push(copy);
+
+	if (source.folder) {
+		(itemsIndex[source.id] || []).forEach(child =>
+			copyItemTree(child, copy.id, child.name, now, copies)
+		);
+	}
+	return copy;
+}
+
+router.post('/items/:itemId/copy', (req, res) => {
+	try {
+		const item = findLiveItem(req.params.itemId);
+		if (!item) {
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found');
+		}
+
+		const conflict = parseConflictStrategy(req.body.conflict);
+		if (!conflict) {
+			return sendError(res, 400, 'INVALID_INPUT', 'Unknown conflict strategy');
+		}
 
-			const siblingExists = db.items.some(
-				i =>
-					i.parentId === item.parentId &&
-					i.name === req.body.name &&
-					i.id !== item.id
+		// Without a parentId the copy lands next to the original
+		const parentId =
+			req.body.parentId !== undefined
+				? req.body.parentId || null
+				: item.parentId;
+		const parent = parentId ? findLiveItem(parentId) : null;
+		if (parentId && !parent) {
+			return sendError(res, 404, 'PARENT_NOT_FOUND', 'Parent item not found');
+		}
+		if (parent && !parent.folder) {
+			return sendError(res, 400, 'INVALID_PARENT', 'Parent must be a folder');
+		}
+		if (item.folder && isDescendantOf(parentId, item.id)) {
+			return sendError(
+				res,
+				400,
+				'INVALID_PARENT',
+				'A folder cannot be copied into itself or one of its subfolders'
 			);
+		}
 
-			if (siblingExists) {
-				return res.status(409).json({
-					code: 'DUPLICATE_NAME',
-					desc: 'An item with this name already exists in this location',
-				});
+		let name = item.name;
+		const sibling = findSibling(parentId, name);
+		if (sibling) {
+			if (conflict === 'skip') {
+				return res.json({ item: sibling, skipped: true });
+			}
+			if (conflict === 'fail') {
+				return sendError(
+					res,
+					409,
+					'DUPLICATE_NAME',
+					'An item with this name already exists in this location'
+				);
 			}
+			if (conflict === 'keep-both') {
+				name = getUniqueName(parentId, name, item.folder);
+			} else if (isDescendantOf(item.id, sibling.id)) {
+				return sendError(
+					res,
+					400,
+					'INVALID_PARENT',
+					'An item cannot replace itself or a folder that contains it'
+				);
+			}
+		}
 
-			item.name = req.body.name;
+		const missingFiles = getSubtree(item).filter(
+			i =>
+				!i.trashedAt &&
+				!i.folder &&
+				!fs.existsSync(path.join(__dirname, 'uploads', i.filePath))
+		);
+		if (missingFiles.length > 0) {
+			return sendError(res, 404, 'FILE_NOT_FOUND', 'File not found on server', {
+				missingFiles: missingFiles.map(i => i.name),
+			});
 		}
 
-		item.modification = new Date().toISOString();
+		const copies = [];
+		let copy;
+		try {
+			copy = copyItemTree(
+				item,
+				parentId,
+				name,
+				new Date().toISOString(),
+				copies
+			);
+		} catch (copyError) {
+			// Leave no orphaned blobs behind when the disk refuses a copy
+			copies.forEach(removeStoredFile);
+			throw copyError;
+		}
+
+		if (sibling && conflict === 'replace') {
+			moveToTrash(sibling);
+		}
+		db.items.push(...copies);
 		buildItemsIndex();
 		saveDatabase();
-		res.json(item);
+		publishItemEvent('created', copy);
+
+		res.status(201).json({ item: copy });
 	} catch (error) {
-		console.error('Error updating item:', error);
-		res
-			.status(500)
-			.json({ code: 'SERVER_ERROR', desc: 'Internal server error' });
+		console.error('Error copying item:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// GET /api/items/:itemId/versions (Version history of a file, newest first)
+// -----------------------------
+function findVersion(item, value) {
+	const number = Number(value);
+	return getVersions(item).find(version => version.version === number);
+}
+
+function findVersionedFile(req, res) {
+	const item = findLiveItem(req.params.itemId);
+	if (!item) {
+		sendError(res, 404, 'NOT_FOUND', 'Item not found');
+		return null;
+	}
+	if (item.folder) {
+		sendError(res, 400, 'IS_FOLDER', 'Folders have no versions');
+		return null;
+	}
+	return item;
+}
+
+router.get('/items/:itemId/versions', (req, res) => {
+	try {
+		const item = findVersionedFile(req, res);
+		if (!item) return;
+
+		const versions = getVersions(item);
+		const head = versions[versions.length - 1];
+		res.json({
+			items: versions
+				.map(({ itemId, filePath, ...version }) => ({
+					...version,
+					current: version.version === head.version,
+				}))
+				.reverse(),
+		});
+	} catch (error) {
+		console.error('Error listing versions:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// GET /api/items/:itemId/versions/:version (Download a version)
+// -----------------------------
+router.get('/items/:itemId/versions/:version', (req, res) => {
+	try {
+		const item = findVersionedFile(req, res);
+		if (!item) return;
+
+		const version = findVersion(item, req.params.version);
+		if (!version) {
+			return sendError(res, 404, 'NOT_FOUND', 'Version not found');
+		}
+
+		const filePath = path.join(__dirname, 'uploads', version.filePath);
+		if (!fs.existsSync(filePath)) {
+			return sendError(res, 404, 'FILE_NOT_FOUND', 'File not found on server');
+		}
+
+		res.download(filePath, item.name);
+	} catch (error) {
+		console.error('Error downloading version:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// POST /api/items/:itemId/versions/:version/restore (Make an earlier version current)
+// -----------------------------
+// History is never rewritten: the restored content becomes a new head version
+router.post('/items/:itemId/versions/:version/restore', (req, res) => {
+	try {
+		const item = findVersionedFile(req, res);
+		if (!item) return;
+
+		const version = findVersion(item, req.params.version);
+		if (!version) {
+			return sendError(res, 404, 'NOT_FOUND', 'Version not found');
+		}
+		if (version.version === (item.version || 1)) {
+			return sendError(
+				res,
+				400,
+				'INVALID_INPUT',
+				'This version is already the current one'
+			);
+		}
+
+		const sourcePath = path.join(__dirname, 'uploads', version.filePath);
+		if (!fs.existsSync(sourcePath)) {
+			return sendError(res, 404, 'FILE_NOT_FOUND', 'File not found on server');
+		}
+
+		// Each version owns its blob, so replacing the head never touches older ones
+		const fileName = crypto.randomBytes(16).toString('hex');
+		fs.copyFileSync(
+			sourcePath,
+			path.join(__dirname, 'uploads', fileName),
+			fs.constants.COPYFILE_FICLONE
+		);
+		addVersion(
+			item,
+			{
+				filePath: fileName,
+				size: version.size,
+				mimeType: version.mimeType,
+				uploadedBy: getUploader(req),
+			},
+			{ restoredFrom: version.version }
+		);
+		saveDatabase();
+
+		res.status(201).json(item);
+	} catch (error) {
+		console.error('Error restoring version:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
 	}
 });
 
@@ -318,12 +1454,10 @@ router.get('/items/:itemId/path', (req, res) => {
 	try {
 		const itemId = req.params.itemId;
 		const pathItems = [];
-		let current = db.items.find(i => i.id === itemId);
+		let current = findLiveItem(itemId);
 
 		if (!current) {
-			return res
-				.status(404)
-				.json({ code: 'NOT_FOUND', desc: 'Item not found' });
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found');
 		}
 
 		while (current) {
@@ -336,9 +1470,381 @@ router.get('/items/:itemId/path', (req, res) => {
 		res.json({ items: pathItems });
 	} catch (error) {
 		console.error('Error getting item path:', error);
-		res
-			.status(500)
-			.json({ code: 'SERVER_ERROR', desc: 'Internal server error' });
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// GET /api/trash (List trashed items)
+// -----------------------------
+router.get('/trash', (req, res) => {
+	const items = db.items
+		.filter(item => item.trashRootId === item.id)
+		.sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+	res.json({ items });
+});
+
+// -----------------------------
+// POST /api/trash/:itemId/restore (Restore item to its original location)
+// -----------------------------
+router.post('/trash/:itemId/restore', (req, res) => {
+	try {
+		const item = db.items.find(
+			i => i.id === req.params.itemId && i.trashRootId === i.id
+		);
+		if (!item) {
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found in trash');
+		}
+
+		const originalPath = item.originalPath || [];
+		const directParent = originalPath.length
+			? findLiveItem(originalPath[originalPath.length - 1].id)
+			: null;
+		const createdFolders = [];
+		let parentId = directParent ? directParent.id : null;
+
+		// Walk the original path, reusing live folders and recreating missing ones
+		if (originalPath.length && !directParent) {
+			originalPath.forEach(segment => {
+				const existing =
+					findLiveItem(segment.id) ||
+					liveItems().find(
+						i => i.folder && i.parentId === parentId && i.name === segment.name
+					);
+				if (existing) {
+					parentId = existing.id;
+					return;
+				}
+
+				const folder = {
+					id: uuidv4(),
+					parentId,
+					name: segment.name,
+					folder: true,
+					creation: new Date().toISOString(),
+					modification: new Date().toISOString(),
+				};
+				createdFolders.push(folder);
+				parentId = folder.id;
+			});
+		}
+
+		const siblingExists = liveItems().some(
+			i => i.parentId === parentId && i.name === item.name
+		);
+		if (siblingExists) {
+			return sendError(
+				res,
+				409,
+				'DUPLICATE_NAME',
+				'An item with this name already exists in the original location'
+			);
+		}
+
+		db.items.push(...createdFolders);
+		db.items
+			.filter(i => i.trashRootId === item.id)
+			.forEach(i => {
+				delete i.trashedAt;
+				delete i.trashRootId;
+			});
+		delete item.originalPath;
+		item.parentId = parentId;
+		item.modification = new Date().toISOString();
+
+		buildItemsIndex();
+		saveDatabase();
+		[...createdFolders, item].forEach(restored =>
+			publishItemEvent('created', restored)
+		);
+		res.json(item);
+	} catch (error) {
+		console.error('Error restoring item:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// DELETE /api/trash/:itemId (Permanently delete a trashed item)
+// -----------------------------
+router.delete('/trash/:itemId', (req, res) => {
+	try {
+		const item = db.items.find(
+			i => i.id === req.params.itemId && i.trashRootId === i.id
+		);
+		if (!item) {
+			return sendError(res, 404, 'NOT_FOUND', 'Item not found in trash');
+		}
+
+		const purged = db.items.filter(i => i.trashRootId === item.id);
+		purged.forEach(removeStoredFile);
+		db.items = db.items.filter(i => i.trashRootId !== item.id);
+
+		saveDatabase();
+		res.status(204).send();
+	} catch (error) {
+		console.error('Error purging item:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// DELETE /api/trash (Empty trash)
+// -----------------------------
+router.delete('/trash', (req, res) => {
+	try {
+		db.items.filter(i => i.trashedAt).forEach(removeStoredFile);
+		db.items = liveItems();
+
+		saveDatabase();
+		res.status(204).send();
+	} catch (error) {
+		console.error('Error emptying trash:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// POST /api/uploads (Create a chunked upload session)
+// -----------------------------
+router.post('/uploads', (req, res) => {
+	try {
+		const { name, size, mimeType, parentId, chunkSize } = req.body;
+		const conflict = parseConflictStrategy(
+			req.body.conflict,
+			UPLOAD_CONFLICT_STRATEGIES
+		);
+
+		if (!conflict) {
+			return sendError(res, 400, 'INVALID_INPUT', 'Unknown conflict strategy');
+		}
+
+		if (!name || !Number.isInteger(size) || size <= 0) {
+			return sendError(
+				res,
+				400,
+				'INVALID_INPUT',
+				'A file name and a positive size are required'
+			);
+		}
+
+		if (parentId) {
+			const parent = findLiveItem(parentId);
+			if (!parent || !parent.folder) {
+				return sendError(
+					res,
+					404,
+					'PARENT_NOT_FOUND',
+					'Parent folder not found'
+				);
+			}
+		}
+
+		// Other strategies are applied when the upload is finalized
+		if (conflict === 'fail' && findDuplicateFile(parentId, name)) {
+			return sendError(
+				res,
+				409,
+				'DUPLICATE_NAME',
+				'A file with this name already exists in this location'
+			);
+		}
+
+		const effectiveChunkSize = Math.min(
+			Number.isInteger(chunkSize) && chunkSize > 0
+				? chunkSize
+				: DEFAULT_CHUNK_SIZE,
+			MAX_CHUNK_SIZE
+		);
+		const session = {
+			uploadId: uuidv4(),
+			name,
+			size,
+			mimeType: mimeType || 'application/octet-stream',
+			parentId: parentId || null,
+			conflict,
+			chunkSize: effectiveChunkSize,
+			totalChunks: Math.ceil(size / effectiveChunkSize),
+			createdAt: new Date().toISOString(),
+		};
+
+		const dir = getSessionDir(session.uploadId);
+		fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(path.join(dir, 'session.json'), JSON.stringify(session));
+
+		res.status(201).json(toSessionResponse(session));
+	} catch (error) {
+		console.error('Error creating upload session:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// GET /api/uploads/:uploadId (Session status and received chunks)
+// -----------------------------
+router.get('/uploads/:uploadId', (req, res) => {
+	try {
+		const session = readUploadSession(req.params.uploadId);
+		if (!session) {
+			return sendError(res, 404, 'NOT_FOUND', 'Upload session not found');
+		}
+
+		res.json(toSessionResponse(session));
+	} catch (error) {
+		console.error('Error reading upload session:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// PUT /api/uploads/:uploadId/chunks/:index (Store one chunk, raw body)
+// -----------------------------
+router.put(
+	'/uploads/:uploadId/chunks/:index',
+	express.raw({ type: 'application/octet-stream', limit: MAX_CHUNK_SIZE }),
+	(req, res) => {
+		try {
+			const session = readUploadSession(req.params.uploadId);
+			if (!session) {
+				return sendError(res, 404, 'NOT_FOUND', 'Upload session not found');
+			}
+
+			const index = Number(req.params.index);
+			if (
+				!Number.isInteger(index) ||
+				index < 0 ||
+				index >= session.totalChunks
+			) {
+				return sendError(res, 400, 'INVALID_CHUNK', 'Chunk index out of range');
+			}
+
+			const expectedSize =
+				index === session.totalChunks - 1
+					? session.size - index * session.chunkSize
+					: session.chunkSize;
+			if (!Buffer.isBuffer(req.body) || req.body.length !== expectedSize) {
+				return sendError(
+					res,
+					400,
+					'INVALID_CHUNK',
+					`Chunk ${index} must be ${expectedSize} bytes`
+				);
+			}
+
+			// Write then rename so an interrupted request never leaves a partial chunk
+			const dir = getSessionDir(session.uploadId);
+			const chunkPath = path.join(dir, `${index}.part`);
+			fs.writeFileSync(`${chunkPath}.tmp`, req.body);
+			fs.renameSync(`${chunkPath}.tmp`, chunkPath);
+
+			res.json({ index, receivedChunks: getReceivedChunks(session) });
+		} catch (error) {
+			console.error('Error storing chunk:', error);
+			sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+		}
+	}
+);
+
+// -----------------------------
+// POST /api/uploads/:uploadId/complete (Assemble chunks into an item)
+// -----------------------------
+router.post('/uploads/:uploadId/complete', (req, res) => {
+	try {
+		const session = readUploadSession(req.params.uploadId);
+		if (!session) {
+			return sendError(res, 404, 'NOT_FOUND', 'Upload session not found');
+		}
+
+		// A strategy sent now wins over the session's, so a retry after 409 keeps the chunks
+		const conflict =
+			req.body?.conflict === undefined
+				? session.conflict
+				: parseConflictStrategy(req.body.conflict, UPLOAD_CONFLICT_STRATEGIES);
+		if (!conflict) {
+			return sendError(res, 400, 'INVALID_INPUT', 'Unknown conflict strategy');
+		}
+
+		const received = new Set(getReceivedChunks(session));
+		const missingChunks = [];
+		for (let i = 0; i < session.totalChunks; i++) {
+			if (!received.has(i)) missingChunks.push(i);
+		}
+		if (missingChunks.length > 0) {
+			return sendError(
+				res,
+				409,
+				'INCOMPLETE_UPLOAD',
+				'Some chunks have not been received',
+				{ missingChunks }
+			);
+		}
+
+		if (session.parentId && !findLiveItem(session.parentId)) {
+			return sendError(res, 404, 'PARENT_NOT_FOUND', 'Parent folder not found');
+		}
+
+		const resolution = resolveUploadConflict(
+			session.parentId,
+			session.name,
+			conflict
+		);
+		if (resolution.action === 'fail') {
+			return sendError(
+				res,
+				409,
+				'DUPLICATE_NAME',
+				'A file with this name already exists in this location'
+			);
+		}
+
+		const dir = getSessionDir(session.uploadId);
+		if (resolution.action === 'skip') {
+			fs.rmSync(dir, { recursive: true, force: true });
+			return res.json({ items: [], skipped: [session.name] });
+		}
+
+		const fileName = crypto.randomBytes(16).toString('hex');
+		const fd = fs.openSync(path.join(__dirname, 'uploads', fileName), 'w');
+		try {
+			for (let i = 0; i < session.totalChunks; i++) {
+				fs.writeSync(fd, fs.readFileSync(path.join(dir, `${i}.part`)));
+			}
+		} finally {
+			fs.closeSync(fd);
+		}
+		fs.rmSync(dir, { recursive: true, force: true });
+
+		const item = storeUploadedFile(resolution, session.parentId, {
+			filePath: fileName,
+			size: session.size,
+			mimeType: session.mimeType,
+			uploadedBy: getUploader(req),
+		});
+		buildItemsIndex();
+		saveDatabase();
+
+		res.status(201).json({ items: [item] });
+	} catch (error) {
+		console.error('Error completing upload:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
+	}
+});
+
+// -----------------------------
+// DELETE /api/uploads/:uploadId (Abort a chunked upload)
+// -----------------------------
+router.delete('/uploads/:uploadId', (req, res) => {
+	try {
+		const dir = getSessionDir(req.params.uploadId);
+		if (!readUploadSession(req.params.uploadId)) {
+			return sendError(res, 404, 'NOT_FOUND', 'Upload session not found');
+		}
+
+		fs.rmSync(dir, { recursive: true, force: true });
+		res.status(204).send();
+	} catch (error) {
+		console.error('Error aborting upload:', error);
+		sendError(res, 500, 'SERVER_ERROR', 'Internal server error');
 	}
 });
 
@@ -15,9 +15,29 @@ app.use(express.urlencoded({ extended: true }));
 // routes
 app.use('/api', itemsRouter);
 
+// Errors thrown by middlewares (multer, body parsers) use the same envelope as the routes
 app.use((err, req, res, next) => {
+	if (err.name === 'MulterError') {
+		return res
+			.status(400)
+			.json({ code: 'UPLOAD_FAILED', message: err.message });
+	}
+	if (err.type === 'entity.parse.failed') {
+		return res
+			.status(400)
+			.json({ code: 'INVALID_INPUT', message: 'Malformed request body' });
+	}
+	if (err.type === 'entity.too.large') {
+		return res.status(413).json({
+			code: 'PAYLOAD_TOO_LARGE',
+			message: 'Request body is too large',
+		});
+	}
+
 	console.error(err.stack);
-	res.status(500).json({ error: 'Internal Server Error' });
+	res
+		.status(500)
+		.json({ code: 'SERVER_ERROR', message: 'Internal Server Error' });
 });
 
 app.listen(PORT, () => {
@@ -0,0 +1,182 @@
+const fs = require('fs');
+const zlib = require('zlib');
+const { pipeline } = require('stream');
+
+// Minimal streaming ZIP writer: entries are deflated one at a time straight into
+// the output, sizes and CRCs follow each entry in a data descriptor, so nothing
+// is buffered beyond a stream chunk. No ZIP64: callers keep archives under the
+// classic limits (4 GB, 65535 entries).
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const VERSION = 20; // 2.0: deflate and directories
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const DIRECTORY_ATTRIBUTES = 0x10;
+
+// zlib.crc32 only exists from Node 20.15 / 22.2
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) {
+		value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	}
+	return value >>> 0;
+});
+
+// Continues `previous` (the CRC of the bytes before), so chunks can be fed in order
+function crc32(bytes, previous = 0) {
+	let crc = (previous ^ 0xffffffff) >>> 0;
+	for (const byte of bytes) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(value) {
+	const date = new Date(value);
+	const valid = !isNaN(date.getTime()) && date.getFullYear() >= 1980;
+	const d = valid ? date : new Date(1980, 0, 1);
+	return {
+		time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+		date:
+			((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+	};
+}
+
+function localHeader(entry) {
+	const header = Buffer.alloc(30);
+	header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+	header.writeUInt16LE(VERSION, 4);
+	header.writeUInt16LE(entry.flags, 6);
+	header.writeUInt16LE(entry.method, 8);
+	header.writeUInt16LE(entry.dosTime.time, 10);
+	header.writeUInt16LE(entry.dosTime.date, 12);
+	// CRC and sizes (offsets 14-25) stay zero: they follow in the data descriptor
+	header.writeUInt16LE(entry.name.length, 26);
+	return Buffer.concat([header, entry.name]);
+}
+
+function dataDescriptor(entry) {
+	const descriptor = Buffer.alloc(16);
+	descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+	descriptor.writeUInt32LE(entry.crc, 4);
+	descriptor.writeUInt32LE(entry.compressedSize, 8);
+	descriptor.writeUInt32LE(entry.size, 12);
+	return descriptor;
+}
+
+function centralHeader(entry) {
+	const header = Buffer.alloc(46);
+	header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+	header.writeUInt16LE(VERSION, 4);
+	header.writeUInt16LE(VERSION, 6);
+	header.writeUInt16LE(entry.flags, 8);
+	header.writeUInt16LE(entry.method, 10);
+	header.writeUInt16LE(entry.dosTime.time, 12);
+	header.writeUInt16LE(entry.dosTime.date, 14);
+	header.writeUInt32LE(entry.crc, 16);
+	header.writeUInt32LE(entry.compressedSize, 20);
+	header.writeUInt32LE(entry.size, 24);
+	header.writeUInt16LE(entry.name.length, 28);
+	header.writeUInt32LE(entry.directory ? DIRECTORY_ATTRIBUTES : 0, 38);
+	header.writeUInt32LE(entry.offset, 42);
+	return Buffer.concat([header, entry.name]);
+}
+
+function endOfCentralDirectory(count, size, offset) {
+	const record = Buffer.alloc(22);
+	record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+	record.writeUInt16LE(count, 8);
+	record.writeUInt16LE(count, 10);
+	record.writeUInt32LE(size, 12);
+	record.writeUInt32LE(offset, 16);
+	return record;
+}
+
+// Rejects when the client goes away, so an aborted download stops reading files
+function waitForDrain(output) {
+	return new Promise((resolve, reject) => {
+		const onDrain = () => {
+			output.off('close', onClose);
+			resolve();
+		};
+		const onClose = () => {
+			output.off('drain', onDrain);
+			reject(new Error('Output closed before the archive was complete'));
+		};
+		output.once('drain', onDrain);
+		output.once('close', onClose);
+	});
+}
+
+/**
+ * Write `entries` ({ name, modification, filePath } for files, { name, modification,
+ * directory: true } for folders, names relative with `/` separators) as a ZIP archive.
+ * Resolves once the archive is complete; respects backpressure of `output`.
+ */
+async function writeZip(entries, output) {
+	let offset = 0;
+	const written = [];
+
+	const write = async chunk => {
+		if (output.destroyed) {
+			throw new Error('Output closed before the archive was complete');
+		}
+		offset += chunk.length;
+		if (!output.write(chunk)) {
+			await waitForDrain(output);
+		}
+	};
+
+	for (const source of entries) {
+		const entry = {
+			name: Buffer.from(source.directory ? `${source.name}/` : source.name),
+			directory: !!source.directory,
+			flags: source.directory
+				? FLAG_UTF8_NAMES
+				: FLAG_UTF8_NAMES | FLAG_DATA_DESCRIPTOR,
+			method: source.directory ? METHOD_STORE : METHOD_DEFLATE,
+			dosTime: toDosDateTime(source.modification),
+			offset,
+			crc: 0,
+			size: 0,
+			compressedSize: 0,
+		};
+		await write(localHeader(entry));
+
+		if (!entry.directory) {
+			const input = fs.createReadStream(source.filePath);
+			input.on('data', chunk => {
+				entry.crc = crc32(chunk, entry.crc);
+				entry.size += chunk.length;
+			});
+			const deflated = pipeline(input, zlib.createDeflateRaw(), () => {});
+			for await (const chunk of deflated) {
+				entry.compressedSize += chunk.length;
+				await write(chunk);
+			}
+			await write(dataDescriptor(entry));
+		}
+		written.push(entry);
+	}
+
+	const centralDirectoryOffset = offset;
+	for (const entry of written) {
+		await write(centralHeader(entry));
+	}
+	await write(
+		endOfCentralDirectory(
+			written.length,
+			offset - centralDirectoryOffset,
+			centralDirectoryOffset
+		)
+	);
+}
+
+module.exports = { writeZip, MAX_ZIP_SIZE, MAX_ZIP_ENTRIES };
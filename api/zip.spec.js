@@ -0,0 +1,157 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+const { Writable } = require('stream');
+const { writeZip } = require('./zip');
+
+let directory;
+
+before(() => {
+	directory = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-spec-'));
+});
+
+after(() => {
+	fs.rmSync(directory, { recursive: true, force: true });
+});
+
+function createFile(name, content) {
+	const filePath = path.join(directory, name);
+	fs.writeFileSync(filePath, content);
+	return filePath;
+}
+
+async function zip(entries) {
+	const chunks = [];
+	const output = new Writable({
+		write(chunk, encoding, callback) {
+			chunks.push(chunk);
+			callback();
+		},
+	});
+	await writeZip(entries, output);
+	return Buffer.concat(chunks);
+}
+
+// Entries as listed by the central directory, with their inflated content
+function readZip(archive) {
+	const end = archive.length - 22;
+	assert.equal(archive.readUInt32LE(end), 0x06054b50);
+	const count = archive.readUInt16LE(end + 10);
+	let position = archive.readUInt32LE(end + 16);
+
+	const entries = [];
+	for (let i = 0; i < count; i++) {
+		assert.equal(archive.readUInt32LE(position), 0x02014b50);
+		const nameLength = archive.readUInt16LE(position + 28);
+		const entry = {
+			name: archive.toString('utf8', position + 46, position + 46 + nameLength),
+			method: archive.readUInt16LE(position + 10),
+			crc: archive.readUInt32LE(position + 16),
+			compressedSize: archive.readUInt32LE(position + 20),
+			size: archive.readUInt32LE(position + 24),
+			offset: archive.readUInt32LE(position + 42),
+		};
+		const dataStart =
+			entry.offset +
+			30 +
+			archive.readUInt16LE(entry.offset + 26) +
+			archive.readUInt16LE(entry.offset + 28);
+		const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+		entry.content = entry.method === 8 ? zlib.inflateRawSync(data) : data;
+		entries.push(entry);
+		position += 46 + nameLength;
+	}
+	return entries;
+}
+
+test('writes folders and deflated files', async () => {
+	const archive = await zip([
+		{ name: 'docs', directory: true, modification: '2024-05-10T12:00:00Z' },
+		{
+			name: 'docs/notes.txt',
+			filePath: createFile('notes.txt', 'hello'),
+			modification: '2024-05-10T12:00:00Z',
+		},
+	]);
+
+	const [folder, file] = readZip(archive);
+	assert.equal(folder.name, 'docs/');
+	assert.equal(folder.size, 0);
+	assert.equal(file.name, 'docs/notes.txt');
+	assert.equal(file.content.toString(), 'hello');
+	assert.equal(file.size, 5);
+});
+
+test('computes the CRC-32 of the content', async () => {
+	const archive = await zip([
+		{
+			name: 'fox.txt',
+			filePath: createFile(
+				'fox.txt',
+				'The quick brown fox jumps over the lazy dog'
+			),
+		},
+	]);
+
+	assert.equal(readZip(archive)[0].crc, 0x414fa339);
+});
+
+test('carries the CRC-32 across the chunks of large files', async () => {
+	// Several read stream chunks (64 KB each)
+	const content = Buffer.alloc(200 * 1024);
+	for (let i = 0; i < content.length; i++) {
+		content[i] = (i * 31) & 0xff;
+	}
+	const archive = await zip([
+		{ name: 'large.bin', filePath: createFile('large.bin', content) },
+		{
+			name: 'fox.txt',
+			filePath: createFile(
+				'fox.txt',
+				'The quick brown fox jumps over the lazy dog'
+			),
+		},
+	]);
+
+	const [large, fox] = readZip(archive);
+	assert.deepEqual(large.content, content);
+	assert.equal(large.size, content.length);
+	assert.equal(large.crc, crc32Bitwise(content));
+	assert.equal(fox.crc, 0x414fa339);
+});
+
+test('keeps UTF-8 names', async () => {
+	const archive = await zip([{ name: 'Fotos – été', directory: true }]);
+
+	assert.equal(readZip(archive)[0].name, 'Fotos – été/');
+});
+
+test('fails when the output closes early', async () => {
+	const output = new Writable({
+		write: (chunk, encoding, callback) => callback(),
+	});
+	output.destroy();
+
+	await assert.rejects(
+		writeZip(
+			[{ name: 'notes.txt', filePath: createFile('notes.txt', 'hello') }],
+			output
+		),
+		/Output closed/
+	);
+});
+
+// Reference CRC-32, one bit at a time
+function crc32Bitwise(bytes) {
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc ^= byte;
+		for (let bit = 0; bit < 8; bit++) {
+			crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+		}
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
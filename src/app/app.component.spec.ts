@@ -1,5 +1,6 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { AppComponent } from './app.component';
+import { provideFileRepository } from './core/repositories/file-repository.providers';
 
 describe('AppComponent', () => {
 	let component: AppComponent;
@@ -8,6 +9,7 @@ describe('AppComponent', () => {
 	beforeEach(async () => {
 		await TestBed.configureTestingModule({
 			imports: [AppComponent],
+			providers: [provideFileRepository('indexeddb')],
 		}).compileComponents();
 
 		fixture = TestBed.createComponent(AppComponent);
@@ -1,9 +1,11 @@
 import { Component, ChangeDetectionStrategy } from '@angular/core';
 import { RouterModule } from '@angular/router';
+import { ToastContainerComponent } from './components/toast/toast-container.component';
+import { UploadPanelComponent } from './components/upload-panel/upload-panel.component';
 
 @Component({
 	selector: 'ic-root',
-	imports: [RouterModule],
+	imports: [RouterModule, ToastContainerComponent, UploadPanelComponent],
 	templateUrl: './app.component.html',
 	styleUrl: './app.component.scss',
 	standalone: true,
@@ -1,13 +1,17 @@
 import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideRouter } from '@angular/router';
 
 import { routes } from './app.routes';
+import { provideFileRepository } from './core/repositories/file-repository.providers';
+import { clientIdInterceptor } from './core/interceptors/client-id.interceptor';
+import { environment } from '../environments/environment';
 
 export const appConfig: ApplicationConfig = {
 	providers: [
 		provideZoneChangeDetection({ eventCoalescing: true }),
 		provideRouter(routes),
-		provideHttpClient(),
+		provideHttpClient(withInterceptors([clientIdInterceptor])),
+		provideFileRepository(environment.fileRepository),
 	],
 };
@@ -45,8 +45,18 @@ export const routes: Routes = [
 				m => m.FileListContainerComponent
 			),
 		title: 'File Manager - Search Results',
+		data: { mode: 'search' }, // Container reads the `q` query param instead of a folder
 		// No resolver for search as it might have different data requirements
 	},
+	{
+		path: 'trash',
+		loadComponent: () =>
+			import('./components/file-list/file-list-container.component').then(
+				m => m.FileListContainerComponent
+			),
+		title: 'File Manager - Trash',
+		data: { mode: 'trash' },
+	},
 	{
 		path: '**', // Wildcard route for any unmatched path
 		redirectTo: '',
@@ -6,12 +6,13 @@ import {
 	ChangeDetectionStrategy,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FileItem } from '../../models/file-item';
+import { FileItem, ItemMoveEvent } from '../../models/file-item';
+import { ItemDropTargetDirective } from '../../directives/item-drag-drop.directive';
 
 @Component({
 	selector: 'app-breadcrumb',
 	standalone: true,
-	imports: [CommonModule],
+	imports: [CommonModule, ItemDropTargetDirective],
 	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
 	template: `
 		<nav class="breadcrumb-nav" aria-label="Folder navigation">
@@ -19,6 +20,8 @@ import { FileItem } from '../../models/file-item';
 				<li class="breadcrumb-item">
 					<button
 						class="btn btn-link p-0 text-decoration-none"
+						[appItemDropTarget]="null"
+						(itemDrop)="onItemDrop($event, null, 'Root')"
 						(click)="navigate.emit(null)">
 						<i class="material-icons align-middle">home</i>
 						<span class="ms-1">Root</span>
@@ -29,6 +32,8 @@ import { FileItem } from '../../models/file-item';
 					<li class="breadcrumb-item">
 						<button
 							class="btn btn-link p-0 text-decoration-none"
+							[appItemDropTarget]="item.id"
+							(itemDrop)="onItemDrop($event, item.id, item.name)"
 							(click)="navigate.emit(item.id)">
 							{{ item.name }}
 						</button>
@@ -90,4 +95,13 @@ import { FileItem } from '../../models/file-item';
 export class BreadcrumbComponent {
 	@Input() path: FileItem[] = [];
 	@Output() navigate = new EventEmitter<string | null>();
+	@Output() itemMove = new EventEmitter<ItemMoveEvent>();
+
+	onItemDrop(
+		items: FileItem[],
+		targetFolderId: string | null,
+		targetName: string
+	): void {
+		this.itemMove.emit({ items, targetFolderId, targetName });
+	}
 }
@@ -0,0 +1,61 @@
+/**
+ * Confirmation dialog (opened by DialogService.confirm)
+ * Closes with true when confirmed, undefined when cancelled or dismissed (Escape / backdrop).
+ */
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+
+export interface ConfirmDialogData {
+	title: string;
+	message: string;
+	confirmLabel: string;
+	/** Irreversible or destructive action: the confirm button is red */
+	danger?: boolean;
+}
+
+@Component({
+	selector: 'app-confirm-dialog',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div
+			class="app-dialog"
+			role="alertdialog"
+			aria-labelledby="confirm-title"
+			aria-describedby="confirm-message">
+			<header class="dialog-header">
+				<h2 id="confirm-title">{{ data.title }}</h2>
+				<button class="icon-button" (click)="dismiss()" aria-label="Cancel">
+					<i class="material-icons">close</i>
+				</button>
+			</header>
+
+			<p id="confirm-message" class="dialog-message">{{ data.message }}</p>
+
+			<div class="dialog-actions">
+				<button class="dialog-button" (click)="dismiss()">Cancel</button>
+				<button
+					class="dialog-button"
+					[class.primary]="!data.danger"
+					[class.danger]="data.danger"
+					(click)="confirm()">
+					{{ data.confirmLabel }}
+				</button>
+			</div>
+		</div>
+	`,
+})
+export class ConfirmDialogComponent {
+	readonly data = inject<ConfirmDialogData>(DIALOG_DATA);
+	private readonly dialogRef = inject<DialogRef<boolean>>(DialogRef);
+
+	confirm(): void {
+		this.dialogRef.close(true);
+	}
+
+	dismiss(): void {
+		this.dialogRef.close();
+	}
+}
@@ -0,0 +1,92 @@
+/**
+ * Name-conflict dialog (opened by DialogService.resolveConflict)
+ * Closes with a ConflictResolution, or undefined when dismissed (Escape / close button).
+ */
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { ConflictResolution } from '../../models/file-item';
+
+export interface ConflictDialogData {
+	name: string;
+	/** Conflicts still waiting after this one ("apply to all" is offered when > 0) */
+	remaining: number;
+	replaceHint: string;
+	/** Offer keeping the existing file as an earlier version (file uploads) */
+	allowNewVersion: boolean;
+}
+
+@Component({
+	selector: 'app-conflict-dialog',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div class="app-dialog" role="alertdialog" aria-labelledby="conflict-title">
+			<header class="dialog-header">
+				<h2 id="conflict-title">Name conflict</h2>
+				<button class="icon-button" (click)="dismiss()" aria-label="Cancel">
+					<i class="material-icons">close</i>
+				</button>
+			</header>
+
+			<p class="dialog-message">
+				<strong>"{{ data.name }}"</strong> already exists in this location.
+			</p>
+			<p class="dialog-hint">{{ data.replaceHint }}</p>
+
+			@if (data.remaining > 0) {
+				<label class="apply-to-all">
+					<input
+						type="checkbox"
+						[checked]="applyToAll"
+						(change)="applyToAll = !applyToAll" />
+					Apply to all ({{ data.remaining }} more conflict{{
+						data.remaining > 1 ? 's' : ''
+					}})
+				</label>
+			}
+
+			<div class="dialog-actions">
+				<button class="dialog-button" (click)="choose('skip')">Skip</button>
+				<button class="dialog-button" (click)="choose('keep-both')">
+					Keep both
+				</button>
+				@if (data.allowNewVersion) {
+					<button class="dialog-button" (click)="choose('new-version')">
+						New version
+					</button>
+				}
+				<button class="dialog-button primary" (click)="choose('replace')">
+					Replace
+				</button>
+			</div>
+		</div>
+	`,
+	styles: [
+		`
+			.apply-to-all {
+				display: flex;
+				align-items: center;
+				gap: 8px;
+				margin-top: 16px;
+				color: #202124;
+				cursor: pointer;
+			}
+		`,
+	],
+})
+export class ConflictDialogComponent {
+	readonly data = inject<ConflictDialogData>(DIALOG_DATA);
+	private readonly dialogRef = inject<DialogRef<ConflictResolution>>(DialogRef);
+
+	applyToAll = false;
+
+	choose(strategy: ConflictResolution['strategy']): void {
+		this.dialogRef.close({ strategy, applyToAll: this.applyToAll });
+	}
+
+	dismiss(): void {
+		this.dialogRef.close();
+	}
+}
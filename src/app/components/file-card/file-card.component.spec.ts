@@ -0,0 +1,78 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FileCardComponent } from './file-card.component';
+import { FileItem } from '../../models/file-item';
+
+describe('FileCardComponent', () => {
+	let fixture: ComponentFixture<FileCardComponent>;
+
+	const photo: FileItem = {
+		id: 'p1',
+		name: 'beach.jpg',
+		folder: false,
+		parentId: 'docs',
+		mimeType: 'image/jpeg',
+		modification: '2024-05-10T12:00:00Z',
+	};
+	const thumbnailUrl = '/api/items/p1/thumbnail?size=256';
+
+	const element = () => fixture.nativeElement as HTMLElement;
+	const image = () =>
+		element().querySelector('img.preview-image') as HTMLImageElement | null;
+	const icon = () => element().querySelector('.file-preview .material-icons');
+
+	beforeEach(async () => {
+		await TestBed.configureTestingModule({
+			imports: [FileCardComponent],
+		}).compileComponents();
+
+		fixture = TestBed.createComponent(FileCardComponent);
+		fixture.componentRef.setInput('file', photo);
+		fixture.componentRef.setInput('fileTypeInfo', {
+			icon: 'image',
+			color: '#4caf50',
+			preview: true,
+		});
+	});
+
+	// Checks run synchronously after rendering, before the browser answers the image request
+	const showThumbnail = (url = thumbnailUrl) => {
+		fixture.componentRef.setInput('previewUrl', url);
+		fixture.detectChanges();
+	};
+
+	it('should lazy-load the thumbnail behind a placeholder icon', () => {
+		showThumbnail();
+
+		expect(image()?.getAttribute('loading')).toBe('lazy');
+		expect(image()?.getAttribute('src')).toBe(thumbnailUrl);
+		expect(icon()?.classList).toContain('is-placeholder');
+	});
+
+	it('should drop the placeholder once the thumbnail has loaded', () => {
+		showThumbnail();
+		image()!.dispatchEvent(new Event('load'));
+		fixture.detectChanges();
+
+		expect(image()?.classList).toContain('is-loaded');
+		expect(icon()).toBeNull();
+	});
+
+	it('should fall back to the icon when the thumbnail fails', () => {
+		showThumbnail();
+		image()!.dispatchEvent(new Event('error'));
+		fixture.detectChanges();
+
+		expect(image()).toBeNull();
+		expect(icon()?.classList).not.toContain('is-placeholder');
+	});
+
+	it('should try again when the thumbnail url changes', () => {
+		showThumbnail();
+		image()!.dispatchEvent(new Event('error'));
+		fixture.detectChanges();
+
+		showThumbnail(`${thumbnailUrl}&v=2`);
+
+		expect(image()?.getAttribute('src')).toBe(`${thumbnailUrl}&v=2`);
+	});
+});
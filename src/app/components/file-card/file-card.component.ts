@@ -1,6 +1,12 @@
-import { ChangeDetectionStrategy, Component, EventEmitter, Input, Output } from '@angular/core';
+import { ChangeDetectionStrategy, ChangeDetectorRef, Component, EventEmitter, Input, Output, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FileItem } from '../../models/file-item';
+import { FileItem, ItemMoveEvent, ItemRenameEvent } from '../../models/file-item';
+import {
+  ItemDragDirective,
+  ItemDropTargetDirective,
+} from '../../directives/item-drag-drop.directive';
+import { SlowClickDirective } from '../../directives/slow-click.directive';
+import { InlineRenameComponent } from '../inline-rename/inline-rename.component';
 
 interface FileTypeInfo {
     icon: string;
@@ -8,39 +14,95 @@ interface FileTypeInfo {
     preview: boolean;
 }
 
+/**
+ * Click on a card: `additive` for Ctrl/Cmd-click, `range` for Shift-click
+ */
+export interface CardSelectEvent {
+  item: FileItem;
+  additive: boolean;
+  range: boolean;
+}
+
 @Component({
   changeDetection: ChangeDetectionStrategy.OnPush,
   selector: 'app-file-card',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, ItemDragDirective, ItemDropTargetDirective, SlowClickDirective, InlineRenameComponent],
   template: `
-    <div class="file-card" [class.is-folder]="file.folder" (click)="onClick(file)">
+    <div
+      class="file-card"
+      [class.is-folder]="file.folder"
+      [class.is-selected]="selected"
+      [class.is-pending]="pendingName !== null"
+      [class.is-creating]="creating"
+      [class.is-highlighted]="highlighted"
+      [attr.aria-selected]="selected"
+      [attr.aria-busy]="pendingName !== null"
+      [attr.aria-disabled]="creating"
+      [attr.tabindex]="creating ? -1 : 0"
+      [appItemDrag]="file"
+      [dragGroup]="dragGroup"
+      [dragDisabled]="editing || creating"
+      [appItemDropTarget]="file.id"
+      [dropDisabled]="!file.folder || creating"
+      (itemDrop)="onItemDrop($event)"
+      (click)="onSelect($event, file)"
+      (dblclick)="onClick(file)"
+      (keydown.f2)="startEditing()">
       <div class="file-preview" [style.backgroundColor]="fileTypeInfo.color + '15'">
-        <!-- Image Preview -->
-        @if (previewUrl) {
-          <img [src]="previewUrl" [alt]="file.name" class="preview-image">
+        <!-- Thumbnail, loaded when the card scrolls into view -->
+        @if (previewUrl && !thumbnailFailed) {
+          <img
+            [src]="previewUrl"
+            [alt]="file.name"
+            class="preview-image"
+            [class.is-loaded]="thumbnailLoaded"
+            loading="lazy"
+            decoding="async"
+            (load)="thumbnailLoaded = true"
+            (error)="thumbnailFailed = true">
         }
-        <!-- Icon Fallback -->
-        @if (!previewUrl) {
-          <i class="material-icons" [style.color]="fileTypeInfo.color">
+        <!-- Icon Fallback (placeholder while the thumbnail loads) -->
+        @if (!previewUrl || !thumbnailLoaded) {
+          <i
+            class="material-icons"
+            [class.is-placeholder]="previewUrl && !thumbnailFailed"
+            [style.color]="fileTypeInfo.color">
             {{ fileTypeInfo.icon }}
           </i>
         }
       </div>
       
       <div class="file-info">
-        <span class="file-name">{{ file.name }}</span>
+        @if (editing) {
+          <app-inline-rename
+            class="file-name-editor"
+            [name]="file.name"
+            [isFolder]="file.folder"
+            (commit)="onRenameCommit($event)"
+            (cancel)="stopEditing()" />
+        } @else {
+          <span class="file-name" [appSlowClick]="selected" (slowClick)="startEditing()">
+            {{ pendingName ?? file.name }}
+          </span>
+        }
         <span class="file-type" *ngIf="!file.folder">{{ file.mimeType }}</span>
         <span class="file-modified">Modified {{ file.modification | date:'medium' }}</span>
       </div>
       
       <div class="file-actions">
-        <button class="icon-button" *ngIf="!file.folder" (click)="onDownload($event, file)" title="Download">
+        <button class="icon-button" (click)="onDownload($event, file)" [title]="file.folder ? 'Download as ZIP' : 'Download'">
           <i class="material-icons">download</i>
         </button>
-        <button class="icon-button" (click)="onRename($event, file)" title="Rename">
+        <button class="icon-button" (click)="onRename($event)" title="Rename">
           <i class="material-icons">edit</i>
         </button>
+        <button class="icon-button" (click)="onCopy($event, file)" title="Make a copy">
+          <i class="material-icons">content_copy</i>
+        </button>
+        <button class="icon-button" (click)="onCopyTo($event, file)" title="Copy to…">
+          <i class="material-icons">file_copy</i>
+        </button>
         <button class="icon-button danger" (click)="onDelete($event, file)" title="Delete">
           <i class="material-icons">delete</i>
         </button>
@@ -50,9 +112,14 @@ interface FileTypeInfo {
   styleUrls: ['./file-card.component.scss']
 })
 export class FileCardComponent {
+  private readonly cdr = inject(ChangeDetectorRef);
   private _file!: FileItem;
   private _fileTypeInfo!: FileTypeInfo;
   private _previewUrl: string | null = null;
+
+  thumbnailLoaded = false;
+  thumbnailFailed = false;
+  editing = false;
   
   @Input({ required: true })
   set file(value: FileItem) {
@@ -78,33 +145,88 @@ export class FileCardComponent {
   set previewUrl(value: string | null) {
     if (value !== this._previewUrl) {
       this._previewUrl = value;
+      this.thumbnailLoaded = false;
+      this.thumbnailFailed = false;
     }
   }
   get previewUrl(): string | null {
     return this._previewUrl;
   }
   
+  @Input() selected = false;
+  @Input() dragGroup: FileItem[] = [];
+  // Name shown while an in-place rename is saved
+  @Input() pendingName: string | null = null;
+  // Shown before the server created it: nothing can be done with it yet
+  @Input() creating = false;
+  // Changed by another client a moment ago
+  @Input() highlighted = false;
+
   @Output() readonly fileClick = new EventEmitter<FileItem>();
+  @Output() readonly select = new EventEmitter<CardSelectEvent>();
   @Output() readonly download = new EventEmitter<FileItem>();
-  @Output() readonly rename = new EventEmitter<FileItem>();
+  @Output() readonly renameCommit = new EventEmitter<ItemRenameEvent>();
+  @Output() readonly copy = new EventEmitter<FileItem>();
+  @Output() readonly copyTo = new EventEmitter<FileItem>();
   @Output() readonly delete = new EventEmitter<FileItem>();
+  @Output() readonly move = new EventEmitter<ItemMoveEvent>();
 
   onClick(file: FileItem): void {
+    if (this.creating) return;
     this.fileClick.emit(file);
   }
 
+  onSelect(event: MouseEvent, file: FileItem): void {
+    if (this.creating) return;
+    this.select.emit({
+      item: file,
+      additive: event.ctrlKey || event.metaKey,
+      range: event.shiftKey,
+    });
+  }
+
   onDownload(event: Event, file: FileItem): void {
     event.stopPropagation();
     this.download.emit(file);
   }
 
-  onRename(event: Event, file: FileItem): void {
+  onRename(event: Event): void {
     event.stopPropagation();
-    this.rename.emit(file);
+    this.startEditing();
+  }
+
+  startEditing(): void {
+    if (this.pendingName !== null || this.creating) return;
+    this.editing = true;
+    // Slow clicks arrive from a timer, outside of any template event
+    this.cdr.markForCheck();
+  }
+
+  stopEditing(): void {
+    this.editing = false;
+  }
+
+  onRenameCommit(name: string): void {
+    this.editing = false;
+    this.renameCommit.emit({ item: this.file, name });
+  }
+
+  onCopy(event: Event, file: FileItem): void {
+    event.stopPropagation();
+    this.copy.emit(file);
+  }
+
+  onCopyTo(event: Event, file: FileItem): void {
+    event.stopPropagation();
+    this.copyTo.emit(file);
   }
 
   onDelete(event: Event, file: FileItem): void {
     event.stopPropagation();
     this.delete.emit(file);
   }
+
+  onItemDrop(items: FileItem[]): void {
+    this.move.emit({ items, targetFolderId: this.file.id, targetName: this.file.name });
+  }
 }
\ No newline at end of file
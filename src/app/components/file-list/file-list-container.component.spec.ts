@@ -0,0 +1,83 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRoute, provideRouter } from '@angular/router';
+import { FileListContainerComponent } from './file-list-container.component';
+import { FileStateService } from '../../core/state/file-state.service';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../../core/interfaces/file-repository.interface';
+import { FileItem, SearchResult } from '../../models/file-item';
+import { FileListMode } from './file-list-presentational.component';
+
+describe('FileListContainerComponent', () => {
+	let state: FileStateService;
+
+	const file = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+	const result = (item: FileItem): SearchResult => ({
+		...item,
+		parentPath: [{ id: item.parentId!, name: item.parentId! }],
+	});
+
+	// ngOnInit is not run: only the click handling is under test
+	const create = (mode: FileListMode) => {
+		TestBed.configureTestingModule({
+			providers: [
+				provideRouter([]),
+				{ provide: ActivatedRoute, useValue: { snapshot: { data: { mode } } } },
+				{
+					provide: FILE_REPOSITORY,
+					useValue: jasmine.createSpyObj<IFileRepository>('FileRepository', [
+						'watchChanges',
+					]),
+				},
+			],
+		});
+		state = TestBed.inject(FileStateService);
+		return TestBed.createComponent(FileListContainerComponent)
+			.componentInstance;
+	};
+
+	describe('opening a file', () => {
+		it('should preview the files of the open folder in display order', () => {
+			const component = create('browse');
+			state.setCurrentFolderId('docs');
+			state.setItems([
+				file('b'),
+				file('sub', { folder: true }),
+				file('a'),
+				file('elsewhere', { parentId: 'photos' }),
+			]);
+
+			component.onItemClick(state.state.items[0]);
+
+			expect(component.previewItem?.id).toBe('b');
+			expect(component.previewItems.map(item => item.id)).toEqual(['a', 'b']);
+		});
+
+		it('should step through the search results when opened from them', () => {
+			const component = create('search');
+			state.setCurrentFolderId('docs');
+			state.setItems([file('local')]);
+			state.setSearch('report', [
+				result(file('report', { parentId: 'projects' })),
+				result(file('reports', { folder: true, parentId: null })),
+				result(file('old-report', { parentId: 'archive' })),
+			]);
+
+			component.onItemClick(state.state.searchResults[2]);
+
+			expect(component.previewItem?.id).toBe('old-report');
+			expect(component.previewItems.map(item => item.id)).toEqual([
+				'report',
+				'old-report',
+			]);
+		});
+	});
+});
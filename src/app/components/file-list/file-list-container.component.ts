@@ -19,7 +19,14 @@
  * - takeUntilDestroyed for automatic unsubscription
  * - Declarative observables over imperative subscriptions
  */
-import { Component, OnInit, inject, ChangeDetectionStrategy } from '@angular/core';
+import {
+	Component,
+	OnInit,
+	inject,
+	ChangeDetectionStrategy,
+	DestroyRef,
+	ViewChild,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router } from '@angular/router';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
@@ -28,27 +35,70 @@ import {
 	filter,
 	combineLatest,
 	map,
+	Subject,
+	debounceTime,
+	distinctUntilChanged,
+	take,
+	tap,
+	Observable,
 } from 'rxjs';
 
 import { FileManagerFacade } from '../../core/facades/file-manager.facade';
+import { UploadFacade } from '../../core/facades/upload.facade';
+import { TrashFacade } from '../../core/facades/trash.facade';
+import { BatchFacade } from '../../core/facades/batch.facade';
 import { DialogService } from '../../core/services/dialog.service';
-import { FileItem } from '../../models/file-item';
-import { FileListPresentationalComponent } from './file-list-presentational.component';
+import { ViewPreferencesService } from '../../core/services/view-preferences.service';
+import {
+	KeyboardShortcut,
+	KeyboardShortcutService,
+} from '../../core/services/keyboard-shortcut.service';
+import { LiveUpdatesService } from '../../core/services/live-updates.service';
+import {
+	FileItem,
+	ItemMoveEvent,
+	ItemRenameEvent,
+	TrashItem,
+} from '../../models/file-item';
+import { ViewOptions } from '../../models/view-options';
+import { ItemFilterCriteria } from '../../models/item-filters';
+import {
+	ArrowKey,
+	FileListMode,
+	FileListPresentationalComponent,
+	SelectionChange,
+} from './file-list-presentational.component';
+import { MoveTarget } from '../selection-toolbar/selection-toolbar.component';
+import { FolderToggleEvent } from '../sidebar/sidebar.component';
+import { FilePreviewComponent } from '../file-preview/file-preview.component';
+import { FileFilterService } from '../../core/utils/file-filter.service';
 
 @Component({
 	selector: 'app-file-list-container',
 	standalone: true,
-	imports: [CommonModule, FileListPresentationalComponent],
+	imports: [CommonModule, FileListPresentationalComponent, FilePreviewComponent],
 	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
 	template: `
 		<app-file-list-presentational
 			[items]="items$ | async"
 			[breadcrumbPath]="breadcrumbPath$ | async"
-			[rootFolders]="rootFolders$ | async"
+			[folderTree]="folderTree$ | async"
+			[expandedFolderIds]="expandedFolderIds$ | async"
 			[currentFolderId]="currentFolderId$ | async"
 			[isLoading]="isLoading$ | async"
-			[isUploading]="isUploading$ | async"
 			[isDraggingFile]="isDraggingFile"
+			[mode]="mode"
+			[searchQuery]="searchQuery$ | async"
+			[searchResults]="searchResults$ | async"
+			[trashItems]="trashItems$ | async"
+			[selectedIds]="selectedIds$ | async"
+			[selectionAnchorId]="selectionAnchorId$ | async"
+			[viewOptions]="viewOptions$ | async"
+			[filters]="filters$ | async"
+			[pendingRenames]="pendingRenames$ | async"
+			[creatingIds]="creatingIds$ | async"
+			[highlightedIds]="highlightedIds$ | async"
+			[thumbnailUrl]="thumbnailUrl"
 			(itemClick)="onItemClick($event)"
 			(filesUpload)="onFilesUpload($event)"
 			(folderUpload)="onFolderUpload($event)"
@@ -58,30 +108,213 @@ import { FileListPresentationalComponent } from './file-list-presentational.comp
 			(renameItem)="onRenameItem($event)"
 			(downloadFile)="onDownloadFile($event)"
 			(navigateToFolder)="navigateToFolder($event)"
-			(dragStateChange)="onDragStateChange($event)">
+			(folderToggle)="onFolderToggle($event)"
+			(dragStateChange)="onDragStateChange($event)"
+			(search)="onSearch($event)"
+			(openTrash)="onOpenTrash()"
+			(restoreItem)="onRestoreItem($event)"
+			(purgeItem)="onPurgeItem($event)"
+			(emptyTrash)="onEmptyTrash()"
+			(moveItem)="onMoveItem($event)"
+			(selectionChange)="onSelectionChange($event)"
+			(bulkDelete)="onBulkDelete()"
+			(bulkDownload)="onBulkDownload()"
+			(bulkMove)="onBulkMove($event)"
+			(bulkCopyTo)="onBulkCopyTo()"
+			(copyItem)="onCopyItem($event)"
+			(copyItemTo)="onCopyItemTo($event)"
+			(viewOptionsChange)="onViewOptionsChange($event)"
+			(filtersChange)="onFiltersChange($event)">
 		</app-file-list-presentational>
+
+		@if (previewItem) {
+			<app-file-preview
+				[item]="previewItem"
+				[items]="previewItems"
+				(navigate)="previewItem = $event"
+				(closed)="closePreview()"
+				(download)="onDownloadFile($event)">
+			</app-file-preview>
+		}
 	`,
 })
 export class FileListContainerComponent implements OnInit {
 	// ✅ Inject dependencies using modern Angular inject() function
 	private readonly facade = inject(FileManagerFacade);
+	private readonly uploads = inject(UploadFacade);
+	private readonly trash = inject(TrashFacade);
+	private readonly batch = inject(BatchFacade);
 	private readonly route = inject(ActivatedRoute);
 	private readonly router = inject(Router);
 	private readonly dialogService = inject(DialogService);
+	private readonly viewPreferences = inject(ViewPreferencesService);
+	private readonly shortcuts = inject(KeyboardShortcutService);
+	private readonly liveUpdates = inject(LiveUpdatesService);
 	private readonly destroyRef = takeUntilDestroyed(); // 🚀 Modern Angular automatic cleanup
+	private readonly fileFilter = new FileFilterService();
+
+	// Keyboard navigation works on the items as the view lays them out
+	@ViewChild(FileListPresentationalComponent)
+	private readonly fileList?: FileListPresentationalComponent;
 
 	// Declarative observables (Best Practice)
 	readonly items$ = this.facade.items$;
 	readonly breadcrumbPath$ = this.facade.breadcrumbPath$;
-	readonly rootFolders$ = this.facade.getRootFolders();
+	readonly folderTree$ = this.facade.folderTree$;
+	readonly expandedFolderIds$ = this.facade.expandedFolderIds$;
 	readonly isLoading$ = this.facade.isLoading$;
-	readonly isUploading$ = this.facade.isUploading$;
 	readonly currentFolderId$ = this.facade.currentFolderId$;
+	readonly searchQuery$ = this.facade.searchQuery$;
+	readonly searchResults$ = this.facade.searchResults$;
+	readonly trashItems$ = this.trash.trashItems$;
+	readonly selectedIds$ = this.facade.selectedIds$;
+	readonly selectionAnchorId$ = this.facade.selectionAnchorId$;
+	readonly viewOptions$ = this.facade.viewOptions$;
+	readonly filters$ = this.facade.filters$;
+	readonly pendingRenames$ = this.facade.pendingRenames$;
+	readonly creatingIds$ = this.facade.creatingIds$;
+	readonly highlightedIds$ = this.facade.highlightedIds$;
+	readonly thumbnailUrl = (item: FileItem, size: number) =>
+		this.facade.getThumbnailUrl(item, size);
+
+	// Route data decides what the shared layout renders
+	readonly mode: FileListMode = this.route.snapshot.data['mode'] ?? 'browse';
+
+	private readonly searchInput$ = new Subject<string>();
 
 	isDraggingFile = false;
 
+	// File preview overlay (previewItems = listed files, in display order)
+	previewItem: FileItem | null = null;
+	previewItems: FileItem[] = [];
+
+	constructor() {
+		const unregister = this.shortcuts.register(this.createShortcuts());
+		inject(DestroyRef).onDestroy(unregister);
+	}
+
 	ngOnInit(): void {
-		this.initializeRouteListener();
+		if (this.mode !== 'search') {
+			this.facade.clearSearch();
+		}
+		// Already loaded by the resolver in browse mode, the facade returns it as is
+		this.facade.loadFolderTree().pipe(this.destroyRef).subscribe();
+		// Changes made in other tabs or by other users
+		this.liveUpdates
+			.connect()
+			.pipe(
+				filter(() => this.mode === 'browse'),
+				tap(folderId => this.navigateToFolder(folderId)),
+				this.destroyRef
+			)
+			.subscribe();
+
+		switch (this.mode) {
+			case 'search':
+				this.initializeSearchListener();
+				break;
+			case 'trash':
+				this.trash.loadTrash().pipe(this.destroyRef).subscribe();
+				break;
+			default:
+				this.initializeRouteListener();
+				this.initializeViewOptionsListener();
+				this.initializeFolderReveal();
+		}
+		this.initializeSearchInput();
+	}
+
+	/**
+	 * Folder commands, and keyboard equivalents of clicking around the folder view
+	 */
+	private createShortcuts(): KeyboardShortcut[] {
+		const browsing = () => this.mode === 'browse';
+		// Undo reloads the open folder, which the trash view does not show
+		const editing = () => this.mode !== 'trash';
+		return [
+			{
+				keys: ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'],
+				description: 'Move between items',
+				group: 'Navigation',
+				handler: event =>
+					this.fileList?.moveFocus(event.key as ArrowKey, false),
+				enabled: browsing,
+			},
+			{
+				keys: [
+					'Shift+ArrowUp',
+					'Shift+ArrowDown',
+					'Shift+ArrowLeft',
+					'Shift+ArrowRight',
+				],
+				description: 'Extend the selection',
+				group: 'Selection',
+				handler: event => this.fileList?.moveFocus(event.key as ArrowKey, true),
+				enabled: browsing,
+			},
+			{
+				keys: ['Enter'],
+				description: 'Open the focused item',
+				group: 'Navigation',
+				handler: event => this.fileList?.openFocusedItem(event) ?? false,
+				enabled: browsing,
+			},
+			{
+				keys: ['Ctrl+A'],
+				description: 'Select all',
+				group: 'Selection',
+				handler: () => this.fileList?.selectAll(),
+				enabled: browsing,
+			},
+			{
+				keys: ['Escape'],
+				description: 'Clear the selection',
+				group: 'Selection',
+				handler: () => this.fileList?.clearSelection() ?? false,
+				enabled: browsing,
+			},
+			{
+				keys: ['Backspace', 'Alt+ArrowUp'],
+				description: 'Go to the parent folder',
+				group: 'Navigation',
+				handler: () => this.navigateToParentFolder(),
+				enabled: browsing,
+			},
+			{
+				keys: ['Delete'],
+				description: 'Move the selection to the trash',
+				group: 'Actions',
+				handler: () => this.onDeleteSelection(),
+				enabled: browsing,
+			},
+			{
+				keys: ['Ctrl+Shift+N'],
+				description: 'New folder',
+				group: 'Actions',
+				handler: () => this.onCreateFolder(),
+				enabled: browsing,
+			},
+			{
+				keys: ['Ctrl+Z'],
+				description: 'Undo the last change',
+				group: 'Actions',
+				handler: () => this.undo(),
+				enabled: editing,
+			},
+			{
+				keys: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+				description: 'Redo',
+				group: 'Actions',
+				handler: () => this.redo(),
+				enabled: editing,
+			},
+			{
+				keys: ['?'],
+				description: 'Show keyboard shortcuts',
+				group: 'General',
+				handler: () => this.showShortcutHelp(),
+			},
+		];
 	}
 
 	/**
@@ -114,33 +347,186 @@ export class FileListContainerComponent implements OnInit {
 			.subscribe();
 	}
 
+	/**
+	 * View options come from the URL when present (shared links), else from local storage.
+	 * Filters only come from the URL.
+	 */
+	private initializeViewOptionsListener(): void {
+		this.route.queryParamMap
+			.pipe(
+				tap(params => {
+					const stored = this.viewPreferences.load();
+					const fromUrl = this.viewPreferences.fromQueryParams(params, stored);
+					if (fromUrl) {
+						this.viewPreferences.save(fromUrl);
+					}
+					this.facade.setViewOptions(fromUrl ?? stored);
+					this.facade.setFilters(
+						this.viewPreferences.filtersFromQueryParams(params)
+					);
+				}),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	/**
+	 * Expand the sidebar tree down to the open folder
+	 */
+	private initializeFolderReveal(): void {
+		this.breadcrumbPath$
+			.pipe(
+				tap(path =>
+					this.facade.expandFolders(path.slice(0, -1).map(folder => folder.id))
+				),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	/**
+	 * Search mode: the `q` query param is the single source of truth
+	 * 🚀 switchMap cancels in-flight searches when the query changes
+	 */
+	private initializeSearchListener(): void {
+		this.route.queryParamMap
+			.pipe(
+				map(params => params.get('q') ?? ''),
+				distinctUntilChanged(),
+				switchMap(query => this.facade.search(query)),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	/**
+	 * Debounce sidebar keystrokes before reflecting them in the URL
+	 */
+	private initializeSearchInput(): void {
+		this.searchInput$
+			.pipe(
+				debounceTime(300),
+				map(query => query.trim()),
+				distinctUntilChanged(),
+				this.destroyRef
+			)
+			.subscribe(query => {
+				if (!query) {
+					this.router.navigate(['/']);
+					return;
+				}
+				this.router.navigate(['/search'], {
+					queryParams: { q: query },
+					replaceUrl: this.mode === 'search',
+				});
+			});
+	}
+
+	onSearch(query: string): void {
+		this.searchInput$.next(query);
+	}
+
 	onItemClick(item: FileItem): void {
 		if (item.folder) {
 			this.navigateToFolder(item.id);
+			return;
+		}
+
+		// Prev/next follow what is listed: the search results in their order, or the folder's files
+		const previewItems$: Observable<FileItem[]> =
+			this.mode === 'search'
+				? this.searchResults$.pipe(
+						map(results => results.filter(result => !result.folder))
+					)
+				: combineLatest([
+						this.items$,
+						this.currentFolderId$,
+						this.viewOptions$,
+						this.filters$,
+					]).pipe(
+						map(([items, folderId, options, filters]) =>
+							this.fileFilter.getFiles(items, folderId, options.sort, filters)
+						)
+					);
+
+		previewItems$.pipe(take(1)).subscribe(previewItems => {
+			this.previewItems = previewItems;
+			this.previewItem = item;
+		});
+	}
+
+	closePreview(): void {
+		this.previewItem = null;
+		this.previewItems = [];
+	}
+
+	onViewOptionsChange(options: ViewOptions): void {
+		this.router.navigate([], {
+			relativeTo: this.route,
+			queryParams: this.viewPreferences.toQueryParams(options),
+			queryParamsHandling: 'merge',
+			replaceUrl: true,
+		});
+	}
+
+	onFolderToggle(event: FolderToggleEvent): void {
+		if (event.expanded) {
+			this.facade.expandFolders([event.id]);
+		} else {
+			this.facade.collapseFolder(event.id);
 		}
 	}
 
+	onFiltersChange(filters: ItemFilterCriteria): void {
+		this.router.navigate([], {
+			relativeTo: this.route,
+			queryParams: this.viewPreferences.filtersToQueryParams(filters),
+			queryParamsHandling: 'merge',
+			replaceUrl: true,
+		});
+	}
+
+	showShortcutHelp(): void {
+		this.dialogService
+			.showShortcutHelp(this.shortcuts.getActiveShortcuts())
+			.pipe(this.destroyRef)
+			.subscribe();
+	}
+
+	/**
+	 * The breadcrumb path ends with the open folder, so its parent is the entry before it
+	 */
+	private navigateToParentFolder(): void {
+		this.breadcrumbPath$.pipe(take(1)).subscribe(path => {
+			if (path.length) {
+				this.navigateToFolder(path[path.length - 2]?.id ?? null);
+			}
+		});
+	}
+
 	navigateToFolder(folderId: string | null): void {
+		// Keep the view, sort and filter params while browsing, search/trash URLs have their own
+		const extras = {
+			queryParamsHandling: this.mode === 'browse' ? 'preserve' : '',
+		} as const;
 		if (folderId) {
-			this.router.navigate(['/folder', folderId]);
+			this.router.navigate(['/folder', folderId], extras);
 		} else {
-			this.router.navigate(['/']);
+			this.router.navigate(['/'], extras);
 		}
 	}
 
 	/**
-	 * Handle file upload - delegates validation to facade
+	 * Handle file upload - delegates validation and queueing to facade
 	 * ✅ No business logic in component
 	 */
 	onFilesUpload(files: FileList): void {
+		const selectedFiles = Array.from(files);
 		this.currentFolderId$
-			.pipe(
-				switchMap(folderId => 
-					this.facade.uploadFiles(Array.from(files), folderId || undefined)
-				),
-				this.destroyRef
-			)
-			.subscribe();
+			.pipe(take(1))
+			.subscribe(folderId =>
+				this.uploads.uploadFiles(selectedFiles, folderId || undefined)
+			);
 	}
 
 	/**
@@ -165,6 +551,7 @@ export class FileListContainerComponent implements OnInit {
 			this.currentFolderId$
 		])
 			.pipe(
+				take(1), // The dialog answers once, later folder changes must not create again
 				filter(([name]) => !!name), // Only proceed if name provided
 				switchMap(([name, folderId]) => 
 					this.facade.createFolder(name!, folderId || undefined)
@@ -180,7 +567,7 @@ export class FileListContainerComponent implements OnInit {
 	 */
 	onDeleteItem(item: FileItem): void {
 		this.dialogService
-			.confirmDelete(item.name)
+			.confirmDelete(item.name, item.folder)
 			.pipe(
 				filter(confirmed => confirmed), // Only proceed if confirmed
 				switchMap(() => this.facade.deleteItem(item.id, item.name)),
@@ -190,29 +577,200 @@ export class FileListContainerComponent implements OnInit {
 	}
 
 	/**
-	 * Rename item - delegates validation to facade
+	 * Rename an item edited in place - delegates validation to facade
 	 * ✅ No validation logic in component
 	 */
-	onRenameItem(item: FileItem): void {
-		this.dialogService
-			.promptRename(item.name)
+	onRenameItem(event: ItemRenameEvent): void {
+		this.facade
+			.renameItemInline(event.item, event.name)
+			.pipe(this.destroyRef)
+			.subscribe();
+	}
+
+	/**
+	 * Move item(s) dropped on a folder card, sidebar entry or breadcrumb segment
+	 */
+	onMoveItem(event: ItemMoveEvent): void {
+		if (event.items.length === 1) {
+			this.facade
+				.moveItem(event.items[0], event.targetFolderId, event.targetName)
+				.pipe(this.destroyRef)
+				.subscribe();
+			return;
+		}
+
+		this.batch
+			.moveItems(event.items, event.targetFolderId, event.targetName)
+			.pipe(this.destroyRef)
+			.subscribe();
+	}
+
+	/**
+	 * Delete key: a single item gets the named confirmation, several the bulk one
+	 */
+	onDeleteSelection(): void {
+		this.facade.selectedItems$.pipe(take(1)).subscribe(items => {
+			if (items.length === 1) {
+				this.onDeleteItem(items[0]);
+			} else if (items.length > 1) {
+				this.onBulkDelete();
+			}
+		});
+	}
+
+	onSelectionChange(selection: SelectionChange): void {
+		this.facade.setSelection(selection.ids, selection.anchorId);
+	}
+
+	/**
+	 * Bulk delete the current selection with a single confirmation
+	 */
+	onBulkDelete(): void {
+		this.facade.selectedItems$
 			.pipe(
-				filter(newName => !!newName && newName !== item.name),
-				switchMap(newName => 
-					this.facade.renameItem(item.id, item.name, newName!)
+				take(1),
+				filter(items => items.length > 0),
+				switchMap(items =>
+					this.dialogService.confirmDeleteItems(items.length).pipe(
+						filter(confirmed => confirmed),
+						switchMap(() => this.batch.deleteItems(items))
+					)
 				),
 				this.destroyRef
 			)
 			.subscribe();
 	}
 
+	onBulkMove(target: MoveTarget): void {
+		this.facade.selectedItems$
+			.pipe(
+				take(1),
+				switchMap(items =>
+					this.batch.moveItems(items, target.id, target.name)
+				),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	undo(): void {
+		this.facade.undo().pipe(this.destroyRef).subscribe();
+	}
+
+	redo(): void {
+		this.facade.redo().pipe(this.destroyRef).subscribe();
+	}
+
+	onBulkCopyTo(): void {
+		this.facade.selectedItems$
+			.pipe(
+				take(1),
+				switchMap(items =>
+					this.pickCopyTarget(
+						`Copy ${items.length} items to…`,
+						items
+					).pipe(
+						filter((target): target is MoveTarget => target !== null),
+						switchMap(target =>
+							this.facade.copyItems(items, target.id, target.name)
+						)
+					)
+				),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	/**
+	 * Duplicate next to the original, under a free name ("Report (1).pdf")
+	 */
+	onCopyItem(item: FileItem): void {
+		this.facade
+			.copyItem(item, item.parentId ?? null, '', 'keep-both')
+			.pipe(this.destroyRef)
+			.subscribe();
+	}
+
+	onCopyItemTo(item: FileItem): void {
+		this.pickCopyTarget(`Copy "${item.name}" to…`, [item])
+			.pipe(
+				filter((target): target is MoveTarget => target !== null),
+				switchMap(target =>
+					this.facade.copyItem(item, target.id, target.name)
+				),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	/**
+	 * Folders cannot be copied into themselves, so they are not offered as targets
+	 */
+	private pickCopyTarget(
+		title: string,
+		items: FileItem[]
+	): Observable<MoveTarget | null> {
+		return this.dialogService.pickFolder({
+			title,
+			confirmLabel: 'Copy here',
+			excludedIds: items.filter(item => item.folder).map(item => item.id),
+			loadSubfolders: parentId => this.facade.loadSubfolders(parentId),
+		});
+	}
+
+	onBulkDownload(): void {
+		this.facade.selectedItems$
+			.pipe(
+				take(1),
+				switchMap(items => this.facade.downloadFiles(items)),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
 	onDownloadFile(item: FileItem): void {
 		this.facade
-			.downloadFile(item.id, item.name)
+			.downloadFile(item.id, item.name, item.folder)
+			.pipe(this.destroyRef)
+			.subscribe();
+	}
+
+	onOpenTrash(): void {
+		this.router.navigate(['/trash']);
+	}
+
+	onRestoreItem(item: TrashItem): void {
+		this.trash
+			.restoreItem(item.id, item.name)
 			.pipe(this.destroyRef)
 			.subscribe();
 	}
 
+	/**
+	 * Permanently delete a trashed item with confirmation
+	 */
+	onPurgeItem(item: TrashItem): void {
+		this.dialogService
+			.confirmPurge(item.name)
+			.pipe(
+				filter(confirmed => confirmed),
+				switchMap(() => this.trash.purgeItem(item.id, item.name)),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	onEmptyTrash(): void {
+		this.dialogService
+			.confirmEmptyTrash()
+			.pipe(
+				filter(confirmed => confirmed),
+				switchMap(() => this.trash.emptyTrash()),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
 	onDragStateChange(isDragging: boolean): void {
 		this.isDraggingFile = isDragging;
 	}
@@ -1,13 +1,13 @@
 /**
  * PRESENTATIONAL COMPONENT (Dumb Component)
  * SRP: Single responsibility - Pure UI rendering
- * 
+ *
  * Responsibilities:
  * - Receives data via @Input()
  * - Emits events via @Output()
  * - Pure rendering logic
  * - UI interactions
- * 
+ *
  * Does NOT:
  * - Call services directly
  * - Manage complex state
@@ -21,18 +21,73 @@ import {
 	EventEmitter,
 	HostListener,
 	ChangeDetectionStrategy,
+	ChangeDetectorRef,
+	ElementRef,
+	OnDestroy,
+	Renderer2,
 	inject,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FileItem } from '../../models/file-item';
-import { SidebarComponent } from '../sidebar/sidebar.component';
-import { FileCardComponent } from '../file-card/file-card.component';
+import {
+	FileItem,
+	FolderTree,
+	ItemMoveEvent,
+	ItemRenameEvent,
+	SearchResult,
+	TrashItem,
+} from '../../models/file-item';
+import {
+	FolderToggleEvent,
+	SidebarComponent,
+} from '../sidebar/sidebar.component';
+import {
+	CardSelectEvent,
+	FileCardComponent,
+} from '../file-card/file-card.component';
 import { BreadcrumbComponent } from '../breadcrumb/breadcrumb.component';
+import { SearchResultsComponent } from '../search-results/search-results.component';
+import { TrashListComponent } from '../trash-list/trash-list.component';
+import {
+	MoveTarget,
+	SelectionToolbarComponent,
+} from '../selection-toolbar/selection-toolbar.component';
+import { ViewOptionsComponent } from '../view-options/view-options.component';
+import { FileTableComponent } from '../file-table/file-table.component';
+import { FilterBarComponent } from '../filter-bar/filter-bar.component';
 import { DragDropModule } from '@angular/cdk/drag-drop';
 import {
 	FileTypeService,
 	FileTypeInfo,
 } from '../../services/file-type.service';
+import {
+	DEFAULT_VIEW_OPTIONS,
+	SortOptions,
+	ViewOptions,
+} from '../../models/view-options';
+import {
+	EMPTY_FILTER_CRITERIA,
+	ItemFilterCriteria,
+} from '../../models/item-filters';
+import { FileFilterService } from '../../core/utils/file-filter.service';
+
+export type FileListMode = 'browse' | 'search' | 'trash';
+
+export interface SelectionChange {
+	ids: string[];
+	anchorId: string | null;
+}
+
+export type ArrowKey = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight';
+
+interface SelectionBand {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+// Cards are at most ~250px wide, so this is sharp without loading the original
+const CARD_THUMBNAIL_SIZE = 256;
 
 @Component({
 	selector: 'app-file-list-presentational',
@@ -42,23 +97,48 @@ import {
 		SidebarComponent,
 		FileCardComponent,
 		BreadcrumbComponent,
+		SearchResultsComponent,
+		TrashListComponent,
+		SelectionToolbarComponent,
+		ViewOptionsComponent,
+		FileTableComponent,
+		FilterBarComponent,
 		DragDropModule,
 	],
 	templateUrl: './file-list-presentational.component.html',
 	styleUrls: ['./file-list.component.scss'],
 	changeDetection: ChangeDetectionStrategy.OnPush, // Performance optimization
 })
-export class FileListPresentationalComponent {
+export class FileListPresentationalComponent implements OnDestroy {
 	private readonly fileTypeService = inject(FileTypeService);
+	private readonly renderer = inject(Renderer2);
+	private readonly cdr = inject(ChangeDetectorRef);
+	private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+	private readonly fileFilter = new FileFilterService();
+	private bandListeners: (() => void)[] = [];
 
 	// Inputs - Data from parent (container)
 	@Input() items: FileItem[] | null = [];
 	@Input() breadcrumbPath: FileItem[] | null = [];
-	@Input() rootFolders: FileItem[] | null = [];
+	@Input() folderTree: FolderTree | null = {};
+	@Input() expandedFolderIds: string[] | null = [];
 	@Input() currentFolderId: string | null = null;
 	@Input() isLoading: boolean | null = false;
-	@Input() isUploading: boolean | null = false;
 	@Input() isDraggingFile = false;
+	@Input() mode: FileListMode = 'browse';
+	@Input() searchQuery: string | null = null;
+	@Input() searchResults: SearchResult[] | null = [];
+	@Input() trashItems: TrashItem[] | null = [];
+	@Input() selectedIds: string[] | null = [];
+	@Input() selectionAnchorId: string | null = null;
+	@Input() viewOptions: ViewOptions | null = DEFAULT_VIEW_OPTIONS;
+	@Input() filters: ItemFilterCriteria | null = EMPTY_FILTER_CRITERIA;
+	@Input() pendingRenames: Record<string, string> | null = {};
+	@Input() creatingIds: string[] | null = [];
+	@Input() highlightedIds: string[] | null = [];
+	// Resolves thumbnail URLs (null when the storage backend has no thumbnails)
+	@Input() thumbnailUrl: (item: FileItem, size: number) => string | null = () =>
+		null;
 
 	// Outputs - Events to parent (container)
 	@Output() itemClick = new EventEmitter<FileItem>();
@@ -67,10 +147,29 @@ export class FileListPresentationalComponent {
 	@Output() filesDropped = new EventEmitter<FileList>();
 	@Output() createFolder = new EventEmitter<void>();
 	@Output() deleteItem = new EventEmitter<FileItem>();
-	@Output() renameItem = new EventEmitter<FileItem>();
+	@Output() renameItem = new EventEmitter<ItemRenameEvent>();
 	@Output() downloadFile = new EventEmitter<FileItem>();
 	@Output() navigateToFolder = new EventEmitter<string | null>();
+	@Output() folderToggle = new EventEmitter<FolderToggleEvent>();
 	@Output() dragStateChange = new EventEmitter<boolean>();
+	@Output() search = new EventEmitter<string>();
+	@Output() openTrash = new EventEmitter<void>();
+	@Output() restoreItem = new EventEmitter<TrashItem>();
+	@Output() purgeItem = new EventEmitter<TrashItem>();
+	@Output() emptyTrash = new EventEmitter<void>();
+	@Output() moveItem = new EventEmitter<ItemMoveEvent>();
+	@Output() copyItem = new EventEmitter<FileItem>();
+	@Output() copyItemTo = new EventEmitter<FileItem>();
+	@Output() selectionChange = new EventEmitter<SelectionChange>();
+	@Output() bulkDelete = new EventEmitter<void>();
+	@Output() bulkDownload = new EventEmitter<void>();
+	@Output() bulkMove = new EventEmitter<MoveTarget>();
+	@Output() bulkCopyTo = new EventEmitter<void>();
+	@Output() viewOptionsChange = new EventEmitter<ViewOptions>();
+	@Output() filtersChange = new EventEmitter<ItemFilterCriteria>();
+
+	// Rubber-band rectangle, relative to the scrolled files container
+	selectionBand: SelectionBand | null = null;
 
 	@HostListener('dragover', ['$event'])
 	onDragOver(event: DragEvent): void {
@@ -112,28 +211,348 @@ export class FileListPresentationalComponent {
 	}
 
 	// Pure UI helper methods
+	get options(): ViewOptions {
+		return this.viewOptions ?? DEFAULT_VIEW_OPTIONS;
+	}
+
+	get criteria(): ItemFilterCriteria {
+		return this.filters ?? EMPTY_FILTER_CRITERIA;
+	}
+
 	getFolders(): FileItem[] {
 		if (!this.items) return [];
-		return this.items
-			.filter(
-				item =>
-					item.folder &&
-					((this.currentFolderId === null && !item.parentId) ||
-						item.parentId === this.currentFolderId)
-			)
-			.sort((a, b) => a.name.localeCompare(b.name));
+		return this.fileFilter.getFolders(
+			this.items,
+			this.currentFolderId,
+			this.options.sort,
+			this.criteria
+		);
 	}
 
 	getFiles(): FileItem[] {
 		if (!this.items) return [];
-		return this.items
-			.filter(
-				item =>
-					!item.folder &&
-					((this.currentFolderId === null && !item.parentId) ||
-						item.parentId === this.currentFolderId)
+		return this.fileFilter.getFiles(
+			this.items,
+			this.currentFolderId,
+			this.options.sort,
+			this.criteria
+		);
+	}
+
+	/**
+	 * The folder has content but the filters hide all of it
+	 */
+	isFilteredOut(): boolean {
+		return (
+			!!this.items?.length &&
+			this.fileFilter.hasActiveFilters(this.criteria) &&
+			this.getFolders().length === 0 &&
+			this.getFiles().length === 0
+		);
+	}
+
+	onSortChange(sort: SortOptions): void {
+		this.viewOptionsChange.emit({ ...this.options, sort });
+	}
+
+	isSelected(item: FileItem): boolean {
+		return !!this.selectedIds?.includes(item.id);
+	}
+
+	isCreating(item: FileItem): boolean {
+		return !!this.creatingIds?.includes(item.id);
+	}
+
+	getSelectedItems(): FileItem[] {
+		return (this.items ?? []).filter(item => this.isSelected(item));
+	}
+
+	/**
+	 * Folders the selection can be moved to (root, ancestors, sidebar and current subfolders)
+	 */
+	getMoveTargets(): MoveTarget[] {
+		const selected = new Set(this.selectedIds ?? []);
+		const seen = new Set<string | null>();
+		const candidates: MoveTarget[] = [
+			{ id: null, name: 'My Files' },
+			...[
+				...(this.breadcrumbPath ?? []),
+				...(this.folderTree?.[''] ?? []),
+				...this.getFolders(),
+			].map(folder => ({ id: folder.id, name: folder.name })),
+		];
+
+		return candidates.filter(target => {
+			if (
+				seen.has(target.id) ||
+				target.id === this.currentFolderId ||
+				(target.id !== null && selected.has(target.id))
+			) {
+				return false;
+			}
+			seen.add(target.id);
+			return true;
+		});
+	}
+
+	/**
+	 * Click selects one item, Ctrl/Cmd-click toggles, Shift-click selects a range from the anchor
+	 */
+	onItemSelect(event: CardSelectEvent): void {
+		const selectedIds = this.selectedIds ?? [];
+		const id = event.item.id;
+		if (this.isCreating(event.item)) return;
+
+		if (event.range && this.selectionAnchorId) {
+			const ordered = this.getUsableItems().map(item => item.id);
+			const from = ordered.indexOf(this.selectionAnchorId);
+			const to = ordered.indexOf(id);
+			if (from !== -1 && to !== -1) {
+				const range = ordered.slice(Math.min(from, to), Math.max(from, to) + 1);
+				this.selectionChange.emit({
+					ids: event.additive
+						? [...new Set([...selectedIds, ...range])]
+						: range,
+					anchorId: this.selectionAnchorId,
+				});
+				return;
+			}
+		}
+
+		if (event.additive) {
+			this.selectionChange.emit({
+				ids: selectedIds.includes(id)
+					? selectedIds.filter(selectedId => selectedId !== id)
+					: [...selectedIds, id],
+				anchorId: id,
+			});
+			return;
+		}
+
+		this.selectionChange.emit({ ids: [id], anchorId: id });
+	}
+
+	/**
+	 * Rubber-band selection: drag on an empty area of the grid.
+	 * A click without dragging clears the selection (unless a modifier is held).
+	 */
+	onSelectionStart(event: MouseEvent): void {
+		const target = event.target as HTMLElement;
+		if (
+			event.button !== 0 ||
+			this.mode !== 'browse' ||
+			target.closest(
+				'app-file-card, .file-row, app-selection-toolbar, app-view-options, app-filter-bar, button, input, select, a'
+			)
+		) {
+			return;
+		}
+
+		const container = event.currentTarget as HTMLElement;
+		const additive = event.ctrlKey || event.metaKey || event.shiftKey;
+		const baseSelection = additive ? (this.selectedIds ?? []) : [];
+		const startX = event.clientX;
+		const startY = event.clientY;
+		let hasMoved = false;
+		let lastHits = '';
+
+		const onMove = (moveEvent: MouseEvent): void => {
+			const width = Math.abs(moveEvent.clientX - startX);
+			const height = Math.abs(moveEvent.clientY - startY);
+			if (!hasMoved && width < 4 && height < 4) return;
+			hasMoved = true;
+
+			const band = {
+				left: Math.min(startX, moveEvent.clientX),
+				top: Math.min(startY, moveEvent.clientY),
+				right: Math.max(startX, moveEvent.clientX),
+				bottom: Math.max(startY, moveEvent.clientY),
+			};
+			const containerRect = container.getBoundingClientRect();
+			this.selectionBand = {
+				left: band.left - containerRect.left + container.scrollLeft,
+				top: band.top - containerRect.top + container.scrollTop,
+				width,
+				height,
+			};
+
+			const hits = Array.from(
+				container.querySelectorAll<HTMLElement>('[data-item-id]')
 			)
-			.sort((a, b) => a.name.localeCompare(b.name));
+				.filter(element => {
+					const rect = element.getBoundingClientRect();
+					return (
+						rect.left < band.right &&
+						rect.right > band.left &&
+						rect.top < band.bottom &&
+						rect.bottom > band.top
+					);
+				})
+				.map(element => element.dataset['itemId'] as string)
+				.filter(id => !this.creatingIds?.includes(id));
+
+			if (hits.join() !== lastHits) {
+				lastHits = hits.join();
+				this.selectionChange.emit({
+					ids: [...new Set([...baseSelection, ...hits])],
+					anchorId: this.selectionAnchorId,
+				});
+			}
+			this.cdr.markForCheck();
+		};
+
+		const onUp = (): void => {
+			this.stopSelectionBand();
+			if (!hasMoved && !additive && this.selectedIds?.length) {
+				this.selectionChange.emit({ ids: [], anchorId: null });
+			}
+			this.cdr.markForCheck();
+		};
+
+		this.stopSelectionBand();
+		this.bandListeners = [
+			this.renderer.listen('document', 'mousemove', onMove),
+			this.renderer.listen('document', 'mouseup', onUp),
+		];
+		event.preventDefault(); // Avoid native text selection while dragging the band
+	}
+
+	ngOnDestroy(): void {
+		this.stopSelectionBand();
+	}
+
+	/**
+	 * Select and focus the neighbouring item; up/down follow the layout, so the
+	 * grid moves a row and the details list a line.
+	 * The keyboard methods below are called by the container's shortcuts.
+	 */
+	moveFocus(key: ArrowKey, extend: boolean): void {
+		const elements = this.getItemElements();
+		const current = this.getCurrentItemElement(elements);
+		const next = current
+			? this.findNeighbour(elements, current, key)
+			: elements[0];
+		const item = next && this.findItem(next.dataset['itemId']);
+		if (!next || !item) return;
+
+		this.onItemSelect({ item, additive: false, range: extend });
+		this.getFocusable(next).focus();
+	}
+
+	/**
+	 * Open the focused item, else the only selected one; false leaves the key to the browser
+	 */
+	openFocusedItem(event: KeyboardEvent): boolean {
+		const target = event.target as HTMLElement;
+		// Card and toolbar buttons handle Enter themselves
+		if (target.closest('button, a')) return false;
+
+		const element = target.closest<HTMLElement>('[data-item-id]');
+		const selectedIds = this.selectedIds ?? [];
+		const item = this.findItem(
+			element
+				? element.dataset['itemId']
+				: selectedIds.length === 1
+					? selectedIds[0]
+					: undefined
+		);
+		if (!item) return false;
+
+		this.itemClick.emit(item);
+		return true;
+	}
+
+	selectAll(): void {
+		const ids = this.getUsableItems().map(item => item.id);
+		this.selectionChange.emit({
+			ids,
+			anchorId: this.selectionAnchorId ?? ids[0] ?? null,
+		});
+	}
+
+	clearSelection(): boolean {
+		if (!this.selectedIds?.length) return false;
+		this.selectionChange.emit({ ids: [], anchorId: null });
+		return true;
+	}
+
+	private getItemElements(): HTMLElement[] {
+		return Array.from(
+			this.elementRef.nativeElement.querySelectorAll<HTMLElement>(
+				'.files-container [data-item-id]'
+			)
+		).filter(
+			element => !this.creatingIds?.includes(element.dataset['itemId'] ?? '')
+		);
+	}
+
+	/**
+	 * The focused item, else the selection anchor
+	 */
+	private getCurrentItemElement(elements: HTMLElement[]): HTMLElement | null {
+		const focused =
+			document.activeElement?.closest<HTMLElement>('[data-item-id]');
+		return (
+			elements.find(element => element === focused) ??
+			elements.find(
+				element => element.dataset['itemId'] === this.selectionAnchorId
+			) ??
+			null
+		);
+	}
+
+	private findNeighbour(
+		elements: HTMLElement[],
+		current: HTMLElement,
+		key: ArrowKey
+	): HTMLElement | undefined {
+		const index = elements.indexOf(current);
+		if (key === 'ArrowLeft') return elements[index - 1];
+		if (key === 'ArrowRight') return elements[index + 1];
+
+		// Closest item horizontally on the nearest row above/below
+		const from = current.getBoundingClientRect();
+		const centerX = from.left + from.width / 2;
+		const down = key === 'ArrowDown';
+		const candidates = elements
+			.map(element => ({ element, rect: element.getBoundingClientRect() }))
+			.filter(({ rect }) =>
+				down ? rect.top >= from.bottom - 1 : rect.bottom <= from.top + 1
+			);
+		if (!candidates.length) return undefined;
+
+		const rowTop = down
+			? Math.min(...candidates.map(({ rect }) => rect.top))
+			: Math.max(...candidates.map(({ rect }) => rect.top));
+		const distance = (rect: DOMRect) =>
+			Math.abs(rect.left + rect.width / 2 - centerX);
+		return candidates
+			.filter(({ rect }) => Math.abs(rect.top - rowTop) < 1)
+			.sort((a, b) => distance(a.rect) - distance(b.rect))[0].element;
+	}
+
+	private findItem(id: string | undefined): FileItem | undefined {
+		return this.getUsableItems().find(item => item.id === id);
+	}
+
+	// Items still being created cannot be opened, selected, renamed or moved
+	private getUsableItems(): FileItem[] {
+		return [...this.getFolders(), ...this.getFiles()].filter(
+			item => !this.isCreating(item)
+		);
+	}
+
+	// Cards put their tabindex on an inner element, table rows on the row itself
+	private getFocusable(element: HTMLElement): HTMLElement {
+		return element.matches('[tabindex]')
+			? element
+			: (element.querySelector<HTMLElement>('[tabindex]') ?? element);
+	}
+
+	private stopSelectionBand(): void {
+		this.bandListeners.forEach(unlisten => unlisten());
+		this.bandListeners = [];
+		this.selectionBand = null;
 	}
 
 	getFileTypeInfo(item: FileItem): FileTypeInfo {
@@ -142,16 +561,27 @@ export class FileListPresentationalComponent {
 			: this.fileTypeService.getFileTypeInfo(item.mimeType);
 	}
 
+	/**
+	 * Thumbnail for images (other previewable types open in the overlay)
+	 */
 	getFilePreviewUrl(item: FileItem): string | null {
-		return this.fileTypeService.supportsPreview(item.mimeType)
-			? `/api/items/${item.id}`
+		return this.fileTypeService.getViewer(item.mimeType)?.kind === 'image'
+			? this.thumbnailUrl(item, CARD_THUMBNAIL_SIZE)
 			: null;
 	}
 
 	onItemClickHandler(item: FileItem): void {
+		if (this.isCreating(item)) return;
 		this.itemClick.emit(item);
 	}
 
+	/**
+	 * Folders open directly, files in the preview (the location link jumps to their folder)
+	 */
+	onSearchResultClick(result: SearchResult): void {
+		this.itemClick.emit(result);
+	}
+
 	onFilesSelected(event: Event): void {
 		const input = event.target as HTMLInputElement;
 		if (input.files?.length) {
@@ -176,8 +606,8 @@ export class FileListPresentationalComponent {
 		this.deleteItem.emit(item);
 	}
 
-	onRenameItemClick(item: FileItem): void {
-		this.renameItem.emit(item);
+	onRenameItemCommit(event: ItemRenameEvent): void {
+		this.renameItem.emit(event);
 	}
 
 	onDownloadFileClick(item: FileItem): void {
@@ -6,7 +6,7 @@ import {
 	FileTypeInfo,
 } from '../../services/file-type.service';
 import { FolderService } from '../../services/folder.service';
-import { FileItem } from '../../models/file-item';
+import { FileItem, FolderTree } from '../../models/file-item';
 import { ActivatedRoute, Router } from '@angular/router';
 import {
 	Observable,
@@ -46,7 +46,7 @@ import {
 		<div class="drive-layout">
 			<app-sidebar
 				[currentFolderId]="currentFolderId"
-				[folders]="(rootItems$ | async) ?? []"
+				[folderTree]="(rootTree$ | async) ?? {}"
 				(createFolder)="showCreateFolderDialog()"
 				(uploadFiles)="onFilesSelected($event)"
 				(uploadFolder)="onFolderSelected($event)"
@@ -93,7 +93,7 @@ import {
 									[fileTypeInfo]="getFileTypeInfo(folder)"
 									[previewUrl]="null"
 									(fileClick)="onItemClick($event)"
-									(rename)="showRenameDialog($event)"
+									(renameCommit)="renameItem($event)"
 									(delete)="deleteItem($event)">
 								</app-file-card>
 							</div>
@@ -109,7 +109,7 @@ import {
 									[previewUrl]="getFilePreviewUrl(file)"
 									(fileClick)="onItemClick($event)"
 									(download)="downloadFile($event)"
-									(rename)="showRenameDialog($event)"
+									(renameCommit)="renameItem($event)"
 									(delete)="deleteItem($event)">
 								</app-file-card>
 							</div>
@@ -132,6 +132,7 @@ export class FileListComponent implements OnInit, OnDestroy {
 	currentPath$!: Observable<FileItem[]>;
 	currentFolderId: string | null = null;
 	protected rootItems$!: Observable<FileItem[]>;
+	protected rootTree$!: Observable<FolderTree>;
 	isUploading = false;
 	isDraggingFile = false;
 	private destroy$ = new Subject<void>();
@@ -198,6 +199,17 @@ export class FileListComponent implements OnInit, OnDestroy {
 
 	private initializeRootItems(): void {
 		this.rootItems$ = this.folder.getRootFolders().pipe(shareReplay(1));
+		// Flat root level only (no expandable subfolders in this view)
+		this.rootTree$ = this.rootItems$.pipe(
+			map(folders => ({
+				'': folders.map(({ id, name, parentId }) => ({
+					id,
+					name,
+					parentId,
+					hasChildren: false,
+				})),
+			}))
+		);
 	}
 
 	private initializeRouteSubscription(): void {
@@ -234,8 +246,8 @@ export class FileListComponent implements OnInit, OnDestroy {
 	}
 
 	getFilePreviewUrl(item: FileItem): string | null {
-		return this.fileType.supportsPreview(item.mimeType)
-			? `/api/items/${item.id}`
+		return this.fileType.getViewer(item.mimeType)?.kind === 'image'
+			? `/api/items/${item.id}/thumbnail?size=256&v=${encodeURIComponent(item.modification)}`
 			: null;
 	}
 
@@ -377,14 +389,11 @@ export class FileListComponent implements OnInit, OnDestroy {
 		}
 	}
 
-	showRenameDialog(item: FileItem): void {
-		const newName = window.prompt('Enter new name:', item.name);
-		if (newName?.trim() && newName !== item.name) {
-			this.fileManager.updateItem(item.id, { name: newName.trim() }).subscribe({
-				next: () => this.refreshFileList(),
-				error: error => console.error('Rename failed:', error),
-			});
-		}
+	renameItem({ item, name }: ItemRenameEvent): void {
+		this.fileManager.updateItem(item.id, { name }).subscribe({
+			next: () => this.refreshFileList(),
+			error: error => console.error('Rename failed:', error),
+		});
 	}
 
 	private refreshFileList(): void {
@@ -0,0 +1,117 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { filter, firstValueFrom, of } from 'rxjs';
+import { FilePreviewComponent } from './file-preview.component';
+import { FileManagerFacade } from '../../core/facades/file-manager.facade';
+import { FileItem } from '../../models/file-item';
+
+describe('FilePreviewComponent', () => {
+	let fixture: ComponentFixture<FilePreviewComponent>;
+	let component: FilePreviewComponent;
+	let facade: jasmine.SpyObj<FileManagerFacade>;
+
+	const file = (id: string, mimeType = 'text/plain'): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		mimeType,
+		size: 12,
+		modification: '2024-05-10T12:00:00Z',
+	});
+	const files = [file('a'), file('b'), file('c')];
+
+	const element = () => fixture.nativeElement as HTMLElement;
+
+	beforeEach(async () => {
+		facade = jasmine.createSpyObj<FileManagerFacade>('FileManagerFacade', [
+			'loadFileContent',
+		]);
+		facade.loadFileContent.and.returnValue(
+			of(new Blob(['const a = 1;\nlet b = 2;']))
+		);
+
+		await TestBed.configureTestingModule({
+			imports: [FilePreviewComponent],
+			providers: [{ provide: FileManagerFacade, useValue: facade }],
+		}).compileComponents();
+
+		fixture = TestBed.createComponent(FilePreviewComponent);
+		component = fixture.componentInstance;
+		fixture.componentRef.setInput('items', files);
+		fixture.componentRef.setInput('item', files[1]);
+	});
+
+	const render = async () => {
+		fixture.detectChanges();
+		await fixture.whenStable();
+		fixture.detectChanges();
+	};
+
+	it('should show text files as highlighted lines', async () => {
+		const content = await firstValueFrom(
+			component.content$.pipe(filter(current => current.state !== 'loading'))
+		);
+
+		expect(facade.loadFileContent).toHaveBeenCalledWith('b');
+		expect(content.state === 'text' && content.lines.length).toBe(2);
+	});
+
+	it('should show the position of the file in the folder', () => {
+		fixture.detectChanges();
+
+		expect(element().querySelector('.preview-position')?.textContent).toBe(
+			'2 / 3'
+		);
+	});
+
+	it('should report content that could not be loaded', async () => {
+		facade.loadFileContent.and.returnValue(of(null));
+
+		await render();
+
+		expect(element().querySelector('.preview-message p')?.textContent).toBe(
+			'The preview could not be loaded.'
+		);
+	});
+
+	it('should not load types it cannot preview', async () => {
+		fixture.componentRef.setInput('item', file('a', 'application/zip'));
+
+		await render();
+
+		expect(facade.loadFileContent).not.toHaveBeenCalled();
+		expect(element().querySelector('.preview-message p')?.textContent).toBe(
+			'No preview available for this file type.'
+		);
+	});
+
+	it('should walk through the files with the arrow keys', () => {
+		const visited: string[] = [];
+		component.navigate.subscribe(item => visited.push(item.id));
+
+		document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft' }));
+		document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+
+		expect(visited).toEqual(['a', 'c']);
+	});
+
+	it('should stop at the ends of the list', () => {
+		fixture.componentRef.setInput('item', files[2]);
+		const visited: string[] = [];
+		component.navigate.subscribe(item => visited.push(item.id));
+
+		component.next();
+
+		expect(component.hasNext).toBeFalse();
+		expect(visited).toEqual([]);
+	});
+
+	it('should close on Escape', () => {
+		let closed = false;
+		component.closed.subscribe(() => (closed = true));
+
+		document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+		expect(closed).toBeTrue();
+	});
+});
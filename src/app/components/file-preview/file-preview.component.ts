@@ -0,0 +1,318 @@
+/**
+ * File preview overlay
+ * Full-screen viewer opened when a file card is clicked. The viewer used for a
+ * file comes from FileTypeService.getViewer, so registering a viewer there is
+ * enough to make a new type previewable.
+ *
+ * - Images and PDFs are shown from an object URL (revoked when leaving the file)
+ * - Text, JSON, CSS, JS and HTML render as source with line numbers and highlighting
+ * - Previous/next walk through the files of the current folder (arrow keys too)
+ * - Escape or the close button closes the overlay
+ * - The history button shows the file's versions beside the preview
+ * - While open, its keys are a modal shortcut layer: the file list shortcuts pause
+ */
+import {
+	Component,
+	ChangeDetectionStrategy,
+	DestroyRef,
+	EventEmitter,
+	Input,
+	Output,
+	inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import {
+	BehaviorSubject,
+	NEVER,
+	Observable,
+	concat,
+	filter,
+	finalize,
+	from,
+	map,
+	of,
+	startWith,
+	switchMap,
+} from 'rxjs';
+
+import { FileManagerFacade } from '../../core/facades/file-manager.facade';
+import { VersionHistoryComponent } from '../version-history/version-history.component';
+import { KeyboardShortcutService } from '../../core/services/keyboard-shortcut.service';
+import {
+	HighlightedLine,
+	SyntaxHighlighter,
+} from '../../core/utils/syntax-highlighter';
+import { FileItem } from '../../models/file-item';
+import {
+	FileTypeInfo,
+	FileTypeService,
+} from '../../services/file-type.service';
+
+// Larger text files are offered as a download only (highlighting renders one node per token)
+const MAX_TEXT_PREVIEW_SIZE = 512 * 1024;
+
+type PreviewContent =
+	| { state: 'loading' }
+	| { state: 'image'; url: string }
+	| { state: 'pdf'; url: SafeResourceUrl }
+	| { state: 'text'; lines: HighlightedLine[] }
+	| { state: 'unsupported' | 'too-large' | 'error' };
+
+@Component({
+	selector: 'app-file-preview',
+	standalone: true,
+	imports: [CommonModule, VersionHistoryComponent],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div
+			class="preview-overlay"
+			role="dialog"
+			aria-modal="true"
+			[attr.aria-label]="'Preview of ' + item.name">
+			<header class="preview-header">
+				<button class="icon-button" (click)="closed.emit()" title="Close (Esc)">
+					<i class="material-icons">close</i>
+				</button>
+				<i class="material-icons" [style.color]="getFileTypeInfo(item).color">
+					{{ getFileTypeInfo(item).icon }}
+				</i>
+				<span class="preview-title">{{ item.name }}</span>
+				@if (items.length > 1 && index !== -1) {
+					<span class="preview-position"
+						>{{ index + 1 }} / {{ items.length }}</span
+					>
+				}
+				<button
+					class="icon-button"
+					[class.is-active]="showVersions"
+					(click)="showVersions = !showVersions"
+					[attr.aria-pressed]="showVersions"
+					title="Version history">
+					<i class="material-icons">history</i>
+				</button>
+				<button
+					class="icon-button"
+					(click)="download.emit(item)"
+					title="Download">
+					<i class="material-icons">download</i>
+				</button>
+			</header>
+
+			<div class="preview-body">
+				<button
+					class="nav-button previous"
+					[disabled]="!hasPrevious"
+					(click)="previous()"
+					title="Previous file">
+					<i class="material-icons">chevron_left</i>
+				</button>
+
+				<div class="preview-content">
+					@if (content$ | async; as content) {
+						@if (content.state === 'loading') {
+							<div class="preview-message">
+								<div class="spinner"></div>
+							</div>
+						} @else if (content.state === 'image') {
+							<img
+								class="preview-image"
+								[src]="content.url"
+								[alt]="item.name" />
+						} @else if (content.state === 'pdf') {
+							<iframe
+								class="preview-pdf"
+								[src]="content.url"
+								[title]="item.name"></iframe>
+						} @else if (content.state === 'text') {
+							<div class="preview-code">
+								@for (line of content.lines; track $index) {
+									<div class="code-line">
+										<span class="line-number">{{ $index + 1 }}</span>
+										<code class="line-text">
+											@for (token of line; track $index) {
+												<span [class]="'token-' + token.type">{{
+													token.text
+												}}</span>
+											}
+										</code>
+									</div>
+								}
+							</div>
+						} @else {
+							<div class="preview-message">
+								<i class="material-icons">
+									{{
+										content.state === 'error'
+											? 'error_outline'
+											: 'visibility_off'
+									}}
+								</i>
+								<p>{{ getMessage(content.state) }}</p>
+								<button class="download-button" (click)="download.emit(item)">
+									<i class="material-icons">download</i>
+									Download
+								</button>
+							</div>
+						}
+					}
+				</div>
+
+				<button
+					class="nav-button next"
+					[disabled]="!hasNext"
+					(click)="next()"
+					title="Next file">
+					<i class="material-icons">chevron_right</i>
+				</button>
+
+				@if (showVersions) {
+					<app-version-history [item]="item" (restored)="item = $event">
+					</app-version-history>
+				}
+			</div>
+		</div>
+	`,
+	styleUrls: ['./file-preview.component.scss'],
+})
+export class FilePreviewComponent {
+	private readonly facade = inject(FileManagerFacade);
+	private readonly fileTypeService = inject(FileTypeService);
+	private readonly sanitizer = inject(DomSanitizer);
+	private readonly shortcuts = inject(KeyboardShortcutService);
+	private readonly highlighter = new SyntaxHighlighter();
+
+	private readonly item$ = new BehaviorSubject<FileItem | null>(null);
+
+	/** Files of the current folder, in display order */
+	@Input() items: FileItem[] = [];
+	@Input({ required: true })
+	set item(value: FileItem) {
+		this.item$.next(value);
+	}
+	get item(): FileItem {
+		return this.item$.value!;
+	}
+
+	showVersions = false;
+
+	@Output() navigate = new EventEmitter<FileItem>();
+	@Output() closed = new EventEmitter<void>();
+	@Output() download = new EventEmitter<FileItem>();
+
+	readonly content$: Observable<PreviewContent> = this.item$.pipe(
+		filter((item): item is FileItem => item !== null),
+		switchMap(item => this.loadContent(item))
+	);
+
+	constructor() {
+		const unregister = this.shortcuts.register(
+			[
+				{
+					keys: ['ArrowLeft'],
+					description: 'Previous file',
+					group: 'Preview',
+					handler: () => this.previous(),
+				},
+				{
+					keys: ['ArrowRight'],
+					description: 'Next file',
+					group: 'Preview',
+					handler: () => this.next(),
+				},
+				{
+					keys: ['Escape'],
+					description: 'Close the preview',
+					group: 'Preview',
+					handler: () => this.closed.emit(),
+				},
+			],
+			{ modal: true }
+		);
+		inject(DestroyRef).onDestroy(unregister);
+	}
+
+	get index(): number {
+		return this.items.findIndex(item => item.id === this.item.id);
+	}
+
+	get hasPrevious(): boolean {
+		return this.index > 0;
+	}
+
+	get hasNext(): boolean {
+		const index = this.index;
+		return index !== -1 && index < this.items.length - 1;
+	}
+
+	getFileTypeInfo(item: FileItem): FileTypeInfo {
+		return this.fileTypeService.getFileTypeInfo(item.mimeType);
+	}
+
+	getMessage(state: PreviewContent['state']): string {
+		switch (state) {
+			case 'too-large':
+				return 'This file is too large to preview.';
+			case 'error':
+				return 'The preview could not be loaded.';
+			default:
+				return 'No preview available for this file type.';
+		}
+	}
+
+	previous(): void {
+		if (this.hasPrevious) {
+			this.navigate.emit(this.items[this.index - 1]);
+		}
+	}
+
+	next(): void {
+		if (this.hasNext) {
+			this.navigate.emit(this.items[this.index + 1]);
+		}
+	}
+
+	private loadContent(item: FileItem): Observable<PreviewContent> {
+		const viewer = this.fileTypeService.getViewer(item.mimeType);
+		if (!viewer) {
+			return of({ state: 'unsupported' });
+		}
+		if (viewer.kind === 'text' && (item.size ?? 0) > MAX_TEXT_PREVIEW_SIZE) {
+			return of({ state: 'too-large' });
+		}
+
+		return this.facade.loadFileContent(item.id).pipe(
+			switchMap((blob): Observable<PreviewContent> => {
+				if (!blob) {
+					return of({ state: 'error' });
+				}
+
+				if (viewer.kind === 'text') {
+					return from(blob.text()).pipe(
+						map(text => ({
+							state: 'text' as const,
+							lines: this.highlighter.highlight(text, viewer.language),
+						}))
+					);
+				}
+
+				// The server answers with an attachment, re-type the blob so it renders inline
+				const url = URL.createObjectURL(
+					new Blob([blob], { type: item.mimeType })
+				);
+				const content: PreviewContent =
+					viewer.kind === 'pdf'
+						? {
+								state: 'pdf',
+								url: this.sanitizer.bypassSecurityTrustResourceUrl(url),
+							}
+						: { state: 'image', url };
+				// Keep the subscription open so the URL lives as long as the file is shown
+				return concat(of(content), NEVER).pipe(
+					finalize(() => URL.revokeObjectURL(url))
+				);
+			}),
+			startWith({ state: 'loading' } as PreviewContent)
+		);
+	}
+}
@@ -0,0 +1,449 @@
+/**
+ * Details view of a folder: one row per item with sortable columns.
+ * Rows behave like file cards (click selects, double-click opens, drag to move,
+ * folders accept drops, F2 or a slow click on the name renames in place);
+ * folders are passed separately so they stay on top.
+ */
+import {
+	Component,
+	EventEmitter,
+	Input,
+	Output,
+	ChangeDetectionStrategy,
+	ChangeDetectorRef,
+	inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+	FileItem,
+	ItemMoveEvent,
+	ItemRenameEvent,
+} from '../../models/file-item';
+import { SortField, SortOptions } from '../../models/view-options';
+import {
+	FileTypeService,
+	FileTypeInfo,
+} from '../../services/file-type.service';
+import { CardSelectEvent } from '../file-card/file-card.component';
+import { SORT_FIELD_LABELS } from '../view-options/view-options.component';
+import {
+	ItemDragDirective,
+	ItemDropTargetDirective,
+} from '../../directives/item-drag-drop.directive';
+import { SlowClickDirective } from '../../directives/slow-click.directive';
+import { InlineRenameComponent } from '../inline-rename/inline-rename.component';
+
+@Component({
+	selector: 'app-file-table',
+	standalone: true,
+	imports: [
+		CommonModule,
+		ItemDragDirective,
+		ItemDropTargetDirective,
+		SlowClickDirective,
+		InlineRenameComponent,
+	],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<table class="file-table">
+			<thead>
+				<tr>
+					@for (field of columns; track field) {
+						<th
+							[class]="'column-' + field"
+							[attr.aria-sort]="getAriaSort(field)">
+							<button class="sort-button" (click)="sortBy(field)">
+								{{ labels[field] }}
+								@if (sort.field === field) {
+									<i class="material-icons">
+										{{
+											sort.direction === 'asc'
+												? 'arrow_upward'
+												: 'arrow_downward'
+										}}
+									</i>
+								}
+							</button>
+						</th>
+					}
+					<th class="column-actions"><span class="sr-only">Actions</span></th>
+				</tr>
+			</thead>
+			<tbody>
+				@for (item of rows; track item.id) {
+					<tr
+						class="file-row"
+						[class.is-selected]="isSelected(item)"
+						[class.is-pending]="isPending(item)"
+						[class.is-creating]="isCreating(item)"
+						[class.is-highlighted]="highlightedIds.includes(item.id)"
+						[attr.aria-selected]="isSelected(item)"
+						[attr.aria-busy]="isPending(item)"
+						[attr.aria-disabled]="isCreating(item)"
+						[attr.data-item-id]="item.id"
+						[attr.tabindex]="isCreating(item) ? -1 : 0"
+						[appItemDrag]="item"
+						[dragGroup]="dragGroup"
+						[dragDisabled]="editingId === item.id || isCreating(item)"
+						[appItemDropTarget]="item.id"
+						[dropDisabled]="!item.folder || isCreating(item)"
+						(itemDrop)="onItemDrop(item, $event)"
+						(click)="onSelect($event, item)"
+						(dblclick)="onOpen(item)"
+						(keydown.f2)="startEditing(item)">
+						<td class="column-name">
+							<div class="name-cell">
+								<i
+									class="material-icons"
+									[style.color]="getFileTypeInfo(item).color">
+									{{ getFileTypeInfo(item).icon }}
+								</i>
+								@if (editingId === item.id) {
+									<app-inline-rename
+										class="item-name-editor"
+										[name]="item.name"
+										[isFolder]="item.folder"
+										(commit)="onRenameCommit(item, $event)"
+										(cancel)="editingId = null" />
+								} @else {
+									<span
+										class="item-name"
+										[appSlowClick]="isSelected(item)"
+										(slowClick)="startEditing(item)">
+										{{ isPending(item) ? pendingRenames[item.id] : item.name }}
+									</span>
+								}
+							</div>
+						</td>
+						<td class="column-size">
+							{{ item.folder ? '—' : formatSize(item.size) }}
+						</td>
+						<td class="column-type">
+							{{ item.folder ? 'Folder' : (item.mimeType ?? 'Unknown') }}
+						</td>
+						<td class="column-modified">
+							{{ item.modification | date: 'medium' }}
+						</td>
+						<td class="column-actions">
+							<button
+								class="icon-button"
+								(click)="onAction($event, download, item)"
+								[title]="item.folder ? 'Download as ZIP' : 'Download'">
+								<i class="material-icons">download</i>
+							</button>
+							<button
+								class="icon-button"
+								(click)="onRenameClick($event, item)"
+								title="Rename">
+								<i class="material-icons">edit</i>
+							</button>
+							<button
+								class="icon-button"
+								(click)="onAction($event, copy, item)"
+								title="Make a copy">
+								<i class="material-icons">content_copy</i>
+							</button>
+							<button
+								class="icon-button"
+								(click)="onAction($event, copyTo, item)"
+								title="Copy to…">
+								<i class="material-icons">file_copy</i>
+							</button>
+							<button
+								class="icon-button danger"
+								(click)="onAction($event, delete, item)"
+								title="Delete">
+								<i class="material-icons">delete</i>
+							</button>
+						</td>
+					</tr>
+				}
+			</tbody>
+		</table>
+	`,
+	styles: [
+		`
+			.file-table {
+				width: 100%;
+				border-collapse: collapse;
+				font-size: 14px;
+				color: #202124;
+			}
+
+			th {
+				position: sticky;
+				top: 0;
+				z-index: 1;
+				padding: 0;
+				border-bottom: 1px solid #dadce0;
+				background: #ffffff;
+				font-weight: 500;
+				text-align: left;
+			}
+
+			.sort-button {
+				display: flex;
+				align-items: center;
+				gap: 4px;
+				width: 100%;
+				padding: 12px 8px;
+				border: none;
+				background: none;
+				color: #5f6368;
+				font-weight: 500;
+				cursor: pointer;
+
+				&:hover {
+					color: #202124;
+				}
+
+				.material-icons {
+					font-size: 16px;
+				}
+			}
+
+			.file-row {
+				cursor: pointer;
+
+				td {
+					padding: 8px;
+					border-bottom: 1px solid #f1f3f4;
+					white-space: nowrap;
+				}
+
+				&:hover {
+					background-color: #f0f4f9;
+
+					.column-actions .icon-button {
+						opacity: 1;
+					}
+				}
+
+				&.is-selected {
+					background-color: #c2e7ff;
+				}
+
+				&:focus-visible {
+					outline: 2px solid #1a73e8;
+					outline-offset: -2px;
+				}
+
+				&.is-pending .item-name {
+					color: #5f6368;
+					font-style: italic;
+				}
+
+				// Optimistic item the server has not created yet
+				&.is-creating {
+					opacity: 0.6;
+					cursor: progress;
+
+					.column-actions .icon-button {
+						visibility: hidden;
+					}
+				}
+
+				// Changed in another tab or by another user
+				&.is-highlighted {
+					animation: changed-highlight 2s ease-out;
+				}
+			}
+
+			td.column-name {
+				width: 50%;
+				max-width: 0; // Lets the name shrink and ellipsize
+			}
+
+			.name-cell {
+				display: flex;
+				align-items: center;
+				gap: 12px;
+
+				.item-name {
+					overflow: hidden;
+					text-overflow: ellipsis;
+				}
+
+				.item-name-editor {
+					flex: 1;
+				}
+			}
+
+			.column-size,
+			.column-type,
+			.column-modified {
+				color: #5f6368;
+			}
+
+			.column-actions {
+				width: 200px;
+				text-align: right;
+
+				.icon-button {
+					display: inline-flex;
+					padding: 6px;
+					border: none;
+					border-radius: 50%;
+					background: none;
+					color: #5f6368;
+					cursor: pointer;
+					opacity: 0;
+
+					&:hover {
+						background-color: rgba(0, 0, 0, 0.06);
+					}
+
+					&.danger:hover {
+						color: #d93025;
+					}
+
+					.material-icons {
+						font-size: 18px;
+					}
+				}
+			}
+
+			.sr-only {
+				position: absolute;
+				width: 1px;
+				height: 1px;
+				overflow: hidden;
+				clip: rect(0 0 0 0);
+			}
+
+			@keyframes changed-highlight {
+				from {
+					background-color: #e8f0fe;
+				}
+			}
+		`,
+	],
+})
+export class FileTableComponent {
+	private readonly fileTypeService = inject(FileTypeService);
+	private readonly cdr = inject(ChangeDetectorRef);
+
+	@Input() folders: FileItem[] = [];
+	@Input() files: FileItem[] = [];
+	@Input() selectedIds: string[] = [];
+	@Input() dragGroup: FileItem[] = [];
+	@Input({ required: true }) sort!: SortOptions;
+	// Names shown while in-place renames are saved, by item id
+	@Input() pendingRenames: Record<string, string> = {};
+	// Optimistic items the server has not created yet, not usable
+	@Input() creatingIds: string[] = [];
+	// Items changed by another client a moment ago
+	@Input() highlightedIds: string[] = [];
+
+	@Output() readonly select = new EventEmitter<CardSelectEvent>();
+	@Output() readonly open = new EventEmitter<FileItem>();
+	@Output() readonly sortChange = new EventEmitter<SortOptions>();
+	@Output() readonly download = new EventEmitter<FileItem>();
+	@Output() readonly renameCommit = new EventEmitter<ItemRenameEvent>();
+	@Output() readonly copy = new EventEmitter<FileItem>();
+	@Output() readonly copyTo = new EventEmitter<FileItem>();
+	@Output() readonly delete = new EventEmitter<FileItem>();
+	@Output() readonly move = new EventEmitter<ItemMoveEvent>();
+
+	readonly columns = Object.keys(SORT_FIELD_LABELS) as SortField[];
+	readonly labels = SORT_FIELD_LABELS;
+
+	editingId: string | null = null;
+
+	get rows(): FileItem[] {
+		return [...this.folders, ...this.files];
+	}
+
+	isSelected(item: FileItem): boolean {
+		return this.selectedIds.includes(item.id);
+	}
+
+	isPending(item: FileItem): boolean {
+		return item.id in this.pendingRenames;
+	}
+
+	isCreating(item: FileItem): boolean {
+		return this.creatingIds.includes(item.id);
+	}
+
+	startEditing(item: FileItem): void {
+		if (this.isPending(item) || this.isCreating(item)) return;
+		this.editingId = item.id;
+		// Slow clicks arrive from a timer, outside of any template event
+		this.cdr.markForCheck();
+	}
+
+	onRenameClick(event: Event, item: FileItem): void {
+		event.stopPropagation();
+		this.startEditing(item);
+	}
+
+	onRenameCommit(item: FileItem, name: string): void {
+		this.editingId = null;
+		this.renameCommit.emit({ item, name });
+	}
+
+	getFileTypeInfo(item: FileItem): FileTypeInfo {
+		return item.folder
+			? this.fileTypeService.getFolderTypeInfo()
+			: this.fileTypeService.getFileTypeInfo(item.mimeType);
+	}
+
+	getAriaSort(field: SortField): string | null {
+		if (this.sort.field !== field) return null;
+		return this.sort.direction === 'asc' ? 'ascending' : 'descending';
+	}
+
+	/**
+	 * Clicking the sorted column flips the direction, another column sorts ascending
+	 */
+	sortBy(field: SortField): void {
+		this.sortChange.emit({
+			field,
+			direction:
+				this.sort.field === field && this.sort.direction === 'asc'
+					? 'desc'
+					: 'asc',
+		});
+	}
+
+	onOpen(item: FileItem): void {
+		if (this.isCreating(item)) return;
+		this.open.emit(item);
+	}
+
+	onSelect(event: MouseEvent, item: FileItem): void {
+		if (this.isCreating(item)) return;
+		this.select.emit({
+			item,
+			additive: event.ctrlKey || event.metaKey,
+			range: event.shiftKey,
+		});
+	}
+
+	onAction(event: Event, output: EventEmitter<FileItem>, item: FileItem): void {
+		event.stopPropagation();
+		output.emit(item);
+	}
+
+	onItemDrop(folder: FileItem, items: FileItem[]): void {
+		this.move.emit({
+			items,
+			targetFolderId: folder.id,
+			targetName: folder.name,
+		});
+	}
+
+	formatSize(bytes: number | undefined): string {
+		if (bytes === undefined) return '—';
+		if (bytes < 1024) return `${bytes} B`;
+		const units = ['KB', 'MB', 'GB'];
+		let value = bytes / 1024;
+		let unit = 0;
+		while (value >= 1024 && unit < units.length - 1) {
+			value /= 1024;
+			unit++;
+		}
+		return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+	}
+}
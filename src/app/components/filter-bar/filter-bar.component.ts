@@ -0,0 +1,326 @@
+/**
+ * Filter bar of the folder view: file type, size range, modification dates and
+ * name. Active filters are listed as removable chips.
+ */
+import {
+	Component,
+	EventEmitter,
+	Input,
+	Output,
+	ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Subject, debounceTime, tap } from 'rxjs';
+import {
+	EMPTY_FILTER_CRITERIA,
+	FileCategory,
+	ItemFilterCriteria,
+} from '../../models/item-filters';
+
+export const FILE_CATEGORY_LABELS: Record<FileCategory, string> = {
+	images: 'Images',
+	documents: 'Documents',
+	spreadsheets: 'Spreadsheets',
+	presentations: 'Presentations',
+	archives: 'Archives',
+	code: 'Code',
+	text: 'Text',
+};
+
+interface FilterChip {
+	label: string;
+	clear: Partial<ItemFilterCriteria>;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+@Component({
+	selector: 'app-filter-bar',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div class="filter-bar">
+			<div class="filter-controls">
+				<label class="filter-field name-field">
+					<i class="material-icons">filter_list</i>
+					<input
+						type="text"
+						placeholder="Filter by name"
+						aria-label="Name contains"
+						[value]="criteria.nameContains"
+						(input)="onNameInput($event)" />
+				</label>
+
+				<select
+					class="filter-field"
+					aria-label="File type"
+					(change)="onCategoryChange($event)">
+					<option value="">Any type</option>
+					@for (category of categories; track category) {
+						<option
+							[value]="category"
+							[selected]="criteria.category === category">
+							{{ categoryLabels[category] }}
+						</option>
+					}
+				</select>
+
+				<label class="filter-field range-field">
+					<span>Size (MB)</span>
+					<input
+						type="number"
+						min="0"
+						step="any"
+						placeholder="min"
+						aria-label="Minimum size in MB"
+						[value]="toMegabytes(criteria.minSize)"
+						(change)="onSizeChange('minSize', $event)" />
+					<span>–</span>
+					<input
+						type="number"
+						min="0"
+						step="any"
+						placeholder="max"
+						aria-label="Maximum size in MB"
+						[value]="toMegabytes(criteria.maxSize)"
+						(change)="onSizeChange('maxSize', $event)" />
+				</label>
+
+				<label class="filter-field range-field">
+					<span>Modified</span>
+					<input
+						type="date"
+						aria-label="Modified from"
+						[value]="criteria.modifiedFrom ?? ''"
+						[max]="criteria.modifiedTo ?? ''"
+						(change)="onDateChange('modifiedFrom', $event)" />
+					<span>–</span>
+					<input
+						type="date"
+						aria-label="Modified to"
+						[value]="criteria.modifiedTo ?? ''"
+						[min]="criteria.modifiedFrom ?? ''"
+						(change)="onDateChange('modifiedTo', $event)" />
+				</label>
+			</div>
+
+			@if (chips.length) {
+				<div class="filter-chips" aria-label="Active filters">
+					@for (chip of chips; track chip.label) {
+						<span class="chip">
+							{{ chip.label }}
+							<button
+								class="chip-remove"
+								(click)="update(chip.clear)"
+								[attr.aria-label]="'Remove filter ' + chip.label">
+								<i class="material-icons">close</i>
+							</button>
+						</span>
+					}
+					<button class="clear-all" (click)="clearAll()">Clear all</button>
+				</div>
+			}
+		</div>
+	`,
+	styles: [
+		`
+			.filter-bar {
+				margin-bottom: 8px;
+			}
+
+			.filter-controls {
+				display: flex;
+				flex-wrap: wrap;
+				align-items: center;
+				gap: 8px;
+			}
+
+			.filter-field {
+				display: flex;
+				align-items: center;
+				gap: 6px;
+				margin: 0;
+				padding: 4px 10px;
+				border: 1px solid #dadce0;
+				border-radius: 8px;
+				background: #ffffff;
+				font-size: 13px;
+				color: #5f6368;
+
+				input {
+					border: none;
+					outline: none;
+					background: none;
+					font-size: 13px;
+					color: #202124;
+				}
+
+				.material-icons {
+					font-size: 18px;
+				}
+			}
+
+			.name-field input {
+				width: 160px;
+			}
+
+			.range-field input[type='number'] {
+				width: 64px;
+			}
+
+			.filter-chips {
+				display: flex;
+				flex-wrap: wrap;
+				align-items: center;
+				gap: 6px;
+				margin-top: 8px;
+			}
+
+			.chip {
+				display: inline-flex;
+				align-items: center;
+				gap: 2px;
+				padding: 2px 4px 2px 12px;
+				border-radius: 16px;
+				background-color: #c2e7ff;
+				font-size: 13px;
+				color: #001d35;
+			}
+
+			.chip-remove {
+				display: flex;
+				padding: 2px;
+				border: none;
+				border-radius: 50%;
+				background: none;
+				color: inherit;
+				cursor: pointer;
+
+				&:hover {
+					background-color: rgba(0, 0, 0, 0.08);
+				}
+
+				.material-icons {
+					font-size: 16px;
+				}
+			}
+
+			.clear-all {
+				padding: 2px 8px;
+				border: none;
+				background: none;
+				font-size: 13px;
+				color: #0b57d0;
+				cursor: pointer;
+
+				&:hover {
+					text-decoration: underline;
+				}
+			}
+		`,
+	],
+})
+export class FilterBarComponent {
+	private readonly destroyRef = takeUntilDestroyed();
+	private readonly nameInput$ = new Subject<string>();
+
+	@Input() criteria: ItemFilterCriteria = EMPTY_FILTER_CRITERIA;
+	@Output() criteriaChange = new EventEmitter<ItemFilterCriteria>();
+
+	readonly categories = Object.keys(FILE_CATEGORY_LABELS) as FileCategory[];
+	readonly categoryLabels = FILE_CATEGORY_LABELS;
+
+	constructor() {
+		// Debounce keystrokes so the URL is not rewritten on every character
+		this.nameInput$
+			.pipe(
+				debounceTime(300),
+				tap(nameContains => this.update({ nameContains })),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	get chips(): FilterChip[] {
+		const { category, minSize, maxSize, modifiedFrom, modifiedTo } =
+			this.criteria;
+		const chips: FilterChip[] = [];
+
+		if (category) {
+			chips.push({
+				label: this.categoryLabels[category],
+				clear: { category: null },
+			});
+		}
+		if (minSize !== null || maxSize !== null) {
+			chips.push({
+				label: this.describeRange(
+					'Size',
+					minSize !== null ? `${this.toMegabytes(minSize)} MB` : null,
+					maxSize !== null ? `${this.toMegabytes(maxSize)} MB` : null
+				),
+				clear: { minSize: null, maxSize: null },
+			});
+		}
+		if (modifiedFrom || modifiedTo) {
+			chips.push({
+				label: this.describeRange('Modified', modifiedFrom, modifiedTo),
+				clear: { modifiedFrom: null, modifiedTo: null },
+			});
+		}
+		if (this.criteria.nameContains.trim()) {
+			chips.push({
+				label: `Name contains "${this.criteria.nameContains.trim()}"`,
+				clear: { nameContains: '' },
+			});
+		}
+		return chips;
+	}
+
+	onNameInput(event: Event): void {
+		this.nameInput$.next((event.target as HTMLInputElement).value);
+	}
+
+	onCategoryChange(event: Event): void {
+		const value = (event.target as HTMLSelectElement).value;
+		this.update({ category: (value || null) as FileCategory | null });
+	}
+
+	onSizeChange(key: 'minSize' | 'maxSize', event: Event): void {
+		const input = event.target as HTMLInputElement;
+		const megabytes = input.value === '' ? NaN : Number(input.value);
+		this.update({
+			[key]:
+				Number.isFinite(megabytes) && megabytes >= 0
+					? Math.round(megabytes * BYTES_PER_MB)
+					: null,
+		});
+	}
+
+	onDateChange(key: 'modifiedFrom' | 'modifiedTo', event: Event): void {
+		this.update({ [key]: (event.target as HTMLInputElement).value || null });
+	}
+
+	update(changes: Partial<ItemFilterCriteria>): void {
+		this.criteriaChange.emit({ ...this.criteria, ...changes });
+	}
+
+	clearAll(): void {
+		this.criteriaChange.emit(EMPTY_FILTER_CRITERIA);
+	}
+
+	toMegabytes(bytes: number | null): string {
+		return bytes === null ? '' : `${+(bytes / BYTES_PER_MB).toFixed(2)}`;
+	}
+
+	private describeRange(
+		label: string,
+		from: string | null,
+		to: string | null
+	): string {
+		if (from && to) return `${label}: ${from} – ${to}`;
+		return from ? `${label} ≥ ${from}` : `${label} ≤ ${to}`;
+	}
+}
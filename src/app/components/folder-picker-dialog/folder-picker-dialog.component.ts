@@ -0,0 +1,202 @@
+/**
+ * Destination folder picker (opened by DialogService.pickFolder)
+ * Browses the folder hierarchy from the root and closes with the folder that is
+ * open when confirming, or undefined when cancelled or dismissed.
+ */
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { BehaviorSubject, Observable, startWith, switchMap } from 'rxjs';
+import { FolderTreeNode } from '../../models/file-item';
+import { MoveTarget } from '../selection-toolbar/selection-toolbar.component';
+
+export interface FolderPickerData {
+	title: string;
+	confirmLabel: string;
+	/** Folders that cannot be chosen or entered (e.g. a folder being copied) */
+	excludedIds?: string[];
+	/** Subfolders of a folder (root when null) */
+	loadSubfolders: (parentId: string | null) => Observable<FolderTreeNode[]>;
+}
+
+const ROOT: MoveTarget = { id: null, name: 'My Files' };
+
+@Component({
+	selector: 'app-folder-picker-dialog',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div class="app-dialog" aria-labelledby="folder-picker-title">
+			<header class="dialog-header">
+				<h2 id="folder-picker-title">{{ data.title }}</h2>
+				<button class="icon-button" (click)="dismiss()" aria-label="Cancel">
+					<i class="material-icons">close</i>
+				</button>
+			</header>
+
+			<nav class="picker-path" aria-label="Folder path">
+				@for (folder of path; track folder.id; let last = $last) {
+					<button class="path-segment" [disabled]="last" (click)="goTo(folder)">
+						{{ folder.name }}
+					</button>
+					@if (!last) {
+						<i class="material-icons">chevron_right</i>
+					}
+				}
+			</nav>
+
+			<ul class="picker-folders" role="listbox" aria-label="Subfolders">
+				@if (subfolders$ | async; as subfolders) {
+					@for (folder of subfolders; track folder.id) {
+						<li>
+							<button
+								class="picker-folder"
+								[disabled]="isExcluded(folder)"
+								(click)="open(folder)">
+								<i class="material-icons">folder</i>
+								<span>{{ folder.name }}</span>
+								@if (folder.hasChildren && !isExcluded(folder)) {
+									<i class="material-icons">chevron_right</i>
+								}
+							</button>
+						</li>
+					} @empty {
+						<li class="picker-empty">No subfolders</li>
+					}
+				} @else {
+					<li class="picker-empty">Loading…</li>
+				}
+			</ul>
+
+			<div class="dialog-actions">
+				<button class="dialog-button" (click)="dismiss()">Cancel</button>
+				<button class="dialog-button primary" (click)="confirm()">
+					{{ data.confirmLabel }}
+				</button>
+			</div>
+		</div>
+	`,
+	styles: [
+		`
+			.picker-path {
+				display: flex;
+				flex-wrap: wrap;
+				align-items: center;
+				margin-bottom: 8px;
+				color: #5f6368;
+
+				.material-icons {
+					font-size: 18px;
+				}
+			}
+
+			.path-segment {
+				padding: 4px 8px;
+				border: none;
+				border-radius: 8px;
+				background: none;
+				font-size: 14px;
+				color: #1a73e8;
+				cursor: pointer;
+
+				&:hover:not(:disabled) {
+					background-color: rgba(26, 115, 232, 0.08);
+				}
+
+				&:disabled {
+					font-weight: 500;
+					color: #202124;
+					cursor: default;
+				}
+			}
+
+			.picker-folders {
+				height: 280px;
+				margin: 0;
+				padding: 0;
+				overflow-y: auto;
+				border: 1px solid #dadce0;
+				border-radius: 8px;
+				list-style: none;
+			}
+
+			.picker-folder {
+				display: flex;
+				align-items: center;
+				gap: 12px;
+				width: 100%;
+				padding: 10px 12px;
+				border: none;
+				background: none;
+				font-size: 14px;
+				color: #202124;
+				text-align: left;
+				cursor: pointer;
+
+				span {
+					flex: 1;
+					overflow: hidden;
+					text-overflow: ellipsis;
+					white-space: nowrap;
+				}
+
+				.material-icons {
+					color: #5f6368;
+				}
+
+				&:hover:not(:disabled) {
+					background-color: #f0f4f9;
+				}
+
+				&:disabled {
+					opacity: 0.5;
+					cursor: not-allowed;
+				}
+			}
+
+			.picker-empty {
+				padding: 10px 12px;
+				font-size: 14px;
+				color: #5f6368;
+			}
+		`,
+	],
+})
+export class FolderPickerDialogComponent {
+	readonly data = inject<FolderPickerData>(DIALOG_DATA);
+	private readonly dialogRef = inject<DialogRef<MoveTarget>>(DialogRef);
+
+	private readonly current$ = new BehaviorSubject<MoveTarget>(ROOT);
+	path: MoveTarget[] = [ROOT];
+
+	readonly subfolders$: Observable<FolderTreeNode[] | null> =
+		this.current$.pipe(
+			switchMap(folder =>
+				this.data.loadSubfolders(folder.id).pipe(startWith(null))
+			)
+		);
+
+	isExcluded(folder: FolderTreeNode): boolean {
+		return !!this.data.excludedIds?.includes(folder.id);
+	}
+
+	open(folder: FolderTreeNode): void {
+		const target = { id: folder.id, name: folder.name };
+		this.path = [...this.path, target];
+		this.current$.next(target);
+	}
+
+	goTo(folder: MoveTarget): void {
+		this.path = this.path.slice(0, this.path.indexOf(folder) + 1);
+		this.current$.next(folder);
+	}
+
+	confirm(): void {
+		this.dialogRef.close(this.current$.value);
+	}
+
+	dismiss(): void {
+		this.dialogRef.close();
+	}
+}
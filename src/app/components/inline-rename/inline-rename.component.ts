@@ -0,0 +1,190 @@
+/**
+ * In-place name editor for cards and table rows
+ * Enter or blur commits, Escape cancels. The file extension is left out of the
+ * initial selection and cannot be edited from a caret; selecting it explicitly
+ * (mouse, Shift+arrows, Ctrl+A) makes it editable.
+ */
+import {
+	Component,
+	ChangeDetectionStrategy,
+	ElementRef,
+	EventEmitter,
+	Input,
+	OnInit,
+	Output,
+	ViewChild,
+	afterNextRender,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+	FileValidationService,
+	ValidationResult,
+} from '../../core/utils/file-validation.service';
+
+@Component({
+	selector: 'app-inline-rename',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<input
+			#input
+			class="rename-input"
+			type="text"
+			autocomplete="off"
+			spellcheck="false"
+			aria-label="New name"
+			[class.is-invalid]="!validation.valid"
+			[attr.aria-invalid]="!validation.valid"
+			[value]="value"
+			(beforeinput)="onBeforeInput($event)"
+			(input)="onInput($event)"
+			(keydown)="onKeydown($event)"
+			(blur)="onBlur()"
+			(click)="$event.stopPropagation()"
+			(dblclick)="$event.stopPropagation()"
+			(mousedown)="$event.stopPropagation()" />
+		@if (!validation.valid) {
+			<span class="rename-error" role="alert">{{ validation.message }}</span>
+		}
+	`,
+	styles: [
+		`
+			:host {
+				position: relative;
+				display: block;
+				min-width: 0;
+			}
+
+			.rename-input {
+				width: 100%;
+				padding: 2px 6px;
+				border: 1px solid #1a73e8;
+				border-radius: 4px;
+				outline: none;
+				box-shadow: 0 0 0 1px #1a73e8;
+				font: inherit;
+				color: #202124;
+
+				&.is-invalid {
+					border-color: #d93025;
+					box-shadow: 0 0 0 1px #d93025;
+				}
+			}
+
+			.rename-error {
+				position: absolute;
+				top: calc(100% + 4px);
+				left: 0;
+				z-index: 3;
+				padding: 4px 8px;
+				border-radius: 4px;
+				background-color: #d93025;
+				font-size: 12px;
+				color: #ffffff;
+				white-space: nowrap;
+			}
+		`,
+	],
+})
+export class InlineRenameComponent implements OnInit {
+	private readonly fileValidation = new FileValidationService();
+
+	@Input({ required: true }) name!: string;
+	@Input() isFolder = false;
+
+	@Output() readonly commit = new EventEmitter<string>();
+	@Output() readonly cancel = new EventEmitter<void>();
+
+	@ViewChild('input', { static: true })
+	private readonly input!: ElementRef<HTMLInputElement>;
+
+	value = '';
+	validation: ValidationResult = { valid: true };
+	private extension = '';
+	private done = false;
+
+	constructor() {
+		afterNextRender(() => {
+			const input = this.input.nativeElement;
+			input.focus();
+			input.setSelectionRange(0, this.value.length - this.extension.length);
+		});
+	}
+
+	ngOnInit(): void {
+		this.value = this.name;
+		const extensionStart = this.name.lastIndexOf('.');
+		this.extension =
+			!this.isFolder && extensionStart > 0
+				? this.name.slice(extensionStart)
+				: '';
+	}
+
+	/**
+	 * Block edits that would touch the extension from a collapsed caret
+	 */
+	onBeforeInput(event: Event): void {
+		const { inputType } = event as InputEvent;
+		const { selectionStart, selectionEnd, value } = this.input.nativeElement;
+		if (
+			!this.extension ||
+			!value.endsWith(this.extension) ||
+			selectionStart === null ||
+			selectionStart !== selectionEnd
+		) {
+			return;
+		}
+
+		const protectedFrom = value.length - this.extension.length;
+		const touchesExtension = inputType.startsWith('delete')
+			? inputType.endsWith('Backward')
+				? selectionStart > protectedFrom
+				: selectionStart >= protectedFrom
+			: selectionStart > protectedFrom;
+		if (touchesExtension) {
+			event.preventDefault();
+		}
+	}
+
+	onInput(event: Event): void {
+		this.value = (event.target as HTMLInputElement).value;
+		this.validation = this.fileValidation.isValidFileName(this.value);
+	}
+
+	onKeydown(event: KeyboardEvent): void {
+		event.stopPropagation(); // Keep typing away from card and page shortcuts
+		if (event.key === 'Enter') {
+			event.preventDefault();
+			this.submit();
+		} else if (event.key === 'Escape') {
+			event.preventDefault();
+			this.finish(null);
+		}
+	}
+
+	// Clicking elsewhere keeps a valid edit, like desktop file managers
+	onBlur(): void {
+		if (this.validation.valid) {
+			this.submit();
+		} else {
+			this.finish(null);
+		}
+	}
+
+	private submit(): void {
+		if (!this.validation.valid) return;
+		const name = this.value.trim();
+		this.finish(name && name !== this.name ? name : null);
+	}
+
+	private finish(name: string | null): void {
+		if (this.done) return;
+		this.done = true;
+		if (name === null) {
+			this.cancel.emit();
+		} else {
+			this.commit.emit(name);
+		}
+	}
+}
@@ -0,0 +1,178 @@
+/**
+ * Text prompt dialog (opened by DialogService.prompt)
+ * Validates as the user types and closes with the trimmed value,
+ * or undefined when cancelled or dismissed (Escape / backdrop).
+ */
+import {
+	Component,
+	ChangeDetectionStrategy,
+	ElementRef,
+	ViewChild,
+	afterNextRender,
+	inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { ValidationResult } from '../../core/utils/file-validation.service';
+
+export interface PromptDialogData {
+	title: string;
+	label: string;
+	value: string;
+	confirmLabel: string;
+	validate?: (value: string) => ValidationResult;
+	/** Select the name without its extension (file renames) instead of the whole value */
+	selectBaseName?: boolean;
+}
+
+@Component({
+	selector: 'app-prompt-dialog',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<form
+			class="app-dialog"
+			aria-labelledby="prompt-title"
+			(submit)="submit($event)"
+			novalidate>
+			<header class="dialog-header">
+				<h2 id="prompt-title">{{ data.title }}</h2>
+				<button
+					type="button"
+					class="icon-button"
+					(click)="dismiss()"
+					aria-label="Cancel">
+					<i class="material-icons">close</i>
+				</button>
+			</header>
+
+			<label class="prompt-field" [class.is-invalid]="showError">
+				<span class="prompt-label">{{ data.label }}</span>
+				<input
+					#input
+					type="text"
+					autocomplete="off"
+					spellcheck="false"
+					[value]="value"
+					[attr.aria-invalid]="showError"
+					aria-describedby="prompt-error"
+					(input)="onInput($event)" />
+			</label>
+			<p id="prompt-error" class="prompt-error" aria-live="polite">
+				{{ showError ? validation.message : '' }}
+			</p>
+
+			<div class="dialog-actions">
+				<button type="button" class="dialog-button" (click)="dismiss()">
+					Cancel
+				</button>
+				<button
+					type="submit"
+					class="dialog-button primary"
+					[disabled]="!validation.valid">
+					{{ data.confirmLabel }}
+				</button>
+			</div>
+		</form>
+	`,
+	styles: [
+		`
+			.prompt-field {
+				display: flex;
+				flex-direction: column;
+				gap: 4px;
+				margin: 0;
+
+				input {
+					padding: 10px 12px;
+					border: 1px solid #dadce0;
+					border-radius: 8px;
+					outline: none;
+					font-size: 14px;
+					color: #202124;
+
+					&:focus {
+						border-color: #1a73e8;
+						box-shadow: 0 0 0 1px #1a73e8;
+					}
+				}
+
+				&.is-invalid input {
+					border-color: #d93025;
+					box-shadow: 0 0 0 1px #d93025;
+				}
+			}
+
+			.prompt-label {
+				font-size: 13px;
+				color: #5f6368;
+			}
+
+			.prompt-error {
+				min-height: 20px;
+				margin: 4px 0 0;
+				font-size: 12px;
+				color: #d93025;
+			}
+		`,
+	],
+})
+export class PromptDialogComponent {
+	readonly data = inject<PromptDialogData>(DIALOG_DATA);
+	private readonly dialogRef = inject<DialogRef<string>>(DialogRef);
+
+	@ViewChild('input', { static: true })
+	private readonly input!: ElementRef<HTMLInputElement>;
+
+	value = this.data.value;
+	validation = this.validate(this.value);
+	// Errors show once the user has typed, not for the initial empty value
+	private touched = false;
+
+	constructor() {
+		afterNextRender(() => this.focusInput());
+	}
+
+	get showError(): boolean {
+		return this.touched && !this.validation.valid;
+	}
+
+	onInput(event: Event): void {
+		this.value = (event.target as HTMLInputElement).value;
+		this.validation = this.validate(this.value);
+		this.touched = true;
+	}
+
+	submit(event: Event): void {
+		event.preventDefault();
+		this.touched = true;
+		if (this.validation.valid) {
+			this.dialogRef.close(this.value.trim());
+		}
+	}
+
+	dismiss(): void {
+		this.dialogRef.close();
+	}
+
+	private validate(value: string): ValidationResult {
+		return this.data.validate?.(value) ?? { valid: true };
+	}
+
+	/**
+	 * "report.final.pdf" selects "report.final"; names starting with a dot or
+	 * without an extension are selected whole
+	 */
+	private focusInput(): void {
+		const input = this.input.nativeElement;
+		const extensionStart = this.value.lastIndexOf('.');
+		input.focus();
+		input.setSelectionRange(
+			0,
+			this.data.selectBaseName && extensionStart > 0
+				? extensionStart
+				: this.value.length
+		);
+	}
+}
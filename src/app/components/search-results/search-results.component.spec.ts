@@ -0,0 +1,84 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { SearchResultsComponent } from './search-results.component';
+import { SearchResult } from '../../models/file-item';
+
+describe('SearchResultsComponent', () => {
+	let fixture: ComponentFixture<SearchResultsComponent>;
+	let component: SearchResultsComponent;
+
+	const result: SearchResult = {
+		id: 'q1',
+		name: 'Report-2024-report.pdf',
+		folder: false,
+		parentId: 'docs',
+		mimeType: 'application/pdf',
+		modification: '2024-05-10T12:00:00Z',
+		parentPath: [{ id: 'docs', name: 'Documents' }],
+	};
+
+	beforeEach(async () => {
+		await TestBed.configureTestingModule({
+			imports: [SearchResultsComponent],
+		}).compileComponents();
+
+		fixture = TestBed.createComponent(SearchResultsComponent);
+		component = fixture.componentInstance;
+	});
+
+	describe('getNameSegments', () => {
+		it('should mark every case-insensitive match', () => {
+			component.query = 'REPORT';
+
+			expect(component.getNameSegments(result.name)).toEqual([
+				{ text: 'Report', match: true },
+				{ text: '-2024-', match: false },
+				{ text: 'report', match: true },
+				{ text: '.pdf', match: false },
+			]);
+		});
+
+		it('should return the whole name when there is no query', () => {
+			component.query = '  ';
+
+			expect(component.getNameSegments('notes.txt')).toEqual([
+				{ text: 'notes.txt', match: false },
+			]);
+		});
+
+		it('should return the whole name when nothing matches', () => {
+			component.query = 'invoice';
+
+			expect(component.getNameSegments('notes.txt')).toEqual([
+				{ text: 'notes.txt', match: false },
+			]);
+		});
+	});
+
+	it('should render highlighted matches and the parent location', () => {
+		component.query = '2024';
+		component.results = [result];
+		fixture.detectChanges();
+
+		const element = fixture.nativeElement as HTMLElement;
+		expect(element.querySelector('mark')?.textContent).toBe('2024');
+		expect(element.querySelector('.result-location')?.textContent).toContain(
+			'Documents'
+		);
+	});
+
+	it('should emit the parent folder when the location is clicked', () => {
+		const opened: (string | null)[] = [];
+		component.openLocation.subscribe(id => opened.push(id));
+		component.query = 'report';
+		component.results = [result];
+		fixture.detectChanges();
+
+		(
+			fixture.nativeElement.querySelector(
+				'.result-location'
+			) as HTMLButtonElement
+		).click();
+
+		expect(opened).toEqual(['docs']);
+	});
+});
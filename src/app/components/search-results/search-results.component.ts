@@ -0,0 +1,163 @@
+import {
+	Component,
+	EventEmitter,
+	Input,
+	Output,
+	ChangeDetectionStrategy,
+	inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SearchResult } from '../../models/file-item';
+import {
+	FileTypeService,
+	FileTypeInfo,
+} from '../../services/file-type.service';
+
+export interface HighlightSegment {
+	text: string;
+	match: boolean;
+}
+
+@Component({
+	selector: 'app-search-results',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<ul class="result-list">
+			@for (result of results; track result.id) {
+				<li class="result-item">
+					<button class="result-main" (click)="openItem.emit(result)">
+						<i
+							class="material-icons"
+							[style.color]="getFileTypeInfo(result).color">
+							{{ getFileTypeInfo(result).icon }}
+						</i>
+						<span class="result-name">
+							@for (segment of getNameSegments(result.name); track $index) {
+								@if (segment.match) {
+									<mark>{{ segment.text }}</mark>
+								} @else {
+									{{ segment.text }}
+								}
+							}
+						</span>
+					</button>
+					<button
+						class="result-location"
+						(click)="openLocation.emit(result.parentId)"
+						title="Open containing folder">
+						<i class="material-icons">subdirectory_arrow_right</i>
+						<span>My Files</span>
+						@for (segment of result.parentPath; track segment.id) {
+							<span class="separator">/</span>
+							<span>{{ segment.name }}</span>
+						}
+					</button>
+				</li>
+			}
+		</ul>
+	`,
+	styles: [
+		`
+			.result-list {
+				list-style: none;
+				padding: 0;
+				margin: 0;
+			}
+
+			.result-item {
+				display: flex;
+				flex-direction: column;
+				padding: 8px 12px;
+				border-radius: 8px;
+
+				&:hover {
+					background-color: #f0f4f9;
+				}
+
+				button {
+					display: flex;
+					align-items: center;
+					gap: 8px;
+					border: none;
+					background: none;
+					padding: 0;
+					text-align: left;
+					cursor: pointer;
+				}
+			}
+
+			.result-main {
+				font-size: 14px;
+				color: #202124;
+
+				mark {
+					padding: 0;
+					background-color: #fde293;
+				}
+			}
+
+			.result-location {
+				margin-left: 32px;
+				font-size: 12px;
+				color: #5f6368;
+
+				&:hover {
+					color: #1a73e8;
+					text-decoration: underline;
+				}
+
+				.material-icons {
+					font-size: 16px;
+				}
+			}
+		`,
+	],
+})
+export class SearchResultsComponent {
+	private readonly fileTypeService = inject(FileTypeService);
+
+	@Input() query = '';
+	@Input() results: SearchResult[] = [];
+	@Output() openItem = new EventEmitter<SearchResult>();
+	@Output() openLocation = new EventEmitter<string | null>();
+
+	getFileTypeInfo(item: SearchResult): FileTypeInfo {
+		return item.folder
+			? this.fileTypeService.getFolderTypeInfo()
+			: this.fileTypeService.getFileTypeInfo(item.mimeType);
+	}
+
+	/**
+	 * Split a name into plain and matching segments (case-insensitive)
+	 * so matches can be highlighted without binding raw HTML
+	 */
+	getNameSegments(name: string): HighlightSegment[] {
+		const query = this.query.trim().toLowerCase();
+		if (!query) return [{ text: name, match: false }];
+
+		const segments: HighlightSegment[] = [];
+		const lowerName = name.toLowerCase();
+		let cursor = 0;
+		let index = lowerName.indexOf(query);
+
+		while (index !== -1) {
+			if (index > cursor) {
+				segments.push({ text: name.slice(cursor, index), match: false });
+			}
+			segments.push({
+				text: name.slice(index, index + query.length),
+				match: true,
+			});
+			cursor = index + query.length;
+			index = lowerName.indexOf(query, cursor);
+		}
+
+		if (cursor < name.length) {
+			segments.push({ text: name.slice(cursor), match: false });
+		}
+
+		return segments;
+	}
+}
@@ -0,0 +1,182 @@
+import {
+	Component,
+	EventEmitter,
+	Input,
+	Output,
+	ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+export interface MoveTarget {
+	id: string | null;
+	name: string;
+}
+
+@Component({
+	selector: 'app-selection-toolbar',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div
+			class="selection-toolbar"
+			role="toolbar"
+			aria-label="Selection actions">
+			<button
+				class="icon-button"
+				(click)="clear.emit()"
+				title="Clear selection">
+				<i class="material-icons">close</i>
+			</button>
+			<span class="selection-count">{{ count }} selected</span>
+
+			<div class="toolbar-actions">
+				<button class="icon-button" (click)="download.emit()" title="Download">
+					<i class="material-icons">download</i>
+				</button>
+				<div class="move-menu">
+					<button
+						class="icon-button"
+						(click)="isMoveMenuOpen = !isMoveMenuOpen"
+						[attr.aria-expanded]="isMoveMenuOpen"
+						title="Move to…">
+						<i class="material-icons">drive_file_move</i>
+					</button>
+					@if (isMoveMenuOpen) {
+						<ul class="move-menu-list" role="menu">
+							@for (target of moveTargets; track target.id) {
+								<li role="menuitem">
+									<button (click)="onMove(target)">
+										<i class="material-icons">
+											{{ target.id ? 'folder' : 'home' }}
+										</i>
+										<span>{{ target.name }}</span>
+									</button>
+								</li>
+							} @empty {
+								<li class="move-menu-empty">No other folders available</li>
+							}
+						</ul>
+					}
+				</div>
+				<button class="icon-button" (click)="copyTo.emit()" title="Copy to…">
+					<i class="material-icons">file_copy</i>
+				</button>
+				<button
+					class="icon-button danger"
+					(click)="delete.emit()"
+					title="Delete">
+					<i class="material-icons">delete</i>
+				</button>
+			</div>
+		</div>
+	`,
+	styles: [
+		`
+			.selection-toolbar {
+				display: flex;
+				align-items: center;
+				gap: 8px;
+				margin-bottom: 16px;
+				padding: 4px 8px;
+				border-radius: 24px;
+				background-color: #e9eef6;
+			}
+
+			.selection-count {
+				font-weight: 500;
+				color: #202124;
+			}
+
+			.toolbar-actions {
+				display: flex;
+				gap: 4px;
+				margin-left: 16px;
+			}
+
+			.icon-button {
+				display: flex;
+				padding: 8px;
+				border: none;
+				border-radius: 50%;
+				background: none;
+				color: #444746;
+				cursor: pointer;
+
+				&:hover {
+					background-color: rgba(0, 0, 0, 0.06);
+				}
+
+				&.danger:hover {
+					color: #d93025;
+				}
+
+				.material-icons {
+					font-size: 20px;
+				}
+			}
+
+			.move-menu {
+				position: relative;
+			}
+
+			.move-menu-list {
+				position: absolute;
+				top: 100%;
+				left: 0;
+				z-index: 200;
+				min-width: 220px;
+				max-height: 320px;
+				overflow: auto;
+				margin: 4px 0 0;
+				padding: 8px 0;
+				list-style: none;
+				border-radius: 8px;
+				background: #ffffff;
+				box-shadow: 0 2px 8px rgba(0, 0, 0, 0.2);
+
+				button {
+					display: flex;
+					align-items: center;
+					gap: 12px;
+					width: 100%;
+					padding: 8px 16px;
+					border: none;
+					background: none;
+					text-align: left;
+					cursor: pointer;
+
+					&:hover {
+						background-color: #f1f3f4;
+					}
+
+					.material-icons {
+						font-size: 18px;
+						color: #5f6368;
+					}
+				}
+			}
+
+			.move-menu-empty {
+				padding: 8px 16px;
+				color: #5f6368;
+			}
+		`,
+	],
+})
+export class SelectionToolbarComponent {
+	@Input() count = 0;
+	@Input() moveTargets: MoveTarget[] = [];
+	@Output() clear = new EventEmitter<void>();
+	@Output() download = new EventEmitter<void>();
+	@Output() delete = new EventEmitter<void>();
+	@Output() move = new EventEmitter<MoveTarget>();
+	@Output() copyTo = new EventEmitter<void>();
+
+	isMoveMenuOpen = false;
+
+	onMove(target: MoveTarget): void {
+		this.isMoveMenuOpen = false;
+		this.move.emit(target);
+	}
+}
@@ -0,0 +1,157 @@
+/**
+ * Keyboard shortcut help (opened by DialogService.showShortcutHelp)
+ * Lists the shortcuts available in the current view, by group.
+ */
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { KeyboardShortcut } from '../../core/services/keyboard-shortcut.service';
+
+export interface ShortcutHelpData {
+	shortcuts: KeyboardShortcut[];
+}
+
+interface ShortcutGroup {
+	name: string;
+	shortcuts: KeyboardShortcut[];
+}
+
+const KEY_LABELS: Record<string, string> = {
+	ArrowUp: '↑',
+	ArrowDown: '↓',
+	ArrowLeft: '←',
+	ArrowRight: '→',
+	Escape: 'Esc',
+	Delete: 'Del',
+};
+
+@Component({
+	selector: 'app-shortcut-help',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div class="app-dialog shortcut-help" aria-labelledby="shortcut-help-title">
+			<header class="dialog-header">
+				<h2 id="shortcut-help-title">Keyboard shortcuts</h2>
+				<button class="icon-button" (click)="close()" aria-label="Close">
+					<i class="material-icons">close</i>
+				</button>
+			</header>
+
+			@for (group of groups; track group.name) {
+				<section class="shortcut-group">
+					<h3>{{ group.name }}</h3>
+					<dl>
+						@for (shortcut of group.shortcuts; track shortcut.description) {
+							<div class="shortcut">
+								<dt>
+									@for (keys of shortcut.keys; track keys; let last = $last) {
+										@for (key of splitKeys(keys); track $index) {
+											<kbd>{{ key }}</kbd>
+										}
+										@if (!last) {
+											<span class="separator">or</span>
+										}
+									}
+								</dt>
+								<dd>{{ shortcut.description }}</dd>
+							</div>
+						}
+					</dl>
+				</section>
+			}
+		</div>
+	`,
+	styles: [
+		`
+			.shortcut-help {
+				width: 520px;
+				max-height: calc(100vh - 64px);
+				overflow-y: auto;
+			}
+
+			.shortcut-group {
+				margin-bottom: 16px;
+
+				h3 {
+					margin: 0 0 8px;
+					font-size: 14px;
+					font-weight: 500;
+					color: #5f6368;
+				}
+
+				dl {
+					margin: 0;
+				}
+			}
+
+			.shortcut {
+				display: flex;
+				align-items: center;
+				justify-content: space-between;
+				gap: 16px;
+				padding: 6px 0;
+				border-bottom: 1px solid #f1f3f4;
+
+				dt {
+					display: flex;
+					flex-wrap: wrap;
+					align-items: center;
+					gap: 4px;
+					order: 2;
+				}
+
+				dd {
+					margin: 0;
+					color: #202124;
+				}
+			}
+
+			kbd {
+				min-width: 24px;
+				padding: 2px 6px;
+				border: 1px solid #dadce0;
+				border-radius: 4px;
+				background-color: #f8f9fa;
+				font-family: inherit;
+				font-size: 12px;
+				text-align: center;
+				color: #202124;
+			}
+
+			.separator {
+				font-size: 12px;
+				color: #5f6368;
+			}
+		`,
+	],
+})
+export class ShortcutHelpComponent {
+	readonly data = inject<ShortcutHelpData>(DIALOG_DATA);
+	private readonly dialogRef = inject(DialogRef);
+
+	readonly groups: ShortcutGroup[] = this.groupShortcuts(this.data.shortcuts);
+
+	splitKeys(keys: string): string[] {
+		return keys.split('+').map(key => KEY_LABELS[key] ?? key);
+	}
+
+	close(): void {
+		this.dialogRef.close();
+	}
+
+	private groupShortcuts(shortcuts: KeyboardShortcut[]): ShortcutGroup[] {
+		const groups = new Map<string, KeyboardShortcut[]>();
+		for (const shortcut of shortcuts) {
+			groups.set(shortcut.group, [
+				...(groups.get(shortcut.group) ?? []),
+				shortcut,
+			]);
+		}
+		return Array.from(groups, ([name, grouped]) => ({
+			name,
+			shortcuts: grouped,
+		}));
+	}
+}
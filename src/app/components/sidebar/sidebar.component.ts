@@ -6,12 +6,23 @@ import {
 	ChangeDetectionStrategy,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FileItem } from '../../models/file-item';
+import {
+	FileItem,
+	FolderTree,
+	FolderTreeNode,
+	ItemMoveEvent,
+} from '../../models/file-item';
+import { ItemDropTargetDirective } from '../../directives/item-drag-drop.directive';
+
+export interface FolderToggleEvent {
+	id: string;
+	expanded: boolean;
+}
 
 @Component({
 	selector: 'app-sidebar',
 	standalone: true,
-	imports: [CommonModule],
+	imports: [CommonModule, ItemDropTargetDirective],
 	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
 	template: `
 		<aside class="sidebar">
@@ -26,6 +37,17 @@ import { FileItem } from '../../models/file-item';
 				</div>
 			</div>
 
+			<div class="search-box" role="search">
+				<i class="material-icons">search</i>
+				<input
+					type="search"
+					placeholder="Search in My Files"
+					aria-label="Search files and folders"
+					[value]="searchQuery ?? ''"
+					(input)="onSearchInput($event)"
+					(keyup.enter)="onSearchInput($event)" />
+			</div>
+
 			<div class="main-actions">
 				<input
 					#fileInput
@@ -56,23 +78,93 @@ import { FileItem } from '../../models/file-item';
 			<nav class="nav-items">
 				<button
 					class="nav-item"
-					[class.active]="!currentFolderId"
+					[class.active]="!currentFolderId && !trashActive"
+					[appItemDropTarget]="null"
+					(itemDrop)="onItemDrop($event, null, 'My Files')"
 					(click)="folderSelect.emit(null)">
 					<i class="material-icons">home</i>
 					<span>My Files</span>
 				</button>
 
-				<div class="folder-tree">
-					<ng-container *ngFor="let folder of folders">
-						<button
-							class="nav-item folder-item"
-							[class.active]="folder.id === currentFolderId"
-							(click)="folderSelect.emit(folder.id)">
-							<i class="material-icons">folder</i>
-							<span>{{ folder.name }}</span>
-						</button>
+				<div class="folder-tree" role="tree" aria-label="Folders">
+					<ng-container
+						*ngTemplateOutlet="
+							branch;
+							context: { $implicit: getChildren(null), level: 0 }
+						">
 					</ng-container>
 				</div>
+
+				<ng-template #branch let-nodes let-level="level">
+					<ng-container *ngFor="let folder of nodes; trackBy: trackById">
+						<div
+							class="tree-row"
+							role="treeitem"
+							[attr.aria-level]="level + 1"
+							[attr.aria-expanded]="
+								folder.hasChildren ? isExpanded(folder.id) : null
+							"
+							[attr.aria-selected]="folder.id === currentFolderId">
+							<button
+								class="nav-item folder-item"
+								[style.padding-left.px]="8 + level * 16"
+								[class.active]="folder.id === currentFolderId"
+								[appItemDropTarget]="folder.id"
+								(itemDrop)="onItemDrop($event, folder.id, folder.name)"
+								(click)="folderSelect.emit(folder.id)">
+								<span
+									class="tree-toggle"
+									[class.is-hidden]="!folder.hasChildren"
+									(click)="onToggle($event, folder)"
+									[attr.aria-label]="
+										(isExpanded(folder.id) ? 'Collapse ' : 'Expand ') +
+										folder.name
+									">
+									<i class="material-icons">
+										{{
+											isExpanded(folder.id) ? 'expand_more' : 'chevron_right'
+										}}
+									</i>
+								</span>
+								<i class="material-icons">
+									{{ folder.id === currentFolderId ? 'folder_open' : 'folder' }}
+								</i>
+								<span class="folder-name">{{ folder.name }}</span>
+							</button>
+						</div>
+						<div
+							*ngIf="folder.hasChildren && isExpanded(folder.id)"
+							role="group">
+							<ng-container
+								*ngIf="
+									getChildren(folder.id) as children;
+									else loadingChildren
+								">
+								<ng-container
+									*ngTemplateOutlet="
+										branch;
+										context: { $implicit: children, level: level + 1 }
+									">
+								</ng-container>
+							</ng-container>
+							<ng-template #loadingChildren>
+								<div
+									class="tree-loading"
+									[style.padding-left.px]="48 + level * 16">
+									Loading…
+								</div>
+							</ng-template>
+						</div>
+					</ng-container>
+				</ng-template>
+
+				<button
+					class="nav-item"
+					[class.active]="trashActive"
+					(click)="trashSelect.emit()">
+					<i class="material-icons">delete</i>
+					<span>Trash</span>
+				</button>
 			</nav>
 		</aside>
 	`,
@@ -80,11 +172,42 @@ import { FileItem } from '../../models/file-item';
 })
 export class SidebarComponent {
 	@Input() currentFolderId: string | null = null;
-	@Input() folders: FileItem[] = [];
+	@Input() folderTree: FolderTree = {};
+	@Input() expandedIds: string[] = [];
+	@Input() searchQuery: string | null = null;
+	@Input() trashActive = false;
 	@Output() createFolder = new EventEmitter<void>();
 	@Output() uploadFiles = new EventEmitter<Event>();
 	@Output() uploadFolder = new EventEmitter<Event>();
 	@Output() folderSelect = new EventEmitter<string | null>();
+	@Output() search = new EventEmitter<string>();
+	@Output() trashSelect = new EventEmitter<void>();
+	@Output() itemMove = new EventEmitter<ItemMoveEvent>();
+	@Output() folderToggle = new EventEmitter<FolderToggleEvent>();
+
+	/**
+	 * Loaded subfolders, undefined while they are being fetched
+	 */
+	getChildren(parentId: string | null): FolderTreeNode[] | undefined {
+		return this.folderTree[parentId ?? ''];
+	}
+
+	isExpanded(folderId: string): boolean {
+		return this.expandedIds.includes(folderId);
+	}
+
+	trackById(_index: number, folder: FolderTreeNode): string {
+		return folder.id;
+	}
+
+	// The arrow toggles without opening the folder
+	onToggle(event: MouseEvent, folder: FolderTreeNode): void {
+		event.stopPropagation();
+		this.folderToggle.emit({
+			id: folder.id,
+			expanded: !this.isExpanded(folder.id),
+		});
+	}
 
 	onFilesSelected(event: Event): void {
 		this.uploadFiles.emit(event);
@@ -92,4 +215,14 @@ export class SidebarComponent {
 	onFolderSelected(event: Event): void {
 		this.uploadFolder.emit(event);
 	}
+	onItemDrop(
+		items: FileItem[],
+		targetFolderId: string | null,
+		targetName: string
+	): void {
+		this.itemMove.emit({ items, targetFolderId, targetName });
+	}
+	onSearchInput(event: Event): void {
+		this.search.emit((event.target as HTMLInputElement).value);
+	}
 }
@@ -0,0 +1,117 @@
+import {
+	ComponentFixture,
+	TestBed,
+	fakeAsync,
+	tick,
+} from '@angular/core/testing';
+import { ToastContainerComponent } from './toast-container.component';
+import { NotificationService } from '../../core/services/notification.service';
+
+describe('ToastContainerComponent', () => {
+	let fixture: ComponentFixture<ToastContainerComponent>;
+	let component: ToastContainerComponent;
+	let notifications: NotificationService;
+
+	const toasts = () => component.toasts$.value;
+	const rendered = () =>
+		Array.from(
+			(fixture.nativeElement as HTMLElement).querySelectorAll('.toast-item')
+		);
+
+	beforeEach(async () => {
+		await TestBed.configureTestingModule({
+			imports: [ToastContainerComponent],
+		}).compileComponents();
+
+		notifications = TestBed.inject(NotificationService);
+		fixture = TestBed.createComponent(ToastContainerComponent);
+		component = fixture.componentInstance;
+	});
+
+	it('should show each notification as a toast', () => {
+		notifications.success('Folder created');
+		notifications.error('Upload failed');
+		fixture.detectChanges();
+
+		expect(rendered().map(toast => toast.textContent)).toEqual([
+			jasmine.stringContaining('Folder created'),
+			jasmine.stringContaining('Upload failed'),
+		]);
+		expect(rendered()[1].getAttribute('role')).toBe('alert');
+	});
+
+	it('should collapse a repeated message into one toast with a counter', () => {
+		notifications.error('Upload failed');
+		notifications.error('Upload failed');
+		notifications.info('Upload failed');
+
+		expect(toasts().map(toast => `${toast.type} ×${toast.count}`)).toEqual([
+			'error ×2',
+			'info ×1',
+		]);
+	});
+
+	it('should dismiss a toast after its duration', fakeAsync(() => {
+		notifications.success('Folder created', 3000);
+
+		tick(2999);
+		expect(toasts().length).toBe(1);
+
+		tick(1);
+		expect(toasts()).toEqual([]);
+	}));
+
+	it('should keep a sticky toast until it is closed', fakeAsync(() => {
+		notifications.error('Server unreachable', 0);
+
+		tick(60000);
+		expect(toasts().length).toBe(1);
+
+		component.dismiss(toasts()[0].id);
+		expect(toasts()).toEqual([]);
+	}));
+
+	it('should pause the timer while hovered', fakeAsync(() => {
+		notifications.info('Copied', 3000);
+		const [toast] = toasts();
+
+		tick(1000);
+		component.pause(toast);
+		tick(5000);
+		expect(toasts().length).toBe(1);
+
+		component.resume(toast);
+		tick(2000);
+		expect(toasts()).toEqual([]);
+	}));
+
+	it('should run the retry action and dismiss the toast', () => {
+		const retry = jasmine.createSpy('retry');
+		notifications.error('Delete failed', 5000, {
+			label: 'Retry',
+			callback: retry,
+		});
+		fixture.detectChanges();
+
+		(
+			fixture.nativeElement.querySelector('.toast-action') as HTMLButtonElement
+		).click();
+
+		expect(retry).toHaveBeenCalledTimes(1);
+		expect(toasts()).toEqual([]);
+	});
+
+	it('should drop the oldest toasts beyond five', () => {
+		for (let i = 1; i <= 7; i++) {
+			notifications.info(`Message ${i}`);
+		}
+
+		expect(toasts().map(toast => toast.message)).toEqual([
+			'Message 3',
+			'Message 4',
+			'Message 5',
+			'Message 6',
+			'Message 7',
+		]);
+	});
+});
@@ -0,0 +1,190 @@
+/**
+ * Global toast outlet
+ * Renders every message emitted by NotificationService as a stacked toast.
+ *
+ * - Toasts with the same type and message are collapsed into one entry with a counter
+ * - Each toast is dismissed after its `duration` (0 or less = sticky)
+ * - Hovering a toast pauses its timer, leaving resumes it with the remaining time
+ * - An optional action button runs the notification callback then dismisses the toast
+ */
+import {
+	Component,
+	ChangeDetectionStrategy,
+	inject,
+	OnDestroy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { BehaviorSubject } from 'rxjs';
+
+import {
+	Notification,
+	NotificationService,
+	NotificationType,
+} from '../../core/services/notification.service';
+
+export interface Toast extends Notification {
+	id: number;
+	count: number;
+}
+
+interface ToastTimer {
+	handle?: ReturnType<typeof setTimeout>;
+	remaining: number;
+	startedAt: number;
+}
+
+const MAX_VISIBLE_TOASTS = 5;
+
+const TOAST_ICONS: Record<NotificationType, string> = {
+	[NotificationType.Success]: 'check_circle',
+	[NotificationType.Error]: 'error',
+	[NotificationType.Warning]: 'warning',
+	[NotificationType.Info]: 'info',
+};
+
+@Component({
+	selector: 'app-toast-container',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div class="toast-stack" aria-live="polite" aria-atomic="false">
+			@for (toast of toasts$ | async; track toast.id) {
+				<div
+					class="toast-item"
+					[class]="'toast-' + toast.type"
+					[attr.role]="toast.type === 'error' ? 'alert' : 'status'"
+					(mouseenter)="pause(toast)"
+					(mouseleave)="resume(toast)">
+					<i class="material-icons toast-icon">{{ getIcon(toast) }}</i>
+					<span class="toast-message">{{ toast.message }}</span>
+					@if (toast.count > 1) {
+						<span class="toast-count">×{{ toast.count }}</span>
+					}
+					@if (toast.action) {
+						<button class="toast-action" (click)="runAction(toast)">
+							{{ toast.action.label }}
+						</button>
+					}
+					<button
+						class="toast-close"
+						(click)="dismiss(toast.id)"
+						aria-label="Dismiss notification">
+						<i class="material-icons">close</i>
+					</button>
+				</div>
+			}
+		</div>
+	`,
+	styleUrls: ['./toast-container.component.scss'],
+})
+export class ToastContainerComponent implements OnDestroy {
+	private readonly notificationService = inject(NotificationService);
+	private readonly timers = new Map<number, ToastTimer>();
+	private nextId = 0;
+
+	readonly toasts$ = new BehaviorSubject<Toast[]>([]);
+
+	constructor() {
+		this.notificationService.notifications$
+			.pipe(takeUntilDestroyed())
+			.subscribe(notification => this.add(notification));
+	}
+
+	ngOnDestroy(): void {
+		this.timers.forEach(timer => clearTimeout(timer.handle));
+		this.timers.clear();
+	}
+
+	getIcon(toast: Toast): string {
+		return TOAST_ICONS[toast.type];
+	}
+
+	dismiss(id: number): void {
+		const timer = this.timers.get(id);
+		if (timer) {
+			clearTimeout(timer.handle);
+			this.timers.delete(id);
+		}
+		this.toasts$.next(this.toasts$.value.filter(toast => toast.id !== id));
+	}
+
+	runAction(toast: Toast): void {
+		toast.action?.callback();
+		this.dismiss(toast.id);
+	}
+
+	pause(toast: Toast): void {
+		const timer = this.timers.get(toast.id);
+		if (!timer?.handle) return;
+
+		clearTimeout(timer.handle);
+		timer.handle = undefined;
+		timer.remaining -= Date.now() - timer.startedAt;
+	}
+
+	resume(toast: Toast): void {
+		const timer = this.timers.get(toast.id);
+		if (!timer || timer.handle) return;
+
+		this.schedule(toast.id, timer.remaining);
+	}
+
+	private add(notification: Notification): void {
+		const toasts = this.toasts$.value;
+		const existing = toasts.find(
+			toast =>
+				toast.type === notification.type &&
+				toast.message === notification.message
+		);
+
+		// Same message already visible: bump its counter instead of stacking a copy
+		if (existing) {
+			const updated: Toast = {
+				...existing,
+				action: notification.action ?? existing.action,
+				count: existing.count + 1,
+			};
+			this.toasts$.next(
+				toasts.map(toast => (toast.id === existing.id ? updated : toast))
+			);
+			this.startTimer(updated);
+			return;
+		}
+
+		const toast: Toast = { ...notification, id: this.nextId++, count: 1 };
+		const visible = [...toasts, toast];
+		visible
+			.slice(0, Math.max(0, visible.length - MAX_VISIBLE_TOASTS))
+			.forEach(overflow => this.dismiss(overflow.id));
+
+		this.toasts$.next([...this.toasts$.value, toast]);
+		this.startTimer(toast);
+	}
+
+	private startTimer(toast: Toast): void {
+		const previous = this.timers.get(toast.id);
+		if (previous) {
+			clearTimeout(previous.handle);
+			this.timers.delete(toast.id);
+		}
+
+		if (!toast.duration || toast.duration <= 0) return; // Sticky toast
+
+		this.timers.set(toast.id, {
+			remaining: toast.duration,
+			startedAt: Date.now(),
+		});
+		this.schedule(toast.id, toast.duration);
+	}
+
+	private schedule(id: number, delay: number): void {
+		const timer = this.timers.get(id);
+		if (!timer) return;
+
+		timer.startedAt = Date.now();
+		timer.remaining = delay;
+		timer.handle = setTimeout(() => this.dismiss(id), Math.max(0, delay));
+	}
+}
@@ -0,0 +1,132 @@
+import {
+	Component,
+	EventEmitter,
+	Input,
+	Output,
+	ChangeDetectionStrategy,
+	inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TrashItem } from '../../models/file-item';
+import {
+	FileTypeService,
+	FileTypeInfo,
+} from '../../services/file-type.service';
+
+@Component({
+	selector: 'app-trash-list',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<ul class="trash-list">
+			@for (item of items; track item.id) {
+				<li class="trash-item">
+					<i class="material-icons" [style.color]="getFileTypeInfo(item).color">
+						{{ getFileTypeInfo(item).icon }}
+					</i>
+					<div class="trash-info">
+						<span class="trash-name">{{ item.name }}</span>
+						<span class="trash-location">
+							My Files
+							@for (segment of item.originalPath; track segment.id) {
+								/ {{ segment.name }}
+							}
+							· Deleted {{ item.trashedAt | date: 'medium' }}
+						</span>
+					</div>
+					<div class="trash-actions">
+						<button
+							class="icon-button"
+							(click)="restore.emit(item)"
+							title="Restore">
+							<i class="material-icons">restore_from_trash</i>
+						</button>
+						<button
+							class="icon-button danger"
+							(click)="purge.emit(item)"
+							title="Delete forever">
+							<i class="material-icons">delete_forever</i>
+						</button>
+					</div>
+				</li>
+			}
+		</ul>
+	`,
+	styles: [
+		`
+			.trash-list {
+				list-style: none;
+				padding: 0;
+				margin: 0;
+			}
+
+			.trash-item {
+				display: flex;
+				align-items: center;
+				gap: 16px;
+				padding: 8px 12px;
+				border-radius: 8px;
+
+				&:hover {
+					background-color: #f0f4f9;
+				}
+			}
+
+			.trash-info {
+				display: flex;
+				flex: 1;
+				flex-direction: column;
+				min-width: 0;
+			}
+
+			.trash-name {
+				color: #202124;
+				overflow: hidden;
+				text-overflow: ellipsis;
+				white-space: nowrap;
+			}
+
+			.trash-location {
+				font-size: 12px;
+				color: #5f6368;
+			}
+
+			.trash-actions {
+				display: flex;
+				gap: 4px;
+			}
+
+			.icon-button {
+				display: flex;
+				padding: 8px;
+				border: none;
+				border-radius: 50%;
+				background: none;
+				color: #5f6368;
+				cursor: pointer;
+
+				&:hover {
+					background-color: rgba(0, 0, 0, 0.05);
+				}
+
+				&.danger:hover {
+					color: #d93025;
+				}
+			}
+		`,
+	],
+})
+export class TrashListComponent {
+	private readonly fileTypeService = inject(FileTypeService);
+
+	@Input() items: TrashItem[] = [];
+	@Output() restore = new EventEmitter<TrashItem>();
+	@Output() purge = new EventEmitter<TrashItem>();
+
+	getFileTypeInfo(item: TrashItem): FileTypeInfo {
+		return item.folder
+			? this.fileTypeService.getFolderTypeInfo()
+			: this.fileTypeService.getFileTypeInfo(item.mimeType);
+	}
+}
@@ -0,0 +1,192 @@
+/**
+ * Upload queue panel
+ * Global, collapsible list of the files queued by UploadFacade.uploadFiles.
+ * Rendered next to the router outlet so it stays visible while navigating.
+ *
+ * - Bytes sent, speed and remaining time for running uploads
+ * - Cancel for queued/running uploads, retry for failed/cancelled ones
+ * - Closing the panel clears finished uploads (only offered once the queue is idle)
+ */
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { map } from 'rxjs';
+
+import { UploadFacade } from '../../core/facades/upload.facade';
+import { UploadStatus, UploadTask } from '../../models/file-item';
+
+const STATUS_ICONS: Record<UploadStatus, string> = {
+	queued: 'schedule',
+	uploading: 'cloud_upload',
+	completed: 'check_circle',
+	failed: 'error',
+	cancelled: 'block',
+	skipped: 'redo',
+};
+
+@Component({
+	selector: 'app-upload-panel',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		@if (uploads$ | async; as uploads) {
+			@if (uploads.length > 0) {
+				<section class="upload-panel" aria-label="Uploads">
+					<header class="panel-header">
+						<span class="panel-title" aria-live="polite">
+							{{ getTitle(uploads) }}
+						</span>
+						<button
+							class="icon-button"
+							(click)="isCollapsed = !isCollapsed"
+							[attr.aria-expanded]="!isCollapsed"
+							[title]="isCollapsed ? 'Expand' : 'Collapse'">
+							<i class="material-icons">
+								{{ isCollapsed ? 'expand_less' : 'expand_more' }}
+							</i>
+						</button>
+						@if (!hasActive(uploads)) {
+							<button
+								class="icon-button"
+								(click)="facade.clearFinishedUploads()"
+								title="Close">
+								<i class="material-icons">close</i>
+							</button>
+						}
+					</header>
+
+					@if (!isCollapsed) {
+						<ul class="upload-list">
+							@for (task of uploads; track task.id) {
+								<li class="upload-item" [class]="'status-' + task.status">
+									<i class="material-icons status-icon">
+										{{ getStatusIcon(task) }}
+									</i>
+									<div class="upload-info">
+										<span class="upload-name" [title]="task.file.name">
+											{{ task.file.name }}
+										</span>
+										@if (task.status === 'uploading') {
+											<div
+												class="progress-track"
+												role="progressbar"
+												[attr.aria-valuenow]="getPercent(task)"
+												aria-valuemin="0"
+												aria-valuemax="100">
+												<div
+													class="progress-fill"
+													[style.width.%]="getPercent(task)"></div>
+											</div>
+										}
+										<span class="upload-detail">{{ getDetail(task) }}</span>
+									</div>
+									@if (
+										task.status === 'queued' || task.status === 'uploading'
+									) {
+										<button
+											class="icon-button"
+											(click)="facade.cancelUpload(task.id)"
+											title="Cancel upload">
+											<i class="material-icons">cancel</i>
+										</button>
+									}
+									@if (
+										task.status === 'failed' || task.status === 'cancelled'
+									) {
+										<button
+											class="icon-button"
+											(click)="facade.retryUpload(task.id)"
+											title="Retry upload">
+											<i class="material-icons">refresh</i>
+										</button>
+									}
+								</li>
+							}
+						</ul>
+					}
+				</section>
+			}
+		}
+	`,
+	styleUrls: ['./upload-panel.component.scss'],
+})
+export class UploadPanelComponent {
+	readonly facade = inject(UploadFacade);
+
+	readonly uploads$ = this.facade.uploads$.pipe(
+		map(uploads => [...uploads].reverse()) // Latest uploads first
+	);
+
+	isCollapsed = false;
+
+	hasActive(uploads: UploadTask[]): boolean {
+		return uploads.some(
+			task => task.status === 'queued' || task.status === 'uploading'
+		);
+	}
+
+	getTitle(uploads: UploadTask[]): string {
+		const active = uploads.filter(
+			task => task.status === 'queued' || task.status === 'uploading'
+		).length;
+		if (active > 0) {
+			return `Uploading ${active} item${active > 1 ? 's' : ''}`;
+		}
+
+		const completed = uploads.filter(
+			task => task.status === 'completed'
+		).length;
+		return `${completed} upload${completed !== 1 ? 's' : ''} complete`;
+	}
+
+	getStatusIcon(task: UploadTask): string {
+		return STATUS_ICONS[task.status];
+	}
+
+	getPercent(task: UploadTask): number {
+		return task.total > 0 ? Math.round((task.loaded / task.total) * 100) : 0;
+	}
+
+	getDetail(task: UploadTask): string {
+		switch (task.status) {
+			case 'queued':
+				return 'Waiting…';
+			case 'uploading': {
+				const sent = `${this.formatBytes(task.loaded)} of ${this.formatBytes(task.total)}`;
+				if (!task.bytesPerSecond) return sent;
+
+				const secondsLeft = (task.total - task.loaded) / task.bytesPerSecond;
+				return `${sent} · ${this.formatBytes(task.bytesPerSecond)}/s · ${this.formatDuration(secondsLeft)} left`;
+			}
+			case 'completed':
+				return this.formatBytes(task.total);
+			case 'failed':
+				return task.error || 'Upload failed';
+			case 'cancelled':
+				return 'Cancelled';
+			case 'skipped':
+				return 'Skipped (name already exists)';
+		}
+	}
+
+	private formatBytes(bytes: number): string {
+		const units = ['B', 'KB', 'MB', 'GB'];
+		let value = bytes;
+		let unit = 0;
+		while (value >= 1024 && unit < units.length - 1) {
+			value /= 1024;
+			unit++;
+		}
+		return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+	}
+
+	private formatDuration(seconds: number): string {
+		const rounded = Math.max(1, Math.ceil(seconds));
+		if (rounded < 60) return `${rounded}s`;
+
+		const minutes = Math.floor(rounded / 60);
+		if (minutes < 60) return `${minutes}m ${rounded % 60}s`;
+
+		return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+	}
+}
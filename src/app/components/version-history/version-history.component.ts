@@ -0,0 +1,219 @@
+/**
+ * Version history panel of the file preview
+ * Lists the stored versions of a file, newest first. Earlier versions can be
+ * downloaded or restored; restoring adds the old content as a new current
+ * version, so nothing in the history is lost.
+ */
+import {
+	Component,
+	ChangeDetectionStrategy,
+	EventEmitter,
+	Input,
+	Output,
+	inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+	BehaviorSubject,
+	Observable,
+	filter,
+	startWith,
+	switchMap,
+	tap,
+} from 'rxjs';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { VersionFacade } from '../../core/facades/version.facade';
+import { FileItem, FileVersion } from '../../models/file-item';
+
+@Component({
+	selector: 'app-version-history',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<aside class="version-history" aria-labelledby="version-history-title">
+			<h2 id="version-history-title">Version history</h2>
+
+			@if (versions$ | async; as versions) {
+				<ol class="version-list">
+					@for (version of versions; track version.version) {
+						<li class="version" [class.is-current]="version.current">
+							<div class="version-info">
+								<span class="version-number">
+									Version {{ version.version }}
+									@if (version.current) {
+										<span class="version-badge">Current</span>
+									}
+								</span>
+								<span class="version-meta">
+									{{ version.created | date: 'medium' }} ·
+									{{ formatBytes(version.size) }}
+								</span>
+								<span class="version-meta">
+									{{ version.uploadedBy ?? 'Unknown uploader' }}
+									@if (version.restoredFrom) {
+										· restored from version {{ version.restoredFrom }}
+									}
+								</span>
+							</div>
+							<button
+								class="icon-button"
+								(click)="download(version)"
+								title="Download this version">
+								<i class="material-icons">download</i>
+							</button>
+							@if (!version.current) {
+								<button
+									class="icon-button"
+									(click)="restore(version)"
+									title="Restore this version">
+									<i class="material-icons">restore</i>
+								</button>
+							}
+						</li>
+					}
+				</ol>
+			} @else {
+				<p class="version-meta">Loading…</p>
+			}
+		</aside>
+	`,
+	styles: [
+		`
+			:host {
+				display: block;
+				flex-shrink: 0;
+				align-self: stretch;
+			}
+
+			.version-history {
+				display: flex;
+				flex-direction: column;
+				width: 320px;
+				height: 100%;
+				padding: 16px;
+				overflow-y: auto;
+				border-radius: 8px;
+				background: rgba(255, 255, 255, 0.06);
+
+				h2 {
+					margin: 0 0 12px;
+					font-size: 16px;
+					font-weight: 500;
+				}
+			}
+
+			.version-list {
+				margin: 0;
+				padding: 0;
+				list-style: none;
+			}
+
+			.version {
+				display: flex;
+				align-items: center;
+				gap: 4px;
+				padding: 8px 0;
+				border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+
+				&.is-current .version-number {
+					color: #8ab4f8;
+				}
+			}
+
+			.version-info {
+				display: flex;
+				flex: 1;
+				flex-direction: column;
+				gap: 2px;
+				min-width: 0;
+			}
+
+			.version-number {
+				font-weight: 500;
+			}
+
+			.version-badge {
+				margin-left: 4px;
+				padding: 0 6px;
+				border-radius: 8px;
+				background: rgba(138, 180, 248, 0.2);
+				font-size: 12px;
+			}
+
+			.version-meta {
+				overflow: hidden;
+				text-overflow: ellipsis;
+				color: #9aa0a6;
+				font-size: 13px;
+				white-space: nowrap;
+			}
+
+			.icon-button {
+				display: flex;
+				padding: 6px;
+				border: none;
+				border-radius: 50%;
+				background: none;
+				color: #e8eaed;
+				cursor: pointer;
+
+				&:hover {
+					background-color: rgba(255, 255, 255, 0.1);
+				}
+			}
+		`,
+	],
+})
+export class VersionHistoryComponent {
+	private readonly facade = inject(VersionFacade);
+	private readonly destroyRef = takeUntilDestroyed();
+
+	private readonly item$ = new BehaviorSubject<FileItem | null>(null);
+
+	@Input({ required: true })
+	set item(value: FileItem) {
+		this.item$.next(value);
+	}
+	get item(): FileItem {
+		return this.item$.value!;
+	}
+
+	/** The new current version of the file, after a restore */
+	@Output() restored = new EventEmitter<FileItem>();
+
+	// Reloaded whenever the item changes, including after a restore
+	readonly versions$: Observable<FileVersion[] | null> = this.item$.pipe(
+		filter((item): item is FileItem => item !== null),
+		switchMap(item => this.facade.loadVersions(item.id).pipe(startWith(null)))
+	);
+
+	download(version: FileVersion): void {
+		this.facade
+			.downloadVersion(this.item, version.version)
+			.pipe(this.destroyRef)
+			.subscribe();
+	}
+
+	restore(version: FileVersion): void {
+		this.facade
+			.restoreVersion(this.item, version.version)
+			.pipe(
+				filter((item): item is FileItem => item !== null),
+				tap(item => this.restored.emit(item)),
+				this.destroyRef
+			)
+			.subscribe();
+	}
+
+	formatBytes(bytes: number): string {
+		const units = ['B', 'KB', 'MB', 'GB'];
+		let value = bytes;
+		let unit = 0;
+		while (value >= 1024 && unit < units.length - 1) {
+			value /= 1024;
+			unit++;
+		}
+		return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+	}
+}
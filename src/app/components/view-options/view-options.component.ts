@@ -0,0 +1,163 @@
+import {
+	Component,
+	EventEmitter,
+	Input,
+	Output,
+	ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+	DEFAULT_VIEW_OPTIONS,
+	SortField,
+	ViewMode,
+	ViewOptions,
+} from '../../models/view-options';
+
+export const SORT_FIELD_LABELS: Record<SortField, string> = {
+	name: 'Name',
+	size: 'Size',
+	type: 'Type',
+	modified: 'Modified',
+};
+
+@Component({
+	selector: 'app-view-options',
+	standalone: true,
+	imports: [CommonModule],
+	changeDetection: ChangeDetectionStrategy.OnPush, // 🚀 Performance optimization
+	template: `
+		<div class="view-options">
+			<label class="sort-control">
+				<span>Sort by</span>
+				<select (change)="onSortFieldChange($event)" aria-label="Sort by">
+					@for (field of sortFields; track field) {
+						<option [value]="field" [selected]="options.sort.field === field">
+							{{ labels[field] }}
+						</option>
+					}
+				</select>
+			</label>
+			<button
+				class="icon-button"
+				(click)="toggleDirection()"
+				[title]="options.sort.direction === 'asc' ? 'Ascending' : 'Descending'">
+				<i class="material-icons">
+					{{
+						options.sort.direction === 'asc' ? 'arrow_upward' : 'arrow_downward'
+					}}
+				</i>
+			</button>
+
+			<div class="view-toggle" role="group" aria-label="Layout">
+				<button
+					class="icon-button"
+					[class.active]="options.mode === 'grid'"
+					[attr.aria-pressed]="options.mode === 'grid'"
+					(click)="setMode('grid')"
+					title="Grid view">
+					<i class="material-icons">grid_view</i>
+				</button>
+				<button
+					class="icon-button"
+					[class.active]="options.mode === 'list'"
+					[attr.aria-pressed]="options.mode === 'list'"
+					(click)="setMode('list')"
+					title="List view">
+					<i class="material-icons">view_list</i>
+				</button>
+			</div>
+		</div>
+	`,
+	styles: [
+		`
+			.view-options {
+				display: flex;
+				align-items: center;
+				justify-content: flex-end;
+				gap: 4px;
+				margin-bottom: 8px;
+			}
+
+			.sort-control {
+				display: flex;
+				align-items: center;
+				gap: 8px;
+				margin: 0;
+				font-size: 14px;
+				color: #5f6368;
+
+				select {
+					padding: 4px 8px;
+					border: 1px solid #dadce0;
+					border-radius: 8px;
+					background: #ffffff;
+					color: #202124;
+				}
+			}
+
+			.view-toggle {
+				display: flex;
+				margin-left: 12px;
+				border: 1px solid #dadce0;
+				border-radius: 18px;
+				overflow: hidden;
+
+				.icon-button {
+					border-radius: 0;
+
+					&.active {
+						background-color: #c2e7ff;
+						color: #001d35;
+					}
+				}
+			}
+
+			.icon-button {
+				display: flex;
+				padding: 6px 12px;
+				border: none;
+				border-radius: 50%;
+				background: none;
+				color: #444746;
+				cursor: pointer;
+
+				&:hover {
+					background-color: rgba(0, 0, 0, 0.06);
+				}
+
+				.material-icons {
+					font-size: 20px;
+				}
+			}
+		`,
+	],
+})
+export class ViewOptionsComponent {
+	@Input() options: ViewOptions = DEFAULT_VIEW_OPTIONS;
+	@Output() optionsChange = new EventEmitter<ViewOptions>();
+
+	readonly sortFields = Object.keys(SORT_FIELD_LABELS) as SortField[];
+	readonly labels = SORT_FIELD_LABELS;
+
+	setMode(mode: ViewMode): void {
+		if (mode !== this.options.mode) {
+			this.optionsChange.emit({ ...this.options, mode });
+		}
+	}
+
+	onSortFieldChange(event: Event): void {
+		const field = (event.target as HTMLSelectElement).value as SortField;
+		this.optionsChange.emit({
+			...this.options,
+			sort: { field, direction: 'asc' },
+		});
+	}
+
+	toggleDirection(): void {
+		const { field, direction } = this.options.sort;
+		this.optionsChange.emit({
+			...this.options,
+			sort: { field, direction: direction === 'asc' ? 'desc' : 'asc' },
+		});
+	}
+}
@@ -0,0 +1,281 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { HttpErrorResponse } from '@angular/common/http';
+import { BatchFacade } from './batch.facade';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { NotificationService } from '../services/notification.service';
+import { DialogService } from '../services/dialog.service';
+import {
+	ConflictResolution,
+	FileItem,
+	SearchResult,
+} from '../../models/file-item';
+
+describe('BatchFacade', () => {
+	let facade: BatchFacade;
+	let repository: jasmine.SpyObj<IFileRepository>;
+	let dialogs: jasmine.SpyObj<DialogService>;
+	let notifications: NotificationService;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	beforeEach(() => {
+		repository = jasmine.createSpyObj<IFileRepository>('FileRepository', [
+			'getItems',
+			'getFolderTree',
+			'batch',
+			'deleteItem',
+			'restoreItem',
+			'updateItem',
+		]);
+		repository.getItems.and.returnValue(of({ items: [] }));
+		repository.getFolderTree.and.returnValue(of({ items: [] }));
+
+		TestBed.configureTestingModule({
+			providers: [{ provide: FILE_REPOSITORY, useValue: repository }],
+		});
+		dialogs = TestBed.inject(DialogService) as jasmine.SpyObj<DialogService>;
+		spyOn(dialogs, 'resolveConflict');
+
+		facade = TestBed.inject(BatchFacade);
+		notifications = TestBed.inject(NotificationService);
+	});
+
+	it('should move the selection to the trash in one request', () => {
+		repository.batch.and.returnValue(
+			of({
+				results: [
+					{ id: 'a', success: true },
+					{ id: 'b', success: true },
+				],
+			})
+		);
+		spyOn(notifications, 'success');
+
+		let result: boolean | undefined;
+		facade.deleteItems([item('a'), item('b')]).subscribe(ok => (result = ok));
+
+		expect(result).toBeTrue();
+		expect(repository.batch).toHaveBeenCalledWith(
+			'delete',
+			['a', 'b'],
+			undefined,
+			'fail'
+		);
+		expect(notifications.success).toHaveBeenCalledWith(
+			'2 item(s) moved to trash',
+			5000,
+			jasmine.objectContaining({ label: 'Undo' })
+		);
+		expect(repository.getItems).toHaveBeenCalled();
+	});
+
+	it('should name the items the server could not process', () => {
+		repository.batch.and.returnValue(
+			of({
+				results: [
+					{ id: 'a', success: true },
+					{
+						id: 'b',
+						success: false,
+						code: 'INVALID_PARENT',
+						message: 'Cycle',
+					},
+				],
+			})
+		);
+		spyOn(notifications, 'error');
+
+		let result: boolean | undefined;
+		facade
+			.moveItems([item('a'), item('b')], 'archive', 'Archive')
+			.subscribe(ok => (result = ok));
+
+		expect(result).toBeFalse();
+		expect(repository.batch).toHaveBeenCalledWith(
+			'move',
+			['a', 'b'],
+			'archive',
+			'fail'
+		);
+		expect(notifications.error).toHaveBeenCalledWith(
+			'1 item(s) could not be processed: "b.txt" ' +
+				'(This item cannot be moved to the selected folder.)',
+			8000
+		);
+	});
+
+	it('should skip items that are already in the target folder', () => {
+		let result: boolean | undefined;
+		facade
+			.moveItems([item('a'), item('b')], 'docs', 'Documents')
+			.subscribe(ok => (result = ok));
+
+		expect(result).toBeTrue();
+		expect(repository.batch).not.toHaveBeenCalled();
+	});
+
+	it('should offer a retry when the batch request fails', () => {
+		repository.batch.and.returnValues(
+			throwError(() => new HttpErrorResponse({ status: 0 })),
+			of({ results: [{ id: 'a', success: true }] })
+		);
+		spyOn(notifications, 'error').and.callThrough();
+
+		let result: boolean | undefined;
+		facade.deleteItems([item('a')]).subscribe(ok => (result = ok));
+
+		expect(result).toBeFalse();
+		const [message, , action] = (
+			notifications.error as jasmine.Spy
+		).calls.mostRecent().args;
+		expect(message).toMatch(/^Bulk delete failed: /);
+
+		action.callback();
+
+		expect(repository.batch).toHaveBeenCalledTimes(2);
+	});
+
+	describe('deleting a folder with its contents', () => {
+		const folder = item('projects', { name: 'Projects', folder: true });
+
+		it('should only send items whose folder is not selected too', () => {
+			const nested: SearchResult = {
+				...item('plan', { parentId: 'drafts' }),
+				parentPath: [
+					{ id: 'docs', name: 'Documents' },
+					{ id: 'projects', name: 'Projects' },
+					{ id: 'drafts', name: 'Drafts' },
+				],
+			};
+			repository.batch.and.returnValue(
+				of({
+					results: [
+						{ id: 'projects', success: true },
+						{ id: 'notes', success: true },
+					],
+				})
+			);
+
+			facade
+				.deleteItems([
+					folder,
+					item('readme', { parentId: 'projects' }),
+					nested,
+					item('notes'),
+				])
+				.subscribe();
+
+			expect(repository.batch).toHaveBeenCalledWith(
+				'delete',
+				['projects', 'notes'],
+				undefined,
+				'fail'
+			);
+		});
+
+		it('should undo by restoring only the items the server trashed', () => {
+			repository.batch.and.returnValue(
+				of({
+					results: [
+						{ id: 'projects', success: true },
+						{ id: 'readme', success: true, skipped: true },
+					],
+				})
+			);
+			repository.restoreItem.and.returnValue(of(folder));
+			spyOn(notifications, 'success');
+
+			// The listing was stale: readme had been moved into Projects meanwhile
+			facade.deleteItems([folder, item('readme')]).subscribe();
+			const [message, , undo] = (
+				notifications.success as jasmine.Spy
+			).calls.mostRecent().args;
+			undo.callback();
+
+			expect(message).toBe('2 item(s) moved to trash');
+			expect(repository.restoreItem).toHaveBeenCalledOnceWith('projects');
+		});
+	});
+
+	describe('name conflicts', () => {
+		const answer = (
+			strategy: ConflictResolution['strategy'],
+			applyToAll = false
+		) => of<ConflictResolution | null>({ strategy, applyToAll });
+
+		it('should move conflicting batch items again with their strategy', () => {
+			repository.batch.and.returnValues(
+				of({
+					results: [
+						{ id: 'a', success: true },
+						{
+							id: 'b',
+							success: false,
+							code: 'DUPLICATE_NAME',
+							message: 'Name taken',
+						},
+					],
+				}),
+				of({ results: [{ id: 'b', success: true }] })
+			);
+			dialogs.resolveConflict.and.returnValue(answer('keep-both'));
+
+			let result: boolean | undefined;
+			facade
+				.moveItems([item('a'), item('b')], 'archive', 'Archive')
+				.subscribe(ok => (result = ok));
+
+			expect(repository.batch.calls.mostRecent().args).toEqual([
+				'move',
+				['b'],
+				'archive',
+				'keep-both',
+			]);
+			expect(result).toBeTrue();
+		});
+
+		it('should keep the chosen strategy when the re-run is retried', () => {
+			repository.batch.and.returnValues(
+				of({
+					results: [
+						{
+							id: 'b',
+							success: false,
+							code: 'DUPLICATE_NAME',
+							message: 'Name taken',
+						},
+					],
+				}),
+				throwError(() => new HttpErrorResponse({ status: 503 })),
+				of({ results: [{ id: 'b', success: true }] })
+			);
+			dialogs.resolveConflict.and.returnValue(answer('replace'));
+			spyOn(notifications, 'error');
+			spyOn(console, 'error');
+
+			facade.moveItems([item('b')], 'archive', 'Archive').subscribe();
+			const [, , retry] = (
+				notifications.error as jasmine.Spy
+			).calls.mostRecent().args;
+			retry.callback();
+
+			expect(repository.batch.calls.mostRecent().args).toEqual([
+				'move',
+				['b'],
+				'archive',
+				'replace',
+			]);
+		});
+	});
+});
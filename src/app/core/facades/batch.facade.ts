@@ -0,0 +1,278 @@
+/**
+ * Batch Facade - Orchestrates operations on a selection
+ * SRP: Deleting and moving several items in one batch request
+ *
+ * Per-item failures are reported together, name conflicts are resolved
+ * with the user and the applied part is recorded as one undoable command
+ * in FileManagerFacade's history.
+ */
+import { Injectable, inject } from '@angular/core';
+import {
+	Observable,
+	catchError,
+	finalize,
+	of,
+	map,
+	switchMap,
+	from,
+	concatMap,
+	toArray,
+} from 'rxjs';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { ErrorHandlerService } from '../services/error-handler.service';
+import { DialogService } from '../services/dialog.service';
+import { NotificationService } from '../services/notification.service';
+import { UndoableCommand } from '../services/command-history.service';
+import { FileManagerFacade } from './file-manager.facade';
+import {
+	BatchOperation,
+	BatchResult,
+	ConflictStrategy,
+	FileItem,
+	SearchResult,
+} from '../../models/file-item';
+
+@Injectable({
+	providedIn: 'root',
+})
+export class BatchFacade {
+	private readonly repository: IFileRepository = inject(FILE_REPOSITORY);
+	private readonly state = inject(FileStateService);
+	private readonly errorHandler = inject(ErrorHandlerService);
+	private readonly notifications = inject(NotificationService);
+	private readonly dialogs = inject(DialogService);
+	private readonly fileManager = inject(FileManagerFacade);
+
+	/**
+	 * Move several items to the trash in one batch request
+	 * Items inside a selected folder go to the trash with it, so only the
+	 * folder is sent (and restored by undo).
+	 */
+	deleteItems(items: FileItem[]): Observable<boolean> {
+		const selectedIds = new Set(items.map(item => item.id));
+		const roots = items.filter(
+			item =>
+				!this.ancestorIds(item).some(ancestorId => selectedIds.has(ancestorId))
+		);
+		return this.runBatch('delete', roots, 'moved to trash');
+	}
+
+	/**
+	 * Move several items into another folder in one batch request
+	 */
+	moveItems(
+		items: FileItem[],
+		targetFolderId: string | null,
+		targetName: string
+	): Observable<boolean> {
+		const movable = items.filter(item => item.parentId !== targetFolderId);
+		if (movable.length === 0) {
+			return of(true); // Nothing to move
+		}
+		return this.runBatch(
+			'move',
+			movable,
+			`moved to "${targetName}"`,
+			targetFolderId
+		);
+	}
+
+	/**
+	 * Run a batch operation, report per-item failures and reload the folder
+	 */
+	private runBatch(
+		operation: BatchOperation,
+		items: FileItem[],
+		successLabel: string,
+		parentId?: string | null,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<boolean> {
+		this.state.setLoading(true);
+
+		return this.repository
+			.batch(
+				operation,
+				items.map(item => item.id),
+				parentId,
+				conflict
+			)
+			.pipe(
+				switchMap(response => {
+					// Name conflicts are resolved with the user instead of being reported as failures
+					const conflicted =
+						conflict === 'fail'
+							? items.filter(item =>
+									response.results.some(
+										result =>
+											result.id === item.id && result.code === 'DUPLICATE_NAME'
+									)
+								)
+							: [];
+					this.reportBatchResults(
+						response.results.filter(
+							result => !conflicted.some(item => item.id === result.id)
+						),
+						items,
+						successLabel,
+						this.batchCommand(operation, items, response.results)
+					);
+					this.fileManager.refreshFolderTreeFor(
+						items.filter(item =>
+							response.results.some(
+								result => result.id === item.id && result.success
+							)
+						)
+					);
+
+					const reload$ = this.fileManager
+						.reloadItems()
+						.pipe(map(() => response.results.every(result => result.success)));
+					return conflicted.length > 0
+						? reload$.pipe(
+								switchMap(() =>
+									this.resolveBatchConflicts(conflicted, successLabel, parentId)
+								)
+							)
+						: reload$;
+				}),
+				catchError(error => {
+					const errorDetails = this.errorHandler.parseError(error);
+					const userMessage =
+						this.errorHandler.getUserFriendlyMessage(errorDetails);
+					this.notifications.error(
+						`Bulk ${operation} failed: ${userMessage}`,
+						undefined,
+						this.notifications.retryAction(() =>
+							this.runBatch(operation, items, successLabel, parentId, conflict)
+						)
+					);
+					return of(false);
+				}),
+				finalize(() => this.state.setLoading(false))
+			);
+	}
+
+	/**
+	 * Ask a strategy per conflicting item, then move each strategy group in one batch
+	 */
+	private resolveBatchConflicts(
+		items: FileItem[],
+		successLabel: string,
+		parentId?: string | null
+	): Observable<boolean> {
+		this.state.setLoading(false);
+
+		return this.dialogs.resolveConflicts(items.map(item => item.name)).pipe(
+			switchMap(strategies => {
+				if (!strategies) return of(false);
+
+				const groups = (['replace', 'keep-both'] as const)
+					.map(strategy => ({
+						strategy,
+						items: items.filter((_, index) => strategies[index] === strategy),
+					}))
+					.filter(group => group.items.length > 0);
+				if (groups.length === 0) return of(true); // Everything skipped
+
+				return from(groups).pipe(
+					concatMap(group =>
+						this.runBatch(
+							'move',
+							group.items,
+							successLabel,
+							parentId,
+							group.strategy
+						)
+					),
+					toArray(),
+					map(results => results.every(Boolean))
+				);
+			})
+		);
+	}
+
+	private reportBatchResults(
+		results: BatchResult[],
+		items: FileItem[],
+		successLabel: string,
+		command: UndoableCommand | null
+	): void {
+		const failed = results.filter(result => !result.success);
+		const succeeded = results.length - failed.length;
+
+		if (succeeded > 0) {
+			this.notifications.success(
+				`${succeeded} item(s) ${successLabel}`,
+				5000,
+				command ? this.fileManager.recordCommand(command) : undefined
+			);
+		}
+
+		if (failed.length > 0) {
+			const details = failed
+				.map(result => {
+					const name =
+						items.find(item => item.id === result.id)?.name ?? result.id;
+					return `"${name}" (${this.errorHandler.getMessageForCode(result.code, result.message)})`;
+				})
+				.join(', ');
+			this.notifications.error(
+				`${failed.length} item(s) could not be processed: ${details}`,
+				8000
+			);
+		}
+	}
+
+	/**
+	 * Ids of the folders containing an item: the whole path for search
+	 * results, the parent for items of a listing
+	 */
+	private ancestorIds(item: FileItem): string[] {
+		const parentPath = (item as Partial<SearchResult>).parentPath;
+		return parentPath
+			? parentPath.map(folder => folder.id)
+			: item.parentId
+				? [item.parentId]
+				: [];
+	}
+
+	/**
+	 * Command for the items a batch request applied (null when none was)
+	 */
+	private batchCommand(
+		operation: BatchOperation,
+		items: FileItem[],
+		results: BatchResult[]
+	): UndoableCommand | null {
+		const applied = results
+			.filter(result => result.success && !result.skipped)
+			.map(result => ({
+				before: items.find(item => item.id === result.id)!,
+				after: result.item,
+			}))
+			.filter(change => change.before);
+		if (applied.length === 0) return null;
+
+		const subject =
+			applied.length === 1
+				? `"${applied[0].before.name}"`
+				: `${applied.length} items`;
+		return operation === 'delete'
+			? this.fileManager.trashCommand(
+					`deletion of ${subject}`,
+					applied.map(change => change.before),
+					'trashed'
+				)
+			: this.fileManager.updateCommand(
+					`move of ${subject}`,
+					applied.map(change => ({
+						before: change.before,
+						after: change.after ?? change.before,
+					}))
+				);
+	}
+}
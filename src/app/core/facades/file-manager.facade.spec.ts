@@ -0,0 +1,750 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import { HttpErrorResponse } from '@angular/common/http';
+import { FileManagerFacade } from './file-manager.facade';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { NotificationService } from '../services/notification.service';
+import { DialogService } from '../services/dialog.service';
+import { ViewPreferencesService } from '../services/view-preferences.service';
+import { EMPTY_FILTER_CRITERIA } from '../../models/item-filters';
+import {
+	ConflictResolution,
+	FileItem,
+	FolderTreeNode,
+	SearchResult,
+} from '../../models/file-item';
+
+describe('FileManagerFacade', () => {
+	let facade: FileManagerFacade;
+	let repository: jasmine.SpyObj<IFileRepository>;
+	let dialogs: jasmine.SpyObj<DialogService>;
+	let notifications: NotificationService;
+	let state: FileStateService;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	beforeEach(() => {
+		repository = jasmine.createSpyObj<IFileRepository>('FileRepository', [
+			'getItems',
+			'createFolder',
+			'downloadFile',
+			'deleteItem',
+			'updateItem',
+			'getItemPath',
+			'search',
+			'getFolderTree',
+			'restoreItem',
+			'getArchiveUrl',
+			'copyItem',
+		]);
+		repository.getItems.and.returnValue(of({ items: [] }));
+		repository.getFolderTree.and.returnValue(of({ items: [] }));
+
+		TestBed.configureTestingModule({
+			providers: [{ provide: FILE_REPOSITORY, useValue: repository }],
+		});
+		// resolveConflicts stays real so "apply to all" is covered through the facade
+		dialogs = TestBed.inject(DialogService) as jasmine.SpyObj<DialogService>;
+		spyOn(dialogs, 'resolveConflict');
+
+		facade = TestBed.inject(FileManagerFacade);
+		notifications = TestBed.inject(NotificationService);
+		state = TestBed.inject(FileStateService);
+	});
+
+	describe('deleteItem', () => {
+		it('should move the item to the trash and take it out of the listing', () => {
+			const report = item('report');
+			state.setCurrentFolderId('docs');
+			state.setItems([report, item('notes')]);
+			repository.deleteItem.and.returnValue(of(undefined));
+			spyOn(notifications, 'success');
+
+			let result: boolean | undefined;
+			facade.deleteItem(report.id, report.name).subscribe(ok => (result = ok));
+
+			expect(result).toBeTrue();
+			expect(repository.deleteItem).toHaveBeenCalledWith('report');
+			expect(state.state.items.map(current => current.id)).toEqual(['notes']);
+			expect(repository.getItems).not.toHaveBeenCalled();
+			expect(notifications.success).toHaveBeenCalledWith(
+				'"report.txt" moved to trash',
+				5000,
+				jasmine.objectContaining({ label: 'Undo' })
+			);
+		});
+
+		it('should restore the item when the delete is undone', () => {
+			repository.deleteItem.and.returnValue(of(undefined));
+			repository.restoreItem.and.returnValue(of(item('report')));
+			spyOn(notifications, 'success').and.callThrough();
+
+			facade.deleteItem('report', 'report.txt').subscribe();
+			const [, , undo] = (notifications.success as jasmine.Spy).calls.first()
+				.args;
+			undo.callback();
+
+			expect(repository.restoreItem).toHaveBeenCalledWith('report');
+		});
+
+		it('should put the item back and offer a retry when the delete fails', () => {
+			state.setCurrentFolderId('docs');
+			state.setItems([item('report'), item('notes')]);
+			repository.deleteItem.and.returnValues(
+				throwError(() => new HttpErrorResponse({ status: 0 })),
+				of(undefined)
+			);
+			spyOn(notifications, 'error').and.callThrough();
+
+			let result: boolean | undefined;
+			facade.deleteItem('report', 'report.txt').subscribe(ok => (result = ok));
+
+			expect(result).toBeFalse();
+			expect(state.state.items.map(current => current.id)).toEqual([
+				'report',
+				'notes',
+			]);
+			const [message, , action] = (
+				notifications.error as jasmine.Spy
+			).calls.mostRecent().args;
+			expect(message).toContain('Failed to delete');
+			expect(action?.label).toBe('Retry');
+
+			action!.callback();
+
+			expect(repository.deleteItem).toHaveBeenCalledTimes(2);
+			expect(state.state.isLoading).toBeFalse();
+		});
+	});
+
+	describe('createFolder', () => {
+		it('should attach a retry action when creating a folder fails', () => {
+			repository.createFolder.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 500 }))
+			);
+			spyOn(notifications, 'error');
+
+			facade.createFolder('Reports').subscribe();
+
+			expect(notifications.error).toHaveBeenCalledWith(
+				jasmine.any(String),
+				undefined,
+				jasmine.objectContaining({ label: 'Retry' })
+			);
+		});
+	});
+
+	describe('search', () => {
+		it('should store the results for a trimmed query', () => {
+			const match: SearchResult = {
+				...item('notes'),
+				parentPath: [{ id: 'docs', name: 'Documents' }],
+			};
+			repository.search.and.returnValue(of({ items: [match] }));
+
+			let results: SearchResult[] | undefined;
+			facade.search('  notes ').subscribe(found => (results = found));
+
+			expect(repository.search).toHaveBeenCalledWith('notes');
+			expect(results).toEqual([match]);
+			expect(state.state.searchQuery).toBe('notes');
+			expect(state.state.searchResults).toEqual([match]);
+			expect(state.state.currentFolderId).toBeNull();
+		});
+
+		it('should leave search mode for an empty query', () => {
+			state.setSearch('notes', []);
+
+			facade.search('   ').subscribe();
+
+			expect(repository.search).not.toHaveBeenCalled();
+			expect(state.state.searchQuery).toBeNull();
+		});
+
+		it('should keep the query and report a failed search', () => {
+			repository.search.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 500 }))
+			);
+			spyOn(notifications, 'error');
+
+			let results: SearchResult[] | undefined;
+			facade.search('notes').subscribe(found => (results = found));
+
+			expect(results).toEqual([]);
+			expect(state.state.searchQuery).toBe('notes');
+			expect(state.state.searchResults).toEqual([]);
+			expect(state.state.isLoading).toBeFalse();
+			expect(notifications.error).toHaveBeenCalledWith(
+				jasmine.stringMatching(/^Search failed: /)
+			);
+		});
+	});
+
+	describe('moveItem', () => {
+		it('should move the item and reload the current folder', () => {
+			const moved = item('notes', { parentId: 'archive' });
+			repository.updateItem.and.returnValue(of(moved));
+			spyOn(notifications, 'success');
+
+			let result: FileItem | null | undefined;
+			facade
+				.moveItem(item('notes'), 'archive', 'Archive')
+				.subscribe(found => (result = found));
+
+			expect(result).toEqual(moved);
+			expect(repository.updateItem).toHaveBeenCalledWith(
+				'notes',
+				{ parentId: 'archive' },
+				'fail'
+			);
+			expect(repository.getItems).toHaveBeenCalled();
+			expect(notifications.success).toHaveBeenCalledWith(
+				'Moved "notes.txt" to "Archive"',
+				5000,
+				jasmine.objectContaining({ label: 'Undo' })
+			);
+		});
+
+		it('should skip a drop onto the current parent or the item itself', () => {
+			facade.moveItem(item('notes'), 'docs', 'Documents').subscribe();
+			facade
+				.moveItem(item('docs', { folder: true }), 'docs', 'Documents')
+				.subscribe();
+
+			expect(repository.updateItem).not.toHaveBeenCalled();
+		});
+
+		it('should report a move the server rejects', () => {
+			repository.updateItem.and.returnValue(
+				throwError(
+					() =>
+						new HttpErrorResponse({
+							status: 409,
+							error: { error: 'An item with this name already exists' },
+						})
+				)
+			);
+			spyOn(notifications, 'error');
+
+			let result: FileItem | null | undefined;
+			facade
+				.moveItem(item('notes'), 'archive', 'Archive')
+				.subscribe(found => (result = found));
+
+			expect(result).toBeNull();
+			expect(state.state.isLoading).toBeFalse();
+			expect(notifications.error).toHaveBeenCalledWith(
+				jasmine.stringMatching(/^Failed to move "notes.txt": /)
+			);
+		});
+	});
+
+	describe('selection', () => {
+		it('should drop selected ids that left the listing', () => {
+			state.setItems([item('a'), item('b')]);
+			facade.setSelection(['a', 'b'], 'a');
+
+			state.setItems([item('b')]);
+
+			expect(state.state.selectedIds).toEqual(['b']);
+		});
+	});
+
+	describe('name conflicts', () => {
+		const duplicate = () =>
+			throwError(
+				() =>
+					new HttpErrorResponse({
+						status: 409,
+						error: { code: 'DUPLICATE_NAME', message: 'Name taken' },
+					})
+			);
+		const answer = (
+			strategy: ConflictResolution['strategy'],
+			applyToAll = false
+		) => of<ConflictResolution | null>({ strategy, applyToAll });
+
+		it('should retry creating a folder with the chosen strategy', () => {
+			const created = item('Reports (1)', { folder: true });
+			repository.createFolder.and.returnValues(
+				duplicate(),
+				of({ item: created })
+			);
+			dialogs.resolveConflict.and.returnValue(answer('keep-both'));
+
+			let result: FileItem | null | undefined;
+			facade.createFolder('Reports').subscribe(found => (result = found));
+
+			expect(dialogs.resolveConflict).toHaveBeenCalledWith(
+				'Reports',
+				0,
+				undefined,
+				false
+			);
+			expect(repository.createFolder.calls.mostRecent().args).toEqual([
+				'Reports',
+				undefined,
+				'keep-both',
+			]);
+			expect(result).toEqual(created);
+		});
+
+		it('should give up a move when the conflict dialog is dismissed', () => {
+			repository.updateItem.and.returnValue(duplicate());
+			dialogs.resolveConflict.and.returnValue(of(null));
+			spyOn(notifications, 'error');
+
+			let result: FileItem | null | undefined;
+			facade
+				.moveItem(item('notes'), 'archive', 'Archive')
+				.subscribe(found => (result = found));
+
+			expect(result).toBeNull();
+			expect(repository.updateItem).toHaveBeenCalledTimes(1);
+			expect(notifications.error).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('loadFileContent', () => {
+		it('should load the file content for the preview', () => {
+			const blob = new Blob(['hello']);
+			repository.downloadFile.and.returnValue(of(blob));
+
+			let content: Blob | null | undefined;
+			facade.loadFileContent('notes').subscribe(found => (content = found));
+
+			expect(repository.downloadFile).toHaveBeenCalledWith('notes');
+			expect(content).toBe(blob);
+		});
+
+		it('should emit null when the content cannot be read', () => {
+			repository.downloadFile.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 404 }))
+			);
+			spyOn(console, 'error');
+
+			let content: Blob | null | undefined;
+			facade.loadFileContent('notes').subscribe(found => (content = found));
+
+			expect(content).toBeNull();
+		});
+	});
+
+	describe('setFilters', () => {
+		it('should apply new filters and clear the selection', () => {
+			state.setItems([item('a')]);
+			facade.setSelection(['a'], 'a');
+
+			facade.setFilters({ ...EMPTY_FILTER_CRITERIA, category: 'images' });
+
+			expect(state.state.filters.category).toBe('images');
+			expect(state.state.selectedIds).toEqual([]);
+		});
+
+		it('should keep the selection when the filters did not change', () => {
+			state.setItems([item('a')]);
+			facade.setSelection(['a'], 'a');
+
+			facade.setFilters({ ...EMPTY_FILTER_CRITERIA });
+
+			expect(state.state.selectedIds).toEqual(['a']);
+		});
+	});
+
+	describe('folder tree', () => {
+		const node = (
+			id: string,
+			parentId: string | null,
+			children?: FolderTreeNode[]
+		): FolderTreeNode => ({
+			id,
+			name: id,
+			parentId,
+			hasChildren: !!children?.length,
+			children,
+		});
+
+		beforeEach(() => localStorage.clear());
+		afterEach(() => localStorage.clear());
+
+		it('should load the root with the folders expanded last time', () => {
+			TestBed.inject(ViewPreferencesService).saveExpandedFolders(['music']);
+			repository.getFolderTree.and.callFake(parentId =>
+				of({
+					items: parentId
+						? [node('rock', 'music')]
+						: [node('docs', null, [node('work', 'docs')]), node('music', null)],
+				})
+			);
+
+			facade.loadFolderTree().subscribe();
+
+			expect(repository.getFolderTree).toHaveBeenCalledWith(null, 2);
+			expect(repository.getFolderTree).toHaveBeenCalledWith('music', 2);
+			expect(Object.keys(state.state.folderTree).sort()).toEqual([
+				'',
+				'docs',
+				'music',
+			]);
+			expect(state.state.folderTree['docs'].map(child => child.id)).toEqual([
+				'work',
+			]);
+			expect(state.state.folderTree[''][0].children).toBeUndefined();
+		});
+
+		it('should forget expanded folders that no longer exist', () => {
+			TestBed.inject(ViewPreferencesService).saveExpandedFolders(['gone']);
+			repository.getFolderTree.and.callFake(parentId =>
+				parentId
+					? throwError(() => new HttpErrorResponse({ status: 404 }))
+					: of({ items: [node('docs', null)] })
+			);
+
+			facade.loadFolderTree().subscribe();
+
+			expect(state.state.expandedFolderIds).toEqual([]);
+			expect(
+				TestBed.inject(ViewPreferencesService).loadExpandedFolders()
+			).toEqual([]);
+		});
+
+		it('should load the children of an expanded folder once', () => {
+			repository.getFolderTree.and.returnValue(
+				of({ items: [node('work', 'docs')] })
+			);
+
+			facade.expandFolders(['docs']);
+			facade.collapseFolder('docs');
+			facade.expandFolders(['docs']);
+
+			expect(repository.getFolderTree).toHaveBeenCalledTimes(1);
+			expect(state.state.expandedFolderIds).toEqual(['docs']);
+			expect(state.state.folderTree['docs'].map(child => child.id)).toEqual([
+				'work',
+			]);
+		});
+
+		it('should collapse a folder whose children cannot be loaded', () => {
+			repository.getFolderTree.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 500 }))
+			);
+			spyOn(console, 'error');
+
+			facade.expandFolders(['docs']);
+
+			expect(state.state.expandedFolderIds).toEqual([]);
+		});
+
+		it('should refresh the tree when a folder is renamed', () => {
+			repository.updateItem.and.returnValue(
+				of(item('Archive', { folder: true }))
+			);
+
+			facade.renameItem('docs', 'Documents', 'Archive').subscribe();
+
+			expect(repository.getFolderTree).toHaveBeenCalledWith(null, 2);
+		});
+	});
+
+	describe('renameItemInline', () => {
+		it('should show the new name as pending until the server answers', () => {
+			const response = new Subject<FileItem>();
+			state.setItems([item('a'), item('b')]);
+			repository.updateItem.and.returnValue(response);
+			spyOn(notifications, 'success');
+
+			facade.renameItemInline(item('a'), ' notes.txt ').subscribe();
+
+			expect(repository.updateItem).toHaveBeenCalledWith('a', {
+				name: 'notes.txt',
+			});
+			expect(state.state.pendingRenames).toEqual({ a: 'notes.txt' });
+
+			response.next(item('a', { name: 'notes.txt' }));
+			response.complete();
+
+			expect(state.state.pendingRenames).toEqual({});
+			expect(state.state.items.map(current => current.name)).toEqual([
+				'notes.txt',
+				'b.txt',
+			]);
+			expect(repository.getItems).not.toHaveBeenCalled();
+			expect(notifications.success).toHaveBeenCalledWith(
+				'Renamed "a.txt" to "notes.txt"',
+				5000,
+				jasmine.objectContaining({ label: 'Undo' })
+			);
+		});
+
+		it('should not call the server when the name is unchanged', () => {
+			let result: FileItem | null | undefined;
+			facade
+				.renameItemInline(item('a'), 'a.txt')
+				.subscribe(renamed => (result = renamed));
+
+			expect(result).toBeNull();
+			expect(repository.updateItem).not.toHaveBeenCalled();
+		});
+
+		it('should revert a taken name without offering a retry', () => {
+			state.setItems([item('a')]);
+			repository.updateItem.and.returnValue(
+				throwError(
+					() =>
+						new HttpErrorResponse({
+							status: 409,
+							error: { code: 'DUPLICATE_NAME', message: 'Name taken' },
+						})
+				)
+			);
+			spyOn(notifications, 'error');
+			spyOn(console, 'error');
+
+			let result: FileItem | null | undefined;
+			facade
+				.renameItemInline(item('a'), 'b.txt')
+				.subscribe(renamed => (result = renamed));
+
+			expect(result).toBeNull();
+			expect(state.state.pendingRenames).toEqual({});
+			expect(state.state.items[0].name).toBe('a.txt');
+			expect(dialogs.resolveConflict).not.toHaveBeenCalled();
+			expect(notifications.error).toHaveBeenCalledWith(
+				jasmine.stringMatching(/^Failed to rename "a.txt": /),
+				undefined,
+				undefined
+			);
+		});
+
+		it('should offer a retry when the rename fails for another reason', () => {
+			repository.updateItem.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 500 }))
+			);
+			spyOn(notifications, 'error');
+			spyOn(console, 'error');
+
+			facade.renameItemInline(item('a'), 'b.txt').subscribe();
+
+			const [, , retry] = (
+				notifications.error as jasmine.Spy
+			).calls.mostRecent().args;
+			repository.updateItem.and.returnValue(of(item('a', { name: 'b.txt' })));
+			retry.callback();
+
+			expect(repository.updateItem).toHaveBeenCalledTimes(2);
+			expect(state.state.pendingRenames).toEqual({});
+		});
+	});
+
+	describe('downloads', () => {
+		let link: jasmine.SpyObj<HTMLAnchorElement>;
+
+		beforeEach(() => {
+			link = jasmine.createSpyObj<HTMLAnchorElement>('link', ['click']);
+			spyOn(document, 'createElement').and.returnValue(link);
+		});
+
+		it('should download a folder as a ZIP archive from its URL', () => {
+			repository.getArchiveUrl.and.returnValue(
+				of('/api/items/archive?ids=docs')
+			);
+			spyOn(notifications, 'success');
+
+			let result: boolean | undefined;
+			facade
+				.downloadFiles([item('docs', { name: 'Docs', folder: true })])
+				.subscribe(done => (result = done));
+
+			expect(result).toBeTrue();
+			expect(repository.getArchiveUrl).toHaveBeenCalledWith(['docs']);
+			expect(repository.downloadFile).not.toHaveBeenCalled();
+			expect(link.href).toBe('/api/items/archive?ids=docs');
+			expect(link.click).toHaveBeenCalled();
+			expect(notifications.success).toHaveBeenCalledWith(
+				'Downloading "Docs" as a ZIP archive'
+			);
+		});
+
+		it('should bundle a multiple selection into one archive', () => {
+			repository.getArchiveUrl.and.returnValue(of('/api/items/archive'));
+
+			facade.downloadFiles([item('a'), item('b')]).subscribe();
+
+			expect(repository.getArchiveUrl).toHaveBeenCalledWith(['a', 'b']);
+		});
+
+		it('should offer a retry when the archive cannot be created', () => {
+			repository.getArchiveUrl.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 404 }))
+			);
+			spyOn(notifications, 'error');
+			spyOn(console, 'error');
+
+			let result: boolean | undefined;
+			facade
+				.downloadFiles([item('a'), item('b')])
+				.subscribe(done => (result = done));
+
+			expect(result).toBeFalse();
+			expect(link.click).not.toHaveBeenCalled();
+			expect(notifications.error).toHaveBeenCalledWith(
+				jasmine.stringMatching(/^Download failed: /),
+				undefined,
+				jasmine.objectContaining({ label: 'Retry' })
+			);
+		});
+	});
+
+	describe('copyItem', () => {
+		it('should duplicate an item in its own folder and reload the folder', () => {
+			const copy = item('a-copy', { name: 'a (1).txt' });
+			state.setCurrentFolderId('docs');
+			repository.copyItem.and.returnValue(of({ item: copy }));
+			spyOn(notifications, 'success');
+
+			let result: FileItem | null | undefined;
+			facade
+				.copyItem(item('a'), 'docs', 'Docs', 'keep-both')
+				.subscribe(found => (result = found));
+
+			expect(repository.copyItem).toHaveBeenCalledWith(
+				'a',
+				'docs',
+				'keep-both'
+			);
+			expect(result).toEqual(copy);
+			expect(repository.getItems).toHaveBeenCalledWith('docs');
+			expect(notifications.success).toHaveBeenCalledWith(
+				'Created "a (1).txt"',
+				5000,
+				jasmine.objectContaining({ label: 'Undo' })
+			);
+		});
+
+		it('should name the destination when copying elsewhere', () => {
+			repository.copyItem.and.returnValue(of({ item: item('a') }));
+			spyOn(notifications, 'success');
+
+			facade.copyItem(item('a'), 'archive', 'Archive').subscribe();
+
+			expect(notifications.success).toHaveBeenCalledWith(
+				'Copied "a.txt" to "Archive"',
+				5000,
+				jasmine.objectContaining({ label: 'Undo' })
+			);
+		});
+
+		it('should ask how to resolve a name taken in the destination', () => {
+			repository.copyItem.and.returnValues(
+				throwError(
+					() =>
+						new HttpErrorResponse({
+							status: 409,
+							error: { code: 'DUPLICATE_NAME', message: 'Name taken' },
+						})
+				),
+				of({ item: item('a') })
+			);
+			dialogs.resolveConflict.and.returnValue(
+				of<ConflictResolution | null>({
+					strategy: 'replace',
+					applyToAll: false,
+				})
+			);
+
+			facade.copyItem(item('a'), 'archive', 'Archive').subscribe();
+
+			expect(repository.copyItem.calls.mostRecent().args).toEqual([
+				'a',
+				'archive',
+				'replace',
+			]);
+		});
+
+		it('should offer a retry when the copy fails', () => {
+			repository.copyItem.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 500 }))
+			);
+			spyOn(notifications, 'error');
+			spyOn(console, 'error');
+
+			let result: FileItem | null | undefined;
+			facade
+				.copyItem(item('a'), 'archive', 'Archive')
+				.subscribe(found => (result = found));
+
+			expect(result).toBeNull();
+			expect(state.state.isLoading).toBeFalse();
+			expect(notifications.error).toHaveBeenCalledWith(
+				jasmine.stringMatching(/^Failed to copy "a.txt": /),
+				undefined,
+				jasmine.objectContaining({ label: 'Retry' })
+			);
+		});
+	});
+
+	describe('undo and redo', () => {
+		const moved = item('notes', { parentId: 'archive' });
+
+		beforeEach(() => {
+			repository.updateItem.and.returnValue(of(moved));
+			facade.moveItem(item('notes'), 'archive', 'Archive').subscribe();
+		});
+
+		it('should move the item back and then forward again', () => {
+			spyOn(notifications, 'success');
+
+			facade.undo().subscribe();
+			expect(repository.updateItem).toHaveBeenCalledWith('notes', {
+				name: 'notes.txt',
+				parentId: 'docs',
+			});
+			expect(notifications.success).toHaveBeenCalledWith(
+				'Undid move of "notes.txt" to "Archive"',
+				5000,
+				jasmine.objectContaining({ label: 'Redo' })
+			);
+
+			facade.redo().subscribe();
+			expect(repository.updateItem).toHaveBeenCalledWith('notes', {
+				name: 'notes.txt',
+				parentId: 'archive',
+			});
+			expect(state.state.isLoading).toBeFalse();
+		});
+
+		it('should drop a command that can no longer be undone', () => {
+			repository.updateItem.and.returnValue(
+				throwError(() => new HttpErrorResponse({ status: 404 }))
+			);
+			spyOn(notifications, 'error');
+			spyOn(notifications, 'info');
+			spyOn(console, 'error');
+
+			let result: boolean | undefined;
+			facade.undo().subscribe(done => (result = done));
+
+			expect(result).toBeFalse();
+			expect(notifications.error).toHaveBeenCalledWith(
+				jasmine.stringMatching(
+					/^Cannot undo move of "notes.txt" to "Archive" anymore: .* It was removed from the history\.$/
+				),
+				8000
+			);
+
+			facade.undo().subscribe();
+			expect(notifications.info).toHaveBeenCalledWith('Nothing to undo');
+		});
+	});
+});
@@ -9,6 +9,10 @@
  * - Error handling
  * - Notifications
  * 
+ * Uploads, trash, versions and batch operations have their own facades in
+ * this folder; they reload the folder, refresh the tree and record undoable
+ * commands through this one.
+ * 
  * RxJS Best Practices Applied:
  * - shareReplay for multicasting
  * - Proper error handling with catchError
@@ -27,36 +31,89 @@ import {
 	shareReplay,
 	switchMap,
 	take,
+	combineLatest,
+	from,
+	concatMap,
+	toArray,
+	Subscription,
+	forkJoin,
+	mergeMap,
+	EMPTY,
 } from 'rxjs';
-import { IFileRepository } from '../interfaces/file-repository.interface';
-import { FileHttpRepository } from '../repositories/file-http.repository';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
 import { FileStateService } from '../state/file-state.service';
 import { ErrorHandlerService } from '../services/error-handler.service';
-import { NotificationService } from '../services/notification.service';
+import { DialogService } from '../services/dialog.service';
+import { ViewPreferencesService } from '../services/view-preferences.service';
+import {
+	CommandHistoryService,
+	HistoryDirection,
+	UndoableCommand,
+} from '../services/command-history.service';
+import {
+	NotificationAction,
+	NotificationService,
+} from '../services/notification.service';
 import { FileValidationService } from '../utils/file-validation.service';
-import { FileItem } from '../../models/file-item';
+import { triggerDownload } from '../utils/download';
+import {
+	ConflictStrategy,
+	FileItem,
+	FolderTree,
+	FolderTreeNode,
+	SearchResult,
+} from '../../models/file-item';
+import { ViewOptions } from '../../models/view-options';
+import { ItemFilterCriteria } from '../../models/item-filters';
+
+// Folder tree requests include grandchildren, so expanding a folder shows its subfolders at once
+const FOLDER_TREE_DEPTH = 2;
+const ROOT_TREE_KEY = '';
 
 @Injectable({
 	providedIn: 'root',
 })
 export class FileManagerFacade {
-	// DIP: Depend on abstraction
-	private readonly repository: IFileRepository = inject(FileHttpRepository);
+	// DIP: Depend on abstraction (configured backend behind an in-memory listing cache)
+	private readonly repository: IFileRepository = inject(FILE_REPOSITORY);
 	private readonly state = inject(FileStateService);
 	private readonly errorHandler = inject(ErrorHandlerService);
 	private readonly notifications = inject(NotificationService);
+	private readonly dialogs = inject(DialogService);
+	private readonly viewPreferences = inject(ViewPreferencesService);
+	private readonly history = inject(CommandHistoryService);
 	private readonly fileValidation = new FileValidationService(); // ✅ Validation in service layer
 
+	private folderTreeRefresh?: Subscription;
+
 	// Expose state observables
 	readonly items$ = this.state.items$;
 	readonly currentFolderId$ = this.state.currentFolderId$;
 	readonly breadcrumbPath$ = this.state.breadcrumbPath$;
 	readonly isLoading$ = this.state.isLoading$;
-	readonly isUploading$ = this.state.isUploading$;
+	readonly searchQuery$ = this.state.searchQuery$;
+	readonly searchResults$ = this.state.searchResults$;
+	readonly selectedIds$ = this.state.selectedIds$;
+	readonly selectionAnchorId$ = this.state.selectionAnchorId$;
+	readonly viewOptions$ = this.state.viewOptions$;
+	readonly filters$ = this.state.filters$;
+	readonly folderTree$ = this.state.folderTree$;
+	readonly expandedFolderIds$ = this.state.expandedFolderIds$;
+	readonly pendingRenames$ = this.state.pendingRenames$;
+	readonly creatingIds$ = this.state.creatingIds$;
+	readonly highlightedIds$ = this.state.highlightedIds$;
+	readonly selectedItems$ = combineLatest([
+		this.state.items$,
+		this.state.selectedIds$,
+	]).pipe(map(([items, ids]) => items.filter(item => ids.includes(item.id))));
 
 	/**
 	 * Load items for a specific folder
 	 * RxJS Best Practice: Use shareReplay(1) to avoid multiple API calls
+	 * A cached listing emits at once and again if the background refresh changed it
 	 */
 	loadItems(folderId?: string): Observable<FileItem[]> {
 		this.state.setLoading(true);
@@ -66,6 +123,7 @@ export class FileManagerFacade {
 			tap(response => {
 				this.state.setItems(response.items);
 				this.state.setCurrentFolderId(folderId || null);
+				this.state.setLoading(false); // No spinner while a cached listing revalidates
 			}),
 			map(response => response.items),
 			catchError(error => {
@@ -94,7 +152,10 @@ export class FileManagerFacade {
 			tap(response => this.state.setBreadcrumbPath(response.items)),
 			map(response => response.items),
 			catchError(error => {
-				this.errorHandler.handleError(error);
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(`Failed to load folders: ${userMessage}`);
 				return of([]);
 			}),
 			shareReplay({ bufferSize: 1, refCount: true })
@@ -102,48 +163,41 @@ export class FileManagerFacade {
 	}
 
 	/**
-	 * Upload multiple files with validation
-	 * RxJS Best Practice: Use switchMap to avoid nested subscriptions
-	 * ✅ Validation logic in service layer
+	 * Reload the open folder after a change
 	 */
-	uploadFiles(files: File[], parentId?: string): Observable<boolean> {
-		// ✅ Validation in service layer
-		const validation = this.fileValidation.validateFiles(files);
-		if (!validation.valid) {
-			this.notifications.error(validation.message || 'Invalid files');
-			return of(false);
-		}
-
-		this.state.setUploading(true);
+	reloadItems(): Observable<FileItem[]> {
+		return this.currentFolderId$.pipe(
+			take(1),
+			switchMap(currentFolderId => this.loadItems(currentFolderId || undefined))
+		);
+	}
 
-		return this.repository.uploadFiles(files, parentId).pipe(
-			tap(() => {
-				this.notifications.success(
-					`${files.length} file(s) uploaded successfully`
-				);
-			}),
-			// 🚀 Use switchMap instead of nested subscribe
-			switchMap(() => this.loadItems(parentId)),
-			map(() => true),
-			catchError(error => {
-				const errorDetails = this.errorHandler.parseError(error);
-				const userMessage =
-					this.errorHandler.getUserFriendlyMessage(errorDetails);
-				this.notifications.error(`Upload failed: ${userMessage}`);
-				return of(false);
-			}),
-			finalize(() => this.state.setUploading(false))
+	/**
+	 * 409 DUPLICATE_NAME on a single item: ask, then retry with the chosen strategy
+	 */
+	private retryWithConflictStrategy<T>(
+		name: string,
+		retry: (strategy: ConflictStrategy) => Observable<T | null>
+	): Observable<T | null> {
+		this.state.setLoading(false);
+		return this.dialogs.resolveConflicts([name]).pipe(
+			switchMap(strategies => {
+				const strategy = strategies?.[0];
+				return strategy && strategy !== 'skip' ? retry(strategy) : of(null);
+			})
 		);
 	}
 
 	/**
 	 * Create a new folder with validation
-	 * RxJS Best Practice: Use switchMap to chain dependent operations
+	 * The folder shows at once and is rolled back if the server rejects it;
+	 * the listing is only reloaded when a replaced folder has to disappear.
 	 * ✅ Validation logic in service layer
 	 */
 	createFolder(
 		name: string,
-		parentId?: string
+		parentId?: string,
+		conflict: ConflictStrategy = 'fail'
 	): Observable<FileItem | null> {
 		// ✅ Validation in service layer
 		const validation = this.fileValidation.isValidFileName(name);
@@ -152,70 +206,168 @@ export class FileManagerFacade {
 			return of(null);
 		}
 
-		this.state.setLoading(true);
+		const transaction = this.state.insertOptimistic({
+			name: name.trim(),
+			folder: true,
+			parentId: parentId || null,
+			modification: new Date().toISOString(),
+		});
 
-		return this.repository.createFolder(name.trim(), parentId).pipe(
+		return this.repository.createFolder(name.trim(), parentId, conflict).pipe(
 			tap(response => {
+				this.state.commitOptimistic(transaction, response.item);
 				this.notifications.success(
-					`Folder "${name}" created successfully`
+					`Folder "${response.item.name}" created successfully`,
+					5000,
+					response.skipped
+						? undefined
+						: this.recordCommand(
+								this.trashCommand(
+									`creation of folder "${response.item.name}"`,
+									[response.item],
+									'created'
+								)
+							)
 				);
+				this.refreshFolderTree();
 			}),
-			// 🚀 Chain operations with switchMap
 			switchMap(response =>
-				this.loadItems(parentId).pipe(map(() => response.item))
+				this.reconcile(conflict, parentId).pipe(map(() => response.item))
 			),
 			catchError(error => {
+				this.state.rollbackOptimistic(transaction);
 				const errorDetails = this.errorHandler.parseError(error);
+				if (errorDetails.code === 'DUPLICATE_NAME' && conflict === 'fail') {
+					return this.retryWithConflictStrategy(name.trim(), strategy =>
+						this.createFolder(name, parentId, strategy)
+					);
+				}
 				const userMessage =
 					this.errorHandler.getUserFriendlyMessage(errorDetails);
-				this.notifications.error(`Failed to create folder: ${userMessage}`);
+				this.notifications.error(
+					`Failed to create folder: ${userMessage}`,
+					undefined,
+					this.notifications.retryAction(() =>
+						this.createFolder(name, parentId, conflict)
+					)
+				);
 				return of(null);
-			}),
-			finalize(() => this.state.setLoading(false))
+			})
 		);
 	}
 
 	/**
-	 * Delete an item (file or folder)
-	 * RxJS Best Practice: Use currentFolderId$ observable instead of accessing state directly
+	 * Move an item (file or folder with its whole subtree) to the trash
+	 * The item leaves the listing at once and comes back if the server refuses
 	 */
 	deleteItem(itemId: string, itemName: string): Observable<boolean> {
-		this.state.setLoading(true);
+		const deletedItem = this.state.state.items.find(item => item.id === itemId);
+		const transaction = this.state.removeOptimistic(itemId);
 
 		return this.repository.deleteItem(itemId).pipe(
 			tap(() => {
-				this.notifications.success(`"${itemName}" deleted successfully`);
-			}),
-			// 🚀 Use observable state, not direct state access
-			switchMap(() =>
-				this.currentFolderId$.pipe(
-					take(1),
-					switchMap(currentFolderId =>
-						this.loadItems(currentFolderId || undefined)
+				this.state.commitOptimistic(transaction);
+				this.refreshFolderTreeFor([deletedItem]);
+				this.notifications.success(
+					`"${itemName}" moved to trash`,
+					5000,
+					this.recordCommand(
+						this.trashCommand(
+							`deletion of "${itemName}"`,
+							[deletedItem ?? { id: itemId, folder: false }],
+							'trashed'
+						)
 					)
-				)
-			),
+				);
+			}),
 			map(() => true),
 			catchError(error => {
+				this.state.rollbackOptimistic(transaction);
 				const errorDetails = this.errorHandler.parseError(error);
 				const userMessage =
 					this.errorHandler.getUserFriendlyMessage(errorDetails);
-				this.notifications.error(`Failed to delete: ${userMessage}`);
+				this.notifications.error(
+					`Failed to delete: ${userMessage}`,
+					undefined,
+					this.notifications.retryAction(() =>
+						this.deleteItem(itemId, itemName)
+					)
+				);
 				return of(false);
+			})
+		);
+	}
+
+	/**
+	 * Rename an item edited in place on its card or row
+	 * The new name shows as pending until the server answers; a name that is
+	 * already taken reverts the edit instead of opening the conflict dialog.
+	 */
+	renameItemInline(
+		item: FileItem,
+		newName: string
+	): Observable<FileItem | null> {
+		const validation = this.fileValidation.isValidFileName(newName);
+		if (!validation.valid) {
+			this.notifications.error(validation.message || 'Invalid name');
+			return of(null);
+		}
+
+		const name = newName.trim();
+		if (name === item.name) {
+			return of(null); // No change needed
+		}
+
+		this.state.setPendingRename(item.id, name);
+
+		return this.repository.updateItem(item.id, { name }).pipe(
+			tap(updatedItem => {
+				// Only the renamed item changes, so the folder is not reloaded
+				this.state.setItems(
+					this.state.state.items.map(current =>
+						current.id === updatedItem.id ? updatedItem : current
+					)
+				);
+				this.notifications.success(
+					`Renamed "${item.name}" to "${updatedItem.name}"`,
+					5000,
+					this.recordCommand(
+						this.updateCommand(`rename of "${item.name}"`, [
+							{ before: item, after: updatedItem },
+						])
+					)
+				);
+				this.refreshFolderTreeFor([updatedItem]);
 			}),
-			finalize(() => this.state.setLoading(false))
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(
+					`Failed to rename "${item.name}": ${userMessage}`,
+					undefined,
+					errorDetails.code === 'DUPLICATE_NAME'
+						? undefined
+						: this.notifications.retryAction(() =>
+								this.renameItemInline(item, newName)
+							)
+				);
+				return of(null);
+			}),
+			finalize(() => this.state.setPendingRename(item.id, null))
 		);
 	}
 
 	/**
 	 * Rename an item with validation
-	 * RxJS Best Practice: Chain operations declaratively
+	 * The new name shows at once and reverts if the server rejects it
 	 * ✅ Validation logic in service layer
 	 */
 	renameItem(
 		itemId: string,
 		oldName: string,
-		newName: string
+		newName: string,
+		conflict: ConflictStrategy = 'fail'
 	): Observable<FileItem | null> {
 		// ✅ Validation in service layer
 		const validation = this.fileValidation.isValidFileName(newName);
@@ -228,27 +380,175 @@ export class FileManagerFacade {
 			return of(null); // No change needed
 		}
 
+		const transaction = this.state.updateOptimistic(itemId, {
+			name: newName.trim(),
+		});
+
+		return this.repository
+			.updateItem(itemId, { name: newName.trim() }, conflict)
+			.pipe(
+				tap(updatedItem => {
+					this.state.commitOptimistic(transaction, updatedItem);
+					this.notifications.success(
+						`Renamed "${oldName}" to "${updatedItem.name}"`,
+						5000,
+						this.recordCommand(
+							this.updateCommand(`rename of "${oldName}"`, [
+								{
+									before: { ...updatedItem, name: oldName },
+									after: updatedItem,
+								},
+							])
+						)
+					);
+					this.refreshFolderTreeFor([updatedItem]);
+				}),
+				switchMap(updatedItem =>
+					this.reconcile(conflict, updatedItem.parentId).pipe(
+						map(() => updatedItem)
+					)
+				),
+				catchError(error => {
+					this.state.rollbackOptimistic(transaction);
+					const errorDetails = this.errorHandler.parseError(error);
+					if (errorDetails.code === 'DUPLICATE_NAME' && conflict === 'fail') {
+						return this.retryWithConflictStrategy(newName.trim(), strategy =>
+							this.renameItem(itemId, oldName, newName, strategy)
+						);
+					}
+					const userMessage =
+						this.errorHandler.getUserFriendlyMessage(errorDetails);
+					this.notifications.error(
+						`Failed to rename: ${userMessage}`,
+						undefined,
+						this.notifications.retryAction(() =>
+							this.renameItem(itemId, oldName, newName, conflict)
+						)
+					);
+					return of(null);
+				})
+			);
+	}
+
+	/**
+	 * After an optimistic change: replace trashed an item the listing still
+	 * shows, so only then is the folder loaded again
+	 */
+	private reconcile(
+		conflict: ConflictStrategy,
+		folderId: string | null | undefined
+	): Observable<unknown> {
+		if (
+			conflict !== 'replace' ||
+			(folderId || null) !== this.state.state.currentFolderId
+		) {
+			return of(null);
+		}
+		return this.loadItems(folderId || undefined);
+	}
+
+	/**
+	 * Move an item into another folder (null = root)
+	 * The server rejects cycles and name collisions in the destination
+	 */
+	moveItem(
+		item: FileItem,
+		targetFolderId: string | null,
+		targetName: string,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<FileItem | null> {
+		if (item.id === targetFolderId || item.parentId === targetFolderId) {
+			return of(null); // Nothing to move
+		}
+
 		this.state.setLoading(true);
 
-		return this.repository.updateItem(itemId, { name: newName.trim() }).pipe(
-			tap(() => {
-				this.notifications.success(`Renamed "${oldName}" to "${newName}"`);
+		return this.repository
+			.updateItem(item.id, { parentId: targetFolderId }, conflict)
+			.pipe(
+				tap(movedItem => {
+					this.notifications.success(
+						`Moved "${item.name}" to "${targetName}"`,
+						5000,
+						movedItem.parentId === item.parentId
+							? undefined // Skipped
+							: this.recordCommand(
+									this.updateCommand(
+										`move of "${item.name}" to "${targetName}"`,
+										[{ before: item, after: movedItem }]
+									)
+								)
+					);
+					this.refreshFolderTreeFor([item]);
+				}),
+				switchMap(movedItem => this.reloadItems().pipe(map(() => movedItem))),
+				catchError(error => {
+					const errorDetails = this.errorHandler.parseError(error);
+					if (errorDetails.code === 'DUPLICATE_NAME' && conflict === 'fail') {
+						return this.retryWithConflictStrategy(item.name, strategy =>
+							this.moveItem(item, targetFolderId, targetName, strategy)
+						);
+					}
+					const userMessage =
+						this.errorHandler.getUserFriendlyMessage(errorDetails);
+					this.notifications.error(
+						`Failed to move "${item.name}": ${userMessage}`
+					);
+					return of(null);
+				}),
+				finalize(() => this.state.setLoading(false))
+			);
+	}
+
+	/**
+	 * Copy a file or a folder with its whole subtree
+	 * Copying into the item's own folder makes a duplicate: callers pass 'keep-both'
+	 * so it gets a free name ("Report (1).pdf") instead of asking
+	 */
+	copyItem(
+		item: FileItem,
+		targetFolderId: string | null,
+		targetName: string,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<FileItem | null> {
+		const duplicate = targetFolderId === (item.parentId ?? null);
+		this.state.setLoading(true);
+
+		return this.repository.copyItem(item.id, targetFolderId, conflict).pipe(
+			tap(response => {
+				if (response.skipped) return;
+				this.notifications.success(
+					duplicate
+						? `Created "${response.item.name}"`
+						: `Copied "${item.name}" to "${targetName}"`,
+					5000,
+					this.recordCommand(
+						this.trashCommand(
+							`copy of "${item.name}"`,
+							[response.item],
+							'created'
+						)
+					)
+				);
+				this.refreshFolderTreeFor([response.item]);
 			}),
-			// 🚀 Declarative approach with observables
-			switchMap(updatedItem =>
-				this.currentFolderId$.pipe(
-					take(1),
-					switchMap(currentFolderId =>
-						this.loadItems(currentFolderId || undefined)
-					),
-					map(() => updatedItem)
-				)
-			),
+			switchMap(response => this.reloadItems().pipe(map(() => response.item))),
 			catchError(error => {
 				const errorDetails = this.errorHandler.parseError(error);
+				if (errorDetails.code === 'DUPLICATE_NAME' && conflict === 'fail') {
+					return this.retryWithConflictStrategy(item.name, strategy =>
+						this.copyItem(item, targetFolderId, targetName, strategy)
+					);
+				}
 				const userMessage =
 					this.errorHandler.getUserFriendlyMessage(errorDetails);
-				this.notifications.error(`Failed to rename: ${userMessage}`);
+				this.notifications.error(
+					`Failed to copy "${item.name}": ${userMessage}`,
+					undefined,
+					this.notifications.retryAction(() =>
+						this.copyItem(item, targetFolderId, targetName, conflict)
+					)
+				);
 				return of(null);
 			}),
 			finalize(() => this.state.setLoading(false))
@@ -256,16 +556,168 @@ export class FileManagerFacade {
 	}
 
 	/**
-	 * Download a file
+	 * Copy several items one after another (each name conflict is asked separately)
+	 */
+	copyItems(
+		items: FileItem[],
+		targetFolderId: string | null,
+		targetName: string
+	): Observable<boolean> {
+		return from(items).pipe(
+			concatMap(item => this.copyItem(item, targetFolderId, targetName)),
+			toArray(),
+			map(copies => copies.every(Boolean))
+		);
+	}
+
+	/**
+	 * Subfolders of a folder (root when null), for destination pickers
+	 */
+	loadSubfolders(parentId: string | null): Observable<FolderTreeNode[]> {
+		return this.repository.getFolderTree(parentId, 1).pipe(
+			map(response => response.items),
+			catchError(error => {
+				this.errorHandler.handleError(error);
+				return of([]);
+			})
+		);
+	}
+
+	/**
+	 * Reverse the latest operation; toasts pass their own command, which is only
+	 * undone while it is still the latest
+	 */
+	undo(command?: UndoableCommand): Observable<boolean> {
+		return this.runCommand('undo', command);
+	}
+
+	/**
+	 * Re-apply the latest undone operation
 	 */
-	downloadFile(itemId: string, fileName: string): Observable<boolean> {
+	redo(command?: UndoableCommand): Observable<boolean> {
+		return this.runCommand('redo', command);
+	}
+
+	private runCommand(
+		direction: HistoryDirection,
+		command = this.history.peek(direction)
+	): Observable<boolean> {
+		if (!command) {
+			this.notifications.info(`Nothing to ${direction}`);
+			return of(false);
+		}
+		if (this.history.isRunning) {
+			return of(false); // One at a time, the next one depends on it
+		}
+		if (!this.history.start(direction, command)) {
+			this.notifications.info(
+				`Only the latest change can be ${direction === 'undo' ? 'undone' : 'redone'}`
+			);
+			return of(false);
+		}
+
+		const opposite: HistoryDirection = direction === 'undo' ? 'redo' : 'undo';
+		const reload$ = this.reloadItems();
+		this.state.setLoading(true);
+
+		return command[direction]().pipe(
+			tap(() => {
+				this.history.finish(direction, command, true);
+				this.notifications.success(
+					`${direction === 'undo' ? 'Undid' : 'Redid'} ${command.label}`,
+					5000,
+					{
+						label: opposite === 'undo' ? 'Undo' : 'Redo',
+						callback: () =>
+							this.runCommand(opposite, command).pipe(take(1)).subscribe(),
+					}
+				);
+			}),
+			switchMap(() => reload$),
+			map(() => true),
+			catchError(error => {
+				// The files changed since (e.g. the item was deleted elsewhere)
+				this.history.finish(direction, command, false);
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(
+					`Cannot ${direction} ${command.label} anymore: ${userMessage} It was removed from the history.`,
+					8000
+				);
+				// Multi-item commands may have partly applied
+				return reload$.pipe(map(() => false));
+			}),
+			finalize(() => {
+				this.history.finish(direction, command, false); // Unsubscribed while running
+				if (command.affectsFolders) this.refreshFolderTree();
+				this.state.setLoading(false);
+			})
+		);
+	}
+
+	/**
+	 * Layout and sort of the folder view (the container keeps them in the URL and local storage)
+	 */
+	setViewOptions(options: ViewOptions): void {
+		this.state.setViewOptions(options);
+	}
+
+	/**
+	 * Filters of the folder view; the selection is cleared when they change
+	 * so bulk actions never hit items that are no longer visible
+	 */
+	setFilters(filters: ItemFilterCriteria): void {
+		if (JSON.stringify(filters) === JSON.stringify(this.state.state.filters)) {
+			return;
+		}
+		this.state.setFilters(filters);
+		this.state.clearSelection();
+	}
+
+	/**
+	 * Update the current selection (kept in state so it survives re-renders)
+	 */
+	setSelection(ids: string[], anchorId: string | null = null): void {
+		this.state.setSelection(ids, anchorId);
+	}
+
+	clearSelection(): void {
+		this.state.clearSelection();
+	}
+
+	/**
+	 * Download a selection: a single file as is, anything else as one ZIP archive
+	 */
+	downloadFiles(items: FileItem[]): Observable<boolean> {
+		if (items.length === 0) {
+			return of(false);
+		}
+		if (items.length === 1) {
+			return this.downloadFile(items[0].id, items[0].name, items[0].folder);
+		}
+		return this.downloadArchive(
+			items.map(item => item.id),
+			`${items.length} items`
+		);
+	}
+
+	/**
+	 * Download a file, or a folder with its whole subtree as a ZIP archive
+	 */
+	downloadFile(
+		itemId: string,
+		fileName: string,
+		isFolder = false
+	): Observable<boolean> {
+		if (isFolder) {
+			return this.downloadArchive([itemId], `"${fileName}"`);
+		}
+
 		return this.repository.downloadFile(itemId).pipe(
 			tap(blob => {
 				const url = window.URL.createObjectURL(blob);
-				const link = document.createElement('a');
-				link.href = url;
-				link.download = fileName;
-				link.click();
+				triggerDownload(url, fileName);
 				window.URL.revokeObjectURL(url);
 				this.notifications.success(`Downloading "${fileName}"`);
 			}),
@@ -274,26 +726,298 @@ export class FileManagerFacade {
 				const errorDetails = this.errorHandler.parseError(error);
 				const userMessage =
 					this.errorHandler.getUserFriendlyMessage(errorDetails);
-				this.notifications.error(`Download failed: ${userMessage}`);
+				this.notifications.error(
+					`Download failed: ${userMessage}`,
+					undefined,
+					this.notifications.retryAction(() =>
+						this.downloadFile(itemId, fileName)
+					)
+				);
 				return of(false);
 			})
 		);
 	}
 
 	/**
-	 * Get root folders for sidebar
-	 * RxJS Best Practice: shareReplay with refCount for proper cleanup
+	 * ZIP archives are streamed by the server straight to disk: the browser
+	 * downloads them from their URL instead of the app buffering a Blob
 	 */
-	getRootFolders(): Observable<FileItem[]> {
-		return this.repository.getItems().pipe(
-			map(response =>
-				response.items.filter(item => item.folder && item.parentId === null)
-			),
+	downloadArchive(itemIds: string[], label: string): Observable<boolean> {
+		return this.repository.getArchiveUrl(itemIds).pipe(
+			tap(url => {
+				triggerDownload(url); // The server names the archive
+				this.notifications.success(`Downloading ${label} as a ZIP archive`);
+			}),
+			map(() => true),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(
+					`Download failed: ${userMessage}`,
+					undefined,
+					this.notifications.retryAction(() =>
+						this.downloadArchive(itemIds, label)
+					)
+				);
+				return of(false);
+			})
+		);
+	}
+
+	/**
+	 * Load a file's content for the preview overlay (null when it cannot be read)
+	 */
+	loadFileContent(itemId: string): Observable<Blob | null> {
+		return this.repository.downloadFile(itemId).pipe(
 			catchError(error => {
 				this.errorHandler.handleError(error);
+				return of(null);
+			})
+		);
+	}
+
+	/**
+	 * URL of a file's thumbnail, null when the storage backend has none
+	 */
+	getThumbnailUrl(item: FileItem, size: number): string | null {
+		return this.repository.getThumbnailUrl(item, size);
+	}
+
+	/**
+	 * Search items by name across the whole tree
+	 * RxJS Best Practice: Callers switchMap over queries so stale requests are cancelled
+	 */
+	search(query: string): Observable<SearchResult[]> {
+		const trimmedQuery = query.trim();
+		this.state.setCurrentFolderId(null);
+		this.state.setBreadcrumbPath([]);
+
+		if (!trimmedQuery) {
+			this.state.setSearch(null);
+			return of([]);
+		}
+
+		this.state.setLoading(true);
+		this.state.setError(null);
+
+		return this.repository.search(trimmedQuery).pipe(
+			tap(response => this.state.setSearch(trimmedQuery, response.items)),
+			map(response => response.items),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.state.setSearch(trimmedQuery);
+				this.notifications.error(`Search failed: ${userMessage}`);
 				return of([]);
 			}),
-			shareReplay({ bufferSize: 1, refCount: true }) // 🚀 Proper multicasting
+			finalize(() => this.state.setLoading(false))
+		);
+	}
+
+	/**
+	 * Leave search mode
+	 */
+	clearSearch(): void {
+		this.state.setSearch(null);
+	}
+
+	/**
+	 * Load the sidebar folder tree with the folders expanded in a previous session
+	 * Later calls return the loaded tree, mutations keep it fresh (refreshFolderTree)
+	 */
+	loadFolderTree(): Observable<FolderTree> {
+		if (this.state.state.folderTree[ROOT_TREE_KEY]) {
+			return of(this.state.state.folderTree);
+		}
+		this.state.setExpandedFolderIds(this.viewPreferences.loadExpandedFolders());
+		return this.fetchFolderTree();
+	}
+
+	/**
+	 * Reload the root and every expanded folder of the sidebar tree
+	 */
+	refreshFolderTree(): void {
+		this.folderTreeRefresh?.unsubscribe();
+		this.folderTreeRefresh = this.fetchFolderTree().subscribe();
+	}
+
+	/**
+	 * Expand folders of the sidebar tree, loading the children not known yet
+	 */
+	expandFolders(folderIds: string[]): void {
+		const expanded = this.state.state.expandedFolderIds;
+		const added = folderIds.filter(id => !expanded.includes(id));
+		if (added.length === 0) return;
+		this.setExpandedFolders([...expanded, ...added]);
+
+		from(added.filter(id => !this.state.state.folderTree[id]))
+			.pipe(
+				mergeMap(id =>
+					this.repository.getFolderTree(id, FOLDER_TREE_DEPTH).pipe(
+						tap(response =>
+							this.state.setFolderTree(
+								this.addToFolderTree(
+									{ ...this.state.state.folderTree },
+									id,
+									response.items
+								)
+							)
+						),
+						catchError(error => {
+							this.errorHandler.handleError(error);
+							this.collapseFolder(id);
+							return EMPTY;
+						})
+					)
+				)
+			)
+			.subscribe();
+	}
+
+	collapseFolder(folderId: string): void {
+		this.setExpandedFolders(
+			this.state.state.expandedFolderIds.filter(id => id !== folderId)
+		);
+	}
+
+	private setExpandedFolders(ids: string[]): void {
+		this.state.setExpandedFolderIds(ids);
+		this.viewPreferences.saveExpandedFolders(ids);
+	}
+
+	/**
+	 * Fetch the root and the expanded folders in parallel; expanded folders
+	 * that no longer exist are forgotten
+	 */
+	private fetchFolderTree(): Observable<FolderTree> {
+		const expanded = this.state.state.expandedFolderIds;
+		const fetchChildren = (parentId: string | null) =>
+			this.repository
+				.getFolderTree(parentId, FOLDER_TREE_DEPTH)
+				.pipe(map(response => ({ parentId, nodes: response.items })));
+
+		return forkJoin([
+			fetchChildren(null),
+			...expanded.map(id => fetchChildren(id).pipe(catchError(() => of(null)))),
+		]).pipe(
+			map(results =>
+				results.reduce(
+					(tree, result) =>
+						result
+							? this.addToFolderTree(tree, result.parentId, result.nodes)
+							: tree,
+					{} as FolderTree
+				)
+			),
+			tap(tree => {
+				// Keep what was expanded (and loaded) while the requests were in flight
+				const { expandedFolderIds, folderTree } = this.state.state;
+				expandedFolderIds
+					.filter(id => !expanded.includes(id) && !tree[id] && folderTree[id])
+					.forEach(id => (tree[id] = folderTree[id]));
+				this.state.setFolderTree(tree);
+				this.setExpandedFolders(
+					expandedFolderIds.filter(id => !expanded.includes(id) || tree[id])
+				);
+			}),
+			catchError(error => {
+				this.errorHandler.handleError(error);
+				return of(this.state.state.folderTree);
+			})
 		);
 	}
+
+	/**
+	 * Flatten nested tree nodes into the per-parent lookup
+	 */
+	private addToFolderTree(
+		tree: FolderTree,
+		parentId: string | null,
+		nodes: FolderTreeNode[]
+	): FolderTree {
+		tree[parentId ?? ROOT_TREE_KEY] = nodes.map(
+			({ children, ...node }) => node
+		);
+		nodes
+			.filter(node => node.children)
+			.forEach(node => this.addToFolderTree(tree, node.id, node.children!));
+		return tree;
+	}
+
+	/**
+	 * Folders changed (created, renamed, moved, deleted or restored): refresh the sidebar tree
+	 */
+	refreshFolderTreeFor(items: (FileItem | null | undefined)[]): void {
+		if (items.some(item => item?.folder)) {
+			this.refreshFolderTree();
+		}
+	}
+
+	/**
+	 * Record a completed operation and build the "Undo" action of its toast
+	 */
+	recordCommand(command: UndoableCommand): NotificationAction {
+		this.history.record(command);
+		return {
+			label: 'Undo',
+			callback: () => this.undo(command).pipe(take(1)).subscribe(),
+		};
+	}
+
+	/**
+	 * Renames and moves: undo restores the previous name and parent, redo the new ones
+	 */
+	updateCommand(
+		label: string,
+		changes: { before: FileItem; after: FileItem }[]
+	): UndoableCommand {
+		const apply = (item: FileItem) =>
+			this.repository.updateItem(item.id, {
+				name: item.name,
+				parentId: item.parentId,
+			});
+		const before = changes.map(change => change.before);
+		const after = changes.map(change => change.after);
+		return {
+			label,
+			affectsFolders: after.some(item => item.folder),
+			undo: () => this.forEachItem(before, apply),
+			redo: () => this.forEachItem(after, apply),
+		};
+	}
+
+	/**
+	 * Created items are undone by moving them to the trash, trashed items by
+	 * restoring them (ids survive the trash, so redo can go back and forth)
+	 */
+	trashCommand(
+		label: string,
+		items: Pick<FileItem, 'id' | 'folder'>[],
+		change: 'created' | 'trashed'
+	): UndoableCommand {
+		const trash = (item: Pick<FileItem, 'id'>) =>
+			this.repository.deleteItem(item.id);
+		const restore = (item: Pick<FileItem, 'id'>) =>
+			this.repository.restoreItem(item.id);
+		return {
+			label,
+			affectsFolders: items.some(item => item.folder),
+			undo: () =>
+				this.forEachItem(items, change === 'created' ? trash : restore),
+			redo: () =>
+				this.forEachItem(items, change === 'created' ? restore : trash),
+		};
+	}
+
+	/**
+	 * Apply an operation to each item in turn, stopping at the first failure
+	 */
+	private forEachItem<T>(
+		items: T[],
+		operation: (item: T) => Observable<unknown>
+	): Observable<unknown[]> {
+		return from(items).pipe(concatMap(operation), toArray());
+	}
 }
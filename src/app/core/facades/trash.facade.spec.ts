@@ -0,0 +1,146 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { HttpErrorResponse } from '@angular/common/http';
+import { TrashFacade } from './trash.facade';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { NotificationService } from '../services/notification.service';
+import { FileItem, TrashItem } from '../../models/file-item';
+
+describe('TrashFacade', () => {
+	let facade: TrashFacade;
+	let repository: jasmine.SpyObj<IFileRepository>;
+	let notifications: NotificationService;
+	let state: FileStateService;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	beforeEach(() => {
+		repository = jasmine.createSpyObj<IFileRepository>('FileRepository', [
+			'getItems',
+			'getFolderTree',
+			'getTrash',
+			'restoreItem',
+			'purgeItem',
+			'emptyTrash',
+		]);
+		repository.getItems.and.returnValue(of({ items: [] }));
+		repository.getFolderTree.and.returnValue(of({ items: [] }));
+
+		TestBed.configureTestingModule({
+			providers: [{ provide: FILE_REPOSITORY, useValue: repository }],
+		});
+
+		facade = TestBed.inject(TrashFacade);
+		notifications = TestBed.inject(NotificationService);
+		state = TestBed.inject(FileStateService);
+	});
+
+	const trashed = (id: string): TrashItem => ({
+		...item(id),
+		trashedAt: '2024-05-11T08:00:00Z',
+		originalPath: [{ id: 'docs', name: 'Documents' }],
+	});
+
+	beforeEach(() => {
+		repository.getTrash.and.returnValue(
+			of({ items: [trashed('a'), trashed('b')] })
+		);
+		facade.loadTrash().subscribe();
+	});
+
+	it('should load the trashed items', () => {
+		expect(state.state.trashItems.map(trashedItem => trashedItem.id)).toEqual([
+			'a',
+			'b',
+		]);
+		expect(state.state.currentFolderId).toBeNull();
+		expect(state.state.isLoading).toBeFalse();
+	});
+
+	it('should report a trash listing that fails to load', () => {
+		repository.getTrash.and.returnValue(
+			throwError(() => new HttpErrorResponse({ status: 500 }))
+		);
+		spyOn(notifications, 'error');
+
+		let items: TrashItem[] | undefined;
+		facade.loadTrash().subscribe(loaded => (items = loaded));
+
+		expect(items).toEqual([]);
+		expect(state.state.error).toBeTruthy();
+		expect(notifications.error).toHaveBeenCalled();
+	});
+
+	it('should restore an item and drop it from the trash', () => {
+		repository.restoreItem.and.returnValue(of(item('a')));
+
+		let restored: FileItem | null | undefined;
+		facade.restoreItem('a', 'a.txt').subscribe(found => (restored = found));
+
+		expect(restored?.id).toBe('a');
+		expect(state.state.trashItems.map(trashedItem => trashedItem.id)).toEqual([
+			'b',
+		]);
+		expect(repository.getItems).toHaveBeenCalled();
+	});
+
+	it('should keep the item in the trash when restoring fails', () => {
+		repository.restoreItem.and.returnValue(
+			throwError(() => new HttpErrorResponse({ status: 404 }))
+		);
+		spyOn(notifications, 'error');
+
+		let restored: FileItem | null | undefined;
+		facade.restoreItem('a', 'a.txt').subscribe(found => (restored = found));
+
+		expect(restored).toBeNull();
+		expect(state.state.trashItems.length).toBe(2);
+		expect(notifications.error).toHaveBeenCalledWith(
+			jasmine.stringMatching(/^Failed to restore: /)
+		);
+	});
+
+	it('should purge an item permanently', () => {
+		repository.purgeItem.and.returnValue(of(undefined));
+
+		let purged: boolean | undefined;
+		facade.purgeItem('b', 'b.txt').subscribe(ok => (purged = ok));
+
+		expect(purged).toBeTrue();
+		expect(repository.purgeItem).toHaveBeenCalledWith('b');
+		expect(state.state.trashItems.map(trashedItem => trashedItem.id)).toEqual([
+			'a',
+		]);
+	});
+
+	it('should keep the item when purging fails', () => {
+		repository.purgeItem.and.returnValue(
+			throwError(() => new HttpErrorResponse({ status: 500 }))
+		);
+
+		let purged: boolean | undefined;
+		facade.purgeItem('b', 'b.txt').subscribe(ok => (purged = ok));
+
+		expect(purged).toBeFalse();
+		expect(state.state.trashItems.length).toBe(2);
+	});
+
+	it('should empty the trash', () => {
+		repository.emptyTrash.and.returnValue(of(undefined));
+
+		facade.emptyTrash().subscribe();
+
+		expect(state.state.trashItems).toEqual([]);
+	});
+});
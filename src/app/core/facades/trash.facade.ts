@@ -0,0 +1,136 @@
+/**
+ * Trash Facade - Orchestrates the trash view
+ * SRP: Listing, restoring and permanently deleting trashed items
+ *
+ * Restoring reloads the open folder and the sidebar tree through
+ * FileManagerFacade, which owns them.
+ */
+import { Injectable, inject } from '@angular/core';
+import {
+	Observable,
+	tap,
+	catchError,
+	finalize,
+	of,
+	map,
+	switchMap,
+} from 'rxjs';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { ErrorHandlerService } from '../services/error-handler.service';
+import { NotificationService } from '../services/notification.service';
+import { FileManagerFacade } from './file-manager.facade';
+import { FileItem, TrashItem } from '../../models/file-item';
+
+@Injectable({
+	providedIn: 'root',
+})
+export class TrashFacade {
+	private readonly repository: IFileRepository = inject(FILE_REPOSITORY);
+	private readonly state = inject(FileStateService);
+	private readonly errorHandler = inject(ErrorHandlerService);
+	private readonly notifications = inject(NotificationService);
+	private readonly fileManager = inject(FileManagerFacade);
+
+	readonly trashItems$ = this.state.trashItems$;
+
+	/**
+	 * Load trashed items with their original location
+	 */
+	loadTrash(): Observable<TrashItem[]> {
+		this.state.setLoading(true);
+		this.state.setError(null);
+		this.state.setCurrentFolderId(null);
+		this.state.setBreadcrumbPath([]);
+
+		return this.repository.getTrash().pipe(
+			tap(response => this.state.setTrashItems(response.items)),
+			map(response => response.items),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.state.setError(userMessage);
+				this.notifications.error(userMessage);
+				return of([]);
+			}),
+			finalize(() => this.state.setLoading(false))
+		);
+	}
+
+	/**
+	 * Restore a trashed item to its original location
+	 * Missing parent folders are recreated by the server
+	 */
+	restoreItem(itemId: string, itemName: string): Observable<FileItem | null> {
+		this.state.setLoading(true);
+
+		return this.repository.restoreItem(itemId).pipe(
+			tap(() => {
+				this.state.setTrashItems(
+					this.state.state.trashItems.filter(item => item.id !== itemId)
+				);
+				this.notifications.success(`"${itemName}" restored`);
+			}),
+			tap(restoredItem =>
+				this.fileManager.refreshFolderTreeFor([restoredItem])
+			),
+			switchMap(restoredItem =>
+				this.fileManager.reloadItems().pipe(map(() => restoredItem))
+			),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(`Failed to restore: ${userMessage}`);
+				return of(null);
+			}),
+			finalize(() => this.state.setLoading(false))
+		);
+	}
+
+	/**
+	 * Permanently delete a trashed item
+	 */
+	purgeItem(itemId: string, itemName: string): Observable<boolean> {
+		return this.repository.purgeItem(itemId).pipe(
+			tap(() => {
+				this.state.setTrashItems(
+					this.state.state.trashItems.filter(item => item.id !== itemId)
+				);
+				this.notifications.success(`"${itemName}" permanently deleted`);
+			}),
+			map(() => true),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(`Failed to delete: ${userMessage}`);
+				return of(false);
+			})
+		);
+	}
+
+	/**
+	 * Permanently delete everything in the trash
+	 */
+	emptyTrash(): Observable<boolean> {
+		return this.repository.emptyTrash().pipe(
+			tap(() => {
+				this.state.setTrashItems([]);
+				this.notifications.success('Trash emptied');
+			}),
+			map(() => true),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(`Failed to empty trash: ${userMessage}`);
+				return of(false);
+			})
+		);
+	}
+}
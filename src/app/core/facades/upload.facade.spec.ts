@@ -0,0 +1,273 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import { HttpErrorResponse } from '@angular/common/http';
+import { UploadFacade } from './upload.facade';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { NotificationService } from '../services/notification.service';
+import { DialogService } from '../services/dialog.service';
+import {
+	ConflictResolution,
+	FileItem,
+	UploadEvent,
+} from '../../models/file-item';
+
+describe('UploadFacade', () => {
+	let facade: UploadFacade;
+	let repository: jasmine.SpyObj<IFileRepository>;
+	let dialogs: jasmine.SpyObj<DialogService>;
+	let notifications: NotificationService;
+	let state: FileStateService;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	beforeEach(() => {
+		repository = jasmine.createSpyObj<IFileRepository>('FileRepository', [
+			'uploadFile',
+			'discardUpload',
+		]);
+		repository.discardUpload.and.returnValue(of(undefined));
+
+		TestBed.configureTestingModule({
+			providers: [{ provide: FILE_REPOSITORY, useValue: repository }],
+		});
+		dialogs = TestBed.inject(DialogService) as jasmine.SpyObj<DialogService>;
+		spyOn(dialogs, 'resolveConflict');
+
+		facade = TestBed.inject(UploadFacade);
+		notifications = TestBed.inject(NotificationService);
+		state = TestBed.inject(FileStateService);
+	});
+
+	let requests: Subject<UploadEvent>[];
+
+	const file = (name: string) =>
+		new File(['hello'], name, { type: 'text/plain' });
+	const statuses = () => state.state.uploads.map(task => task.status);
+
+	beforeEach(() => {
+		requests = [];
+		repository.uploadFile.and.callFake(() => {
+			const request = new Subject<UploadEvent>();
+			requests.push(request);
+			return request;
+		});
+		state.setCurrentFolderId('docs');
+	});
+
+	it('should upload at most three files at a time', () => {
+		facade.uploadFiles(
+			['a', 'b', 'c', 'd'].map(name => file(`${name}.txt`)),
+			'docs'
+		);
+
+		expect(statuses()).toEqual([
+			'uploading',
+			'uploading',
+			'uploading',
+			'queued',
+		]);
+		expect(state.state.isUploading).toBeTrue();
+
+		requests[0].next({
+			type: 'complete',
+			response: { items: [item('a')] },
+		});
+
+		expect(statuses()).toEqual([
+			'completed',
+			'uploading',
+			'uploading',
+			'uploading',
+		]);
+	});
+
+	it('should track progress and show the uploaded file', () => {
+		spyOn(notifications, 'success');
+		facade.uploadFiles([file('a.txt')], 'docs');
+
+		requests[0].next({ type: 'progress', loaded: 2, total: 5 });
+		expect(state.state.uploads[0].loaded).toBe(2);
+
+		requests[0].next({
+			type: 'complete',
+			response: { items: [item('a')] },
+		});
+
+		expect(state.state.items.map(current => current.id)).toEqual(['a']);
+		expect(state.state.isUploading).toBeFalse();
+		expect(notifications.success).toHaveBeenCalledWith(
+			'1 file(s) uploaded successfully'
+		);
+	});
+
+	it('should reject files that fail validation', () => {
+		spyOn(notifications, 'error');
+
+		expect(facade.uploadFiles([])).toBeFalse();
+		expect(repository.uploadFile).not.toHaveBeenCalled();
+		expect(notifications.error).toHaveBeenCalledWith('No files selected');
+	});
+
+	it('should mark failed uploads and retry them from the summary', () => {
+		spyOn(notifications, 'error').and.callThrough();
+		facade.uploadFiles([file('a.txt')], 'docs');
+
+		requests[0].error(new HttpErrorResponse({ status: 500 }));
+
+		expect(statuses()).toEqual(['failed']);
+		expect(state.state.uploads[0].error).toBeTruthy();
+		const [message, , action] = (
+			notifications.error as jasmine.Spy
+		).calls.mostRecent().args;
+		expect(message).toBe(
+			'1 of 1 file(s) failed to upload: ' +
+				'"a.txt" (Server error. Please try again later.)'
+		);
+
+		action.callback();
+
+		expect(statuses()).toEqual(['uploading']);
+		expect(repository.uploadFile).toHaveBeenCalledTimes(2);
+	});
+
+	it('should fail an upload the server rejected in a partial success', () => {
+		facade.uploadFiles([file('a.txt')], 'docs');
+
+		requests[0].next({
+			type: 'complete',
+			response: {
+				items: [],
+				errors: [
+					{ filename: 'a.txt', code: 'DUPLICATE_NAME', message: 'Exists' },
+				],
+			},
+		});
+
+		expect(statuses()).toEqual(['failed']);
+		expect(state.state.uploads[0].error).toBe(
+			'An item with this name already exists in this location.'
+		);
+	});
+
+	it('should abort a cancelled upload and start the next one', () => {
+		facade.uploadFiles(
+			['a', 'b', 'c', 'd'].map(name => file(`${name}.txt`)),
+			'docs'
+		);
+
+		facade.cancelUpload(state.state.uploads[0].id);
+
+		expect(requests[0].observed).toBeFalse();
+		expect(repository.discardUpload).toHaveBeenCalledOnceWith(
+			state.state.uploads[0].file,
+			'docs'
+		);
+		expect(statuses()).toEqual([
+			'cancelled',
+			'uploading',
+			'uploading',
+			'uploading',
+		]);
+	});
+
+	it('should clear finished uploads only', () => {
+		facade.uploadFiles([file('a.txt'), file('b.txt')], 'docs');
+		requests[0].next({
+			type: 'complete',
+			response: { items: [item('a')] },
+		});
+
+		facade.clearFinishedUploads();
+
+		expect(statuses()).toEqual(['uploading']);
+	});
+
+	describe('name conflicts', () => {
+		const duplicate = () =>
+			throwError(
+				() =>
+					new HttpErrorResponse({
+						status: 409,
+						error: { code: 'DUPLICATE_NAME', message: 'Name taken' },
+					})
+			);
+		const answer = (
+			strategy: ConflictResolution['strategy'],
+			applyToAll = false
+		) => of<ConflictResolution | null>({ strategy, applyToAll });
+
+		it('should ask once per conflicting upload unless applied to all', () => {
+			repository.uploadFile.and.returnValue(new Subject<UploadEvent>());
+			state.setCurrentFolderId('docs');
+			state.setItems([item('a'), item('b'), item('c')]);
+			dialogs.resolveConflict.and.returnValues(
+				answer('skip'),
+				answer('replace', true)
+			);
+
+			facade.uploadFiles(
+				['a', 'b', 'c', 'new'].map(
+					name => new File(['x'], `${name}.txt`, { type: 'text/plain' })
+				),
+				'docs'
+			);
+
+			expect(dialogs.resolveConflict).toHaveBeenCalledTimes(2);
+			expect(dialogs.resolveConflict).toHaveBeenCalledWith(
+				'a.txt',
+				2,
+				jasmine.stringContaining('New version'),
+				true
+			);
+			expect(
+				state.state.uploads.map(task => [task.file.name, task.conflict])
+			).toEqual([
+				['b.txt', 'replace'],
+				['c.txt', 'replace'],
+				['new.txt', 'fail'],
+			]);
+		});
+
+		it('should queue nothing when the upload conflict dialog is dismissed', () => {
+			state.setCurrentFolderId('docs');
+			state.setItems([item('a')]);
+			dialogs.resolveConflict.and.returnValue(of(null));
+			spyOn(notifications, 'info');
+
+			facade.uploadFiles(
+				[new File(['x'], 'a.txt', { type: 'text/plain' })],
+				'docs'
+			);
+
+			expect(state.state.uploads).toEqual([]);
+			expect(notifications.info).toHaveBeenCalledWith('Upload cancelled');
+		});
+
+		it('should ask about a file the server rejected as a duplicate', () => {
+			// Not listed when the upload started, e.g. added by another client
+			repository.uploadFile.and.returnValues(duplicate(), new Subject());
+			dialogs.resolveConflict.and.returnValue(answer('keep-both'));
+
+			facade.uploadFiles(
+				[new File(['x'], 'a.txt', { type: 'text/plain' })],
+				'docs'
+			);
+
+			expect(dialogs.resolveConflict).toHaveBeenCalledTimes(1);
+			expect(repository.uploadFile.calls.mostRecent().args[2]).toBe(
+				'keep-both'
+			);
+		});
+	});
+});
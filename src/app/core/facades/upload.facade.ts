@@ -0,0 +1,338 @@
+/**
+ * Upload Facade - Orchestrates the upload queue
+ * SRP: Queueing, progress, cancellation and retry of file uploads
+ *
+ * Each file is its own task, at most MAX_CONCURRENT_UPLOADS run at once.
+ * The facade is a root singleton, so uploads survive navigation; the
+ * upload panel lists them wherever the user is.
+ */
+import { Injectable, inject } from '@angular/core';
+import { Subscription } from 'rxjs';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { ErrorHandlerService } from '../services/error-handler.service';
+import { DialogService } from '../services/dialog.service';
+import { NotificationService } from '../services/notification.service';
+import { FileValidationService } from '../utils/file-validation.service';
+import {
+	ConflictStrategy,
+	UploadResponse,
+	UploadTask,
+} from '../../models/file-item';
+
+const MAX_CONCURRENT_UPLOADS = 3;
+const UPLOAD_REPLACE_HINT =
+	'Replace overwrites the existing file. New version keeps it in the version history.';
+
+@Injectable({
+	providedIn: 'root',
+})
+export class UploadFacade {
+	private readonly repository: IFileRepository = inject(FILE_REPOSITORY);
+	private readonly state = inject(FileStateService);
+	private readonly errorHandler = inject(ErrorHandlerService);
+	private readonly notifications = inject(NotificationService);
+	private readonly dialogs = inject(DialogService);
+	private readonly fileValidation = new FileValidationService(); // ✅ Validation in service layer
+
+	// Upload queue bookkeeping
+	private readonly uploadSubscriptions = new Map<string, Subscription>();
+	private uploadSequence = 0;
+	private uploadRunResults = { completed: 0, failed: [] as string[] };
+
+	readonly uploads$ = this.state.uploads$;
+	readonly isUploading$ = this.state.isUploading$;
+
+	/**
+	 * Queue files for upload with validation
+	 * Each file is sent in its own request so progress, cancellation and
+	 * retry are tracked per file. Returns false when validation fails.
+	 * Name conflicts with the open folder are resolved (conflict dialog) before queueing.
+	 * ✅ Validation logic in service layer
+	 */
+	uploadFiles(files: File[], parentId?: string): boolean {
+		// ✅ Validation in service layer
+		const validation = this.fileValidation.validateFiles(files);
+		if (!validation.valid) {
+			this.notifications.error(validation.message || 'Invalid files');
+			return false;
+		}
+
+		// Only the open folder's items are known here, other conflicts are reported by the server
+		const targetId = parentId || null;
+		const existingNames = new Set(
+			targetId === this.state.state.currentFolderId
+				? this.state.state.items
+						.filter(item => !item.folder)
+						.map(item => item.name)
+				: []
+		);
+		const conflicting = files.filter(file => existingNames.has(file.name));
+
+		this.dialogs
+			.resolveConflicts(
+				conflicting.map(file => file.name),
+				UPLOAD_REPLACE_HINT,
+				true
+			)
+			.subscribe(strategies => {
+				if (!strategies) {
+					this.notifications.info('Upload cancelled');
+					return;
+				}
+
+				const entries = files.map(file => {
+					const index = conflicting.indexOf(file);
+					return {
+						file,
+						conflict: index === -1 ? 'fail' : strategies[index],
+					};
+				});
+				const skipped = entries.filter(entry => entry.conflict === 'skip');
+				if (skipped.length > 0) {
+					this.notifications.info(`${skipped.length} file(s) skipped`);
+				}
+
+				this.enqueueUploads(
+					entries.filter(entry => entry.conflict !== 'skip'),
+					targetId
+				);
+			});
+		return true;
+	}
+
+	private enqueueUploads(
+		entries: { file: File; conflict: ConflictStrategy }[],
+		parentId: string | null
+	): void {
+		const tasks: UploadTask[] = entries.map(({ file, conflict }) => ({
+			id: `upload-${++this.uploadSequence}`,
+			file,
+			parentId,
+			conflict,
+			status: 'queued',
+			loaded: 0,
+			total: file.size,
+			bytesPerSecond: 0,
+		}));
+
+		this.state.setUploads([...this.state.state.uploads, ...tasks]);
+		this.processUploadQueue();
+	}
+
+	/**
+	 * Cancel a queued or running upload (aborts the request)
+	 */
+	cancelUpload(taskId: string): void {
+		const task = this.findUpload(taskId);
+		if (!task || (task.status !== 'queued' && task.status !== 'uploading')) {
+			return;
+		}
+
+		this.uploadSubscriptions.get(taskId)?.unsubscribe();
+		this.uploadSubscriptions.delete(taskId);
+		this.discardUpload(task);
+		this.settleUpload(taskId, { status: 'cancelled', bytesPerSecond: 0 });
+	}
+
+	/**
+	 * Put a failed or cancelled upload back in the queue
+	 */
+	retryUpload(taskId: string, conflict?: ConflictStrategy): void {
+		const task = this.findUpload(taskId);
+		if (!task || (task.status !== 'failed' && task.status !== 'cancelled')) {
+			return;
+		}
+
+		this.state.updateUpload(taskId, {
+			status: 'queued',
+			conflict: conflict ?? task.conflict,
+			loaded: 0,
+			bytesPerSecond: 0,
+			startedAt: undefined,
+			error: undefined,
+		});
+		this.processUploadQueue();
+	}
+
+	/**
+	 * Remove completed, failed and cancelled uploads from the queue
+	 */
+	clearFinishedUploads(): void {
+		this.state.setUploads(
+			this.state.state.uploads.filter(
+				task => task.status === 'queued' || task.status === 'uploading'
+			)
+		);
+	}
+
+	/**
+	 * Start queued uploads up to the concurrency limit
+	 */
+	private processUploadQueue(): void {
+		const uploads = this.state.state.uploads;
+		const running = uploads.filter(task => task.status === 'uploading').length;
+		uploads
+			.filter(task => task.status === 'queued')
+			.slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - running))
+			.forEach(task => this.startUpload(task));
+	}
+
+	private startUpload(task: UploadTask): void {
+		const startedAt = Date.now();
+		// Speed is measured from the first progress event so resumed bytes do not count
+		let baseline: { loaded: number; time: number } | null = null;
+		this.state.updateUpload(task.id, { status: 'uploading', startedAt });
+
+		const subscription = this.repository
+			.uploadFile(task.file, task.parentId || undefined, task.conflict)
+			.subscribe({
+				next: event => {
+					if (event.type === 'progress') {
+						baseline ??= { loaded: event.loaded, time: Date.now() };
+						const seconds = (Date.now() - baseline.time) / 1000;
+						this.state.updateUpload(task.id, {
+							loaded: event.loaded,
+							total: event.total,
+							bytesPerSecond:
+								seconds > 0 ? (event.loaded - baseline.loaded) / seconds : 0,
+						});
+						return;
+					}
+					this.onUploadComplete(task, event.response);
+				},
+				error: error => {
+					const errorDetails = this.errorHandler.parseError(error);
+					const failure = errorDetails.failures?.[0];
+					// Multipart uploads list the rejected file, chunked ones answer 409 directly
+					const duplicate =
+						failure?.code === 'DUPLICATE_NAME' ||
+						errorDetails.code === 'DUPLICATE_NAME';
+					if (duplicate && task.conflict === 'fail') {
+						this.resolveUploadConflict(task);
+						return;
+					}
+					this.settleUpload(task.id, {
+						status: 'failed',
+						bytesPerSecond: 0,
+						error: failure
+							? this.errorHandler.getMessageForCode(
+									failure.code,
+									failure.message
+								)
+							: this.errorHandler.getUserFriendlyMessage(errorDetails),
+					});
+				},
+			});
+
+		if (!subscription.closed) {
+			this.uploadSubscriptions.set(task.id, subscription);
+		}
+	}
+
+	private onUploadComplete(task: UploadTask, response: UploadResponse): void {
+		// Show the new file right away when its folder is open
+		if (this.state.state.currentFolderId === task.parentId) {
+			const ids = new Set(response.items.map(item => item.id));
+			this.state.setItems([
+				...this.state.state.items.filter(item => !ids.has(item.id)),
+				...response.items,
+			]);
+		}
+
+		// 207 PARTIAL_SUCCESS: the server rejected the file
+		const failure = response.errors?.[0];
+		if (failure) {
+			this.settleUpload(task.id, {
+				status: 'failed',
+				bytesPerSecond: 0,
+				error: this.errorHandler.getMessageForCode(
+					failure.code,
+					failure.message
+				),
+			});
+			return;
+		}
+
+		this.settleUpload(task.id, {
+			status: 'completed',
+			loaded: task.file.size,
+			bytesPerSecond: 0,
+		});
+	}
+
+	/**
+	 * Record the final status of an upload, start the next ones and
+	 * summarize the run once the queue is idle
+	 */
+	private settleUpload(taskId: string, changes: Partial<UploadTask>): void {
+		this.uploadSubscriptions.delete(taskId);
+		this.state.updateUpload(taskId, changes);
+
+		if (changes.status === 'completed') {
+			this.uploadRunResults.completed++;
+		} else if (changes.status === 'failed') {
+			this.uploadRunResults.failed.push(taskId);
+		}
+
+		this.processUploadQueue();
+		if (this.state.state.isUploading) return;
+
+		const { completed, failed } = this.uploadRunResults;
+		this.uploadRunResults = { completed: 0, failed: [] };
+
+		if (failed.length > 0) {
+			const details = failed
+				.map(id => this.findUpload(id))
+				.map(task => `"${task?.file.name}" (${task?.error})`)
+				.join(', ');
+			this.notifications.error(
+				`${failed.length} of ${completed + failed.length} file(s) failed to upload: ${details}`,
+				8000,
+				{
+					label: 'Retry',
+					callback: () => failed.forEach(id => this.retryUpload(id)),
+				}
+			);
+		} else if (completed > 0) {
+			this.notifications.success(`${completed} file(s) uploaded successfully`);
+		}
+	}
+
+	/**
+	 * Conflict the open folder did not reveal (another folder, concurrent upload):
+	 * ask now, then retry with the chosen strategy or mark the upload skipped
+	 */
+	private resolveUploadConflict(task: UploadTask): void {
+		// Parked as failed (so it can be retried) without counting in the run summary
+		this.uploadSubscriptions.delete(task.id);
+		this.state.updateUpload(task.id, { status: 'failed', bytesPerSecond: 0 });
+		this.processUploadQueue();
+
+		this.dialogs
+			.resolveConflicts([task.file.name], UPLOAD_REPLACE_HINT, true)
+			.subscribe(strategies => {
+				const strategy = strategies?.[0];
+				if (strategy && strategy !== 'skip') {
+					this.retryUpload(task.id, strategy);
+				} else {
+					this.discardUpload(task);
+					this.settleUpload(task.id, { status: 'skipped', error: undefined });
+				}
+			});
+	}
+
+	// Chunks already sent for an upload that will not be resumed are freed on the server
+	private discardUpload(task: UploadTask): void {
+		this.repository
+			.discardUpload(task.file, task.parentId || undefined)
+			.subscribe();
+	}
+
+	private findUpload(taskId: string): UploadTask | undefined {
+		return this.state.state.uploads.find(task => task.id === taskId);
+	}
+}
@@ -0,0 +1,137 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { HttpErrorResponse } from '@angular/common/http';
+import { VersionFacade } from './version.facade';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { NotificationService } from '../services/notification.service';
+import { FileItem, FileVersion } from '../../models/file-item';
+
+describe('VersionFacade', () => {
+	let facade: VersionFacade;
+	let repository: jasmine.SpyObj<IFileRepository>;
+	let notifications: NotificationService;
+	let state: FileStateService;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	beforeEach(() => {
+		repository = jasmine.createSpyObj<IFileRepository>('FileRepository', [
+			'getItems',
+			'getVersions',
+			'downloadVersion',
+			'restoreVersion',
+		]);
+		repository.getItems.and.returnValue(of({ items: [] }));
+
+		TestBed.configureTestingModule({
+			providers: [{ provide: FILE_REPOSITORY, useValue: repository }],
+		});
+
+		facade = TestBed.inject(VersionFacade);
+		notifications = TestBed.inject(NotificationService);
+		state = TestBed.inject(FileStateService);
+	});
+
+	it('should load the version history of a file', () => {
+		const versions: FileVersion[] = [
+			{
+				version: 2,
+				size: 20,
+				uploadedBy: null,
+				created: '2024-05-11T12:00:00Z',
+				current: true,
+			},
+			{
+				version: 1,
+				size: 10,
+				uploadedBy: null,
+				created: '2024-05-10T12:00:00Z',
+				current: false,
+			},
+		];
+		repository.getVersions.and.returnValue(of({ items: versions }));
+
+		let result: FileVersion[] | undefined;
+		facade.loadVersions('a').subscribe(found => (result = found));
+
+		expect(repository.getVersions).toHaveBeenCalledWith('a');
+		expect(result).toEqual(versions);
+	});
+
+	it('should report a history that cannot be loaded', () => {
+		repository.getVersions.and.returnValue(
+			throwError(() => new HttpErrorResponse({ status: 500 }))
+		);
+		spyOn(notifications, 'error');
+		spyOn(console, 'error');
+
+		let result: FileVersion[] | undefined;
+		facade.loadVersions('a').subscribe(found => (result = found));
+
+		expect(result).toEqual([]);
+		expect(notifications.error).toHaveBeenCalledWith(
+			jasmine.stringMatching(/^Failed to load versions: /)
+		);
+	});
+
+	it('should restore a version as a new one and reload the folder', () => {
+		const restored = item('a', { version: 3 });
+		state.setCurrentFolderId('docs');
+		repository.restoreVersion.and.returnValue(of(restored));
+		spyOn(notifications, 'success');
+
+		let result: FileItem | null | undefined;
+		facade.restoreVersion(item('a'), 1).subscribe(found => (result = found));
+
+		expect(repository.restoreVersion).toHaveBeenCalledWith('a', 1);
+		expect(result).toEqual(restored);
+		expect(repository.getItems).toHaveBeenCalledWith('docs');
+		expect(notifications.success).toHaveBeenCalledWith(
+			'Restored version 1 of "a.txt" as version 3'
+		);
+	});
+
+	it('should report a version that cannot be restored', () => {
+		repository.restoreVersion.and.returnValue(
+			throwError(() => new HttpErrorResponse({ status: 404 }))
+		);
+		spyOn(notifications, 'error');
+		spyOn(console, 'error');
+
+		let result: FileItem | null | undefined;
+		facade.restoreVersion(item('a'), 1).subscribe(found => (result = found));
+
+		expect(result).toBeNull();
+		expect(state.state.isLoading).toBeFalse();
+		expect(notifications.error).toHaveBeenCalledWith(
+			jasmine.stringMatching(/^Failed to restore version 1: /)
+		);
+	});
+
+	it('should download a version under the file name', () => {
+		const link = jasmine.createSpyObj<HTMLAnchorElement>('link', ['click']);
+		spyOn(document, 'createElement').and.returnValue(link);
+		spyOn(URL, 'createObjectURL').and.returnValue('blob:v1');
+		spyOn(URL, 'revokeObjectURL');
+		repository.downloadVersion.and.returnValue(of(new Blob(['v1'])));
+
+		let result: boolean | undefined;
+		facade.downloadVersion(item('a'), 1).subscribe(ok => (result = ok));
+
+		expect(repository.downloadVersion).toHaveBeenCalledWith('a', 1);
+		expect(link.download).toBe('a.txt');
+		expect(link.click).toHaveBeenCalled();
+		expect(result).toBeTrue();
+	});
+});
@@ -0,0 +1,107 @@
+/**
+ * Version Facade - Orchestrates the version history of files
+ * SRP: Listing, downloading and restoring earlier versions
+ */
+import { Injectable, inject } from '@angular/core';
+import {
+	Observable,
+	tap,
+	catchError,
+	finalize,
+	of,
+	map,
+	switchMap,
+} from 'rxjs';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileStateService } from '../state/file-state.service';
+import { ErrorHandlerService } from '../services/error-handler.service';
+import { NotificationService } from '../services/notification.service';
+import { triggerDownload } from '../utils/download';
+import { FileManagerFacade } from './file-manager.facade';
+import { FileItem, FileVersion } from '../../models/file-item';
+
+@Injectable({
+	providedIn: 'root',
+})
+export class VersionFacade {
+	private readonly repository: IFileRepository = inject(FILE_REPOSITORY);
+	private readonly state = inject(FileStateService);
+	private readonly errorHandler = inject(ErrorHandlerService);
+	private readonly notifications = inject(NotificationService);
+	private readonly fileManager = inject(FileManagerFacade);
+
+	/**
+	 * Version history of a file, newest first
+	 */
+	loadVersions(itemId: string): Observable<FileVersion[]> {
+		return this.repository.getVersions(itemId).pipe(
+			map(response => response.items),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(`Failed to load versions: ${userMessage}`);
+				return of([]);
+			})
+		);
+	}
+
+	downloadVersion(item: FileItem, version: number): Observable<boolean> {
+		return this.repository.downloadVersion(item.id, version).pipe(
+			tap(blob => {
+				const url = window.URL.createObjectURL(blob);
+				triggerDownload(url, item.name);
+				window.URL.revokeObjectURL(url);
+				this.notifications.success(
+					`Downloading version ${version} of "${item.name}"`
+				);
+			}),
+			map(() => true),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(
+					`Download failed: ${userMessage}`,
+					undefined,
+					this.notifications.retryAction(() =>
+						this.downloadVersion(item, version)
+					)
+				);
+				return of(false);
+			})
+		);
+	}
+
+	/**
+	 * Make an earlier version current again; the server adds it as a new
+	 * version, so the history is kept and the restore itself can be reverted
+	 */
+	restoreVersion(item: FileItem, version: number): Observable<FileItem | null> {
+		this.state.setLoading(true);
+
+		return this.repository.restoreVersion(item.id, version).pipe(
+			tap(restoredItem =>
+				this.notifications.success(
+					`Restored version ${version} of "${item.name}" as version ${restoredItem.version}`
+				)
+			),
+			switchMap(restoredItem =>
+				this.fileManager.reloadItems().pipe(map(() => restoredItem))
+			),
+			catchError(error => {
+				const errorDetails = this.errorHandler.parseError(error);
+				const userMessage =
+					this.errorHandler.getUserFriendlyMessage(errorDetails);
+				this.notifications.error(
+					`Failed to restore version ${version}: ${userMessage}`
+				);
+				return of(null);
+			}),
+			finalize(() => this.state.setLoading(false))
+		);
+	}
+}
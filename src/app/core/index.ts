@@ -6,6 +6,12 @@ export * from './interfaces/file-repository.interface';
 
 // Repositories
 export * from './repositories/file-http.repository';
+export * from './repositories/file-caching.repository';
+export * from './repositories/file-indexeddb.repository';
+export * from './repositories/file-repository.providers';
+
+// Interceptors
+export * from './interceptors/client-id.interceptor';
 
 // State
 export * from './state/file-state.service';
@@ -14,10 +20,21 @@ export * from './state/file-state.service';
 export * from './services/error-handler.service';
 export * from './services/notification.service';
 export * from './services/dialog.service';
+export * from './services/view-preferences.service';
+export * from './services/keyboard-shortcut.service';
+export * from './services/command-history.service';
+export * from './services/live-updates.service';
 
 // Facades
 export * from './facades/file-manager.facade';
+export * from './facades/upload.facade';
+export * from './facades/trash.facade';
+export * from './facades/version.facade';
+export * from './facades/batch.facade';
 
 // Utils
 export * from './utils/file-filter.service';
 export * from './utils/file-validation.service';
+export * from './utils/syntax-highlighter';
+export * from './utils/zip-archive';
+export * from './utils/download';
@@ -0,0 +1,17 @@
+/**
+ * Client Id Interceptor
+ * Tags API requests with an id unique to this app instance (one per tab), which
+ * the server copies into the live change events the request causes, so the app
+ * can skip its own changes when they come back over GET /api/events.
+ */
+import { HttpInterceptorFn } from '@angular/common/http';
+
+export const CLIENT_ID = crypto.randomUUID();
+export const CLIENT_ID_HEADER = 'X-Client-Id';
+
+export const clientIdInterceptor: HttpInterceptorFn = (request, next) =>
+	next(
+		request.url.startsWith('/api/')
+			? request.clone({ setHeaders: { [CLIENT_ID_HEADER]: CLIENT_ID } })
+			: request
+	);
@@ -2,15 +2,87 @@
  * Repository Pattern Interface (DIP - Dependency Inversion Principle)
  * High-level modules depend on abstractions, not concrete implementations
  */
+import { InjectionToken } from '@angular/core';
 import { Observable } from 'rxjs';
-import { FileItem, UploadResponse } from '../../models/file-item';
+import {
+	BatchOperation,
+	BatchResponse,
+	ConflictStrategy,
+	FileItem,
+	FileVersion,
+	FolderTreeNode,
+	ItemChangeEvent,
+	ItemsResetEvent,
+	SearchResult,
+	TrashItem,
+	UploadEvent,
+	UploadResponse,
+} from '../../models/file-item';
 
 export interface IFileRepository {
 	getItems(parentId?: string): Observable<{ items: FileItem[] }>;
 	uploadFiles(files: File[], parentId?: string): Observable<UploadResponse>;
-	createFolder(name: string, parentId?: string): Observable<{ item: FileItem }>;
+	uploadFile(
+		file: File,
+		parentId?: string,
+		conflict?: ConflictStrategy
+	): Observable<UploadEvent>;
+	// Drop what a cancelled upload of this file left behind (e.g. received chunks)
+	discardUpload(file: File, parentId?: string): Observable<void>;
+	createFolder(
+		name: string,
+		parentId?: string,
+		conflict?: ConflictStrategy
+	): Observable<{ item: FileItem; skipped?: boolean }>;
+	copyItem(
+		itemId: string,
+		parentId: string | null,
+		conflict?: ConflictStrategy
+	): Observable<{ item: FileItem; skipped?: boolean }>;
 	downloadFile(itemId: string): Observable<Blob>;
+	// Image thumbnail of a file at `size` px, or null when the backend has none
+	getThumbnailUrl(item: FileItem, size: number): string | null;
+	// Versions of a file, newest first; restoring adds the old content as a new version
+	getVersions(itemId: string): Observable<{ items: FileVersion[] }>;
+	downloadVersion(itemId: string, version: number): Observable<Blob>;
+	restoreVersion(itemId: string, version: number): Observable<FileItem>;
+	// URL the browser can download a ZIP of the items from (checked first, so errors surface here)
+	getArchiveUrl(itemIds: string[]): Observable<string>;
 	deleteItem(itemId: string): Observable<void>;
-	updateItem(itemId: string, updates: Partial<FileItem>): Observable<FileItem>;
+	updateItem(
+		itemId: string,
+		updates: Partial<FileItem>,
+		conflict?: ConflictStrategy
+	): Observable<FileItem>;
 	getItemPath(itemId: string): Observable<{ items: FileItem[] }>;
+	search(query: string): Observable<{ items: SearchResult[] }>;
+	getFolderTree(
+		parentId?: string | null,
+		depth?: number
+	): Observable<{ items: FolderTreeNode[] }>;
+	getTrash(): Observable<{ items: TrashItem[] }>;
+	restoreItem(itemId: string): Observable<FileItem>;
+	purgeItem(itemId: string): Observable<void>;
+	emptyTrash(): Observable<void>;
+	batch(
+		operation: BatchOperation,
+		ids: string[],
+		parentId?: string | null,
+		conflict?: ConflictStrategy
+	): Observable<BatchResponse>;
+	// Changes made by other clients while subscribed (nothing when storage is not shared)
+	watchChanges(): Observable<ItemChangeEvent | ItemsResetEvent>;
 }
+
+// Where files are stored, chosen by the environment (see provideFileRepository)
+export type FileRepositoryBackend = 'http' | 'indexeddb';
+
+// What the app talks to: the backend behind the in-memory listing cache
+export const FILE_REPOSITORY = new InjectionToken<IFileRepository>(
+	'FILE_REPOSITORY'
+);
+
+// The storage backend itself (HTTP API or IndexedDB)
+export const FILE_REPOSITORY_BACKEND = new InjectionToken<IFileRepository>(
+	'FILE_REPOSITORY_BACKEND'
+);
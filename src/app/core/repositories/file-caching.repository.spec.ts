@@ -0,0 +1,201 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import { CachingFileRepository } from './file-caching.repository';
+import {
+	FILE_REPOSITORY_BACKEND,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import {
+	FileItem,
+	ItemChangeEvent,
+	ItemsResetEvent,
+} from '../../models/file-item';
+
+describe('CachingFileRepository', () => {
+	let repository: CachingFileRepository;
+	let backend: jasmine.SpyObj<IFileRepository>;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: id,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	const listing = (...items: FileItem[]) => ({ items });
+
+	// Every response of a listing request, in order
+	const listItems = (parentId?: string) => {
+		const responses: { items: FileItem[] }[] = [];
+		repository
+			.getItems(parentId)
+			.subscribe(response => responses.push(response));
+		return responses;
+	};
+
+	beforeEach(() => {
+		backend = jasmine.createSpyObj<IFileRepository>('backend', [
+			'getItems',
+			'getItemPath',
+			'createFolder',
+			'deleteItem',
+			'updateItem',
+			'restoreItem',
+			'watchChanges',
+		]);
+		TestBed.configureTestingModule({
+			providers: [{ provide: FILE_REPOSITORY_BACKEND, useValue: backend }],
+		});
+		repository = TestBed.inject(CachingFileRepository);
+	});
+
+	it('should serve a cached listing and emit the revalidated one when it changed', () => {
+		const before = listing(item('a'));
+		const after = listing(item('a'), item('b'));
+		backend.getItems.and.returnValue(of(before));
+		listItems('docs');
+
+		backend.getItems.and.returnValue(of(after));
+
+		expect(listItems('docs')).toEqual([before, after]);
+		expect(repository.getCacheStats()).toEqual({
+			hits: 1,
+			misses: 1,
+			listings: 1,
+			paths: 0,
+		});
+	});
+
+	it('should report its stats through the console hook in development', () => {
+		backend.getItems.and.returnValue(of(listing(item('a'))));
+		listItems('docs');
+
+		const stats = (window as { fileCacheStats?: () => unknown }).fileCacheStats;
+
+		expect(stats?.()).toEqual(repository.getCacheStats());
+	});
+
+	it('should not emit a revalidated listing that did not change', () => {
+		backend.getItems.and.returnValue(of(listing(item('a'))));
+		listItems('docs');
+
+		expect(listItems('docs')).toEqual([listing(item('a'))]);
+	});
+
+	it('should not cache a response requested before an invalidation', () => {
+		const pending = new Subject<{ items: FileItem[] }>();
+		backend.getItems.and.returnValue(pending);
+		listItems('docs');
+
+		backend.createFolder.and.returnValue(
+			of({ item: item('new', { folder: true }) })
+		);
+		repository.createFolder('new', 'docs').subscribe();
+		pending.next(listing(item('a')));
+		pending.complete();
+
+		expect(repository.getCacheStats().listings).toBe(0);
+		const fresh = listing(item('a'), item('new', { folder: true }));
+		backend.getItems.and.returnValue(of(fresh));
+		expect(listItems('docs')).toEqual([fresh]);
+	});
+
+	it('should drop a listing whose revalidation failed', () => {
+		backend.getItems.and.returnValue(of(listing(item('a'))));
+		listItems('docs');
+
+		backend.getItems.and.returnValue(throwError(() => new Error('gone')));
+		repository.getItems('docs').subscribe({ error: () => undefined });
+
+		expect(repository.getCacheStats().listings).toBe(0);
+	});
+
+	it('should invalidate the listings a moved item left and arrived in', () => {
+		backend.getItems.and.callFake(parentId =>
+			of(listing(parentId === 'docs' ? item('a') : item(`${parentId}-item`)))
+		);
+		listItems('docs');
+		listItems('photos');
+		listItems('other');
+
+		backend.updateItem.and.returnValue(of(item('a', { parentId: 'photos' })));
+		repository.updateItem('a', { parentId: 'photos' }).subscribe();
+
+		expect(repository.getCacheStats().listings).toBe(1);
+		backend.getItems.calls.reset();
+		listItems('other');
+		expect(backend.getItems).toHaveBeenCalledTimes(1);
+		expect(repository.getCacheStats().hits).toBe(1);
+	});
+
+	it('should forget the cached subfolders of a deleted folder', () => {
+		backend.getItems.and.callFake(parentId =>
+			of(
+				parentId === 'docs'
+					? listing(item('photos', { folder: true }))
+					: listing(item('beach.jpg', { parentId: 'photos' }))
+			)
+		);
+		listItems('docs');
+		listItems('photos');
+
+		backend.deleteItem.and.returnValue(of(undefined));
+		repository.deleteItem('docs').subscribe();
+
+		expect(repository.getCacheStats().listings).toBe(0);
+	});
+
+	it('should drop every listing when an item is restored', () => {
+		backend.getItems.and.returnValue(of(listing()));
+		listItems();
+		listItems('projects');
+		// Restoring projects/drafts/plan.txt recreates the deleted drafts folder
+		backend.restoreItem.and.returnValue(
+			of(item('plan.txt', { parentId: 'drafts' }))
+		);
+
+		repository.restoreItem('plan.txt').subscribe();
+
+		expect(repository.getCacheStats().listings).toBe(0);
+	});
+
+	it('should forget everything when changes elsewhere were missed', () => {
+		const changes = new Subject<ItemChangeEvent | ItemsResetEvent>();
+		backend.watchChanges.and.returnValue(changes);
+		backend.getItems.and.returnValue(of(listing(item('a'))));
+		backend.getItemPath.and.returnValue(of(listing(item('a'))));
+		listItems('docs');
+		repository.getItemPath('a').subscribe();
+		repository.watchChanges().subscribe();
+
+		changes.next({ type: 'reset' });
+
+		expect(repository.getCacheStats()).toEqual(
+			jasmine.objectContaining({ listings: 0, paths: 0 })
+		);
+	});
+
+	it('should invalidate the listings and paths of an item changed elsewhere', () => {
+		const changes = new Subject<ItemChangeEvent | ItemsResetEvent>();
+		backend.watchChanges.and.returnValue(changes);
+		backend.getItems.and.returnValue(of(listing(item('a'))));
+		backend.getItemPath.and.returnValue(of(listing(item('docs'), item('a'))));
+		listItems('docs');
+		listItems('photos');
+		listItems('other');
+		repository.getItemPath('a').subscribe();
+		repository.watchChanges().subscribe();
+
+		changes.next({
+			type: 'moved',
+			item: item('a', { parentId: 'photos' }),
+			previousParentId: 'docs',
+		});
+
+		expect(repository.getCacheStats()).toEqual(
+			jasmine.objectContaining({ listings: 1, paths: 0 })
+		);
+	});
+});
@@ -0,0 +1,376 @@
+/**
+ * Caching decorator of IFileRepository (Decorator Pattern)
+ * SRP: Single responsibility - keeping folder listings and paths in memory
+ * OCP: Adds caching around the storage backend without modifying it
+ *
+ * Stale-while-revalidate: a cached listing (or path) is emitted at once, then
+ * fetched again in the background and emitted a second time only if it changed.
+ * Mutations invalidate the listings of the folders they touch: the parent an
+ * item left, the parent it arrived in, and for folders the paths and listings
+ * below them.
+ *
+ * In development builds `fileCacheStats()` in the browser console reports the
+ * hit rate and the number of cached entries.
+ */
+import { Injectable, inject, isDevMode } from '@angular/core';
+import {
+	Observable,
+	catchError,
+	concat,
+	defer,
+	filter,
+	of,
+	tap,
+	throwError,
+} from 'rxjs';
+import {
+	FILE_REPOSITORY_BACKEND,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import {
+	BatchOperation,
+	BatchResponse,
+	ConflictStrategy,
+	FileItem,
+	FileVersion,
+	FolderTreeNode,
+	ItemChangeEvent,
+	ItemsResetEvent,
+	SearchResult,
+	TrashItem,
+	UploadEvent,
+	UploadResponse,
+} from '../../models/file-item';
+
+export interface CacheStats {
+	hits: number;
+	misses: number;
+	listings: number;
+	paths: number;
+}
+
+type ItemsResponse = { items: FileItem[] };
+
+type DevWindow = Window & { fileCacheStats?: () => CacheStats };
+
+// Listings are keyed by parent folder id, the root folder has no id
+const ROOT_KEY = '';
+
+@Injectable({
+	providedIn: 'root',
+})
+export class CachingFileRepository implements IFileRepository {
+	private readonly repository = inject(FILE_REPOSITORY_BACKEND);
+
+	private readonly listings = new Map<string, ItemsResponse>();
+	private readonly paths = new Map<string, ItemsResponse>();
+	private hits = 0;
+	private misses = 0;
+	// Bumped on every invalidation, so responses requested before it are not cached
+	private generation = 0;
+
+	constructor() {
+		if (isDevMode()) {
+			(window as DevWindow).fileCacheStats = () => this.getCacheStats();
+		}
+	}
+
+	/**
+	 * Hit/miss counts since the app started, and the number of cached entries
+	 */
+	getCacheStats(): CacheStats {
+		return {
+			hits: this.hits,
+			misses: this.misses,
+			listings: this.listings.size,
+			paths: this.paths.size,
+		};
+	}
+
+	getItems(parentId?: string): Observable<ItemsResponse> {
+		return this.cached(this.listings, parentId || ROOT_KEY, () =>
+			this.repository.getItems(parentId)
+		);
+	}
+
+	getItemPath(itemId: string): Observable<ItemsResponse> {
+		return this.cached(this.paths, itemId, () =>
+			this.repository.getItemPath(itemId)
+		);
+	}
+
+	uploadFiles(files: File[], parentId?: string): Observable<UploadResponse> {
+		return this.repository
+			.uploadFiles(files, parentId)
+			.pipe(tap(() => this.invalidateListing(parentId)));
+	}
+
+	uploadFile(
+		file: File,
+		parentId?: string,
+		conflict?: ConflictStrategy
+	): Observable<UploadEvent> {
+		return this.repository.uploadFile(file, parentId, conflict).pipe(
+			tap(event => {
+				if (event.type === 'complete') {
+					this.invalidateListing(parentId);
+				}
+			})
+		);
+	}
+
+	discardUpload(file: File, parentId?: string): Observable<void> {
+		return this.repository.discardUpload(file, parentId);
+	}
+
+	createFolder(
+		name: string,
+		parentId?: string,
+		conflict?: ConflictStrategy
+	): Observable<{ item: FileItem; skipped?: boolean }> {
+		return this.repository
+			.createFolder(name, parentId, conflict)
+			.pipe(tap(() => this.invalidateListing(parentId)));
+	}
+
+	copyItem(
+		itemId: string,
+		parentId: string | null,
+		conflict?: ConflictStrategy
+	): Observable<{ item: FileItem; skipped?: boolean }> {
+		return this.repository
+			.copyItem(itemId, parentId, conflict)
+			.pipe(tap(() => this.invalidateListing(parentId)));
+	}
+
+	downloadFile(itemId: string): Observable<Blob> {
+		return this.repository.downloadFile(itemId);
+	}
+
+	getVersions(itemId: string): Observable<{ items: FileVersion[] }> {
+		return this.repository.getVersions(itemId);
+	}
+
+	downloadVersion(itemId: string, version: number): Observable<Blob> {
+		return this.repository.downloadVersion(itemId, version);
+	}
+
+	restoreVersion(itemId: string, version: number): Observable<FileItem> {
+		return this.repository
+			.restoreVersion(itemId, version)
+			.pipe(tap(item => this.invalidateListing(item.parentId)));
+	}
+
+	getThumbnailUrl(item: FileItem, size: number): string | null {
+		return this.repository.getThumbnailUrl(item, size);
+	}
+
+	getArchiveUrl(itemIds: string[]): Observable<string> {
+		return this.repository.getArchiveUrl(itemIds);
+	}
+
+	deleteItem(itemId: string): Observable<void> {
+		return this.invalidatingItems([itemId], () =>
+			this.repository.deleteItem(itemId)
+		).pipe(tap(() => this.forgetFolder(itemId)));
+	}
+
+	updateItem(
+		itemId: string,
+		updates: Partial<FileItem>,
+		conflict?: ConflictStrategy
+	): Observable<FileItem> {
+		return this.invalidatingItems([itemId], () =>
+			this.repository.updateItem(itemId, updates, conflict)
+		).pipe(tap(item => this.invalidateListing(item.parentId)));
+	}
+
+	search(query: string): Observable<{ items: SearchResult[] }> {
+		return this.repository.search(query);
+	}
+
+	getFolderTree(
+		parentId?: string | null,
+		depth?: number
+	): Observable<{ items: FolderTreeNode[] }> {
+		return this.repository.getFolderTree(parentId, depth);
+	}
+
+	getTrash(): Observable<{ items: TrashItem[] }> {
+		return this.repository.getTrash();
+	}
+
+	// Missing parent folders are recreated along the original path, in listings
+	// the response does not name, so every listing may be stale
+	restoreItem(itemId: string): Observable<FileItem> {
+		return this.repository.restoreItem(itemId).pipe(tap(() => this.clear()));
+	}
+
+	// Trashed items are in no listing, so purging leaves the cache as it is
+	purgeItem(itemId: string): Observable<void> {
+		return this.repository.purgeItem(itemId);
+	}
+
+	emptyTrash(): Observable<void> {
+		return this.repository.emptyTrash();
+	}
+
+	batch(
+		operation: BatchOperation,
+		ids: string[],
+		parentId?: string | null,
+		conflict?: ConflictStrategy
+	): Observable<BatchResponse> {
+		return this.invalidatingItems(ids, () =>
+			this.repository.batch(operation, ids, parentId, conflict)
+		).pipe(
+			tap(() => {
+				if (operation === 'delete') {
+					ids.forEach(id => this.forgetFolder(id));
+				} else {
+					this.invalidateListing(parentId);
+				}
+			})
+		);
+	}
+
+	/**
+	 * Changes made elsewhere make the cached listings and paths they touch stale
+	 */
+	watchChanges(): Observable<ItemChangeEvent | ItemsResetEvent> {
+		return this.repository.watchChanges().pipe(
+			tap(change => {
+				if (change.type === 'reset') {
+					this.clear();
+				} else {
+					this.invalidateChange(change);
+				}
+			})
+		);
+	}
+
+	private invalidateChange(event: ItemChangeEvent): void {
+		const { type, item } = event;
+		this.invalidateListing(item.parentId);
+		if (type === 'moved') {
+			this.invalidateListing(event.previousParentId);
+		}
+		if (type === 'deleted') {
+			this.forgetFolder(item.id);
+		} else if (type !== 'created') {
+			this.invalidatePathsThrough(item.id);
+		}
+	}
+
+	/**
+	 * Serve `key` from `cache` when present and revalidate it in the background.
+	 * A failed revalidation drops the entry (e.g. the folder was deleted elsewhere).
+	 */
+	private cached(
+		cache: Map<string, ItemsResponse>,
+		key: string,
+		fetch: () => Observable<ItemsResponse>
+	): Observable<ItemsResponse> {
+		return defer(() => {
+			const entry = cache.get(key);
+			const generation = this.generation;
+			this.count(entry !== undefined);
+
+			const fresh$ = fetch().pipe(
+				tap(response => {
+					if (generation === this.generation) {
+						cache.set(key, response);
+					}
+				})
+			);
+			if (!entry) {
+				return fresh$;
+			}
+
+			return concat(
+				of(entry),
+				fresh$.pipe(
+					filter(response => !this.isSame(response, entry)),
+					catchError(error => {
+						cache.delete(key);
+						return throwError(() => error);
+					})
+				)
+			);
+		});
+	}
+
+	/**
+	 * Run a mutation of existing items, then invalidate the listings they were in.
+	 * Parents are looked up when the mutation starts, before anything refreshes them.
+	 */
+	private invalidatingItems<T>(
+		itemIds: string[],
+		mutation: () => Observable<T>
+	): Observable<T> {
+		return defer(() => {
+			const parents = new Set(
+				itemIds.flatMap(id => this.findCachedParents(id))
+			);
+			return mutation().pipe(
+				tap(() => {
+					parents.forEach(parentId => this.invalidateListing(parentId));
+					itemIds.forEach(id => this.invalidatePathsThrough(id));
+				})
+			);
+		});
+	}
+
+	private clear(): void {
+		this.generation++;
+		this.listings.clear();
+		this.paths.clear();
+	}
+
+	private invalidateListing(parentId: string | null | undefined): void {
+		this.generation++;
+		this.listings.delete(parentId || ROOT_KEY);
+	}
+
+	/**
+	 * Paths that go through `itemId` show its old name or location
+	 */
+	private invalidatePathsThrough(itemId: string): void {
+		this.generation++;
+		for (const [key, path] of this.paths) {
+			if (path.items.some(item => item.id === itemId)) {
+				this.paths.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * A deleted folder takes its cached subfolders with it
+	 */
+	private forgetFolder(folderId: string): void {
+		const listing = this.listings.get(folderId);
+		this.invalidateListing(folderId);
+		this.invalidatePathsThrough(folderId);
+		listing?.items
+			.filter(item => item.folder)
+			.forEach(item => this.forgetFolder(item.id));
+	}
+
+	private findCachedParents(itemId: string): string[] {
+		return Array.from(this.listings)
+			.filter(([, listing]) => listing.items.some(item => item.id === itemId))
+			.map(([key]) => key);
+	}
+
+	private isSame(a: ItemsResponse, b: ItemsResponse): boolean {
+		return JSON.stringify(a.items) === JSON.stringify(b.items);
+	}
+
+	private count(hit: boolean): void {
+		if (hit) {
+			this.hits++;
+		} else {
+			this.misses++;
+		}
+	}
+}
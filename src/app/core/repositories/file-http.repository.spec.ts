@@ -0,0 +1,318 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import {
+	HttpTestingController,
+	provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { HttpEventType } from '@angular/common/http';
+import { FileHttpRepository } from './file-http.repository';
+import { CLIENT_ID } from '../interceptors/client-id.interceptor';
+import {
+	ItemChangeEvent,
+	ItemsResetEvent,
+	UploadEvent,
+	UploadSession,
+} from '../../models/file-item';
+
+/**
+ * Stands in for the browser's EventSource, which the test environment lacks
+ */
+class FakeEventSource extends EventTarget {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSED = 2;
+	static instances: FakeEventSource[] = [];
+
+	readyState = FakeEventSource.OPEN;
+	onerror: (() => void) | null = null;
+
+	constructor(readonly url: string) {
+		super();
+		FakeEventSource.instances.push(this);
+	}
+
+	emit(type: string, data: unknown, lastEventId = ''): void {
+		this.dispatchEvent(
+			new MessageEvent(type, { data: JSON.stringify(data), lastEventId })
+		);
+	}
+
+	fail(): void {
+		this.readyState = FakeEventSource.CLOSED;
+		this.onerror?.();
+	}
+
+	close(): void {
+		this.readyState = FakeEventSource.CLOSED;
+	}
+}
+
+describe('FileHttpRepository', () => {
+	let repository: FileHttpRepository;
+	let http: HttpTestingController;
+
+	const MB = 1024 * 1024;
+
+	beforeEach(() => {
+		localStorage.clear();
+		TestBed.configureTestingModule({
+			providers: [provideHttpClient(), provideHttpClientTesting()],
+		});
+		repository = TestBed.inject(FileHttpRepository);
+		http = TestBed.inject(HttpTestingController);
+	});
+
+	afterEach(() => {
+		http.verify();
+		localStorage.clear();
+	});
+
+	it('should upload a small file in one request', () => {
+		const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+		const events: UploadEvent[] = [];
+
+		repository.uploadFile(file, 'docs').subscribe(event => events.push(event));
+
+		const request = http.expectOne('/api/items');
+		expect(request.request.method).toBe('POST');
+		expect((request.request.body as FormData).get('parentId')).toBe('docs');
+		request.event({ type: HttpEventType.UploadProgress, loaded: 3, total: 5 });
+		request.flush({ items: [] });
+
+		expect(events).toEqual([
+			{ type: 'progress', loaded: 3, total: 5 },
+			{ type: 'complete', response: { items: [] } },
+		]);
+	});
+
+	describe('chunked uploads', () => {
+		const largeFile = new File([new Uint8Array(12 * MB)], 'video.mp4', {
+			type: 'video/mp4',
+			lastModified: 1715342400000,
+		});
+		const sessionKey =
+			'file-manager.upload-session:docs:video.mp4:' +
+			`${12 * MB}:${largeFile.lastModified}`;
+
+		const session = (receivedChunks: number[]): UploadSession => ({
+			uploadId: 'u1',
+			name: 'video.mp4',
+			size: 12 * MB,
+			parentId: 'docs',
+			chunkSize: 5 * MB,
+			totalChunks: 3,
+			receivedChunks,
+		});
+
+		const flushChunk = (index: number) => {
+			const request = http.expectOne(`/api/uploads/u1/chunks/${index}`);
+			expect(request.request.method).toBe('PUT');
+			request.flush(null);
+		};
+
+		it('should create a session, send every chunk and complete it', () => {
+			const events: UploadEvent[] = [];
+			repository
+				.uploadFile(largeFile, 'docs')
+				.subscribe(event => events.push(event));
+
+			const create = http.expectOne('/api/uploads');
+			expect(create.request.body).toEqual(
+				jasmine.objectContaining({ name: 'video.mp4', chunkSize: 5 * MB })
+			);
+			create.flush(session([]));
+			expect(localStorage.getItem(sessionKey)).toBe('u1');
+
+			[0, 1, 2].forEach(flushChunk);
+			http.expectOne('/api/uploads/u1/complete').flush({ items: [] });
+
+			expect(events.at(-1)).toEqual({
+				type: 'complete',
+				response: { items: [] },
+			});
+			expect(
+				events
+					.filter(event => event.type === 'progress')
+					.map(event => event.type === 'progress' && event.loaded)
+			).toEqual([0, 5 * MB, 10 * MB, 12 * MB]);
+			expect(localStorage.getItem(sessionKey)).toBeNull();
+		});
+
+		it('should resume a stored session without resending received chunks', () => {
+			localStorage.setItem(sessionKey, 'u1');
+			const events: UploadEvent[] = [];
+			repository
+				.uploadFile(largeFile, 'docs')
+				.subscribe(event => events.push(event));
+
+			http.expectOne('/api/uploads/u1').flush(session([0, 1]));
+			flushChunk(2);
+			http.expectOne('/api/uploads/u1/complete').flush({ items: [] });
+
+			expect(events[0]).toEqual({
+				type: 'progress',
+				loaded: 10 * MB,
+				total: 12 * MB,
+			});
+		});
+
+		it('should start over when the stored session has expired', () => {
+			localStorage.setItem(sessionKey, 'expired');
+			repository.uploadFile(largeFile, 'docs').subscribe();
+
+			http
+				.expectOne('/api/uploads/expired')
+				.flush(null, { status: 404, statusText: 'Not Found' });
+			http.expectOne('/api/uploads').flush(session([0, 1, 2]));
+			http.expectOne('/api/uploads/u1/complete').flush({ items: [] });
+
+			expect(localStorage.getItem(sessionKey)).toBeNull();
+		});
+
+		it('should keep the session for a later resume when a chunk fails', () => {
+			let failed = false;
+			repository
+				.uploadFile(largeFile, 'docs')
+				.subscribe({ error: () => (failed = true) });
+
+			http.expectOne('/api/uploads').flush(session([]));
+			flushChunk(0);
+			http
+				.expectOne('/api/uploads/u1/chunks/1')
+				.flush(null, { status: 500, statusText: 'Server Error' });
+
+			expect(failed).toBeTrue();
+			expect(localStorage.getItem(sessionKey)).toBe('u1');
+		});
+
+		it('should complete a resumed session with the strategy chosen after a conflict', () => {
+			let failed = false;
+			repository
+				.uploadFile(largeFile, 'docs')
+				.subscribe({ error: () => (failed = true) });
+			http.expectOne('/api/uploads').flush(session([]));
+			[0, 1, 2].forEach(flushChunk);
+			http
+				.expectOne('/api/uploads/u1/complete')
+				.flush(
+					{ code: 'DUPLICATE_NAME', message: 'Name taken' },
+					{ status: 409, statusText: 'Conflict' }
+				);
+			expect(failed).toBeTrue();
+			expect(localStorage.getItem(sessionKey)).toBe('u1');
+
+			repository.uploadFile(largeFile, 'docs', 'keep-both').subscribe();
+			http.expectOne('/api/uploads/u1').flush(session([0, 1, 2]));
+			const complete = http.expectOne('/api/uploads/u1/complete');
+
+			expect(complete.request.body).toEqual({ conflict: 'keep-both' });
+			complete.flush({ items: [] });
+			expect(localStorage.getItem(sessionKey)).toBeNull();
+		});
+
+		it('should forget the session when the server rejects the upload for good', () => {
+			repository
+				.uploadFile(largeFile, 'docs')
+				.subscribe({ error: () => undefined });
+
+			http.expectOne('/api/uploads').flush(session([]));
+			http
+				.expectOne('/api/uploads/u1/chunks/0')
+				.flush(
+					{ code: 'PAYLOAD_TOO_LARGE', message: 'Too large' },
+					{ status: 413, statusText: 'Payload Too Large' }
+				);
+
+			expect(localStorage.getItem(sessionKey)).toBeNull();
+		});
+
+		it('should let the server delete the chunks of a discarded upload', () => {
+			localStorage.setItem(sessionKey, 'u1');
+
+			repository.discardUpload(largeFile, 'docs').subscribe();
+
+			const request = http.expectOne('/api/uploads/u1');
+			expect(request.request.method).toBe('DELETE');
+			expect(localStorage.getItem(sessionKey)).toBeNull();
+			request.flush(null, { status: 404, statusText: 'Not Found' });
+		});
+	});
+
+	it('should check the items before handing out an archive URL', () => {
+		let url: string | undefined;
+		repository.getArchiveUrl(['a', 'b']).subscribe(found => (url = found));
+
+		const request = http.expectOne('/api/items/archive?ids=a,b');
+		expect(request.request.method).toBe('HEAD');
+		request.flush(null);
+
+		expect(url).toBe('/api/items/archive?ids=a,b');
+	});
+
+	it('should version thumbnail URLs by modification date', () => {
+		const photo = {
+			id: 'p1',
+			name: 'beach.jpg',
+			folder: false,
+			parentId: 'docs',
+			modification: '2024-05-10T12:00:00Z',
+		};
+
+		expect(repository.getThumbnailUrl(photo, 160)).toBe(
+			'/api/items/p1/thumbnail?size=160&v=2024-05-10T12%3A00%3A00Z'
+		);
+	});
+
+	describe('change events', () => {
+		const originalEventSource = globalThis.EventSource;
+		const source = () => FakeEventSource.instances.slice(-1)[0];
+		const change = (clientId?: string): ItemChangeEvent => ({
+			type: 'created',
+			item: {
+				id: 'a',
+				name: 'a.txt',
+				folder: false,
+				parentId: 'docs',
+				modification: '2024-05-10T12:00:00Z',
+			},
+			clientId,
+		});
+
+		beforeEach(() => {
+			FakeEventSource.instances = [];
+			globalThis.EventSource = FakeEventSource as unknown as typeof EventSource;
+		});
+
+		afterEach(() => {
+			globalThis.EventSource = originalEventSource;
+		});
+
+		it('should report changes made elsewhere and skip its own', () => {
+			const changes: (ItemChangeEvent | ItemsResetEvent)[] = [];
+			const subscription = repository
+				.watchChanges()
+				.subscribe(received => changes.push(received));
+
+			source().emit('created', change('other-tab'));
+			source().emit('created', change(CLIENT_ID));
+			source().emit('reset', {});
+			subscription.unsubscribe();
+
+			expect(changes).toEqual([change('other-tab'), { type: 'reset' }]);
+			expect(source().readyState).toBe(FakeEventSource.CLOSED);
+		});
+
+		it('should reconnect from the last event after the stream closed', fakeAsync(() => {
+			const subscription = repository.watchChanges().subscribe();
+			source().emit('created', change(), '41');
+
+			source().fail();
+			expect(FakeEventSource.instances.length).toBe(1);
+
+			tick(3000);
+			expect(FakeEventSource.instances.length).toBe(2);
+			expect(source().url).toBe('/api/events?lastEventId=41');
+			subscription.unsubscribe();
+		}));
+	});
+});
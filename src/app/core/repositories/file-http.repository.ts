@@ -4,16 +4,64 @@
  * OCP: Open for extension (can create other repos like LocalStorageRepository), closed for modification
  */
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import {
+	HttpClient,
+	HttpErrorResponse,
+	HttpEventType,
+	HttpHeaders,
+	HttpParams,
+} from '@angular/common/http';
+import {
+	Observable,
+	catchError,
+	concat,
+	concatMap,
+	filter,
+	from,
+	map,
+	of,
+	retry,
+	startWith,
+	switchMap,
+	tap,
+	throwError,
+} from 'rxjs';
 import { IFileRepository } from '../interfaces/file-repository.interface';
-import { FileItem, UploadResponse } from '../../models/file-item';
+import { CLIENT_ID } from '../interceptors/client-id.interceptor';
+import {
+	BatchOperation,
+	BatchResponse,
+	ConflictStrategy,
+	FileItem,
+	FileVersion,
+	FolderTreeNode,
+	ItemChangeEvent,
+	ItemsResetEvent,
+	SearchResult,
+	TrashItem,
+	UploadEvent,
+	UploadResponse,
+	UploadSession,
+} from '../../models/file-item';
+
+// Files above this size use the resumable chunked upload protocol
+const CHUNKED_UPLOAD_THRESHOLD = 10 * 1024 * 1024; // 10MB
+const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+const UPLOAD_SESSION_KEY_PREFIX = 'file-manager.upload-session:';
+const ITEM_EVENT_TYPES = ['created', 'updated', 'moved', 'deleted'];
+const RESET_EVENT_TYPE = 'reset';
+// When the browser closed the event stream for good (e.g. the server answered with an error)
+const RECONNECT_DELAY = 3000;
 
 @Injectable({
 	providedIn: 'root',
 })
 export class FileHttpRepository implements IFileRepository {
 	private readonly apiUrl = '/api/items';
+	private readonly trashUrl = '/api/trash';
+	private readonly uploadsUrl = '/api/uploads';
+	private readonly eventsUrl = '/api/events';
+	private lastEventId: string | null = null;
 
 	constructor(private readonly http: HttpClient) {}
 
@@ -34,32 +82,302 @@ export class FileHttpRepository implements IFileRepository {
 		return this.http.post<UploadResponse>(this.apiUrl, formData);
 	}
 
+	/**
+	 * Upload a single file and report its progress.
+	 * Large files are sent in resumable chunks, smaller ones in one request.
+	 * Unsubscribing aborts the underlying request.
+	 */
+	uploadFile(
+		file: File,
+		parentId?: string,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<UploadEvent> {
+		return file.size > CHUNKED_UPLOAD_THRESHOLD
+			? this.uploadFileInChunks(file, parentId, conflict)
+			: this.uploadFileInOneRequest(file, parentId, conflict);
+	}
+
+	private uploadFileInOneRequest(
+		file: File,
+		parentId: string | undefined,
+		conflict: ConflictStrategy
+	): Observable<UploadEvent> {
+		const formData = new FormData();
+		formData.append('files', file);
+		formData.append('conflict', conflict);
+		if (parentId) {
+			formData.append('parentId', parentId);
+		}
+		return this.http
+			.post<UploadResponse>(this.apiUrl, formData, {
+				reportProgress: true,
+				observe: 'events',
+			})
+			.pipe(
+				map((event): UploadEvent | null => {
+					if (event.type === HttpEventType.UploadProgress) {
+						return {
+							type: 'progress',
+							loaded: event.loaded,
+							total: event.total ?? file.size,
+						};
+					}
+					if (event.type === HttpEventType.Response) {
+						return { type: 'complete', response: event.body! };
+					}
+					return null;
+				}),
+				filter((event): event is UploadEvent => event !== null)
+			);
+	}
+
+	/**
+	 * Chunked upload: create (or resume) a session, PUT the missing chunks
+	 * in order, then finalize. The session id is kept in localStorage so
+	 * re-selecting the same file after a reload skips the chunks already received.
+	 */
+	private uploadFileInChunks(
+		file: File,
+		parentId: string | undefined,
+		conflict: ConflictStrategy
+	): Observable<UploadEvent> {
+		const sessionKey = this.getUploadSessionKey(file, parentId);
+
+		return this.resumeOrCreateUploadSession(
+			file,
+			parentId,
+			conflict,
+			sessionKey
+		).pipe(
+			switchMap(session => {
+				localStorage.setItem(sessionKey, session.uploadId);
+
+				const received = new Set(session.receivedChunks);
+				const pendingChunks = Array.from(
+					{ length: session.totalChunks },
+					(_, index) => index
+				).filter(index => !received.has(index));
+				let confirmedBytes = session.receivedChunks.reduce(
+					(total, index) =>
+						total + this.getChunkBlob(file, session, index).size,
+					0
+				);
+
+				const chunks$ = from(pendingChunks).pipe(
+					concatMap(index => {
+						const chunk = this.getChunkBlob(file, session, index);
+						return this.uploadChunk(session.uploadId, index, chunk).pipe(
+							map(sent => confirmedBytes + sent),
+							tap({ complete: () => (confirmedBytes += chunk.size) })
+						);
+					}),
+					startWith(confirmedBytes),
+					map(
+						(loaded): UploadEvent => ({
+							type: 'progress',
+							loaded,
+							total: file.size,
+						})
+					)
+				);
+
+				// The strategy may differ from the session's when retrying after a conflict
+				const complete$ = this.http
+					.post<UploadResponse>(
+						`${this.uploadsUrl}/${session.uploadId}/complete`,
+						{ conflict }
+					)
+					.pipe(
+						tap(() => localStorage.removeItem(sessionKey)),
+						map((response): UploadEvent => ({ type: 'complete', response }))
+					);
+
+				return concat(chunks$, complete$);
+			}),
+			catchError(error => {
+				if (this.isFinalUploadError(error)) {
+					localStorage.removeItem(sessionKey);
+				}
+				return throwError(() => error);
+			})
+		);
+	}
+
+	/**
+	 * Rejected by the server rather than interrupted: resuming cannot succeed.
+	 * A name conflict is not final, the retry completes with another strategy.
+	 */
+	private isFinalUploadError(error: unknown): boolean {
+		return (
+			error instanceof HttpErrorResponse &&
+			error.status >= 400 &&
+			error.status < 500 &&
+			error.error?.code !== 'DUPLICATE_NAME'
+		);
+	}
+
+	private resumeOrCreateUploadSession(
+		file: File,
+		parentId: string | undefined,
+		conflict: ConflictStrategy,
+		sessionKey: string
+	): Observable<UploadSession> {
+		const create$ = this.http.post<UploadSession>(this.uploadsUrl, {
+			name: file.name,
+			size: file.size,
+			mimeType: file.type,
+			parentId: parentId || null,
+			conflict,
+			chunkSize: CHUNK_SIZE,
+		});
+
+		const uploadId = localStorage.getItem(sessionKey);
+		if (!uploadId) {
+			return create$;
+		}
+
+		// Unknown or expired session: start over
+		return this.http
+			.get<UploadSession>(`${this.uploadsUrl}/${uploadId}`)
+			.pipe(catchError(() => create$));
+	}
+
+	/**
+	 * PUT one chunk; emits the bytes of this chunk sent so far
+	 */
+	private uploadChunk(
+		uploadId: string,
+		index: number,
+		chunk: Blob
+	): Observable<number> {
+		return this.http
+			.put(`${this.uploadsUrl}/${uploadId}/chunks/${index}`, chunk, {
+				headers: new HttpHeaders({
+					'Content-Type': 'application/octet-stream',
+				}),
+				reportProgress: true,
+				observe: 'events',
+			})
+			.pipe(
+				map(event => {
+					if (event.type === HttpEventType.UploadProgress) {
+						return event.loaded;
+					}
+					return event.type === HttpEventType.Response ? chunk.size : null;
+				}),
+				filter((sent): sent is number => sent !== null)
+			);
+	}
+
+	private getChunkBlob(
+		file: File,
+		session: UploadSession,
+		index: number
+	): Blob {
+		const start = index * session.chunkSize;
+		return file.slice(start, Math.min(start + session.chunkSize, file.size));
+	}
+
+	/**
+	 * Forget the resumable session of this file and let the server delete its
+	 * chunks; a session already gone is not an error
+	 */
+	discardUpload(file: File, parentId?: string): Observable<void> {
+		const sessionKey = this.getUploadSessionKey(file, parentId);
+		const uploadId = localStorage.getItem(sessionKey);
+		if (!uploadId) {
+			return of(undefined);
+		}
+		localStorage.removeItem(sessionKey);
+		return this.http
+			.delete<void>(`${this.uploadsUrl}/${uploadId}`)
+			.pipe(catchError(() => of(undefined)));
+	}
+
+	private getUploadSessionKey(file: File, parentId?: string): string {
+		return `${UPLOAD_SESSION_KEY_PREFIX}${parentId || 'root'}:${file.name}:${file.size}:${file.lastModified}`;
+	}
+
 	createFolder(
 		name: string,
-		parentId?: string
-	): Observable<{ item: FileItem }> {
-		return this.http.post<{ item: FileItem }>(this.apiUrl, {
+		parentId?: string,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<{ item: FileItem; skipped?: boolean }> {
+		return this.http.post<{ item: FileItem; skipped?: boolean }>(this.apiUrl, {
 			name,
 			folder: true,
 			parentId: parentId || null,
+			conflict,
 		});
 	}
 
+	copyItem(
+		itemId: string,
+		parentId: string | null,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<{ item: FileItem; skipped?: boolean }> {
+		return this.http.post<{ item: FileItem; skipped?: boolean }>(
+			`${this.apiUrl}/${itemId}/copy`,
+			{ parentId, conflict }
+		);
+	}
+
 	downloadFile(itemId: string): Observable<Blob> {
 		return this.http.get(`${this.apiUrl}/${itemId}`, {
 			responseType: 'blob',
 		});
 	}
 
+	/**
+	 * Thumbnails are generated by the server; the modification date busts the
+	 * browser cache when the file is replaced
+	 */
+	getThumbnailUrl(item: FileItem, size: number): string | null {
+		return `${this.apiUrl}/${item.id}/thumbnail?size=${size}&v=${encodeURIComponent(item.modification)}`;
+	}
+
+	getVersions(itemId: string): Observable<{ items: FileVersion[] }> {
+		return this.http.get<{ items: FileVersion[] }>(
+			`${this.apiUrl}/${itemId}/versions`
+		);
+	}
+
+	downloadVersion(itemId: string, version: number): Observable<Blob> {
+		return this.http.get(`${this.apiUrl}/${itemId}/versions/${version}`, {
+			responseType: 'blob',
+		});
+	}
+
+	restoreVersion(itemId: string, version: number): Observable<FileItem> {
+		return this.http.post<FileItem>(
+			`${this.apiUrl}/${itemId}/versions/${version}/restore`,
+			{}
+		);
+	}
+
+	/**
+	 * The archive is streamed by the server, so the browser downloads it from the
+	 * URL itself; a HEAD request validates the items first
+	 */
+	getArchiveUrl(itemIds: string[]): Observable<string> {
+		const params = new HttpParams().set('ids', itemIds.join(','));
+		const url = `${this.apiUrl}/archive?${params.toString()}`;
+		return this.http.head(url).pipe(map(() => url));
+	}
+
 	deleteItem(itemId: string): Observable<void> {
 		return this.http.delete<void>(`${this.apiUrl}/${itemId}`);
 	}
 
 	updateItem(
 		itemId: string,
-		updates: Partial<FileItem>
+		updates: Partial<FileItem>,
+		conflict: ConflictStrategy = 'fail'
 	): Observable<FileItem> {
-		return this.http.patch<FileItem>(`${this.apiUrl}/${itemId}`, updates);
+		return this.http.patch<FileItem>(`${this.apiUrl}/${itemId}`, {
+			...updates,
+			conflict,
+		});
 	}
 
 	getItemPath(itemId: string): Observable<{ items: FileItem[] }> {
@@ -67,4 +385,101 @@ export class FileHttpRepository implements IFileRepository {
 			`${this.apiUrl}/${itemId}/path`
 		);
 	}
+
+	search(query: string): Observable<{ items: SearchResult[] }> {
+		const params = new HttpParams().set('q', query);
+		return this.http.get<{ items: SearchResult[] }>(
+			`${this.apiUrl}/search`,
+			{ params }
+		);
+	}
+
+	getFolderTree(
+		parentId?: string | null,
+		depth?: number
+	): Observable<{ items: FolderTreeNode[] }> {
+		let params = new HttpParams();
+		if (parentId) {
+			params = params.set('parentId', parentId);
+		}
+		if (depth) {
+			params = params.set('depth', depth);
+		}
+		return this.http.get<{ items: FolderTreeNode[] }>(`${this.apiUrl}/tree`, {
+			params,
+		});
+	}
+
+	getTrash(): Observable<{ items: TrashItem[] }> {
+		return this.http.get<{ items: TrashItem[] }>(this.trashUrl);
+	}
+
+	restoreItem(itemId: string): Observable<FileItem> {
+		return this.http.post<FileItem>(`${this.trashUrl}/${itemId}/restore`, {});
+	}
+
+	purgeItem(itemId: string): Observable<void> {
+		return this.http.delete<void>(`${this.trashUrl}/${itemId}`);
+	}
+
+	emptyTrash(): Observable<void> {
+		return this.http.delete<void>(this.trashUrl);
+	}
+
+	batch(
+		operation: BatchOperation,
+		ids: string[],
+		parentId?: string | null,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<BatchResponse> {
+		return this.http.post<BatchResponse>(`${this.apiUrl}/batch`, {
+			operation,
+			ids,
+			parentId,
+			conflict,
+		});
+	}
+
+	/**
+	 * Server-sent events (GET /api/events). EventSource reconnects by itself and
+	 * replays what it missed (Last-Event-ID); when the browser gives up, a new
+	 * stream resumes from the last event seen. Changes this app made are skipped.
+	 */
+	watchChanges(): Observable<ItemChangeEvent | ItemsResetEvent> {
+		return this.streamEvents().pipe(
+			map((event): ItemChangeEvent | ItemsResetEvent =>
+				event.type === RESET_EVENT_TYPE
+					? { type: RESET_EVENT_TYPE }
+					: (JSON.parse(event.data) as ItemChangeEvent)
+			),
+			filter(
+				change => !('clientId' in change) || change.clientId !== CLIENT_ID
+			),
+			retry({ delay: RECONNECT_DELAY })
+		);
+	}
+
+	private streamEvents(): Observable<MessageEvent<string>> {
+		return new Observable<MessageEvent<string>>(subscriber => {
+			const url = this.lastEventId
+				? `${this.eventsUrl}?lastEventId=${encodeURIComponent(this.lastEventId)}`
+				: this.eventsUrl;
+			const source = new EventSource(url);
+			const listener = (event: MessageEvent<string>) => {
+				this.lastEventId = event.lastEventId || this.lastEventId;
+				subscriber.next(event);
+			};
+
+			[...ITEM_EVENT_TYPES, RESET_EVENT_TYPE].forEach(type =>
+				source.addEventListener(type, listener)
+			);
+			// Network errors are retried by EventSource itself (readyState CONNECTING)
+			source.onerror = () => {
+				if (source.readyState === EventSource.CLOSED) {
+					subscriber.error(new Error('Live updates stream closed'));
+				}
+			};
+			return () => source.close();
+		});
+	}
 }
@@ -0,0 +1,305 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, firstValueFrom, lastValueFrom } from 'rxjs';
+import { IndexedDbFileRepository } from './file-indexeddb.repository';
+import { ConflictStrategy, FileItem } from '../../models/file-item';
+
+describe('IndexedDbFileRepository', () => {
+	let repository: IndexedDbFileRepository;
+
+	const deleteDatabase = () =>
+		new Promise<void>((resolve, reject) => {
+			const request = indexedDB.deleteDatabase('file-manager');
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+
+	const upload = async (
+		name: string,
+		content: string,
+		parentId?: string,
+		conflict?: ConflictStrategy
+	): Promise<FileItem> => {
+		const file = new File([content], name, { type: 'text/plain' });
+		const event = await lastValueFrom(
+			repository.uploadFile(file, parentId, conflict)
+		);
+		if (event.type !== 'complete') throw new Error('Upload did not complete');
+		return event.response.items[0];
+	};
+
+	const createFolder = async (name: string, parentId?: string) =>
+		(await firstValueFrom(repository.createFolder(name, parentId))).item;
+
+	const listNames = async (parentId?: string) =>
+		(await firstValueFrom(repository.getItems(parentId))).items
+			.map(item => item.name)
+			.sort();
+
+	const errorCode = async (request: Observable<unknown>) => {
+		try {
+			await lastValueFrom(request);
+		} catch (error) {
+			return (error as HttpErrorResponse).error.code;
+		}
+		throw new Error('Expected the request to fail');
+	};
+
+	beforeEach(async () => {
+		await deleteDatabase();
+		TestBed.configureTestingModule({});
+		repository = TestBed.inject(IndexedDbFileRepository);
+	});
+
+	afterEach(async () => {
+		// The repository closes its connection so the database can be deleted
+		await deleteDatabase();
+	});
+
+	it('should create the item indexes with the first version of the database', async () => {
+		await createFolder('Docs');
+
+		const database = await new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open('file-manager');
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+		const indexes = database
+			.transaction('items')
+			.objectStore('items').indexNames;
+		database.close();
+
+		expect(database.version).toBe(1);
+		expect(Array.from(indexes).sort()).toEqual(['parent', 'sibling', 'trash']);
+	});
+
+	describe('conflict rules', () => {
+		it('should fail on a duplicate name by default', async () => {
+			await upload('report.txt', 'first');
+			await createFolder('Docs');
+
+			expect(
+				await errorCode(
+					repository.uploadFile(new File(['second'], 'report.txt'))
+				)
+			).toBe('UPLOAD_FAILED');
+			expect(await errorCode(repository.createFolder('Docs'))).toBe(
+				'DUPLICATE_NAME'
+			);
+		});
+
+		it('should number the new item with keep-both', async () => {
+			await upload('report.txt', 'first');
+			const second = await upload(
+				'report.txt',
+				'second',
+				undefined,
+				'keep-both'
+			);
+			const third = await upload('report.txt', 'third', undefined, 'keep-both');
+
+			expect(second.name).toBe('report (1).txt');
+			expect(third.name).toBe('report (2).txt');
+		});
+
+		it('should return the existing folder with skip', async () => {
+			const folder = await createFolder('Docs');
+
+			const result = await firstValueFrom(
+				repository.createFolder('Docs', undefined, 'skip')
+			);
+
+			expect(result).toEqual({ item: folder, skipped: true });
+		});
+
+		it('should only look for duplicates in the same folder', async () => {
+			const folder = await createFolder('Docs');
+			await upload('notes.txt', 'root');
+
+			const nested = await upload('notes.txt', 'nested', folder.id);
+
+			expect(nested.name).toBe('notes.txt');
+			expect(await listNames(folder.id)).toEqual(['notes.txt']);
+		});
+
+		it('should trash the item a move replaces', async () => {
+			const folder = await createFolder('Docs');
+			const moved = await upload('notes.txt', 'moved');
+			await upload('notes.txt', 'replaced', folder.id);
+
+			const result = await firstValueFrom(
+				repository.batch('move', [moved.id], folder.id, 'replace')
+			);
+
+			expect(result.results[0].success).toBeTrue();
+			expect(await listNames(folder.id)).toEqual(['notes.txt']);
+			const trash = (await firstValueFrom(repository.getTrash())).items;
+			expect(trash.map(item => item.name)).toEqual(['notes.txt']);
+		});
+
+		it('should not move a folder into its own subfolder', async () => {
+			const parent = await createFolder('Parent');
+			const child = await createFolder('Child', parent.id);
+
+			expect(
+				await errorCode(
+					repository.updateItem(parent.id, { parentId: child.id })
+				)
+			).toBe('INVALID_PARENT');
+		});
+	});
+
+	describe('trash', () => {
+		it('should trash a folder with its contents as one entry', async () => {
+			const folder = await createFolder('Docs');
+			await upload('notes.txt', 'notes', folder.id);
+
+			await firstValueFrom(repository.deleteItem(folder.id));
+
+			expect(await listNames()).toEqual([]);
+			const trash = (await firstValueFrom(repository.getTrash())).items;
+			expect(trash.map(item => item.name)).toEqual(['Docs']);
+		});
+
+		it('should restore an item with its contents', async () => {
+			const folder = await createFolder('Docs');
+			await upload('notes.txt', 'notes', folder.id);
+			await firstValueFrom(repository.deleteItem(folder.id));
+
+			await firstValueFrom(repository.restoreItem(folder.id));
+
+			expect(await listNames(folder.id)).toEqual(['notes.txt']);
+			expect((await firstValueFrom(repository.getTrash())).items).toEqual([]);
+		});
+
+		it('should recreate a missing parent folder on restore', async () => {
+			const folder = await createFolder('Docs');
+			const file = await upload('notes.txt', 'notes', folder.id);
+			await firstValueFrom(repository.deleteItem(file.id));
+			await firstValueFrom(repository.deleteItem(folder.id));
+			await firstValueFrom(repository.purgeItem(folder.id));
+
+			const restored = await firstValueFrom(repository.restoreItem(file.id));
+
+			const path = (await firstValueFrom(repository.getItemPath(restored.id)))
+				.items;
+			expect(path.map(item => item.name)).toEqual(['Docs', 'notes.txt']);
+			expect(path[0].id).not.toBe(folder.id);
+		});
+
+		it('should not restore over a live item with the same name', async () => {
+			const file = await upload('notes.txt', 'old');
+			await firstValueFrom(repository.deleteItem(file.id));
+			await upload('notes.txt', 'new');
+
+			expect(await errorCode(repository.restoreItem(file.id))).toBe(
+				'DUPLICATE_NAME'
+			);
+		});
+
+		it('should skip items deleted with their folder in the same batch', async () => {
+			const { item: folder } = await firstValueFrom(
+				repository.createFolder('Docs')
+			);
+			const file = await upload('notes.txt', 'notes', folder.id);
+
+			const { results } = await firstValueFrom(
+				repository.batch('delete', [folder.id, file.id])
+			);
+
+			expect(results).toEqual([
+				{ id: folder.id, success: true },
+				{ id: file.id, success: true, skipped: true },
+			]);
+			await firstValueFrom(repository.restoreItem(folder.id));
+			expect(
+				(await firstValueFrom(repository.getItems(folder.id))).items.map(
+					item => item.name
+				)
+			).toEqual(['notes.txt']);
+		});
+
+		it('should remove every trashed item when emptied', async () => {
+			const first = await upload('a.txt', 'a');
+			const second = await upload('b.txt', 'b');
+			await firstValueFrom(repository.batch('delete', [first.id, second.id]));
+
+			await firstValueFrom(repository.emptyTrash());
+
+			expect((await firstValueFrom(repository.getTrash())).items).toEqual([]);
+			expect(await errorCode(repository.restoreItem(first.id))).toBe(
+				'NOT_FOUND'
+			);
+		});
+	});
+
+	describe('versions', () => {
+		it('should add a version with new-version and keep the old content', async () => {
+			const file = await upload('notes.txt', 'first');
+			const updated = await upload(
+				'notes.txt',
+				'second',
+				undefined,
+				'new-version'
+			);
+
+			expect(updated.id).toBe(file.id);
+			expect(updated.version).toBe(2);
+			const versions = (await firstValueFrom(repository.getVersions(file.id)))
+				.items;
+			expect(
+				versions.map(({ version, current }) => ({ version, current }))
+			).toEqual([
+				{ version: 2, current: true },
+				{ version: 1, current: false },
+			]);
+			const old = await firstValueFrom(repository.downloadVersion(file.id, 1));
+			expect(await old.text()).toBe('first');
+		});
+
+		it('should rewrite the current version on replace', async () => {
+			const file = await upload('notes.txt', 'first');
+			await upload('notes.txt', 'second', undefined, 'replace');
+
+			const versions = (await firstValueFrom(repository.getVersions(file.id)))
+				.items;
+			expect(versions.length).toBe(1);
+			const content = await firstValueFrom(repository.downloadFile(file.id));
+			expect(await content.text()).toBe('second');
+		});
+
+		it('should restore an old version as a new one', async () => {
+			const file = await upload('notes.txt', 'first');
+			await upload('notes.txt', 'second', undefined, 'new-version');
+
+			const restored = await firstValueFrom(
+				repository.restoreVersion(file.id, 1)
+			);
+
+			expect(restored.version).toBe(3);
+			const [head] = (await firstValueFrom(repository.getVersions(file.id)))
+				.items;
+			expect(head.restoredFrom).toBe(1);
+			const content = await firstValueFrom(repository.downloadFile(file.id));
+			expect(await content.text()).toBe('first');
+		});
+
+		it('should give a copy its own content without the history', async () => {
+			const file = await upload('notes.txt', 'first');
+			await upload('notes.txt', 'second', undefined, 'new-version');
+			const folder = await createFolder('Docs');
+
+			const { item: copy } = await firstValueFrom(
+				repository.copyItem(file.id, folder.id)
+			);
+			await firstValueFrom(repository.deleteItem(file.id));
+			await firstValueFrom(repository.purgeItem(file.id));
+
+			const versions = (await firstValueFrom(repository.getVersions(copy.id)))
+				.items;
+			expect(versions.map(version => version.version)).toEqual([1]);
+			const content = await firstValueFrom(repository.downloadFile(copy.id));
+			expect(await content.text()).toBe('second');
+		});
+	});
+});
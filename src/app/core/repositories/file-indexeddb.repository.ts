@@ -0,0 +1,1519 @@
+/**
+ * In-browser implementation of IFileRepository (Repository Pattern)
+ * SRP: Single responsibility - storing files in IndexedDB
+ * LSP: Substitutes FileHttpRepository - same rules, conflict strategies, trash
+ * and versions as the API, and failures are raised as the API's error responses
+ * (HttpErrorResponse with `{ code, message, ...details }`)
+ *
+ * Used for demos, offline use and component tests. Files only live in this
+ * browser: there are no thumbnails and no live updates from other clients.
+ */
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpStatusCode } from '@angular/common/http';
+import { EMPTY, Observable, concat, defer, map, of, switchMap } from 'rxjs';
+import { IFileRepository } from '../interfaces/file-repository.interface';
+import {
+	MAX_ZIP_ENTRIES,
+	MAX_ZIP_SIZE,
+	ZipEntry,
+	createZipArchive,
+} from '../utils/zip-archive';
+import { ApiErrorCode, UploadFailure } from '../../models/api-error';
+import {
+	BatchOperation,
+	BatchResponse,
+	BatchResult,
+	ConflictStrategy,
+	FileItem,
+	FileVersion,
+	FolderTreeNode,
+	ItemChangeEvent,
+	ItemsResetEvent,
+	SearchResult,
+	TrashItem,
+	UploadEvent,
+	UploadResponse,
+} from '../../models/file-item';
+
+const DB_NAME = 'file-manager';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'items';
+const VERSIONS_STORE = 'versions';
+const BLOBS_STORE = 'blobs';
+const STORES = [ITEMS_STORE, VERSIONS_STORE, BLOBS_STORE];
+const PARENT_INDEX = 'parent';
+const SIBLING_INDEX = 'sibling';
+const TRASH_INDEX = 'trash';
+// IndexedDB does not index null: root items are stored under this parent key
+const ROOT_PARENT_KEY = '';
+
+// Same limits as the API
+const SEARCH_RESULTS_LIMIT = 200;
+const DEFAULT_TREE_DEPTH = 1;
+const MAX_TREE_DEPTH = 10;
+// No client address to record: versions uploaded here name the browser
+const LOCAL_UPLOADER = 'This browser';
+// Archive URLs only need to live until the browser started the download
+const ARCHIVE_URL_LIFETIME = 60 * 1000;
+
+type PathSegment = Pick<FileItem, 'id' | 'name'>;
+
+/**
+ * Item record; `blobId` points to the content of the current version and
+ * `parentKey` is the indexed copy of `parentId`
+ */
+interface StoredItem extends FileItem {
+	creation: string;
+	blobId?: string;
+	parentKey?: string;
+	trashedAt?: string;
+	trashRootId?: string;
+	originalPath?: PathSegment[];
+}
+
+interface StoredVersion {
+	itemId: string;
+	version: number;
+	blobId: string;
+	size: number;
+	mimeType?: string;
+	uploadedBy: string | null;
+	created: string;
+	restoredFrom?: number;
+}
+
+interface UploadContent {
+	blob: Blob;
+	size: number;
+	mimeType: string;
+}
+
+type UploadResolution =
+	| { action: 'create'; name: string }
+	| { action: 'replace'; item: StoredItem }
+	| { action: 'version'; item: StoredItem }
+	| { action: 'skip' }
+	| { action: 'fail' };
+
+/**
+ * Failure with the API's status and error envelope
+ */
+function apiError(
+	status: number,
+	code: ApiErrorCode,
+	message: string,
+	details: Record<string, unknown> = {}
+): HttpErrorResponse {
+	return new HttpErrorResponse({
+		status,
+		error: { code, message, ...details },
+	});
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function toParentKey(parentId: string | null | undefined): string {
+	return parentId || ROOT_PARENT_KEY;
+}
+
+// Every version record of an item
+function versionRange(itemId: string): IDBKeyRange {
+	return IDBKeyRange.bound([itemId, 0], [itemId, Infinity]);
+}
+
+function parseConflictStrategy(
+	value: ConflictStrategy | undefined,
+	allowNewVersion = false
+): ConflictStrategy {
+	const strategy = value ?? 'fail';
+	if (strategy === 'new-version' && !allowNewVersion) {
+		throw apiError(
+			HttpStatusCode.BadRequest,
+			'INVALID_INPUT',
+			'Unknown conflict strategy'
+		);
+	}
+	return strategy;
+}
+
+/**
+ * Records of one transaction, with the API's rules over them. Items are looked
+ * up through the store's indexes as needed and writes go straight to the
+ * transaction, so the reads that follow in it see them.
+ */
+class FileStore {
+	private readonly items: IDBObjectStore;
+	private readonly versions: IDBObjectStore;
+	private readonly blobs: IDBObjectStore;
+
+	constructor(transaction: IDBTransaction) {
+		this.items = transaction.objectStore(ITEMS_STORE);
+		this.versions = transaction.objectStore(VERSIONS_STORE);
+		this.blobs = transaction.objectStore(BLOBS_STORE);
+	}
+
+	getItem(itemId: string): Promise<StoredItem | undefined> {
+		return requestResult<StoredItem | undefined>(this.items.get(itemId));
+	}
+
+	// Scans every record: only for the root listing and search, which span all folders
+	async liveItems(): Promise<StoredItem[]> {
+		const items = await requestResult<StoredItem[]>(this.items.getAll());
+		return items.filter(item => !item.trashedAt);
+	}
+
+	async findLiveItem(itemId: string): Promise<StoredItem | undefined> {
+		const item = await this.getItem(itemId);
+		return item && !item.trashedAt ? item : undefined;
+	}
+
+	// Trashed items keep their parent, so they are listed here too
+	allChildren(parentId: string | null): Promise<StoredItem[]> {
+		return requestResult<StoredItem[]>(
+			this.items.index(PARENT_INDEX).getAll(toParentKey(parentId))
+		);
+	}
+
+	async children(parentId: string | null): Promise<StoredItem[]> {
+		const children = await this.allChildren(parentId);
+		return children.filter(item => !item.trashedAt);
+	}
+
+	/**
+	 * Items trashed along with `rootId` (the root itself included), or every
+	 * trashed item without it
+	 */
+	trashedItems(rootId?: string): Promise<StoredItem[]> {
+		return requestResult<StoredItem[]>(
+			this.items.index(TRASH_INDEX).getAll(rootId)
+		);
+	}
+
+	async getSubtree(root: StoredItem): Promise<StoredItem[]> {
+		const subtree = [root];
+		for (let i = 0; i < subtree.length; i++) {
+			if (subtree[i].folder) {
+				subtree.push(...(await this.allChildren(subtree[i].id)));
+			}
+		}
+		return subtree;
+	}
+
+	// True when `itemId` is `ancestorId` itself or sits anywhere below it
+	async isDescendantOf(
+		itemId: string | null,
+		ancestorId: string
+	): Promise<boolean> {
+		let current = itemId ? await this.getItem(itemId) : undefined;
+		while (current) {
+			if (current.id === ancestorId) return true;
+			current = current.parentId
+				? await this.getItem(current.parentId)
+				: undefined;
+		}
+		return false;
+	}
+
+	async getParents(item: StoredItem): Promise<StoredItem[]> {
+		const parents: StoredItem[] = [];
+		let parentId = item.parentId;
+		while (parentId) {
+			const parent = await this.getItem(parentId);
+			if (!parent) break;
+			parents.unshift(parent);
+			parentId = parent.parentId;
+		}
+		return parents;
+	}
+
+	async getParentPath(item: StoredItem): Promise<PathSegment[]> {
+		const parents = await this.getParents(item);
+		return parents.map(({ id, name }) => ({ id, name }));
+	}
+
+	async findSibling(
+		parentId: string | null | undefined,
+		name: string,
+		excludeId: string | null = null
+	): Promise<StoredItem | undefined> {
+		const named = await requestResult<StoredItem[]>(
+			this.items.index(SIBLING_INDEX).getAll([toParentKey(parentId), name])
+		);
+		return named.find(item => !item.trashedAt && item.id !== excludeId);
+	}
+
+	// "Report.pdf" -> "Report (1).pdf", "Report (1).pdf" -> "Report (2).pdf"
+	async getUniqueName(
+		parentId: string | null | undefined,
+		name: string,
+		isFolder: boolean
+	): Promise<string> {
+		const dot = isFolder ? -1 : name.lastIndexOf('.');
+		const stem = dot > 0 ? name.slice(0, dot) : name;
+		const extension = dot > 0 ? name.slice(dot) : '';
+		const numbered = stem.match(/^(.*) \((\d+)\)$/);
+		const base = numbered ? numbered[1] : stem;
+		let counter = numbered ? Number(numbered[2]) + 1 : 1;
+
+		let candidate = name;
+		while (await this.findSibling(parentId, candidate)) {
+			candidate = `${base} (${counter++})${extension}`;
+		}
+		return candidate;
+	}
+
+	async requireLiveItem(itemId: string): Promise<StoredItem> {
+		const item = await this.findLiveItem(itemId);
+		if (!item) {
+			throw apiError(HttpStatusCode.NotFound, 'NOT_FOUND', 'Item not found');
+		}
+		return item;
+	}
+
+	async requireFile(
+		itemId: string,
+		folderMessage: string
+	): Promise<StoredItem> {
+		const item = await this.requireLiveItem(itemId);
+		if (item.folder) {
+			throw apiError(HttpStatusCode.BadRequest, 'IS_FOLDER', folderMessage);
+		}
+		return item;
+	}
+
+	async requireParentFolder(
+		parentId: string | null | undefined
+	): Promise<void> {
+		if (!parentId) return;
+		const parent = await this.findLiveItem(parentId);
+		if (!parent) {
+			throw apiError(
+				HttpStatusCode.NotFound,
+				'PARENT_NOT_FOUND',
+				'Parent item not found'
+			);
+		}
+		if (!parent.folder) {
+			throw apiError(
+				HttpStatusCode.BadRequest,
+				'INVALID_PARENT',
+				'Parent must be a folder'
+			);
+		}
+	}
+
+	save(item: StoredItem): void {
+		this.items.put({ ...item, parentKey: toParentKey(item.parentId) });
+	}
+
+	async moveToTrash(item: StoredItem): Promise<void> {
+		const trashedAt = new Date().toISOString();
+		item.originalPath = await this.getParentPath(item);
+
+		// Descendants already in the trash keep their own trash entry
+		const subtree = await this.getSubtree(item);
+		subtree
+			.filter(current => !current.trashedAt)
+			.forEach(current => {
+				current.trashedAt = trashedAt;
+				current.trashRootId = item.id;
+				this.save(current);
+			});
+	}
+
+	// Removes the record, the content of every version and the version records
+	async purge(item: StoredItem): Promise<void> {
+		this.items.delete(item.id);
+		if (!item.folder) {
+			const versions = await this.getStoredVersions(item.id);
+			new Set([
+				item.blobId,
+				...versions.map(version => version.blobId),
+			]).forEach(blobId => this.removeBlob(blobId));
+			this.versions.delete(versionRange(item.id));
+		}
+	}
+
+	// Files stored before their first new version (and copies) only have their head
+	async getVersions(item: StoredItem): Promise<StoredVersion[]> {
+		const versions = await this.getStoredVersions(item.id);
+		return versions.length > 0
+			? versions
+			: [
+					{
+						itemId: item.id,
+						version: 1,
+						blobId: item.blobId ?? '',
+						size: item.size ?? 0,
+						mimeType: item.mimeType,
+						uploadedBy: null,
+						created: item.creation,
+					},
+				];
+	}
+
+	async addVersion(
+		item: StoredItem,
+		content: UploadContent,
+		extra: Partial<StoredVersion> = {}
+	): Promise<StoredItem> {
+		const now = new Date().toISOString();
+		const stored = await this.getStoredVersions(item.id);
+		const versions = await this.getVersions(item);
+		if (stored.length === 0) {
+			this.saveVersion(versions[0]); // Keep the first head as version 1
+		}
+		const head: StoredVersion = {
+			itemId: item.id,
+			version: versions[versions.length - 1].version + 1,
+			blobId: this.putBlob(content.blob),
+			size: content.size,
+			mimeType: content.mimeType,
+			uploadedBy: LOCAL_UPLOADER,
+			created: now,
+			...extra,
+		};
+		this.saveVersion(head);
+		Object.assign(item, {
+			blobId: head.blobId,
+			size: head.size,
+			mimeType: head.mimeType,
+			version: head.version,
+			modification: now,
+		});
+		this.save(item);
+		return item;
+	}
+
+	saveVersion(version: StoredVersion): void {
+		this.versions.put(version);
+	}
+
+	putBlob(blob: Blob): string {
+		const blobId = crypto.randomUUID();
+		this.blobs.put(blob, blobId);
+		return blobId;
+	}
+
+	removeBlob(blobId: string | undefined): void {
+		if (blobId) this.blobs.delete(blobId);
+	}
+
+	getBlob(blobId: string | undefined): Promise<Blob | undefined> {
+		if (!blobId) return Promise.resolve(undefined);
+		return requestResult<Blob | undefined>(this.blobs.get(blobId));
+	}
+
+	async requireBlob(blobId: string | undefined): Promise<Blob> {
+		const blob = await this.getBlob(blobId);
+		if (!blob) {
+			throw apiError(
+				HttpStatusCode.NotFound,
+				'FILE_NOT_FOUND',
+				'File not found on server'
+			);
+		}
+		return blob;
+	}
+
+	// Sorted by version: the key is [itemId, version]
+	private getStoredVersions(itemId: string): Promise<StoredVersion[]> {
+		return requestResult<StoredVersion[]>(
+			this.versions.getAll(versionRange(itemId))
+		);
+	}
+}
+
+@Injectable({
+	providedIn: 'root',
+})
+export class IndexedDbFileRepository implements IFileRepository {
+	private database?: Promise<IDBDatabase>;
+
+	getItems(parentId?: string): Observable<{ items: FileItem[] }> {
+		// Like the API, the root listing holds every live item
+		return this.read(async store => {
+			const items = parentId
+				? await store.children(parentId)
+				: await store.liveItems();
+			return { items: items.map(item => this.toFileItem(item)) };
+		});
+	}
+
+	uploadFiles(files: File[], parentId?: string): Observable<UploadResponse> {
+		return this.write(store => this.storeUploads(store, files, parentId));
+	}
+
+	/**
+	 * Files are stored in one step, so progress jumps from 0 to complete
+	 */
+	uploadFile(
+		file: File,
+		parentId?: string,
+		conflict: ConflictStrategy = 'fail'
+	): Observable<UploadEvent> {
+		return concat(
+			of<UploadEvent>({ type: 'progress', loaded: 0, total: file.size }),
+			this.write(store =>
+				this.storeUploads(store, [file], parentId, conflict)
+			).pipe(map((response): UploadEvent => ({ type: 'complete', response })))
+		);
+	}
+
+	// Nothing is stored before an upload completes
+	discardUpload(): Observable<void> {
+		return of(undefined);
+	}
+
+	createFolder(
+		name: string,
+		parentId?: string,
+		conflict?: ConflictStrategy
+	): Observable<{ item: FileItem; skipped?: boolean }> {
+		return this.write(async store => {
+			const strategy = parseConflictStrategy(conflict, true);
+			if (!name) {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_INPUT',
+					'Name and folder are required for folder creation'
+				);
+			}
+			if (strategy === 'new-version') {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_INPUT',
+					'Folders have no versions'
+				);
+			}
+
+			const duplicateFolder = (await store.children(parentId || null)).find(
+				item => item.name === name && item.folder
+			);
+
+			let folderName = name.trim();
+			if (duplicateFolder) {
+				if (strategy === 'skip') {
+					return { item: this.toFileItem(duplicateFolder), skipped: true };
+				}
+				if (strategy === 'replace') {
+					await store.moveToTrash(duplicateFolder);
+				} else if (strategy === 'keep-both') {
+					folderName = await store.getUniqueName(parentId, folderName, true);
+				} else {
+					throw apiError(
+						HttpStatusCode.Conflict,
+						'DUPLICATE_NAME',
+						'A folder with this name already exists in this location'
+					);
+				}
+			}
+
+			const now = new Date().toISOString();
+			const folder: StoredItem = {
+				id: crypto.randomUUID(),
+				parentId: parentId || null,
+				name: folderName,
+				folder: true,
+				creation: now,
+				modification: now,
+			};
+			store.save(folder);
+			return { item: this.toFileItem(folder) };
+		});
+	}
+
+	copyItem(
+		itemId: string,
+		parentId: string | null,
+		conflict?: ConflictStrategy
+	): Observable<{ item: FileItem; skipped?: boolean }> {
+		return this.write(async store => {
+			const item = await store.requireLiveItem(itemId);
+			const strategy = parseConflictStrategy(conflict);
+			await store.requireParentFolder(parentId);
+			if (item.folder && (await store.isDescendantOf(parentId, item.id))) {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_PARENT',
+					'A folder cannot be copied into itself or one of its subfolders'
+				);
+			}
+
+			let name = item.name;
+			const sibling = await store.findSibling(parentId, name);
+			if (sibling) {
+				if (strategy === 'skip') {
+					return { item: this.toFileItem(sibling), skipped: true };
+				}
+				if (strategy === 'fail') {
+					throw apiError(
+						HttpStatusCode.Conflict,
+						'DUPLICATE_NAME',
+						'An item with this name already exists in this location'
+					);
+				}
+				if (strategy === 'keep-both') {
+					name = await store.getUniqueName(parentId, name, item.folder);
+				} else if (await store.isDescendantOf(item.id, sibling.id)) {
+					throw apiError(
+						HttpStatusCode.BadRequest,
+						'INVALID_PARENT',
+						'An item cannot replace itself or a folder that contains it'
+					);
+				}
+			}
+
+			const copies: StoredItem[] = [];
+			const copy = await this.copyItemTree(
+				store,
+				item,
+				parentId,
+				name,
+				new Date().toISOString(),
+				copies
+			);
+			if (sibling && strategy === 'replace') {
+				await store.moveToTrash(sibling);
+			}
+			copies.forEach(current => store.save(current));
+			return { item: this.toFileItem(copy) };
+		});
+	}
+
+	downloadFile(itemId: string): Observable<Blob> {
+		return this.read(async store => {
+			const item = await store.requireFile(itemId, 'Cannot download a folder');
+			return store.requireBlob(item.blobId);
+		});
+	}
+
+	getVersions(itemId: string): Observable<{ items: FileVersion[] }> {
+		return this.read(async store => {
+			const item = await store.requireFile(itemId, 'Folders have no versions');
+			const versions = await store.getVersions(item);
+			const head = versions[versions.length - 1];
+			return {
+				items: versions
+					.map(({ itemId, blobId, ...version }) => ({
+						...version,
+						current: version.version === head.version,
+					}))
+					.reverse(),
+			};
+		});
+	}
+
+	downloadVersion(itemId: string, version: number): Observable<Blob> {
+		return this.read(async store => {
+			const found = await this.findVersion(store, itemId, version);
+			return store.requireBlob(found.blobId);
+		});
+	}
+
+	restoreVersion(itemId: string, version: number): Observable<FileItem> {
+		return this.write(async store => {
+			const item = await store.requireFile(itemId, 'Folders have no versions');
+			const restored = await this.findVersion(store, itemId, version);
+			if (restored.version === (item.version || 1)) {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_INPUT',
+					'This version is already the current one'
+				);
+			}
+			const blob = await store.requireBlob(restored.blobId);
+			await store.addVersion(
+				item,
+				{ blob, size: restored.size, mimeType: restored.mimeType ?? '' },
+				{ restoredFrom: restored.version }
+			);
+			return this.toFileItem(item);
+		});
+	}
+
+	// Nothing generates thumbnails in the browser: cards show the file icon
+	getThumbnailUrl(): string | null {
+		return null;
+	}
+
+	/**
+	 * Builds the archive in memory and hands out an object URL to it
+	 */
+	getArchiveUrl(itemIds: string[]): Observable<string> {
+		return this.read(async store => {
+			const ids = [...new Set(itemIds.filter(Boolean))];
+			if (ids.length === 0) {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_INPUT',
+					'ids is required'
+				);
+			}
+			const items = await Promise.all(ids.map(id => store.findLiveItem(id)));
+			const missingIds = ids.filter((_, index) => !items[index]);
+			if (missingIds.length > 0) {
+				throw apiError(HttpStatusCode.NotFound, 'NOT_FOUND', 'Item not found', {
+					missingIds,
+				});
+			}
+
+			// An item inside another requested folder is already part of its subtree
+			const requested = items as StoredItem[];
+			const roots: StoredItem[] = [];
+			for (const item of requested) {
+				let nested = false;
+				for (const other of requested) {
+					if (
+						other !== item &&
+						(await store.isDescendantOf(item.id, other.id))
+					) {
+						nested = true;
+						break;
+					}
+				}
+				if (!nested) roots.push(item);
+			}
+			const usedNames = new Set<string>();
+			const entries: (ZipEntry & { item: StoredItem })[] = [];
+			for (const item of roots) {
+				const dot = item.folder ? -1 : item.name.lastIndexOf('.');
+				const stem = dot > 0 ? item.name.slice(0, dot) : item.name;
+				const extension = dot > 0 ? item.name.slice(dot) : '';
+				let name = item.name;
+				for (let counter = 1; usedNames.has(name); counter++) {
+					name = `${stem} (${counter})${extension}`;
+				}
+				usedNames.add(name);
+				await this.collectArchiveEntries(store, item, name, entries);
+			}
+
+			const totalSize = entries.reduce(
+				(sum, entry) => sum + (entry.item.folder ? 0 : entry.item.size || 0),
+				0
+			);
+			if (entries.length > MAX_ZIP_ENTRIES || totalSize > MAX_ZIP_SIZE) {
+				throw apiError(
+					HttpStatusCode.PayloadTooLarge,
+					'PAYLOAD_TOO_LARGE',
+					'Archives are limited to 4 GB and 65535 entries'
+				);
+			}
+
+			const missingFiles: string[] = [];
+			for (const entry of entries) {
+				if (entry.item.folder) continue;
+				entry.content = await store.getBlob(entry.item.blobId);
+				if (!entry.content) missingFiles.push(entry.name);
+			}
+			if (missingFiles.length > 0) {
+				throw apiError(
+					HttpStatusCode.NotFound,
+					'FILE_NOT_FOUND',
+					'File not found on server',
+					{ missingFiles }
+				);
+			}
+			return entries;
+		}).pipe(
+			// Reading the contents happens after the transaction, it would commit it
+			switchMap(entries =>
+				createZipArchive(entries.map(({ item, ...entry }) => entry))
+			),
+			map(archive => {
+				const url = URL.createObjectURL(archive);
+				setTimeout(() => URL.revokeObjectURL(url), ARCHIVE_URL_LIFETIME);
+				return url;
+			})
+		);
+	}
+
+	deleteItem(itemId: string): Observable<void> {
+		return this.write(async store => {
+			await store.moveToTrash(await store.requireLiveItem(itemId));
+		});
+	}
+
+	updateItem(
+		itemId: string,
+		updates: Partial<FileItem>,
+		conflict?: ConflictStrategy
+	): Observable<FileItem> {
+		return this.write(async store => {
+			const item = await store.requireLiveItem(itemId);
+			const result = await this.updateItemWithConflict(
+				store,
+				item,
+				{ name: updates.name, parentId: updates.parentId },
+				parseConflictStrategy(conflict)
+			);
+			if ('error' in result) throw result.error;
+			return this.toFileItem(item);
+		});
+	}
+
+	getItemPath(itemId: string): Observable<{ items: FileItem[] }> {
+		return this.read(async store => {
+			const item = await store.requireLiveItem(itemId);
+			const parents = await store.getParents(item);
+			return {
+				items: [...parents, item].map(current => this.toFileItem(current)),
+			};
+		});
+	}
+
+	search(query: string): Observable<{ items: SearchResult[] }> {
+		return this.read(async store => {
+			const term = query.trim().toLowerCase();
+			if (!term) return { items: [] };
+
+			const matches = (await store.liveItems())
+				.filter(item => item.name.toLowerCase().includes(term))
+				.sort((a, b) => {
+					if (a.folder !== b.folder) return a.folder ? -1 : 1;
+					const aPrefix = a.name.toLowerCase().startsWith(term);
+					const bPrefix = b.name.toLowerCase().startsWith(term);
+					if (aPrefix !== bPrefix) return aPrefix ? -1 : 1;
+					return a.name.localeCompare(b.name);
+				})
+				.slice(0, SEARCH_RESULTS_LIMIT);
+			const items: SearchResult[] = [];
+			for (const item of matches) {
+				items.push({
+					...this.toFileItem(item),
+					parentPath: await store.getParentPath(item),
+				});
+			}
+			return { items };
+		});
+	}
+
+	getFolderTree(
+		parentId?: string | null,
+		depth = DEFAULT_TREE_DEPTH
+	): Observable<{ items: FolderTreeNode[] }> {
+		return this.read(async store => {
+			if (!Number.isInteger(depth) || depth < 1 || depth > MAX_TREE_DEPTH) {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_INPUT',
+					`depth must be an integer between 1 and ${MAX_TREE_DEPTH}`
+				);
+			}
+			if (parentId) {
+				const parent = await store.findLiveItem(parentId);
+				if (!parent) {
+					throw apiError(
+						HttpStatusCode.NotFound,
+						'PARENT_NOT_FOUND',
+						'Parent folder not found'
+					);
+				}
+				if (!parent.folder) {
+					throw apiError(
+						HttpStatusCode.BadRequest,
+						'INVALID_PARENT',
+						'Parent is not a folder'
+					);
+				}
+			}
+			return {
+				items: await this.buildFolderTree(store, parentId || null, depth),
+			};
+		});
+	}
+
+	getTrash(): Observable<{ items: TrashItem[] }> {
+		return this.read(async store => ({
+			items: (await store.trashedItems())
+				.filter(item => item.trashRootId === item.id)
+				.sort((a, b) => b.trashedAt!.localeCompare(a.trashedAt!))
+				.map(item => this.toFileItem(item) as TrashItem),
+		}));
+	}
+
+	restoreItem(itemId: string): Observable<FileItem> {
+		return this.write(async store => {
+			const item = await this.findTrashEntry(store, itemId);
+
+			const originalPath = item.originalPath || [];
+			const directParent = originalPath.length
+				? await store.findLiveItem(originalPath[originalPath.length - 1].id)
+				: undefined;
+			const createdFolders: StoredItem[] = [];
+			let parentId = directParent ? directParent.id : null;
+
+			// Walk the original path, reusing live folders and recreating missing ones
+			if (originalPath.length && !directParent) {
+				for (const segment of originalPath) {
+					const existing =
+						(await store.findLiveItem(segment.id)) ||
+						(await store.children(parentId)).find(
+							current => current.folder && current.name === segment.name
+						);
+					if (existing) {
+						parentId = existing.id;
+						continue;
+					}
+
+					const now = new Date().toISOString();
+					const folder: StoredItem = {
+						id: crypto.randomUUID(),
+						parentId,
+						name: segment.name,
+						folder: true,
+						creation: now,
+						modification: now,
+					};
+					createdFolders.push(folder);
+					parentId = folder.id;
+				}
+			}
+
+			if (
+				(await store.children(parentId)).some(
+					current => current.name === item.name
+				)
+			) {
+				throw apiError(
+					HttpStatusCode.Conflict,
+					'DUPLICATE_NAME',
+					'An item with this name already exists in the original location'
+				);
+			}
+
+			createdFolders.forEach(folder => store.save(folder));
+			const trashed = await store.trashedItems(item.id);
+			trashed
+				.filter(current => current.id !== item.id)
+				.forEach(current => {
+					delete current.trashedAt;
+					delete current.trashRootId;
+					store.save(current);
+				});
+			delete item.trashedAt;
+			delete item.trashRootId;
+			delete item.originalPath;
+			item.parentId = parentId;
+			item.modification = new Date().toISOString();
+			store.save(item);
+			return this.toFileItem(item);
+		});
+	}
+
+	purgeItem(itemId: string): Observable<void> {
+		return this.write(async store => {
+			const item = await this.findTrashEntry(store, itemId);
+			for (const current of await store.trashedItems(item.id)) {
+				await store.purge(current);
+			}
+		});
+	}
+
+	emptyTrash(): Observable<void> {
+		return this.write(async store => {
+			for (const item of await store.trashedItems()) {
+				await store.purge(item);
+			}
+		});
+	}
+
+	batch(
+		operation: BatchOperation,
+		ids: string[],
+		parentId?: string | null,
+		conflict?: ConflictStrategy
+	): Observable<BatchResponse> {
+		return this.write(async store => {
+			if (ids.length === 0) {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_INPUT',
+					'A supported operation (delete, move) and a non-empty ids array are required'
+				);
+			}
+			const strategy = parseConflictStrategy(conflict);
+			if (operation === 'move' && parentId === undefined) {
+				throw apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_INPUT',
+					'parentId is required for the move operation'
+				);
+			}
+
+			const trashedRoots = new Set<string>();
+			const results: BatchResult[] = [];
+			for (const id of ids) {
+				results.push(
+					await this.batchItem(
+						store,
+						operation,
+						id,
+						parentId,
+						strategy,
+						trashedRoots
+					)
+				);
+			}
+
+			// 207 is a success status: the body lists the failures
+			return results.every(result => result.success)
+				? { results }
+				: ({
+						code: 'PARTIAL_SUCCESS',
+						message: 'Some items could not be processed',
+						results,
+					} as BatchResponse);
+		});
+	}
+
+	/**
+	 * Nothing announces changes between tabs sharing this database: another
+	 * tab's changes show when a folder is loaded again
+	 */
+	watchChanges(): Observable<ItemChangeEvent | ItemsResetEvent> {
+		return EMPTY;
+	}
+
+	private async batchItem(
+		store: FileStore,
+		operation: BatchOperation,
+		id: string,
+		parentId: string | null | undefined,
+		strategy: ConflictStrategy,
+		trashedRoots: Set<string>
+	): Promise<BatchResult> {
+		const item = await store.findLiveItem(id);
+		if (!item) {
+			// Already trashed along with an ancestor from the same batch
+			const trashed = await store.getItem(id);
+			// Skipped: undo restores the ancestor, which brings the item back
+			return trashed && trashedRoots.has(trashed.trashRootId!)
+				? { id, success: true, skipped: true }
+				: {
+						id,
+						success: false,
+						code: 'NOT_FOUND',
+						message: 'Item not found',
+					};
+		}
+
+		if (operation === 'delete') {
+			await store.moveToTrash(item);
+			trashedRoots.add(item.id);
+			return { id, success: true };
+		}
+
+		const result = await this.updateItemWithConflict(
+			store,
+			item,
+			{ parentId },
+			strategy
+		);
+		if ('error' in result) {
+			const error = result.error.error as {
+				code: ApiErrorCode;
+				message: string;
+			};
+			return {
+				id,
+				success: false,
+				code: error.code,
+				message: error.message,
+			};
+		}
+		return {
+			id,
+			success: true,
+			item: this.toFileItem(result.item),
+			skipped: result.skipped,
+		};
+	}
+
+	/**
+	 * Store files the way the API's multipart upload does: each file is
+	 * created, replaced, versioned, skipped or reported as failed on its own
+	 */
+	private async storeUploads(
+		store: FileStore,
+		files: File[],
+		parentId: string | undefined,
+		conflict?: ConflictStrategy
+	): Promise<UploadResponse> {
+		const strategy = parseConflictStrategy(conflict, true);
+		const items: FileItem[] = [];
+		const errors: UploadFailure[] = [];
+		const skipped: string[] = [];
+
+		for (const file of files) {
+			const resolution = await this.resolveUploadConflict(
+				store,
+				parentId,
+				file.name,
+				strategy
+			);
+			if (resolution.action === 'skip') {
+				skipped.push(file.name);
+				continue;
+			}
+			if (resolution.action === 'fail') {
+				errors.push({
+					filename: file.name,
+					code: 'DUPLICATE_NAME',
+					message: 'A file with this name already exists in this location',
+				});
+				continue;
+			}
+			const content = { blob: file, size: file.size, mimeType: file.type };
+			items.push(
+				this.toFileItem(
+					await this.storeUploadedFile(store, resolution, parentId, content)
+				)
+			);
+		}
+
+		if (errors.length > 0 && items.length === 0 && skipped.length === 0) {
+			throw apiError(
+				HttpStatusCode.BadRequest,
+				'UPLOAD_FAILED',
+				'All files failed to upload',
+				{ errors }
+			);
+		}
+		if (errors.length > 0) {
+			return {
+				code: 'PARTIAL_SUCCESS',
+				message: `${errors.length} of ${files.length} files could not be uploaded`,
+				items,
+				errors,
+				skipped,
+			};
+		}
+		return { items, skipped };
+	}
+
+	private async resolveUploadConflict(
+		store: FileStore,
+		parentId: string | undefined,
+		name: string,
+		conflict: ConflictStrategy
+	): Promise<UploadResolution> {
+		const existing = (await store.children(parentId || null)).find(
+			item => item.name === name && !item.folder
+		);
+		if (!existing) return { action: 'create', name };
+
+		switch (conflict) {
+			case 'replace':
+				return { action: 'replace', item: existing };
+			case 'new-version':
+				return { action: 'version', item: existing };
+			case 'keep-both':
+				return {
+					action: 'create',
+					name: await store.getUniqueName(parentId, name, false),
+				};
+			case 'skip':
+				return { action: 'skip' };
+			default:
+				return { action: 'fail' };
+		}
+	}
+
+	// Replace rewrites the current version, history is kept
+	private async storeUploadedFile(
+		store: FileStore,
+		resolution: Exclude<UploadResolution, { action: 'skip' | 'fail' }>,
+		parentId: string | undefined,
+		content: UploadContent
+	): Promise<StoredItem> {
+		const now = new Date().toISOString();
+
+		if (resolution.action === 'version') {
+			return store.addVersion(resolution.item, content);
+		}
+
+		if (resolution.action === 'replace') {
+			const item = resolution.item;
+			const head = (await store.getVersions(item)).find(
+				version => version.version === (item.version || 1)
+			);
+			if (item.blobId) store.removeBlob(item.blobId);
+			const blobId = store.putBlob(content.blob);
+			Object.assign(item, {
+				blobId,
+				size: content.size,
+				mimeType: content.mimeType,
+				modification: now,
+			});
+			if (head) {
+				Object.assign(head, {
+					blobId,
+					size: content.size,
+					mimeType: content.mimeType,
+					uploadedBy: LOCAL_UPLOADER,
+					created: now,
+				});
+				delete head.restoredFrom;
+				store.saveVersion(head);
+			}
+			store.save(item);
+			return item;
+		}
+
+		const item: StoredItem = {
+			id: crypto.randomUUID(),
+			parentId: parentId || null,
+			name: resolution.name,
+			folder: false,
+			blobId: store.putBlob(content.blob),
+			size: content.size,
+			mimeType: content.mimeType,
+			creation: now,
+			modification: now,
+			version: 1,
+		};
+		store.save(item);
+		store.saveVersion({
+			itemId: item.id,
+			version: 1,
+			blobId: item.blobId!,
+			size: content.size,
+			mimeType: content.mimeType,
+			uploadedBy: LOCAL_UPLOADER,
+			created: now,
+		});
+		return item;
+	}
+
+	/**
+	 * Move and/or rename honouring the conflict strategy, like the API's PATCH
+	 */
+	private async updateItemWithConflict(
+		store: FileStore,
+		item: StoredItem,
+		changes: { name?: string; parentId?: string | null },
+		conflict: ConflictStrategy
+	): Promise<
+		{ item: StoredItem; skipped: boolean } | { error: HttpErrorResponse }
+	> {
+		const target = {
+			parentId:
+				changes.parentId !== undefined
+					? changes.parentId || null
+					: item.parentId,
+			name: changes.name !== undefined ? changes.name : item.name,
+		};
+		const sibling = await store.findSibling(
+			target.parentId,
+			target.name,
+			item.id
+		);
+		let name = target.name;
+		let replaced: StoredItem | null = null;
+
+		if (sibling && conflict === 'skip') {
+			return { item, skipped: true };
+		}
+		if (sibling && conflict === 'keep-both') {
+			name = await store.getUniqueName(
+				target.parentId,
+				target.name,
+				item.folder
+			);
+		}
+		if (sibling && conflict === 'replace') {
+			if (await store.isDescendantOf(item.id, sibling.id)) {
+				return {
+					error: apiError(
+						HttpStatusCode.BadRequest,
+						'INVALID_PARENT',
+						'An item cannot replace a folder that contains it'
+					),
+				};
+			}
+			replaced = sibling;
+		}
+
+		const error = await this.validateItemUpdate(
+			store,
+			item,
+			changes,
+			{ parentId: target.parentId, name },
+			replaced?.id ?? null
+		);
+		if (error) {
+			return { error };
+		}
+
+		if (replaced) {
+			await store.moveToTrash(replaced);
+		}
+		item.parentId = target.parentId;
+		item.name = name;
+		item.modification = new Date().toISOString();
+		store.save(item);
+		return { item, skipped: false };
+	}
+
+	private async validateItemUpdate(
+		store: FileStore,
+		item: StoredItem,
+		changes: { name?: string; parentId?: string | null },
+		target: { parentId: string | null; name: string },
+		replacedId: string | null
+	): Promise<HttpErrorResponse | null> {
+		if (changes.parentId !== undefined) {
+			if (target.parentId === item.id) {
+				return apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_PARENT',
+					'Item cannot be its own parent'
+				);
+			}
+			const parent = target.parentId
+				? await store.findLiveItem(target.parentId)
+				: undefined;
+			if (target.parentId && !parent) {
+				return apiError(
+					HttpStatusCode.NotFound,
+					'PARENT_NOT_FOUND',
+					'Parent item not found'
+				);
+			}
+			if (parent && !parent.folder) {
+				return apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_PARENT',
+					'Parent must be a folder'
+				);
+			}
+			if (
+				item.folder &&
+				(await store.isDescendantOf(target.parentId, item.id))
+			) {
+				return apiError(
+					HttpStatusCode.BadRequest,
+					'INVALID_PARENT',
+					'A folder cannot be moved into one of its own subfolders'
+				);
+			}
+		}
+
+		if (changes.name !== undefined && !changes.name.trim()) {
+			return apiError(
+				HttpStatusCode.BadRequest,
+				'INVALID_NAME',
+				'Name cannot be empty'
+			);
+		}
+
+		const sibling = await store.findSibling(
+			target.parentId,
+			target.name,
+			item.id
+		);
+		if (sibling && sibling.id !== replacedId) {
+			return apiError(
+				HttpStatusCode.Conflict,
+				'DUPLICATE_NAME',
+				'An item with this name already exists in this location'
+			);
+		}
+		return null;
+	}
+
+	// Copies get fresh ids and timestamps and their own copy of the content, without its history
+	private async copyItemTree(
+		store: FileStore,
+		source: StoredItem,
+		parentId: string | null,
+		name: string,
+		now: string,
+		copies: StoredItem[]
+	): Promise<StoredItem> {
+		const copy: StoredItem = {
+			id: crypto.randomUUID(),
+			parentId,
+			name,
+			folder: source.folder,
+			creation: now,
+			modification: now,
+		};
+		if (!source.folder) {
+			copy.blobId = store.putBlob(await store.requireBlob(source.blobId));
+			copy.size = source.size;
+			copy.mimeType = source.mimeType;
+		}
+		copies.push(copy);
+
+		if (source.folder) {
+			for (const child of await store.children(source.id)) {
+				await this.copyItemTree(store, child, copy.id, child.name, now, copies);
+			}
+		}
+		return copy;
+	}
+
+	private async findVersion(
+		store: FileStore,
+		itemId: string,
+		version: number
+	): Promise<StoredVersion> {
+		const item = await store.requireFile(itemId, 'Folders have no versions');
+		const found = (await store.getVersions(item)).find(
+			current => current.version === version
+		);
+		if (!found) {
+			throw apiError(HttpStatusCode.NotFound, 'NOT_FOUND', 'Version not found');
+		}
+		return found;
+	}
+
+	// Top item of a trash entry, the one restore and purge work on
+	private async findTrashEntry(
+		store: FileStore,
+		itemId: string
+	): Promise<StoredItem> {
+		const item = await store.getItem(itemId);
+		if (!item || item.trashRootId !== item.id) {
+			throw apiError(
+				HttpStatusCode.NotFound,
+				'NOT_FOUND',
+				'Item not found in trash'
+			);
+		}
+		return item;
+	}
+
+	private async collectArchiveEntries(
+		store: FileStore,
+		item: StoredItem,
+		name: string,
+		entries: (ZipEntry & { item: StoredItem })[]
+	): Promise<void> {
+		entries.push({ name, modification: item.modification, item });
+		if (!item.folder) return;
+		const children = (await store.children(item.id)).sort((a, b) =>
+			a.name.localeCompare(b.name)
+		);
+		for (const child of children) {
+			await this.collectArchiveEntries(
+				store,
+				child,
+				`${name}/${child.name}`,
+				entries
+			);
+		}
+	}
+
+	// Children are listed down to `depth` levels, deeper folders only report `hasChildren`
+	private async buildFolderTree(
+		store: FileStore,
+		parentId: string | null,
+		depth: number
+	): Promise<FolderTreeNode[]> {
+		const folders = (await store.children(parentId))
+			.filter(item => item.folder)
+			.sort((a, b) => a.name.localeCompare(b.name));
+		const nodes: FolderTreeNode[] = [];
+		for (const folder of folders) {
+			const node: FolderTreeNode = {
+				id: folder.id,
+				name: folder.name,
+				parentId: folder.parentId,
+				hasChildren: (await store.children(folder.id)).some(
+					item => item.folder
+				),
+			};
+			if (depth > 1 && node.hasChildren) {
+				node.children = await this.buildFolderTree(store, folder.id, depth - 1);
+			}
+			nodes.push(node);
+		}
+		return nodes;
+	}
+
+	private toFileItem(item: StoredItem): FileItem {
+		const { blobId, parentKey, ...fileItem } = item;
+		return { ...fileItem };
+	}
+
+	private read<T>(work: (store: FileStore) => Promise<T>): Observable<T> {
+		return this.run('readonly', work);
+	}
+
+	private write<T>(work: (store: FileStore) => Promise<T>): Observable<T> {
+		return this.run('readwrite', work);
+	}
+
+	/**
+	 * Run `work` in one transaction over every store; written changes are
+	 * committed together, or not at all when `work` throws
+	 */
+	private run<T>(
+		mode: IDBTransactionMode,
+		work: (store: FileStore) => Promise<T>
+	): Observable<T> {
+		return defer(async () => {
+			const database = await this.open();
+			const transaction = database.transaction(STORES, mode);
+			const completed = new Promise<void>((resolve, reject) => {
+				transaction.oncomplete = () => resolve();
+				transaction.onabort = () => reject(transaction.error);
+			});
+
+			try {
+				const result = await work(new FileStore(transaction));
+				await completed;
+				return result;
+			} catch (error) {
+				if (!transaction.error) {
+					try {
+						transaction.abort();
+					} catch {
+						// Already finished
+					}
+				}
+				completed.catch(() => undefined);
+				throw error;
+			}
+		});
+	}
+
+	private open(): Promise<IDBDatabase> {
+		this.database ??= new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const database = request.result;
+				const items = database.createObjectStore(ITEMS_STORE, {
+					keyPath: 'id',
+				});
+				// Items are looked up by parent, name and trash entry
+				items.createIndex(PARENT_INDEX, 'parentKey');
+				items.createIndex(SIBLING_INDEX, ['parentKey', 'name']);
+				items.createIndex(TRASH_INDEX, 'trashRootId');
+				database.createObjectStore(VERSIONS_STORE, {
+					keyPath: ['itemId', 'version'],
+				});
+				database.createObjectStore(BLOBS_STORE);
+			};
+			request.onsuccess = () => {
+				const database = request.result;
+				// Let a newer version (another tab) upgrade or delete it, reopen next time
+				database.onversionchange = () => {
+					database.close();
+					this.database = undefined;
+				};
+				resolve(database);
+			};
+			request.onerror = () => reject(request.error);
+		});
+		return this.database;
+	}
+}
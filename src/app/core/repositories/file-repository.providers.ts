@@ -0,0 +1,27 @@
+import { Provider } from '@angular/core';
+import {
+	FILE_REPOSITORY,
+	FILE_REPOSITORY_BACKEND,
+	FileRepositoryBackend,
+} from '../interfaces/file-repository.interface';
+import { FileHttpRepository } from './file-http.repository';
+import { IndexedDbFileRepository } from './file-indexeddb.repository';
+import { CachingFileRepository } from './file-caching.repository';
+
+/**
+ * Repository providers for `backend` (DIP - consumers inject the tokens)
+ * The app talks to FILE_REPOSITORY, the caching decorator, which wraps the
+ * backend provided as FILE_REPOSITORY_BACKEND.
+ */
+export function provideFileRepository(
+	backend: FileRepositoryBackend
+): Provider[] {
+	return [
+		{
+			provide: FILE_REPOSITORY_BACKEND,
+			useExisting:
+				backend === 'indexeddb' ? IndexedDbFileRepository : FileHttpRepository,
+		},
+		{ provide: FILE_REPOSITORY, useExisting: CachingFileRepository },
+	];
+}
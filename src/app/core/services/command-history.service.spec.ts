@@ -0,0 +1,107 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import {
+	CommandHistoryService,
+	UndoableCommand,
+} from './command-history.service';
+
+describe('CommandHistoryService', () => {
+	let history: CommandHistoryService;
+
+	const command = (label: string): UndoableCommand => ({
+		label,
+		affectsFolders: false,
+		undo: () => of(undefined),
+		redo: () => of(undefined),
+	});
+
+	// Runs the latest command of `direction` to completion
+	const run = (direction: 'undo' | 'redo', applied = true) => {
+		const latest = history.peek(direction)!;
+		expect(history.start(direction, latest)).toBeTrue();
+		history.finish(direction, latest, applied);
+		return latest;
+	};
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		history = TestBed.inject(CommandHistoryService);
+	});
+
+	it('should undo the latest command first', () => {
+		const first = command('first');
+		const second = command('second');
+		history.record(first);
+		history.record(second);
+
+		expect(run('undo')).toBe(second);
+		expect(history.peek('undo')).toBe(first);
+		expect(history.peek('redo')).toBe(second);
+	});
+
+	it('should redo what was undone', () => {
+		const rename = command('rename');
+		history.record(rename);
+		run('undo');
+
+		expect(run('redo')).toBe(rename);
+		expect(history.peek('undo')).toBe(rename);
+		expect(history.peek('redo')).toBeUndefined();
+	});
+
+	it('should forget the redo stack when a new command is recorded', () => {
+		history.record(command('rename'));
+		run('undo');
+
+		history.record(command('move'));
+
+		expect(history.peek('redo')).toBeUndefined();
+	});
+
+	it('should drop a command that failed to apply', () => {
+		history.record(command('rename'));
+
+		run('undo', false);
+
+		expect(history.peek('undo')).toBeUndefined();
+		expect(history.peek('redo')).toBeUndefined();
+	});
+
+	it('should only start the latest command', () => {
+		const older = command('older');
+		history.record(older);
+		history.record(command('newer'));
+
+		expect(history.start('undo', older)).toBeFalse();
+		expect(history.peek('undo')?.label).toBe('newer');
+	});
+
+	it('should run one command at a time', () => {
+		const first = command('first');
+		const second = command('second');
+		history.record(first);
+		history.record(second);
+
+		expect(history.start('undo', second)).toBeTrue();
+		expect(history.isRunning).toBeTrue();
+		expect(history.start('undo', first)).toBeFalse();
+
+		history.finish('undo', second, true);
+		expect(history.isRunning).toBeFalse();
+		expect(history.start('undo', first)).toBeTrue();
+	});
+
+	it('should keep the latest 50 commands', () => {
+		for (let i = 0; i < 55; i++) {
+			history.record(command(`command ${i}`));
+		}
+
+		let undone = 0;
+		while (history.peek('undo')) {
+			run('undo');
+			undone++;
+		}
+		expect(undone).toBe(50);
+		expect(history.peek('redo')?.label).toBe('command 5');
+	});
+});
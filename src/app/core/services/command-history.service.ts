@@ -0,0 +1,81 @@
+/**
+ * Command History Service (SRP - Single Responsibility)
+ * Undo and redo stacks of completed file operations. The facade records a
+ * command for every successful mutation and runs it; this service only keeps
+ * the bookkeeping, as a root singleton so the history survives navigation.
+ */
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export interface UndoableCommand {
+	// Completes "Undid …" in toasts, e.g. `rename of "a.txt"`
+	label: string;
+	// Folders are involved, so running it refreshes the sidebar tree
+	affectsFolders: boolean;
+	undo: () => Observable<unknown>;
+	redo: () => Observable<unknown>;
+}
+
+const MAX_HISTORY = 50;
+
+@Injectable({
+	providedIn: 'root',
+})
+export class CommandHistoryService {
+	private readonly stacks: Record<HistoryDirection, UndoableCommand[]> = {
+		undo: [],
+		redo: [],
+	};
+	private running: UndoableCommand | null = null;
+
+	get isRunning(): boolean {
+		return this.running !== null;
+	}
+
+	/**
+	 * Add a completed operation; anything that could be redone is forgotten
+	 */
+	record(command: UndoableCommand): void {
+		this.stacks.undo = [...this.stacks.undo, command].slice(-MAX_HISTORY);
+		this.stacks.redo = [];
+	}
+
+	/**
+	 * The command the next undo (or redo) would run
+	 */
+	peek(direction: HistoryDirection): UndoableCommand | undefined {
+		return this.stacks[direction].at(-1);
+	}
+
+	/**
+	 * Take `command` off its stack to run it. False while another command runs
+	 * or when it is no longer the latest (e.g. the Undo button of an older toast)
+	 */
+	start(direction: HistoryDirection, command: UndoableCommand): boolean {
+		if (this.running || this.peek(direction) !== command) {
+			return false;
+		}
+		this.stacks[direction] = this.stacks[direction].slice(0, -1);
+		this.running = command;
+		return true;
+	}
+
+	/**
+	 * A command that applied moves to the opposite stack; one that failed is
+	 * dropped, as the files no longer match what it recorded
+	 */
+	finish(
+		direction: HistoryDirection,
+		command: UndoableCommand,
+		applied: boolean
+	): void {
+		if (this.running !== command) return;
+		this.running = null;
+		if (applied) {
+			const opposite = direction === 'undo' ? 'redo' : 'undo';
+			this.stacks[opposite] = [...this.stacks[opposite], command];
+		}
+	}
+}
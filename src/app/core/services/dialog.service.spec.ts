@@ -0,0 +1,156 @@
+import { TestBed } from '@angular/core/testing';
+import { Dialog, DialogConfig, DialogRef } from '@angular/cdk/dialog';
+import { Subject, of } from 'rxjs';
+import { DialogService } from './dialog.service';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+import { PromptDialogComponent } from '../../components/prompt-dialog/prompt-dialog.component';
+import { ConflictDialogComponent } from '../../components/conflict-dialog/conflict-dialog.component';
+import { ShortcutHelpComponent } from '../../components/shortcut-help/shortcut-help.component';
+import { KeyboardShortcut } from './keyboard-shortcut.service';
+
+describe('DialogService', () => {
+	let service: DialogService;
+	let dialog: jasmine.SpyObj<Dialog>;
+	let closed: Subject<unknown>;
+
+	const openedWith = () => dialog.open.calls.mostRecent().args;
+	const openedData = <D>() => (openedWith()[1] as DialogConfig<D>).data as D;
+
+	beforeEach(() => {
+		closed = new Subject();
+		dialog = jasmine.createSpyObj<Dialog>('Dialog', ['open']);
+		dialog.open.and.returnValue({ closed } as unknown as DialogRef);
+
+		TestBed.configureTestingModule({
+			providers: [{ provide: Dialog, useValue: dialog }],
+		});
+		service = TestBed.inject(DialogService);
+	});
+
+	describe('confirm', () => {
+		it('should emit true when the dialog is confirmed', () => {
+			let confirmed: boolean | undefined;
+			service
+				.confirmPurge('report.pdf')
+				.subscribe(result => (confirmed = result));
+
+			closed.next(true);
+
+			expect(confirmed).toBeTrue();
+			expect(openedWith()[0]).toBe(ConfirmDialogComponent);
+			expect(openedData()).toEqual({
+				title: 'Delete forever',
+				confirmLabel: 'Delete forever',
+				danger: true,
+				message: 'Permanently delete "report.pdf"? This cannot be undone.',
+			});
+		});
+
+		it('should emit false when the dialog is dismissed', () => {
+			let confirmed: boolean | undefined;
+			service.confirm('Continue?').subscribe(result => (confirmed = result));
+
+			closed.next(undefined);
+
+			expect(confirmed).toBeFalse();
+		});
+	});
+
+	describe('prompt', () => {
+		it('should emit the entered value', () => {
+			let value: string | null | undefined;
+			service.promptCreateFolder().subscribe(result => (value = result));
+
+			closed.next('Reports');
+
+			expect(value).toBe('Reports');
+			expect(openedWith()[0]).toBe(PromptDialogComponent);
+			expect(openedWith()[1]?.autoFocus).toBeFalse();
+		});
+
+		it('should emit null when the dialog is dismissed', () => {
+			let value: string | null | undefined = 'unset';
+			service.prompt('Name').subscribe(result => (value = result));
+
+			closed.next(undefined);
+
+			expect(value).toBeNull();
+		});
+	});
+
+	it('should ask how to resolve a name conflict', () => {
+		let strategy: string | undefined;
+		service
+			.resolveConflict('report.pdf', 2)
+			.subscribe(result => (strategy = result?.strategy));
+
+		closed.next({ strategy: 'keep-both', applyToAll: false });
+
+		expect(openedWith()[0]).toBe(ConflictDialogComponent);
+		expect(openedData()).toEqual({
+			name: 'report.pdf',
+			remaining: 2,
+			replaceHint: 'Replace moves the existing item to the trash.',
+			allowNewVersion: false,
+		});
+		expect(strategy).toBe('keep-both');
+	});
+
+	describe('resolveConflicts', () => {
+		const closeWith = (...results: unknown[]) =>
+			dialog.open.and.returnValues(
+				...results.map(
+					result => ({ closed: of(result) }) as unknown as DialogRef
+				)
+			);
+
+		it('should reuse an answer applied to all for the remaining names', () => {
+			closeWith(
+				{ strategy: 'skip', applyToAll: false },
+				{ strategy: 'replace', applyToAll: true }
+			);
+
+			let strategies: string[] | null | undefined;
+			service
+				.resolveConflicts(['a.txt', 'b.txt', 'c.txt'], 'Replace it.', true)
+				.subscribe(result => (strategies = result));
+
+			expect(strategies).toEqual(['skip', 'replace', 'replace']);
+			expect(dialog.open).toHaveBeenCalledTimes(2);
+			expect(openedData()).toEqual({
+				name: 'b.txt',
+				remaining: 1,
+				replaceHint: 'Replace it.',
+				allowNewVersion: true,
+			});
+		});
+
+		it('should emit null and stop asking when a dialog is dismissed', () => {
+			closeWith(undefined);
+
+			let strategies: string[] | null | undefined;
+			service
+				.resolveConflicts(['a.txt', 'b.txt'])
+				.subscribe(result => (strategies = result));
+
+			expect(strategies).toBeNull();
+			expect(dialog.open).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	it('should list the given shortcuts in the help overlay', () => {
+		const shortcuts: KeyboardShortcut[] = [
+			{
+				keys: ['?'],
+				description: 'Show keyboard shortcuts',
+				group: 'General',
+				handler: () => undefined,
+			},
+		];
+
+		service.showShortcutHelp(shortcuts).subscribe();
+
+		expect(openedWith()[0]).toBe(ShortcutHelpComponent);
+		expect(openedData()).toEqual({ shortcuts });
+	});
+});
@@ -1,53 +1,233 @@
 /**
  * Dialog Service (SRP - Single Responsibility)
  * Handles all user input dialogs
+ * Dialogs are CDK overlays: they trap focus, close on Escape and emit once when closed.
  */
-import { Injectable } from '@angular/core';
-import { Observable, of } from 'rxjs';
+import { Injectable, inject } from '@angular/core';
+import { ComponentType } from '@angular/cdk/portal';
+import { Dialog, DialogConfig, DialogRef } from '@angular/cdk/dialog';
+import {
+	Observable,
+	concatMap,
+	from,
+	map,
+	of,
+	takeWhile,
+	tap,
+	toArray,
+} from 'rxjs';
+import { ConflictResolution, ConflictStrategy } from '../../models/file-item';
+import { FileValidationService } from '../utils/file-validation.service';
+import {
+	ConflictDialogComponent,
+	ConflictDialogData,
+} from '../../components/conflict-dialog/conflict-dialog.component';
+import {
+	ConfirmDialogComponent,
+	ConfirmDialogData,
+} from '../../components/confirm-dialog/confirm-dialog.component';
+import {
+	PromptDialogComponent,
+	PromptDialogData,
+} from '../../components/prompt-dialog/prompt-dialog.component';
+import {
+	ShortcutHelpComponent,
+	ShortcutHelpData,
+} from '../../components/shortcut-help/shortcut-help.component';
+import {
+	FolderPickerData,
+	FolderPickerDialogComponent,
+} from '../../components/folder-picker-dialog/folder-picker-dialog.component';
+import { MoveTarget } from '../../components/selection-toolbar/selection-toolbar.component';
+import { KeyboardShortcut } from './keyboard-shortcut.service';
 
 export interface DialogResult {
 	confirmed: boolean;
 	value?: string;
 }
 
+export type ConfirmOptions = Partial<Omit<ConfirmDialogData, 'message'>>;
+
+export type PromptOptions = Partial<Omit<PromptDialogData, 'label' | 'value'>>;
+
 @Injectable({
 	providedIn: 'root',
 })
 export class DialogService {
+	private readonly dialog = inject(Dialog);
+	private readonly fileValidation = new FileValidationService();
+
+	/**
+	 * Open any component as a modal dialog
+	 * Emits the value it closes with, or null when dismissed
+	 */
+	open<R, D = unknown, C = unknown>(
+		component: ComponentType<C>,
+		data?: D,
+		config: DialogConfig<D, DialogRef<R, C>> = {}
+	): Observable<R | null> {
+		const dialogRef = this.dialog.open<R, D, C>(component, {
+			...config,
+			data,
+		});
+		return dialogRef.closed.pipe(map(result => result ?? null));
+	}
+
 	/**
 	 * Show confirmation dialog
 	 */
-	confirm(message: string): Observable<boolean> {
-		const result = window.confirm(message);
-		return of(result);
+	confirm(message: string, options: ConfirmOptions = {}): Observable<boolean> {
+		return this.open<boolean, ConfirmDialogData>(ConfirmDialogComponent, {
+			title: 'Are you sure?',
+			confirmLabel: 'OK',
+			...options,
+			message,
+		}).pipe(map(confirmed => confirmed === true));
 	}
 
 	/**
 	 * Show prompt dialog for text input
+	 * The input gets focus itself (after selecting the initial value)
+	 */
+	prompt(
+		message: string,
+		defaultValue = '',
+		options: PromptOptions = {}
+	): Observable<string | null> {
+		return this.open<string, PromptDialogData>(
+			PromptDialogComponent,
+			{
+				title: 'Enter a value',
+				confirmLabel: 'OK',
+				...options,
+				label: message,
+				value: defaultValue,
+			},
+			{ autoFocus: false }
+		);
+	}
+
+	/**
+	 * Show move-to-trash confirmation with item name
+	 */
+	confirmDelete(itemName: string, isFolder = false): Observable<boolean> {
+		const contents = isFolder ? ' Everything inside it will be moved too.' : '';
+		return this.confirm(
+			`Move "${itemName}" to the trash?${contents} You can restore it from the Trash.`,
+			{ title: 'Move to trash', confirmLabel: 'Move to trash' }
+		);
+	}
+
+	/**
+	 * Show move-to-trash confirmation for a multi-selection
+	 */
+	confirmDeleteItems(count: number): Observable<boolean> {
+		return this.confirm(
+			`Move ${count} selected item(s) to the trash? Folder contents will be moved too.`,
+			{ title: 'Move to trash', confirmLabel: 'Move to trash' }
+		);
+	}
+
+	/**
+	 * Show permanent deletion confirmation for a trashed item
+	 */
+	confirmPurge(itemName: string): Observable<boolean> {
+		return this.confirm(
+			`Permanently delete "${itemName}"? This cannot be undone.`,
+			{ title: 'Delete forever', confirmLabel: 'Delete forever', danger: true }
+		);
+	}
+
+	/**
+	 * Show empty trash confirmation
+	 */
+	confirmEmptyTrash(): Observable<boolean> {
+		return this.confirm(
+			'Permanently delete all items in the trash? This cannot be undone.',
+			{ title: 'Empty trash', confirmLabel: 'Empty trash', danger: true }
+		);
+	}
+
+	/**
+	 * Ask how to resolve a name conflict (Replace / Keep both / Skip, plus
+	 * New version for file uploads). Emits null when the dialog is dismissed
+	 */
+	resolveConflict(
+		name: string,
+		remaining = 0,
+		replaceHint = 'Replace moves the existing item to the trash.',
+		allowNewVersion = false
+	): Observable<ConflictResolution | null> {
+		return this.open<ConflictResolution, ConflictDialogData>(
+			ConflictDialogComponent,
+			{ name, remaining, replaceHint, allowNewVersion }
+		);
+	}
+
+	/**
+	 * Ask how to resolve each name conflict, one dialog at a time.
+	 * "Apply to all" reuses the answer for the remaining names.
+	 * Emits one strategy per name, or null when a dialog is dismissed (operation cancelled).
+	 * `allowNewVersion` offers uploading as a new version of the existing file.
 	 */
-	prompt(message: string, defaultValue = ''): Observable<string | null> {
-		const result = window.prompt(message, defaultValue);
-		return of(result);
+	resolveConflicts(
+		names: string[],
+		replaceHint?: string,
+		allowNewVersion = false
+	): Observable<ConflictStrategy[] | null> {
+		let appliedToAll: ConflictResolution | null = null;
+
+		return from(names).pipe(
+			concatMap((name, index) =>
+				appliedToAll
+					? of(appliedToAll)
+					: this.resolveConflict(
+							name,
+							names.length - index - 1,
+							replaceHint,
+							allowNewVersion
+						)
+			),
+			takeWhile(resolution => resolution !== null, true),
+			tap(resolution => {
+				if (resolution?.applyToAll) appliedToAll = resolution;
+			}),
+			toArray(),
+			map(resolutions =>
+				resolutions.includes(null)
+					? null
+					: resolutions.map(resolution => resolution!.strategy)
+			)
+		);
 	}
 
 	/**
-	 * Show delete confirmation with item name
+	 * Let the user browse to a destination folder (null when dismissed)
 	 */
-	confirmDelete(itemName: string): Observable<boolean> {
-		return this.confirm(`Are you sure you want to delete "${itemName}"?`);
+	pickFolder(options: FolderPickerData): Observable<MoveTarget | null> {
+		return this.open<MoveTarget, FolderPickerData>(
+			FolderPickerDialogComponent,
+			options
+		);
 	}
 
 	/**
-	 * Show rename dialog
+	 * Show the keyboard shortcut overlay
 	 */
-	promptRename(currentName: string): Observable<string | null> {
-		return this.prompt('Enter new name:', currentName);
+	showShortcutHelp(shortcuts: KeyboardShortcut[]): Observable<null> {
+		return this.open<never, ShortcutHelpData>(ShortcutHelpComponent, {
+			shortcuts,
+		});
 	}
 
 	/**
 	 * Show create folder dialog
 	 */
 	promptCreateFolder(): Observable<string | null> {
-		return this.prompt('Enter folder name:');
+		return this.prompt('Folder name', '', {
+			title: 'New folder',
+			confirmLabel: 'Create',
+			validate: name => this.fileValidation.isValidFileName(name),
+		});
 	}
 }
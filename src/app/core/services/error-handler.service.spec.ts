@@ -0,0 +1,111 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ErrorHandlerService } from './error-handler.service';
+
+describe('ErrorHandlerService', () => {
+	let service: ErrorHandlerService;
+
+	const httpError = (status: number, error: unknown = null) =>
+		new HttpErrorResponse({ status, error });
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(ErrorHandlerService);
+	});
+
+	describe('parseError', () => {
+		it('should read the code from the API error envelope', () => {
+			const details = service.parseError(
+				httpError(409, {
+					code: 'DUPLICATE_NAME',
+					message: 'An item named "a.txt" already exists',
+				})
+			);
+
+			expect(details).toEqual(
+				jasmine.objectContaining({
+					statusCode: 409,
+					code: 'DUPLICATE_NAME',
+					message: 'An item named "a.txt" already exists',
+				})
+			);
+		});
+
+		it('should ignore bodies that are not an error envelope', () => {
+			const details = service.parseError(
+				httpError(400, new Blob(['not json']))
+			);
+
+			expect(details.code).toBeUndefined();
+			expect(details.message).toBe('An error occurred');
+		});
+
+		it('should describe network failures', () => {
+			expect(service.parseError(httpError(0)).message).toBe(
+				'Network error. Please check your connection.'
+			);
+		});
+
+		it('should wrap errors that did not come from HTTP', () => {
+			expect(service.parseError(new Error('Boom')).message).toBe('Boom');
+			expect(service.parseError('Boom').message).toBe(
+				'An unknown error occurred'
+			);
+		});
+	});
+
+	describe('getUserFriendlyMessage', () => {
+		it('should map known codes to user messages', () => {
+			const details = service.parseError(
+				httpError(400, { code: 'INVALID_PARENT', message: 'Cycle' })
+			);
+
+			expect(service.getUserFriendlyMessage(details)).toBe(
+				'This item cannot be moved to the selected folder.'
+			);
+		});
+
+		it('should list each file rejected by an upload', () => {
+			const details = service.parseError(
+				httpError(400, {
+					code: 'UPLOAD_FAILED',
+					message: 'No file was uploaded',
+					errors: [
+						{
+							filename: 'a.pdf',
+							code: 'DUPLICATE_NAME',
+							message: 'Duplicate',
+						},
+						{ filename: 'b.exe', code: 'NOT_ALLOWED', message: 'Blocked' },
+					],
+				})
+			);
+
+			expect(service.getUserFriendlyMessage(details)).toBe(
+				'"a.pdf" (An item with this name already exists in this location.), ' +
+					'"b.exe" (Blocked)'
+			);
+		});
+
+		it('should fall back to the status code for unknown codes', () => {
+			expect(
+				service.getUserFriendlyMessage(
+					service.parseError(httpError(503, { code: 'MAINTENANCE' }))
+				)
+			).toBe('Server error. Please try again later.');
+			expect(
+				service.getUserFriendlyMessage(service.parseError(httpError(403)))
+			).toBe('You do not have permission to perform this action.');
+		});
+	});
+
+	it('should fall back to the given message for unknown codes', () => {
+		expect(service.getMessageForCode('NOT_FOUND')).toBe(
+			'The requested item could not be found.'
+		);
+		expect(service.getMessageForCode('MAINTENANCE', 'Try later')).toBe(
+			'Try later'
+		);
+		expect(service.getMessageForCode(undefined)).toBe('An error occurred');
+	});
+});
@@ -1,17 +1,45 @@
 /**
  * Error Handler Service (SRP - Single Responsibility)
  * Handles all error scenarios consistently
+ * API errors carry a machine-readable code ({ code, message }) mapped to user messages here
  */
 import { Injectable } from '@angular/core';
 import { HttpErrorResponse } from '@angular/common/http';
 import { Observable, throwError } from 'rxjs';
+import {
+	ApiErrorCode,
+	ApiErrorResponse,
+	UploadFailure,
+} from '../../models/api-error';
 
 export interface ErrorDetails {
 	message: string;
 	statusCode?: number;
+	code?: ApiErrorCode;
+	failures?: UploadFailure[];
 	originalError?: unknown;
 }
 
+const ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+	DUPLICATE_NAME: 'An item with this name already exists in this location.',
+	FOLDER_NOT_EMPTY: 'This folder is not empty.',
+	PARENT_NOT_FOUND: 'The destination folder no longer exists.',
+	INVALID_PARENT: 'This item cannot be moved to the selected folder.',
+	INVALID_NAME: 'This name is not valid.',
+	INVALID_INPUT: 'The request is invalid. Please check your input.',
+	NOT_FOUND: 'The requested item could not be found.',
+	FILE_NOT_FOUND: 'The file content is missing on the server.',
+	IS_FOLDER: 'Folders cannot be downloaded as a single file.',
+	UPLOAD_FAILED: 'The upload failed.',
+	PARTIAL_SUCCESS: 'Some items could not be processed.',
+	PROCESSING_ERROR: 'The server could not process this file.',
+	UNSUPPORTED_TYPE: 'This operation is not available for this file type.',
+	INVALID_CHUNK: 'Part of the upload was corrupted. Please retry.',
+	INCOMPLETE_UPLOAD: 'The upload is incomplete. Please retry.',
+	PAYLOAD_TOO_LARGE: 'The file is too large to upload.',
+	SERVER_ERROR: 'Server error. Please try again later.',
+};
+
 @Injectable({
 	providedIn: 'root',
 })
@@ -41,6 +69,10 @@ export class ErrorHandlerService {
 	}
 
 	private handleHttpError(error: HttpErrorResponse): ErrorDetails {
+		const body = this.getErrorBody(error);
+		const code = body?.code;
+		const failures = body?.errors;
+
 		if (error.status === 0) {
 			return {
 				message: 'Network error. Please check your connection.',
@@ -51,8 +83,9 @@ export class ErrorHandlerService {
 
 		if (error.status === 404) {
 			return {
-				message: 'Resource not found.',
+				message: body?.message || 'Resource not found.',
 				statusCode: 404,
+				code,
 				originalError: error,
 			};
 		}
@@ -61,18 +94,62 @@ export class ErrorHandlerService {
 			return {
 				message: 'Server error. Please try again later.',
 				statusCode: error.status,
+				code,
 				originalError: error,
 			};
 		}
 
 		return {
-			message: error.error?.message || 'An error occurred',
+			message: body?.message || 'An error occurred',
 			statusCode: error.status,
+			code,
+			failures,
 			originalError: error,
 		};
 	}
 
+	/**
+	 * Read the { code, message } envelope (blob responses, e.g. downloads, have none)
+	 */
+	private getErrorBody(
+		error: HttpErrorResponse
+	): (ApiErrorResponse & { errors?: UploadFailure[] }) | null {
+		const body = error.error;
+		return body && typeof body === 'object' && typeof body.code === 'string'
+			? body
+			: null;
+	}
+
+	/**
+	 * User message for an API error code, `fallback` for unknown codes
+	 */
+	getMessageForCode(code?: string, fallback = 'An error occurred'): string {
+		return code && code in ERROR_MESSAGES
+			? ERROR_MESSAGES[code as ApiErrorCode]
+			: fallback;
+	}
+
+	/**
+	 * Describe each rejected file, e.g. `"a.pdf" (An item with this name already exists…)`
+	 */
+	describeUploadFailures(failures: UploadFailure[]): string {
+		return failures
+			.map(
+				failure =>
+					`"${failure.filename}" (${this.getMessageForCode(failure.code, failure.message)})`
+			)
+			.join(', ');
+	}
+
 	getUserFriendlyMessage(error: ErrorDetails): string {
+		if (error.code === 'UPLOAD_FAILED' && error.failures?.length) {
+			return this.describeUploadFailures(error.failures);
+		}
+
+		if (error.code && error.code in ERROR_MESSAGES) {
+			return ERROR_MESSAGES[error.code];
+		}
+
 		switch (error.statusCode) {
 			case 0:
 				return 'Unable to connect. Please check your internet connection.';
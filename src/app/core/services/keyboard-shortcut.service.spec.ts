@@ -0,0 +1,125 @@
+import { TestBed } from '@angular/core/testing';
+import {
+	KeyboardShortcut,
+	KeyboardShortcutService,
+} from './keyboard-shortcut.service';
+
+describe('KeyboardShortcutService', () => {
+	let service: KeyboardShortcutService;
+	// The document listener outlives each test, so layers are removed explicitly
+	let unregisters: (() => void)[];
+
+	const shortcut = (
+		keys: string,
+		handler: KeyboardShortcut['handler'] = () => undefined,
+		enabled?: () => boolean
+	): KeyboardShortcut => ({
+		keys: [keys],
+		description: keys,
+		group: 'Test',
+		handler,
+		enabled,
+	});
+
+	const press = (
+		key: string,
+		init: KeyboardEventInit = {},
+		target: EventTarget = document
+	): KeyboardEvent => {
+		const event = new KeyboardEvent('keydown', {
+			key,
+			bubbles: true,
+			cancelable: true,
+			...init,
+		});
+		target.dispatchEvent(event);
+		return event;
+	};
+
+	const register: KeyboardShortcutService['register'] = (
+		shortcuts,
+		options
+	) => {
+		const unregister = service.register(shortcuts, options);
+		unregisters.push(unregister);
+		return unregister;
+	};
+
+	beforeEach(() => {
+		service = TestBed.inject(KeyboardShortcutService);
+		unregisters = [];
+	});
+
+	afterEach(() => unregisters.forEach(unregister => unregister()));
+
+	it('should run the matching shortcut and prevent the default action', () => {
+		const handler = jasmine.createSpy('handler');
+		register([shortcut('Ctrl+Shift+N', handler)]);
+
+		const event = press('N', { ctrlKey: true, shiftKey: true });
+
+		expect(handler).toHaveBeenCalledOnceWith(event);
+		expect(event.defaultPrevented).toBeTrue();
+	});
+
+	it('should treat Cmd as Ctrl and ignore Shift for printed symbols', () => {
+		const selectAll = jasmine.createSpy('selectAll');
+		const help = jasmine.createSpy('help');
+		register([shortcut('Ctrl+A', selectAll), shortcut('?', help)]);
+
+		press('a', { metaKey: true });
+		press('?', { shiftKey: true });
+
+		expect(selectAll).toHaveBeenCalledTimes(1);
+		expect(help).toHaveBeenCalledTimes(1);
+	});
+
+	it('should leave the key to the browser when the handler returns false', () => {
+		register([shortcut('Enter', () => false)]);
+
+		expect(press('Enter').defaultPrevented).toBeFalse();
+	});
+
+	it('should not fire while a text field is focused', () => {
+		const handler = jasmine.createSpy('handler');
+		register([shortcut('Delete', handler)]);
+		const input = document.createElement('input');
+		document.body.appendChild(input);
+
+		press('Delete', {}, input);
+		input.remove();
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it('should hide the layers below a modal layer until it is removed', () => {
+		const listNext = jasmine.createSpy('listNext');
+		const previewNext = jasmine.createSpy('previewNext');
+		register([shortcut('ArrowRight', listNext), shortcut('Delete')]);
+		const unregister = register([shortcut('ArrowRight', previewNext)], {
+			modal: true,
+		});
+
+		press('ArrowRight');
+		expect(previewNext).toHaveBeenCalledTimes(1);
+		expect(listNext).not.toHaveBeenCalled();
+		expect(
+			service.getActiveShortcuts().map(active => active.description)
+		).toEqual(['ArrowRight']);
+
+		unregister();
+		press('ArrowRight');
+		expect(listNext).toHaveBeenCalledTimes(1);
+	});
+
+	it('should skip disabled shortcuts', () => {
+		const handler = jasmine.createSpy('handler');
+		register([shortcut('Delete', handler, () => false)]);
+
+		const event = press('Delete');
+
+		expect(handler).not.toHaveBeenCalled();
+		expect(event.defaultPrevented).toBeFalse();
+		expect(service.getActiveShortcuts()).toEqual([]);
+	});
+});
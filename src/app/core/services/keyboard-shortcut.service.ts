@@ -0,0 +1,130 @@
+/**
+ * Keyboard Shortcut Service (SRP - Single Responsibility)
+ * Single document keydown listener dispatching to registered shortcuts, so
+ * features add their keys here instead of listening on the document themselves.
+ *
+ * - Keys are written like `Ctrl+Shift+N`, `Alt+ArrowUp` or `?` (Ctrl also matches Cmd)
+ * - Nothing fires while a text field is focused or a dialog has focus
+ * - Registrations form layers: the latest wins, and a modal layer (e.g. the
+ *   preview overlay) hides every layer below it until it is unregistered
+ */
+import { DOCUMENT } from '@angular/common';
+import { Injectable, inject } from '@angular/core';
+import { fromEvent } from 'rxjs';
+
+export interface KeyboardShortcut {
+	keys: string[];
+	description: string;
+	// Section of the help overlay
+	group: string;
+	// Returning false leaves the key to the browser (e.g. Enter on a focused button)
+	handler: (event: KeyboardEvent) => boolean | void;
+	// Checked on every key press, e.g. to limit a shortcut to one view
+	enabled?: () => boolean;
+}
+
+export interface ShortcutLayerOptions {
+	modal?: boolean;
+}
+
+interface ShortcutLayer {
+	shortcuts: KeyboardShortcut[];
+	modal: boolean;
+}
+
+const MODIFIERS = ['ctrl', 'alt', 'shift'];
+const TEXT_INPUT_SELECTOR =
+	'input:not([type=checkbox]):not([type=radio]):not([type=button]), textarea, select, [contenteditable]:not([contenteditable=false])';
+// CDK dialogs render in the overlay container and handle their own keys
+const OVERLAY_SELECTOR = '.cdk-overlay-container';
+
+@Injectable({
+	providedIn: 'root',
+})
+export class KeyboardShortcutService {
+	private readonly document = inject(DOCUMENT);
+	private layers: ShortcutLayer[] = [];
+
+	constructor() {
+		// Root singleton: the listener lives as long as the app
+		fromEvent<KeyboardEvent>(this.document, 'keydown').subscribe(event =>
+			this.handleKeydown(event)
+		);
+	}
+
+	/**
+	 * Add a layer of shortcuts; call the returned function to remove it
+	 */
+	register(
+		shortcuts: KeyboardShortcut[],
+		options: ShortcutLayerOptions = {}
+	): () => void {
+		const layer: ShortcutLayer = { shortcuts, modal: !!options.modal };
+		this.layers = [...this.layers, layer];
+		return () => {
+			this.layers = this.layers.filter(current => current !== layer);
+		};
+	}
+
+	/**
+	 * Shortcuts a key press can reach right now (for the help overlay), latest layer first
+	 */
+	getActiveShortcuts(): KeyboardShortcut[] {
+		const active: KeyboardShortcut[] = [];
+		for (const layer of [...this.layers].reverse()) {
+			active.push(
+				...layer.shortcuts.filter(shortcut => shortcut.enabled?.() !== false)
+			);
+			if (layer.modal) break;
+		}
+		return active;
+	}
+
+	private handleKeydown(event: KeyboardEvent): void {
+		if (event.defaultPrevented || event.isComposing || this.isIgnored(event)) {
+			return;
+		}
+
+		const combination = this.fromEvent(event);
+		const shortcut = this.getActiveShortcuts().find(candidate =>
+			candidate.keys.some(keys => this.normalize(keys) === combination)
+		);
+		if (shortcut && shortcut.handler(event) !== false) {
+			event.preventDefault();
+		}
+	}
+
+	private isIgnored(event: KeyboardEvent): boolean {
+		const target = event.target;
+		return (
+			target instanceof Element &&
+			(!!target.closest(TEXT_INPUT_SELECTOR) ||
+				!!target.closest(OVERLAY_SELECTOR))
+		);
+	}
+
+	/**
+	 * `Ctrl+Shift+N` → `ctrl+shift+n`, modifiers in a fixed order
+	 */
+	private normalize(keys: string): string {
+		const parts = keys.split('+').map(part => part.trim().toLowerCase());
+		const key = parts.pop() ?? '';
+		const modifiers = MODIFIERS.filter(modifier => parts.includes(modifier));
+		return [...modifiers, key].join('+');
+	}
+
+	/**
+	 * Shift is implied by printed symbols (`?` is Shift+/ on most layouts), so it
+	 * only counts for letters and named keys
+	 */
+	private fromEvent(event: KeyboardEvent): string {
+		const key = event.key.toLowerCase();
+		const isSymbol = key.length === 1 && key.toUpperCase() === key;
+		const modifiers = [
+			(event.ctrlKey || event.metaKey) && 'ctrl',
+			event.altKey && 'alt',
+			event.shiftKey && !isSymbol && 'shift',
+		].filter((modifier): modifier is string => !!modifier);
+		return [...modifiers, key].join('+');
+	}
+}
@@ -0,0 +1,118 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Subject, of } from 'rxjs';
+import { LiveUpdatesService } from './live-updates.service';
+import { NotificationService } from './notification.service';
+import { FileStateService } from '../state/file-state.service';
+import { FileManagerFacade } from '../facades/file-manager.facade';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import {
+	FileItem,
+	ItemChangeEvent,
+	ItemsResetEvent,
+} from '../../models/file-item';
+
+describe('LiveUpdatesService', () => {
+	let service: LiveUpdatesService;
+	let state: FileStateService;
+	let facade: jasmine.SpyObj<FileManagerFacade>;
+	let notifications: NotificationService;
+	let changes: Subject<ItemChangeEvent | ItemsResetEvent>;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	beforeEach(() => {
+		changes = new Subject();
+		const repository = jasmine.createSpyObj<IFileRepository>('repository', [
+			'watchChanges',
+		]);
+		repository.watchChanges.and.returnValue(changes);
+		facade = jasmine.createSpyObj<FileManagerFacade>('facade', [
+			'loadItems',
+			'loadBreadcrumbPath',
+			'refreshFolderTree',
+		]);
+		facade.loadItems.and.returnValue(of([]));
+		facade.loadBreadcrumbPath.and.returnValue(of([]));
+
+		TestBed.configureTestingModule({
+			providers: [
+				{ provide: FILE_REPOSITORY, useValue: repository },
+				{ provide: FileManagerFacade, useValue: facade },
+			],
+		});
+		service = TestBed.inject(LiveUpdatesService);
+		state = TestBed.inject(FileStateService);
+		notifications = TestBed.inject(NotificationService);
+		state.setCurrentFolderId('docs');
+		state.setItems([item('a'), item('b')]);
+	});
+
+	it('should apply a change in the open folder and highlight it for a moment', fakeAsync(() => {
+		service.connect().subscribe();
+
+		changes.next({ type: 'updated', item: item('a', { name: 'renamed.txt' }) });
+
+		expect(state.state.items.map(current => current.name)).toEqual([
+			'renamed.txt',
+			'b.txt',
+		]);
+		expect(state.state.highlightedIds).toEqual(['a']);
+
+		tick(2000);
+		expect(state.state.highlightedIds).toEqual([]);
+	}));
+
+	it('should take deleted items and items moved away out of the listing', () => {
+		service.connect().subscribe();
+
+		changes.next({ type: 'deleted', item: item('a') });
+		changes.next({
+			type: 'moved',
+			item: item('b', { parentId: 'photos' }),
+			previousParentId: 'docs',
+		});
+
+		expect(state.state.items).toEqual([]);
+		expect(state.state.highlightedIds).toEqual([]);
+	});
+
+	it('should reload the open folder when missed changes are gone', () => {
+		service.connect().subscribe();
+
+		changes.next({ type: 'reset' });
+
+		expect(facade.loadItems).toHaveBeenCalledWith('docs');
+		expect(facade.refreshFolderTree).toHaveBeenCalled();
+	});
+
+	it('should report the folder to open when the open one went to the trash', () => {
+		state.setBreadcrumbPath([
+			item('projects', { name: 'Projects', folder: true, parentId: null }),
+			item('docs', { name: 'Docs', folder: true, parentId: 'projects' }),
+		]);
+		spyOn(notifications, 'warning');
+		const folders: (string | null)[] = [];
+		service.connect().subscribe(folderId => folders.push(folderId));
+
+		changes.next({ type: 'deleted', item: item('a') });
+		changes.next({
+			type: 'deleted',
+			item: item('projects', { name: 'Projects', folder: true }),
+		});
+
+		expect(folders).toEqual([null]);
+		expect(notifications.warning).toHaveBeenCalledWith(
+			'"Projects" was moved to the trash elsewhere'
+		);
+	});
+});
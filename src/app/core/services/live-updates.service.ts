@@ -0,0 +1,123 @@
+/**
+ * Live Updates Service (SRP - Single Responsibility)
+ * Applies the item changes the repository reports (another tab or another
+ * user, see IFileRepository.watchChanges) to the open folder, the sidebar tree
+ * and the breadcrumb, so they show up without navigating.
+ *
+ * - A `reset` event means missed changes are gone: the folder is reloaded
+ * - Items changed elsewhere are highlighted for a moment
+ * - When the open folder (or one above it) is moved to the trash, the closest
+ *   folder left is reported so the view can leave it
+ */
+import { Injectable, inject } from '@angular/core';
+import { Observable, filter, map, tap } from 'rxjs';
+import { FileStateService } from '../state/file-state.service';
+import {
+	FILE_REPOSITORY,
+	IFileRepository,
+} from '../interfaces/file-repository.interface';
+import { FileManagerFacade } from '../facades/file-manager.facade';
+import { NotificationService } from './notification.service';
+import { FileItem, ItemChangeEvent } from '../../models/file-item';
+
+const HIGHLIGHT_DURATION = 2000;
+
+@Injectable({
+	providedIn: 'root',
+})
+export class LiveUpdatesService {
+	private readonly state = inject(FileStateService);
+	private readonly repository: IFileRepository = inject(FILE_REPOSITORY);
+	private readonly facade = inject(FileManagerFacade);
+	private readonly notifications = inject(NotificationService);
+
+	private readonly highlightTimers = new Map<
+		string,
+		ReturnType<typeof setTimeout>
+	>();
+
+	/**
+	 * Apply changes while subscribed. Emits the folder to open instead (null for
+	 * the root) when the open folder went to the trash.
+	 */
+	connect(): Observable<string | null> {
+		return this.repository.watchChanges().pipe(
+			tap(change => {
+				if (change.type === 'reset') {
+					this.reload();
+				} else {
+					this.apply(change);
+				}
+			}),
+			filter((change): change is ItemChangeEvent => change.type === 'deleted'),
+			map(change => this.findFolderLeft(change.item)),
+			filter((folderId): folderId is string | null => folderId !== undefined)
+		);
+	}
+
+	private apply(change: ItemChangeEvent): void {
+		const { type, item } = change;
+		const { currentFolderId, breadcrumbPath } = this.state.state;
+
+		let changed = false;
+		if (type === 'deleted') {
+			this.state.removeItem(item.id);
+		} else if (item.parentId === currentFolderId) {
+			changed = this.state.upsertItem(item);
+		} else if (type === 'moved') {
+			this.state.removeItem(item.id);
+		}
+		if (changed) {
+			this.highlight(item.id);
+		}
+
+		if (
+			(type === 'updated' || type === 'moved') &&
+			breadcrumbPath.some(folder => folder.id === item.id)
+		) {
+			this.facade.loadBreadcrumbPath(currentFolderId).subscribe();
+		}
+		if (item.folder) {
+			this.facade.refreshFolderTree();
+		}
+	}
+
+	/**
+	 * Closest folder above `trashed` on the open path, undefined when the open
+	 * folder is not inside it
+	 */
+	private findFolderLeft(trashed: FileItem): string | null | undefined {
+		const { breadcrumbPath } = this.state.state;
+		const index = breadcrumbPath.findIndex(folder => folder.id === trashed.id);
+		if (index === -1) {
+			return undefined;
+		}
+		this.notifications.warning(
+			`"${trashed.name}" was moved to the trash elsewhere`
+		);
+		return breadcrumbPath[index - 1]?.id ?? null;
+	}
+
+	private reload(): void {
+		const { currentFolderId } = this.state.state;
+		this.facade.loadItems(currentFolderId || undefined).subscribe();
+		this.facade.refreshFolderTree();
+	}
+
+	private highlight(itemId: string): void {
+		clearTimeout(this.highlightTimers.get(itemId));
+		this.state.setHighlightedIds([
+			...this.state.state.highlightedIds.filter(id => id !== itemId),
+			itemId,
+		]);
+		this.highlightTimers.set(
+			itemId,
+			setTimeout(() => {
+				this.highlightTimers.delete(itemId);
+				this.state.setHighlightedIds(
+					this.state.state.highlightedIds.filter(id => id !== itemId)
+				);
+			}, HIGHLIGHT_DURATION)
+		);
+	}
+}
@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of } from 'rxjs';
+import {
+	Notification,
+	NotificationService,
+	NotificationType,
+} from './notification.service';
+
+describe('NotificationService', () => {
+	let service: NotificationService;
+	let notifications: Notification[];
+
+	beforeEach(() => {
+		service = TestBed.inject(NotificationService);
+		notifications = [];
+		service.notifications$.subscribe(notification =>
+			notifications.push(notification)
+		);
+	});
+
+	it('should emit each notification with its type and default duration', () => {
+		service.success('Folder created');
+		service.error('Upload failed');
+
+		expect(notifications).toEqual([
+			{
+				type: NotificationType.Success,
+				message: 'Folder created',
+				duration: 3000,
+				action: undefined,
+			},
+			{
+				type: NotificationType.Error,
+				message: 'Upload failed',
+				duration: 5000,
+				action: undefined,
+			},
+		]);
+	});
+
+	it('should build a Retry action that re-runs the operation once', () => {
+		const results = new Subject<string>();
+		const operation = jasmine.createSpy('operation').and.returnValue(results);
+		const action = service.retryAction(operation);
+
+		action.callback();
+		results.next('first');
+		results.next('second');
+
+		expect(action.label).toBe('Retry');
+		expect(operation).toHaveBeenCalledTimes(1);
+		expect(results.observed).toBeFalse();
+	});
+
+	it('should re-run the operation on every click', () => {
+		const operation = jasmine
+			.createSpy('operation')
+			.and.callFake(() => of('done'));
+		const action = service.retryAction(operation);
+
+		action.callback();
+		action.callback();
+
+		expect(operation).toHaveBeenCalledTimes(2);
+	});
+});
@@ -3,7 +3,7 @@
  * Handles user notifications consistently
  */
 import { Injectable } from '@angular/core';
-import { Subject, Observable } from 'rxjs';
+import { Subject, Observable, take } from 'rxjs';
 
 export enum NotificationType {
 	Success = 'success',
@@ -12,10 +12,19 @@ export enum NotificationType {
 	Info = 'info',
 }
 
+/**
+ * Optional button rendered inside a notification (e.g. "Retry")
+ */
+export interface NotificationAction {
+	label: string;
+	callback: () => void;
+}
+
 export interface Notification {
 	type: NotificationType;
 	message: string;
 	duration?: number;
+	action?: NotificationAction;
 }
 
 @Injectable({
@@ -28,23 +37,38 @@ export class NotificationService {
 		return this.notification$.asObservable();
 	}
 
-	success(message: string, duration = 3000): void {
-		this.show(NotificationType.Success, message, duration);
+	success(message: string, duration = 3000, action?: NotificationAction): void {
+		this.show(NotificationType.Success, message, duration, action);
+	}
+
+	error(message: string, duration = 5000, action?: NotificationAction): void {
+		this.show(NotificationType.Error, message, duration, action);
 	}
 
-	error(message: string, duration = 5000): void {
-		this.show(NotificationType.Error, message, duration);
+	warning(message: string, duration = 4000, action?: NotificationAction): void {
+		this.show(NotificationType.Warning, message, duration, action);
 	}
 
-	warning(message: string, duration = 4000): void {
-		this.show(NotificationType.Warning, message, duration);
+	info(message: string, duration = 3000, action?: NotificationAction): void {
+		this.show(NotificationType.Info, message, duration, action);
 	}
 
-	info(message: string, duration = 3000): void {
-		this.show(NotificationType.Info, message, duration);
+	/**
+	 * Build a "Retry" action that re-runs a failed operation
+	 */
+	retryAction(operation: () => Observable<unknown>): NotificationAction {
+		return {
+			label: 'Retry',
+			callback: () => operation().pipe(take(1)).subscribe(),
+		};
 	}
 
-	private show(type: NotificationType, message: string, duration?: number): void {
-		this.notification$.next({ type, message, duration });
+	private show(
+		type: NotificationType,
+		message: string,
+		duration?: number,
+		action?: NotificationAction
+	): void {
+		this.notification$.next({ type, message, duration, action });
 	}
 }
@@ -0,0 +1,156 @@
+import { TestBed } from '@angular/core/testing';
+import { convertToParamMap } from '@angular/router';
+import { ViewPreferencesService } from './view-preferences.service';
+import { DEFAULT_VIEW_OPTIONS, ViewOptions } from '../../models/view-options';
+import { EMPTY_FILTER_CRITERIA } from '../../models/item-filters';
+
+describe('ViewPreferencesService', () => {
+	let service: ViewPreferencesService;
+
+	const STORAGE_KEY = 'file-manager.view-options';
+	const listBySize: ViewOptions = {
+		mode: 'list',
+		sort: { field: 'size', direction: 'desc' },
+	};
+
+	beforeEach(() => {
+		localStorage.clear();
+		TestBed.configureTestingModule({});
+		service = TestBed.inject(ViewPreferencesService);
+	});
+
+	afterEach(() => localStorage.clear());
+
+	describe('persistence', () => {
+		it('should restore the saved options', () => {
+			service.save(listBySize);
+
+			expect(service.load()).toEqual(listBySize);
+		});
+
+		it('should use the defaults when nothing is stored', () => {
+			expect(service.load()).toEqual(DEFAULT_VIEW_OPTIONS);
+		});
+
+		it('should replace invalid stored values with the defaults', () => {
+			localStorage.setItem(
+				STORAGE_KEY,
+				JSON.stringify({ mode: 'list', sort: { field: 'color', direction: 1 } })
+			);
+
+			expect(service.load()).toEqual({
+				mode: 'list',
+				sort: DEFAULT_VIEW_OPTIONS.sort,
+			});
+		});
+
+		it('should ignore storage that cannot be parsed', () => {
+			localStorage.setItem(STORAGE_KEY, '{not json');
+
+			expect(service.load()).toEqual(DEFAULT_VIEW_OPTIONS);
+		});
+
+		it('should not throw when storage is unavailable', () => {
+			spyOn(Storage.prototype, 'setItem').and.throwError('QuotaExceededError');
+
+			expect(() => service.save(listBySize)).not.toThrow();
+		});
+	});
+
+	describe('expanded folders', () => {
+		it('should restore the expanded sidebar folders', () => {
+			service.saveExpandedFolders(['docs', 'music']);
+
+			expect(service.loadExpandedFolders()).toEqual(['docs', 'music']);
+		});
+
+		it('should drop stored values that are not folder ids', () => {
+			localStorage.setItem(
+				'file-manager.expanded-folders',
+				JSON.stringify(['docs', 42, null])
+			);
+
+			expect(service.loadExpandedFolders()).toEqual(['docs']);
+		});
+
+		it('should start collapsed when storage cannot be parsed', () => {
+			localStorage.setItem('file-manager.expanded-folders', '{"docs"');
+
+			expect(service.loadExpandedFolders()).toEqual([]);
+		});
+	});
+
+	describe('query params', () => {
+		it('should round-trip options through the URL', () => {
+			const params = convertToParamMap(service.toQueryParams(listBySize));
+
+			expect(service.fromQueryParams(params, DEFAULT_VIEW_OPTIONS)).toEqual(
+				listBySize
+			);
+		});
+
+		it('should complete partial params from the fallback', () => {
+			const params = convertToParamMap({ sort: 'modified' });
+
+			expect(service.fromQueryParams(params, listBySize)).toEqual({
+				mode: 'list',
+				sort: { field: 'modified', direction: 'desc' },
+			});
+		});
+
+		it('should return null when the URL has no view params', () => {
+			const params = convertToParamMap({ q: 'report' });
+
+			expect(service.fromQueryParams(params, listBySize)).toBeNull();
+		});
+	});
+
+	describe('filter params', () => {
+		it('should read valid filters from the URL', () => {
+			const params = convertToParamMap({
+				type: 'images',
+				minSize: '1024',
+				to: '2024-05-31',
+				name: 'beach',
+			});
+
+			expect(service.filtersFromQueryParams(params)).toEqual({
+				...EMPTY_FILTER_CRITERIA,
+				category: 'images',
+				minSize: 1024,
+				modifiedTo: '2024-05-31',
+				nameContains: 'beach',
+			});
+		});
+
+		it('should ignore invalid filter values', () => {
+			const params = convertToParamMap({
+				type: 'music',
+				minSize: '-5',
+				maxSize: '1.5',
+				from: '31/05/2024',
+				to: '2024-13-45',
+			});
+
+			expect(service.filtersFromQueryParams(params)).toEqual(
+				EMPTY_FILTER_CRITERIA
+			);
+		});
+
+		it('should map unset filters to null so they leave the URL', () => {
+			expect(
+				service.filtersToQueryParams({
+					...EMPTY_FILTER_CRITERIA,
+					category: 'code',
+				})
+			).toEqual({
+				type: 'code',
+				minSize: null,
+				maxSize: null,
+				from: null,
+				to: null,
+				name: null,
+			});
+		});
+	});
+});
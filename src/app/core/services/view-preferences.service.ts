@@ -0,0 +1,173 @@
+/**
+ * View Preferences Service (SRP - Single Responsibility)
+ * Persists the view mode, sort and expanded sidebar folders in local storage and
+ * converts the view options and filters from/to query params, so a sorted or
+ * filtered view survives reloads and can be shared as a link. Filters only live in the URL.
+ */
+import { Injectable } from '@angular/core';
+import { ParamMap, Params } from '@angular/router';
+import {
+	DEFAULT_VIEW_OPTIONS,
+	SortDirection,
+	SortField,
+	ViewMode,
+	ViewOptions,
+} from '../../models/view-options';
+import {
+	EMPTY_FILTER_CRITERIA,
+	FileCategory,
+	ItemFilterCriteria,
+} from '../../models/item-filters';
+
+const STORAGE_KEY = 'file-manager.view-options';
+const EXPANDED_FOLDERS_KEY = 'file-manager.expanded-folders';
+const VIEW_MODES: ViewMode[] = ['grid', 'list'];
+const SORT_FIELDS: SortField[] = ['name', 'size', 'type', 'modified'];
+const SORT_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+const FILE_CATEGORIES: FileCategory[] = [
+	'images',
+	'documents',
+	'spreadsheets',
+	'presentations',
+	'archives',
+	'code',
+	'text',
+];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Injectable({
+	providedIn: 'root',
+})
+export class ViewPreferencesService {
+	/**
+	 * Stored options, defaults for anything missing or invalid
+	 */
+	load(): ViewOptions {
+		try {
+			const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+			return this.normalize(
+				stored.mode,
+				stored.sort?.field,
+				stored.sort?.direction
+			);
+		} catch {
+			return DEFAULT_VIEW_OPTIONS;
+		}
+	}
+
+	save(options: ViewOptions): void {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+		} catch {
+			// Storage unavailable (private mode, quota): the URL still carries the view
+		}
+	}
+
+	loadExpandedFolders(): string[] {
+		try {
+			const stored = JSON.parse(
+				localStorage.getItem(EXPANDED_FOLDERS_KEY) ?? '[]'
+			);
+			return Array.isArray(stored)
+				? stored.filter(id => typeof id === 'string')
+				: [];
+		} catch {
+			return [];
+		}
+	}
+
+	saveExpandedFolders(ids: string[]): void {
+		try {
+			localStorage.setItem(EXPANDED_FOLDERS_KEY, JSON.stringify(ids));
+		} catch {
+			// Storage unavailable: the tree just starts collapsed next time
+		}
+	}
+
+	/**
+	 * Options from `view`, `sort` and `dir`; null when the URL has none of them
+	 */
+	fromQueryParams(params: ParamMap, fallback: ViewOptions): ViewOptions | null {
+		if (!params.has('view') && !params.has('sort') && !params.has('dir')) {
+			return null;
+		}
+		return this.normalize(
+			params.get('view') ?? fallback.mode,
+			params.get('sort') ?? fallback.sort.field,
+			params.get('dir') ?? fallback.sort.direction
+		);
+	}
+
+	toQueryParams(options: ViewOptions): Params {
+		return {
+			view: options.mode,
+			sort: options.sort.field,
+			dir: options.sort.direction,
+		};
+	}
+
+	/**
+	 * Filters from `type`, `minSize`, `maxSize`, `from`, `to` and `name`; invalid values are ignored
+	 */
+	filtersFromQueryParams(params: ParamMap): ItemFilterCriteria {
+		return {
+			category: this.pick(FILE_CATEGORIES, params.get('type'), null),
+			minSize: this.parseSize(params.get('minSize')),
+			maxSize: this.parseSize(params.get('maxSize')),
+			modifiedFrom: this.parseDate(params.get('from')),
+			modifiedTo: this.parseDate(params.get('to')),
+			nameContains: params.get('name') ?? EMPTY_FILTER_CRITERIA.nameContains,
+		};
+	}
+
+	/**
+	 * Unset filters map to null, so merging them into the URL removes their params
+	 */
+	filtersToQueryParams(criteria: ItemFilterCriteria): Params {
+		return {
+			type: criteria.category,
+			minSize: criteria.minSize,
+			maxSize: criteria.maxSize,
+			from: criteria.modifiedFrom,
+			to: criteria.modifiedTo,
+			name: criteria.nameContains || null,
+		};
+	}
+
+	private parseSize(value: string | null): number | null {
+		const size = Number(value);
+		return value && Number.isInteger(size) && size >= 0 ? size : null;
+	}
+
+	private parseDate(value: string | null): string | null {
+		return value && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+			? value
+			: null;
+	}
+
+	private normalize(
+		mode: unknown,
+		field: unknown,
+		direction: unknown
+	): ViewOptions {
+		return {
+			mode: this.pick(VIEW_MODES, mode, DEFAULT_VIEW_OPTIONS.mode),
+			sort: {
+				field: this.pick(SORT_FIELDS, field, DEFAULT_VIEW_OPTIONS.sort.field),
+				direction: this.pick(
+					SORT_DIRECTIONS,
+					direction,
+					DEFAULT_VIEW_OPTIONS.sort.direction
+				),
+			},
+		};
+	}
+
+	private pick<T extends string, F extends T | null>(
+		allowed: T[],
+		value: unknown,
+		fallback: F
+	): T | F {
+		return allowed.includes(value as T) ? (value as T) : fallback;
+	}
+}
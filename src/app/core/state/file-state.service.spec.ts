@@ -0,0 +1,150 @@
+import { TestBed } from '@angular/core/testing';
+import { FileStateService } from './file-state.service';
+import { FileItem } from '../../models/file-item';
+
+describe('FileStateService optimistic updates', () => {
+	let state: FileStateService;
+
+	const item = (id: string, overrides: Partial<FileItem> = {}): FileItem => ({
+		id,
+		name: `${id}.txt`,
+		folder: false,
+		parentId: 'docs',
+		modification: '2024-05-10T12:00:00Z',
+		...overrides,
+	});
+
+	const ids = () => state.state.items.map(current => current.id);
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({});
+		state = TestBed.inject(FileStateService);
+		state.setCurrentFolderId('docs');
+		state.setItems([item('a'), item('b'), item('c')]);
+	});
+
+	describe('inserted items', () => {
+		const folder = {
+			name: 'New folder',
+			folder: true,
+			parentId: 'docs',
+			modification: '2024-05-10T12:00:00Z',
+		};
+
+		it('should show the item as being created until the server answers', () => {
+			const transaction = state.insertOptimistic(folder);
+
+			const [pending] = state.state.items.slice(-1);
+			expect(pending.name).toBe('New folder');
+			expect(state.state.creatingIds).toEqual([pending.id]);
+			expect(state.state.pendingRenames[pending.id]).toBe('New folder');
+
+			state.commitOptimistic(transaction, item('created', folder));
+
+			expect(state.state.creatingIds).toEqual([]);
+			expect(state.state.pendingRenames).toEqual({});
+		});
+
+		it('should replace the guess with the server item in its place', () => {
+			const transaction = state.insertOptimistic(folder);
+
+			state.commitOptimistic(
+				transaction,
+				item('created', { ...folder, name: 'New folder (1)' })
+			);
+
+			expect(ids()).toEqual(['a', 'b', 'c', 'created']);
+			expect(state.state.items[3].name).toBe('New folder (1)');
+		});
+
+		it('should not list the server item twice when it arrived first', () => {
+			const transaction = state.insertOptimistic(folder);
+			// e.g. a live update or a reload came back before the response
+			state.upsertItem(item('created', folder));
+
+			state.commitOptimistic(transaction, item('created', folder));
+
+			expect(ids()).toEqual(['a', 'b', 'c', 'created']);
+		});
+
+		it('should remove the item on rollback', () => {
+			const transaction = state.insertOptimistic(folder);
+
+			state.rollbackOptimistic(transaction);
+
+			expect(ids()).toEqual(['a', 'b', 'c']);
+			expect(state.state.creatingIds).toEqual([]);
+		});
+
+		it('should not show an item created in another folder', () => {
+			state.insertOptimistic({ ...folder, parentId: 'photos' });
+
+			expect(ids()).toEqual(['a', 'b', 'c']);
+		});
+	});
+
+	describe('updated items', () => {
+		it('should show the change and restore the item on rollback', () => {
+			const transaction = state.updateOptimistic('b', { name: 'renamed.txt' });
+
+			expect(state.state.items[1].name).toBe('renamed.txt');
+			expect(state.state.pendingRenames).toEqual({ b: 'renamed.txt' });
+
+			state.rollbackOptimistic(transaction);
+
+			expect(state.state.items[1]).toEqual(item('b'));
+			expect(state.state.pendingRenames).toEqual({});
+		});
+
+		it('should keep the server version on commit', () => {
+			const transaction = state.updateOptimistic('b', { name: 'renamed.txt' });
+
+			state.commitOptimistic(
+				transaction,
+				item('b', { name: 'renamed (1).txt' })
+			);
+
+			expect(ids()).toEqual(['a', 'b', 'c']);
+			expect(state.state.items[1].name).toBe('renamed (1).txt');
+		});
+	});
+
+	describe('removed items', () => {
+		it('should put the item back where it was on rollback', () => {
+			const transaction = state.removeOptimistic('b');
+
+			expect(ids()).toEqual(['a', 'c']);
+
+			state.rollbackOptimistic(transaction);
+
+			expect(ids()).toEqual(['a', 'b', 'c']);
+		});
+
+		it('should leave the listing alone on commit', () => {
+			const transaction = state.removeOptimistic('b');
+
+			state.commitOptimistic(transaction);
+
+			expect(ids()).toEqual(['a', 'c']);
+		});
+	});
+
+	it('should not touch the listing after navigating to another folder', () => {
+		const transaction = state.removeOptimistic('b');
+		state.setCurrentFolderId('photos');
+		state.setItems([item('x', { parentId: 'photos' })]);
+
+		state.rollbackOptimistic(transaction);
+
+		expect(ids()).toEqual(['x']);
+	});
+
+	it('should end each transaction once', () => {
+		const transaction = state.removeOptimistic('b');
+		state.rollbackOptimistic(transaction);
+
+		state.rollbackOptimistic(transaction);
+
+		expect(ids()).toEqual(['a', 'b', 'c']);
+	});
+});
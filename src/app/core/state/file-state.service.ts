@@ -5,7 +5,18 @@
  */
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable, distinctUntilChanged, map } from 'rxjs';
-import { FileItem } from '../../models/file-item';
+import {
+	FileItem,
+	FolderTree,
+	SearchResult,
+	TrashItem,
+	UploadTask,
+} from '../../models/file-item';
+import { DEFAULT_VIEW_OPTIONS, ViewOptions } from '../../models/view-options';
+import {
+	EMPTY_FILTER_CRITERIA,
+	ItemFilterCriteria,
+} from '../../models/item-filters';
 
 export interface FileState {
 	items: FileItem[];
@@ -14,6 +25,33 @@ export interface FileState {
 	isLoading: boolean;
 	isUploading: boolean;
 	error: string | null;
+	searchQuery: string | null;
+	searchResults: SearchResult[];
+	trashItems: TrashItem[];
+	selectedIds: string[];
+	selectionAnchorId: string | null;
+	uploads: UploadTask[];
+	viewOptions: ViewOptions;
+	filters: ItemFilterCriteria;
+	folderTree: FolderTree;
+	expandedFolderIds: string[];
+	/** Items waiting for the server (in-place renames, optimistic changes): item id -> name shown */
+	pendingRenames: Record<string, string>;
+	/** Optimistic items the server has not created yet: shown, but not usable */
+	creatingIds: string[];
+	/** Items recently changed by another client, highlighted for a moment */
+	highlightedIds: string[];
+}
+
+/**
+ * Optimistic change of the listing, undone by putting `before` back
+ */
+interface OptimisticTransaction {
+	folderId: string | null;
+	itemId: string;
+	// null for an inserted item
+	before: FileItem | null;
+	index: number;
 }
 
 const initialState: FileState = {
@@ -23,6 +61,19 @@ const initialState: FileState = {
 	isLoading: false,
 	isUploading: false,
 	error: null,
+	searchQuery: null,
+	searchResults: [],
+	trashItems: [],
+	selectedIds: [],
+	selectionAnchorId: null,
+	uploads: [],
+	viewOptions: DEFAULT_VIEW_OPTIONS,
+	filters: EMPTY_FILTER_CRITERIA,
+	folderTree: {},
+	expandedFolderIds: [],
+	pendingRenames: {},
+	creatingIds: [],
+	highlightedIds: [],
 };
 
 @Injectable({
@@ -30,6 +81,8 @@ const initialState: FileState = {
 })
 export class FileStateService {
 	private readonly state$ = new BehaviorSubject<FileState>(initialState);
+	private readonly transactions = new Map<number, OptimisticTransaction>();
+	private transactionSequence = 0;
 
 	// Expose state as observables (ISP - Interface Segregation)
 	readonly items$: Observable<FileItem[]> = this.state$.pipe(
@@ -62,6 +115,72 @@ export class FileStateService {
 		distinctUntilChanged()
 	);
 
+	readonly searchQuery$: Observable<string | null> = this.state$.pipe(
+		map(state => state.searchQuery),
+		distinctUntilChanged()
+	);
+
+	readonly searchResults$: Observable<SearchResult[]> = this.state$.pipe(
+		map(state => state.searchResults),
+		distinctUntilChanged()
+	);
+
+	readonly trashItems$: Observable<TrashItem[]> = this.state$.pipe(
+		map(state => state.trashItems),
+		distinctUntilChanged()
+	);
+
+	readonly selectedIds$: Observable<string[]> = this.state$.pipe(
+		map(state => state.selectedIds),
+		distinctUntilChanged()
+	);
+
+	readonly selectionAnchorId$: Observable<string | null> = this.state$.pipe(
+		map(state => state.selectionAnchorId),
+		distinctUntilChanged()
+	);
+
+	readonly uploads$: Observable<UploadTask[]> = this.state$.pipe(
+		map(state => state.uploads),
+		distinctUntilChanged()
+	);
+
+	readonly viewOptions$: Observable<ViewOptions> = this.state$.pipe(
+		map(state => state.viewOptions),
+		distinctUntilChanged()
+	);
+
+	readonly filters$: Observable<ItemFilterCriteria> = this.state$.pipe(
+		map(state => state.filters),
+		distinctUntilChanged()
+	);
+
+	readonly folderTree$: Observable<FolderTree> = this.state$.pipe(
+		map(state => state.folderTree),
+		distinctUntilChanged()
+	);
+
+	readonly expandedFolderIds$: Observable<string[]> = this.state$.pipe(
+		map(state => state.expandedFolderIds),
+		distinctUntilChanged()
+	);
+
+	readonly pendingRenames$: Observable<Record<string, string>> =
+		this.state$.pipe(
+			map(state => state.pendingRenames),
+			distinctUntilChanged()
+		);
+
+	readonly creatingIds$: Observable<string[]> = this.state$.pipe(
+		map(state => state.creatingIds),
+		distinctUntilChanged()
+	);
+
+	readonly highlightedIds$: Observable<string[]> = this.state$.pipe(
+		map(state => state.highlightedIds),
+		distinctUntilChanged()
+	);
+
 	get state(): FileState {
 		return this.state$.value;
 	}
@@ -70,8 +189,44 @@ export class FileStateService {
 		this.state$.next({ ...this.state$.value, ...partialState });
 	}
 
+	/**
+	 * Replace items and drop selected ids that no longer exist
+	 */
 	setItems(items: FileItem[]): void {
-		this.setState({ items });
+		const ids = new Set(items.map(item => item.id));
+		this.setState({
+			items,
+			selectedIds: this.state.selectedIds.filter(id => ids.has(id)),
+		});
+	}
+
+	/**
+	 * Add or replace one item of the listing; false when it was already up to date
+	 */
+	upsertItem(item: FileItem): boolean {
+		const index = this.state.items.findIndex(current => current.id === item.id);
+		if (index === -1) {
+			this.setItems([...this.state.items, item]);
+			return true;
+		}
+		if (JSON.stringify(this.state.items[index]) === JSON.stringify(item)) {
+			return false;
+		}
+		const items = [...this.state.items];
+		items[index] = item;
+		this.setItems(items);
+		return true;
+	}
+
+	/**
+	 * Remove one item of the listing; false when it was not there
+	 */
+	removeItem(itemId: string): boolean {
+		if (!this.state.items.some(item => item.id === itemId)) {
+			return false;
+		}
+		this.setItems(this.state.items.filter(item => item.id !== itemId));
+		return true;
 	}
 
 	setCurrentFolderId(folderId: string | null): void {
@@ -94,6 +249,193 @@ export class FileStateService {
 		this.setState({ error });
 	}
 
+	setSearch(
+		searchQuery: string | null,
+		searchResults: SearchResult[] = []
+	): void {
+		this.setState({ searchQuery, searchResults });
+	}
+
+	setSelection(
+		selectedIds: string[],
+		selectionAnchorId: string | null = null
+	): void {
+		this.setState({ selectedIds, selectionAnchorId });
+	}
+
+	clearSelection(): void {
+		this.setSelection([]);
+	}
+
+	/**
+	 * Replace the upload queue; isUploading follows the active tasks
+	 */
+	setUploads(uploads: UploadTask[]): void {
+		this.setState({
+			uploads,
+			isUploading: uploads.some(
+				task => task.status === 'queued' || task.status === 'uploading'
+			),
+		});
+	}
+
+	updateUpload(id: string, changes: Partial<UploadTask>): void {
+		this.setUploads(
+			this.state.uploads.map(task =>
+				task.id === id ? { ...task, ...changes } : task
+			)
+		);
+	}
+
+	setViewOptions(viewOptions: ViewOptions): void {
+		this.setState({ viewOptions });
+	}
+
+	setFilters(filters: ItemFilterCriteria): void {
+		this.setState({ filters });
+	}
+
+	setFolderTree(folderTree: FolderTree): void {
+		this.setState({ folderTree });
+	}
+
+	setExpandedFolderIds(expandedFolderIds: string[]): void {
+		this.setState({ expandedFolderIds });
+	}
+
+	setPendingRename(itemId: string, name: string | null): void {
+		const pendingRenames = { ...this.state.pendingRenames };
+		if (name === null) {
+			delete pendingRenames[itemId];
+		} else {
+			pendingRenames[itemId] = name;
+		}
+		this.setState({ pendingRenames });
+	}
+
+	/**
+	 * Show a new item of the current folder before the server created it.
+	 * Returns the transaction to commit or roll back once the server answers.
+	 */
+	insertOptimistic(item: Omit<FileItem, 'id'>): number {
+		const transaction = ++this.transactionSequence;
+		const pending: FileItem = { ...item, id: `optimistic-${transaction}` };
+		this.transactions.set(transaction, {
+			folderId: item.parentId,
+			itemId: pending.id,
+			before: null,
+			index: this.state.items.length,
+		});
+		if (item.parentId === this.state.currentFolderId) {
+			this.setItems([...this.state.items, pending]);
+			this.setPendingRename(pending.id, pending.name);
+		}
+		this.setState({ creatingIds: [...this.state.creatingIds, pending.id] });
+		return transaction;
+	}
+
+	/**
+	 * Apply changes to an item of the listing before the server confirmed them
+	 */
+	updateOptimistic(itemId: string, changes: Partial<FileItem>): number {
+		const index = this.state.items.findIndex(item => item.id === itemId);
+		const before = this.state.items[index];
+		const transaction = this.beginTransaction(itemId, before, index);
+		if (before) {
+			const items = [...this.state.items];
+			items[index] = { ...before, ...changes };
+			this.setItems(items);
+			this.setPendingRename(itemId, items[index].name);
+		}
+		return transaction;
+	}
+
+	/**
+	 * Take an item out of the listing before the server removed it
+	 */
+	removeOptimistic(itemId: string): number {
+		const index = this.state.items.findIndex(item => item.id === itemId);
+		const transaction = this.beginTransaction(
+			itemId,
+			this.state.items[index],
+			index
+		);
+		if (index !== -1) {
+			this.setItems(this.state.items.filter(item => item.id !== itemId));
+		}
+		return transaction;
+	}
+
+	/**
+	 * The server accepted the change; `item` is its version of an inserted or
+	 * updated item (e.g. with the name keep-both chose) and replaces the guess
+	 */
+	commitOptimistic(transaction: number, item?: FileItem): void {
+		const pending = this.endTransaction(transaction);
+		if (!pending || !item || pending.folderId !== this.state.currentFolderId) {
+			return;
+		}
+		const items = this.state.items.filter(
+			current => current.id !== pending.itemId && current.id !== item.id
+		);
+		items.splice(Math.min(pending.index, items.length), 0, item);
+		this.setItems(items);
+	}
+
+	/**
+	 * The server rejected the change: put the listing back as it was
+	 */
+	rollbackOptimistic(transaction: number): void {
+		const pending = this.endTransaction(transaction);
+		if (!pending || pending.folderId !== this.state.currentFolderId) {
+			return;
+		}
+		const items = this.state.items.filter(item => item.id !== pending.itemId);
+		if (pending.before) {
+			items.splice(Math.min(pending.index, items.length), 0, pending.before);
+		}
+		this.setItems(items);
+	}
+
+	private beginTransaction(
+		itemId: string,
+		before: FileItem | undefined,
+		index: number
+	): number {
+		const transaction = ++this.transactionSequence;
+		// An item outside the listing has nothing to reconcile
+		if (before) {
+			this.transactions.set(transaction, {
+				folderId: this.state.currentFolderId,
+				itemId,
+				before,
+				index,
+			});
+		}
+		return transaction;
+	}
+
+	private endTransaction(transaction: number): OptimisticTransaction | null {
+		const pending = this.transactions.get(transaction);
+		if (!pending) return null;
+		this.transactions.delete(transaction);
+		this.setPendingRename(pending.itemId, null);
+		if (this.state.creatingIds.includes(pending.itemId)) {
+			this.setState({
+				creatingIds: this.state.creatingIds.filter(id => id !== pending.itemId),
+			});
+		}
+		return pending;
+	}
+
+	setHighlightedIds(highlightedIds: string[]): void {
+		this.setState({ highlightedIds });
+	}
+
+	setTrashItems(trashItems: TrashItem[]): void {
+		this.setState({ trashItems });
+	}
+
 	reset(): void {
 		this.state$.next(initialState);
 	}
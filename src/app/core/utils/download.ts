@@ -0,0 +1,15 @@
+/**
+ * Download Utility (SRP - Single Responsibility)
+ * Hands a URL (a served file or an object URL of a Blob) to the browser's
+ * download handling through a temporary link.
+ */
+
+/**
+ * Start a browser download of `url` (the server's name is kept when `fileName` is empty)
+ */
+export function triggerDownload(url: string, fileName = ''): void {
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.click();
+}
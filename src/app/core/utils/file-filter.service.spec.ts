@@ -0,0 +1,178 @@
+import {
+	CategoryFilter,
+	CompositeFilter,
+	FileFilterService,
+	ModifiedDateFilter,
+	NameContainsFilter,
+	SizeRangeFilter,
+} from './file-filter.service';
+import { FileItem } from '../../models/file-item';
+import { EMPTY_FILTER_CRITERIA } from '../../models/item-filters';
+
+describe('File filters', () => {
+	const item = (overrides: Partial<FileItem>): FileItem => ({
+		id: overrides.name ?? 'item',
+		name: 'item',
+		folder: false,
+		parentId: null,
+		modification: '2024-05-10T12:00:00',
+		...overrides,
+	});
+
+	const folder = item({ name: 'Photos', folder: true });
+	const photo = item({ name: 'beach.jpg', mimeType: 'image/jpeg', size: 2000 });
+	const report = item({
+		name: 'Report.pdf',
+		mimeType: 'application/pdf',
+		size: 500,
+		modification: '2024-05-01T08:00:00',
+	});
+	const notes = item({
+		name: 'notes.txt',
+		mimeType: 'text/plain',
+		size: 10,
+		modification: '2024-05-31T23:30:00',
+	});
+	const items = [folder, photo, report, notes];
+
+	const names = (filtered: FileItem[]) => filtered.map(current => current.name);
+
+	describe('CategoryFilter', () => {
+		it('should keep the files of the category', () => {
+			expect(names(new CategoryFilter('images').filter(items))).toEqual([
+				'beach.jpg',
+			]);
+			expect(names(new CategoryFilter('documents').filter(items))).toEqual([
+				'Report.pdf',
+			]);
+		});
+
+		it('should drop folders and files without a type', () => {
+			const untyped = item({ name: 'data' });
+
+			expect(new CategoryFilter('text').filter([folder, untyped])).toEqual([]);
+		});
+	});
+
+	describe('SizeRangeFilter', () => {
+		it('should include both bounds', () => {
+			expect(names(new SizeRangeFilter(500, 2000).filter(items))).toEqual([
+				'beach.jpg',
+				'Report.pdf',
+			]);
+		});
+
+		it('should leave a missing bound open', () => {
+			expect(names(new SizeRangeFilter(null, 500).filter(items))).toEqual([
+				'Report.pdf',
+				'notes.txt',
+			]);
+		});
+
+		it('should drop folders', () => {
+			expect(new SizeRangeFilter(0, null).filter([folder])).toEqual([]);
+		});
+	});
+
+	describe('ModifiedDateFilter', () => {
+		it('should include the whole first and last day', () => {
+			const filter = new ModifiedDateFilter('2024-05-01', '2024-05-31');
+
+			expect(names(filter.filter([report, notes]))).toEqual([
+				'Report.pdf',
+				'notes.txt',
+			]);
+		});
+
+		it('should drop items outside the range', () => {
+			const filter = new ModifiedDateFilter('2024-05-02', '2024-05-30');
+
+			expect(names(filter.filter(items))).toEqual(['Photos', 'beach.jpg']);
+		});
+	});
+
+	describe('NameContainsFilter', () => {
+		it('should match part of the name ignoring case', () => {
+			expect(names(new NameContainsFilter('REP').filter(items))).toEqual([
+				'Report.pdf',
+			]);
+		});
+	});
+
+	describe('CompositeFilter', () => {
+		it('should keep only what every filter keeps', () => {
+			const filter = new CompositeFilter([
+				new SizeRangeFilter(100, null),
+				new NameContainsFilter('.pdf'),
+			]);
+
+			expect(names(filter.filter(items, null))).toEqual(['Report.pdf']);
+		});
+
+		it('should keep everything without filters', () => {
+			expect(new CompositeFilter([]).filter(items, null)).toEqual(items);
+		});
+	});
+
+	describe('FileFilterService', () => {
+		let service: FileFilterService;
+
+		beforeEach(() => {
+			service = new FileFilterService();
+		});
+
+		it('should only list the items of the current folder', () => {
+			const nested = item({ name: 'nested.txt', parentId: 'folder' });
+
+			expect(names(service.getFiles([...items, nested], null))).toEqual([
+				'beach.jpg',
+				'notes.txt',
+				'Report.pdf',
+			]);
+			expect(names(service.getFiles([...items, nested], 'folder'))).toEqual([
+				'nested.txt',
+			]);
+		});
+
+		it('should sort by the field and order ties by name', () => {
+			const copy = item({ name: 'a.pdf', mimeType: 'application/pdf' });
+
+			expect(
+				names(
+					service.getFiles([...items, copy], null, {
+						field: 'type',
+						direction: 'asc',
+					})
+				)
+			).toEqual(['a.pdf', 'Report.pdf', 'beach.jpg', 'notes.txt']);
+		});
+
+		it('should reverse the order when descending', () => {
+			expect(
+				names(
+					service.getFiles(items, null, { field: 'size', direction: 'desc' })
+				)
+			).toEqual(['beach.jpg', 'Report.pdf', 'notes.txt']);
+		});
+
+		it('should only create strategies for the filters that are set', () => {
+			expect(service.hasActiveFilters(EMPTY_FILTER_CRITERIA)).toBeFalse();
+			expect(
+				service.hasActiveFilters({
+					...EMPTY_FILTER_CRITERIA,
+					nameContains: ' ',
+				})
+			).toBeFalse();
+
+			const filters = service.createFilters({
+				...EMPTY_FILTER_CRITERIA,
+				category: 'images',
+				maxSize: 100,
+			});
+
+			expect(filters.length).toBe(2);
+			expect(filters[0]).toBeInstanceOf(CategoryFilter);
+			expect(filters[1]).toBeInstanceOf(SizeRangeFilter);
+		});
+	});
+});
@@ -1,8 +1,18 @@
 /**
  * File Filter Utility (SRP - Single Responsibility)
- * Strategy Pattern: Different filtering strategies
+ * Strategy Pattern: Different filtering strategies, combined with AND by CompositeFilter
  */
 import { FileItem } from '../../models/file-item';
+import {
+	EMPTY_FILTER_CRITERIA,
+	FileCategory,
+	ItemFilterCriteria,
+} from '../../models/item-filters';
+import {
+	DEFAULT_VIEW_OPTIONS,
+	SortField,
+	SortOptions,
+} from '../../models/view-options';
 
 export interface IFileFilter {
 	filter(items: FileItem[], currentFolderId: string | null): FileItem[];
@@ -10,42 +20,233 @@ export interface IFileFilter {
 
 export class FolderFilter implements IFileFilter {
 	filter(items: FileItem[], currentFolderId: string | null): FileItem[] {
-		return items
-			.filter(
-				item =>
-					item.folder &&
-					((currentFolderId === null && !item.parentId) ||
-						item.parentId === currentFolderId)
-			)
-			.sort((a, b) => a.name.localeCompare(b.name));
+		return items.filter(
+			item =>
+				item.folder &&
+				((currentFolderId === null && !item.parentId) ||
+					item.parentId === currentFolderId)
+		);
 	}
 }
 
 export class FileFilter implements IFileFilter {
 	filter(items: FileItem[], currentFolderId: string | null): FileItem[] {
-		return items
-			.filter(
-				item =>
-					!item.folder &&
-					((currentFolderId === null && !item.parentId) ||
-						item.parentId === currentFolderId)
-			)
-			.sort((a, b) => a.name.localeCompare(b.name));
+		return items.filter(
+			item =>
+				!item.folder &&
+				((currentFolderId === null && !item.parentId) ||
+					item.parentId === currentFolderId)
+		);
+	}
+}
+
+const oneOf =
+	(...mimeTypes: string[]) =>
+	(mimeType: string): boolean =>
+		mimeTypes.includes(mimeType);
+
+const CATEGORY_MATCHERS: Record<FileCategory, (mimeType: string) => boolean> = {
+	images: mimeType => mimeType.startsWith('image/'),
+	documents: oneOf(
+		'application/pdf',
+		'application/msword',
+		'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+		'application/vnd.oasis.opendocument.text',
+		'application/rtf'
+	),
+	spreadsheets: oneOf(
+		'application/vnd.ms-excel',
+		'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+		'application/vnd.oasis.opendocument.spreadsheet',
+		'text/csv'
+	),
+	presentations: oneOf(
+		'application/vnd.ms-powerpoint',
+		'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+		'application/vnd.oasis.opendocument.presentation'
+	),
+	archives: oneOf(
+		'application/zip',
+		'application/x-rar-compressed',
+		'application/x-7z-compressed',
+		'application/x-tar',
+		'application/gzip'
+	),
+	code: oneOf(
+		'text/javascript',
+		'application/javascript',
+		'text/css',
+		'text/html',
+		'application/json',
+		'application/xml',
+		'text/xml'
+	),
+	text: oneOf('text/plain', 'text/markdown'),
+};
+
+/**
+ * Files of one category (folders have no type, so they never match)
+ */
+export class CategoryFilter implements IFileFilter {
+	constructor(private readonly category: FileCategory) {}
+
+	filter(items: FileItem[]): FileItem[] {
+		const matches = CATEGORY_MATCHERS[this.category];
+		return items.filter(
+			item => !item.folder && !!item.mimeType && matches(item.mimeType)
+		);
+	}
+}
+
+/**
+ * Files within inclusive byte bounds (folders have no size, so they never match)
+ */
+export class SizeRangeFilter implements IFileFilter {
+	constructor(
+		private readonly minSize: number | null,
+		private readonly maxSize: number | null
+	) {}
+
+	filter(items: FileItem[]): FileItem[] {
+		return items.filter(item => {
+			if (item.folder) return false;
+			const size = item.size ?? 0;
+			return (
+				(this.minSize === null || size >= this.minSize) &&
+				(this.maxSize === null || size <= this.maxSize)
+			);
+		});
+	}
+}
+
+/**
+ * Items modified between two calendar days (inclusive, local time)
+ */
+export class ModifiedDateFilter implements IFileFilter {
+	private readonly from: number;
+	private readonly to: number;
+
+	constructor(from: string | null, to: string | null) {
+		this.from = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+		this.to = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+	}
+
+	filter(items: FileItem[]): FileItem[] {
+		return items.filter(item => {
+			const modified = Date.parse(item.modification);
+			return modified >= this.from && modified <= this.to;
+		});
+	}
+}
+
+export class NameContainsFilter implements IFileFilter {
+	private readonly text: string;
+
+	constructor(text: string) {
+		this.text = text.toLocaleLowerCase();
+	}
+
+	filter(items: FileItem[]): FileItem[] {
+		return items.filter(item =>
+			item.name.toLocaleLowerCase().includes(this.text)
+		);
+	}
+}
+
+/**
+ * Keeps the items every filter keeps (AND)
+ */
+export class CompositeFilter implements IFileFilter {
+	constructor(private readonly filters: IFileFilter[]) {}
+
+	filter(items: FileItem[], currentFolderId: string | null): FileItem[] {
+		return this.filters.reduce(
+			(remaining, filter) => filter.filter(remaining, currentFolderId),
+			items
+		);
+	}
+}
+
+type ItemComparator = (a: FileItem, b: FileItem) => number;
+
+const COMPARATORS: Record<SortField, ItemComparator> = {
+	name: (a, b) => a.name.localeCompare(b.name),
+	size: (a, b) => (a.size ?? 0) - (b.size ?? 0),
+	type: (a, b) => (a.mimeType ?? '').localeCompare(b.mimeType ?? ''),
+	modified: (a, b) => Date.parse(a.modification) - Date.parse(b.modification),
+};
+
+/**
+ * Sorts by one field, ties are ordered by name
+ */
+export class ItemSorter {
+	sort(items: FileItem[], options: SortOptions): FileItem[] {
+		const compare = COMPARATORS[options.field];
+		const direction = options.direction === 'asc' ? 1 : -1;
+		return [...items].sort(
+			(a, b) => (compare(a, b) || COMPARATORS.name(a, b)) * direction
+		);
 	}
 }
 
 /**
  * File Filter Service using Strategy Pattern
+ * Folders and files are returned separately, so folders stay on top whatever the sort.
  */
 export class FileFilterService {
 	private readonly folderFilter = new FolderFilter();
 	private readonly fileFilter = new FileFilter();
+	private readonly sorter = new ItemSorter();
+
+	getFolders(
+		items: FileItem[],
+		currentFolderId: string | null,
+		sort: SortOptions = DEFAULT_VIEW_OPTIONS.sort,
+		criteria: ItemFilterCriteria = EMPTY_FILTER_CRITERIA
+	): FileItem[] {
+		const filter = new CompositeFilter([
+			this.folderFilter,
+			...this.createFilters(criteria),
+		]);
+		return this.sorter.sort(filter.filter(items, currentFolderId), sort);
+	}
+
+	getFiles(
+		items: FileItem[],
+		currentFolderId: string | null,
+		sort: SortOptions = DEFAULT_VIEW_OPTIONS.sort,
+		criteria: ItemFilterCriteria = EMPTY_FILTER_CRITERIA
+	): FileItem[] {
+		const filter = new CompositeFilter([
+			this.fileFilter,
+			...this.createFilters(criteria),
+		]);
+		return this.sorter.sort(filter.filter(items, currentFolderId), sort);
+	}
 
-	getFolders(items: FileItem[], currentFolderId: string | null): FileItem[] {
-		return this.folderFilter.filter(items, currentFolderId);
+	hasActiveFilters(criteria: ItemFilterCriteria): boolean {
+		return this.createFilters(criteria).length > 0;
 	}
 
-	getFiles(items: FileItem[], currentFolderId: string | null): FileItem[] {
-		return this.fileFilter.filter(items, currentFolderId);
+	/**
+	 * One strategy per filter that is set
+	 */
+	createFilters(criteria: ItemFilterCriteria): IFileFilter[] {
+		const filters: IFileFilter[] = [];
+		if (criteria.category) {
+			filters.push(new CategoryFilter(criteria.category));
+		}
+		if (criteria.minSize !== null || criteria.maxSize !== null) {
+			filters.push(new SizeRangeFilter(criteria.minSize, criteria.maxSize));
+		}
+		if (criteria.modifiedFrom || criteria.modifiedTo) {
+			filters.push(
+				new ModifiedDateFilter(criteria.modifiedFrom, criteria.modifiedTo)
+			);
+		}
+		if (criteria.nameContains.trim()) {
+			filters.push(new NameContainsFilter(criteria.nameContains.trim()));
+		}
+		return filters;
 	}
 }
@@ -8,7 +8,7 @@ export interface ValidationResult {
 }
 
 export class FileValidationService {
-	private readonly maxFileSize = 100 * 1024 * 1024; // 100MB
+	private readonly maxFileSize = 2 * 1024 * 1024 * 1024; // 2GB (large files are sent in chunks)
 	private readonly allowedExtensions = [
 		'.pdf', '.doc', '.docx', '.txt',
 		'.jpg', '.jpeg', '.png', '.gif',
@@ -31,7 +31,7 @@ export class FileValidationService {
 		if (oversizedFiles.length > 0) {
 			return {
 				valid: false,
-				message: `File(s) exceed maximum size of 100MB: ${oversizedFiles.map(f => f.name).join(', ')}`
+				message: `File(s) exceed maximum size of 2GB: ${oversizedFiles.map(f => f.name).join(', ')}`
 			};
 		}
 
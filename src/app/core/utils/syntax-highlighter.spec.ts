@@ -0,0 +1,116 @@
+import { HighlightedLine, SyntaxHighlighter } from './syntax-highlighter';
+
+describe('SyntaxHighlighter', () => {
+	let highlighter: SyntaxHighlighter;
+
+	// Tokens as [type, text] pairs, without plain whitespace between them
+	const tokensOf = (line: HighlightedLine) =>
+		line
+			.filter(token => token.type !== 'plain' || token.text.trim())
+			.map(token => [token.type, token.text]);
+
+	beforeEach(() => {
+		highlighter = new SyntaxHighlighter();
+	});
+
+	it('should return plain lines without a language', () => {
+		const lines = highlighter.highlight('const a = 1;\nreturn a;');
+
+		expect(lines).toEqual([
+			[{ type: 'plain', text: 'const a = 1;' }],
+			[{ type: 'plain', text: 'return a;' }],
+		]);
+	});
+
+	it('should treat Windows and old Mac line endings as line breaks', () => {
+		const lines = highlighter.highlight('a\r\nb\rc');
+
+		expect(lines.length).toBe(3);
+	});
+
+	it('should keep empty lines', () => {
+		const lines = highlighter.highlight('a\n\nb');
+
+		expect(lines[1]).toEqual([]);
+	});
+
+	it('should tokenize JavaScript', () => {
+		const [line] = highlighter.highlight(
+			'const name = "x"; // done',
+			'javascript'
+		);
+
+		expect(tokensOf(line)).toEqual([
+			['keyword', 'const'],
+			['plain', ' name = '],
+			['string', '"x"'],
+			['punctuation', ';'],
+			['comment', '// done'],
+		]);
+	});
+
+	it('should not highlight keywords inside identifiers', () => {
+		const [line] = highlighter.highlight('returned', 'javascript');
+
+		expect(tokensOf(line)).toEqual([['plain', 'returned']]);
+	});
+
+	it('should split tokens that span several lines', () => {
+		const lines = highlighter.highlight('/* one\ntwo */ 1', 'javascript');
+
+		expect(tokensOf(lines[0])).toEqual([['comment', '/* one']]);
+		expect(tokensOf(lines[1])).toEqual([
+			['comment', 'two */'],
+			['number', '1'],
+		]);
+	});
+
+	it('should tell JSON properties from string values', () => {
+		const [line] = highlighter.highlight('{"a": "b", "c": null}', 'json');
+
+		expect(tokensOf(line)).toEqual([
+			['punctuation', '{'],
+			['property', '"a"'],
+			['punctuation', ':'],
+			['string', '"b"'],
+			['punctuation', ','],
+			['property', '"c"'],
+			['punctuation', ':'],
+			['keyword', 'null'],
+			['punctuation', '}'],
+		]);
+	});
+
+	it('should tokenize attributes inside HTML tags', () => {
+		const [line] = highlighter.highlight('<a href="/x">link</a>', 'html');
+
+		expect(tokensOf(line)).toEqual([
+			['tag', '<a'],
+			['attribute', 'href'],
+			['punctuation', '='],
+			['string', '"/x"'],
+			['punctuation', '>'],
+			['plain', 'link'],
+			['tag', '</a'],
+			['punctuation', '>'],
+		]);
+	});
+
+	it('should tokenize CSS properties and values', () => {
+		const [line] = highlighter.highlight(
+			'a { color: #fff !important; }',
+			'css'
+		);
+
+		expect(tokensOf(line)).toEqual([
+			['plain', 'a '],
+			['punctuation', '{'],
+			['property', 'color'],
+			['punctuation', ':'],
+			['number', '#fff'],
+			['keyword', '!important'],
+			['punctuation', ';'],
+			['punctuation', '}'],
+		]);
+	});
+});
@@ -0,0 +1,172 @@
+/**
+ * Syntax Highlighter Utility (SRP - Single Responsibility)
+ * Small regex tokenizer for the preview overlay. Produces tokens per line so
+ * templates can render line numbers and bind text safely (no innerHTML).
+ */
+import { CodeLanguage } from '../../services/file-type.service';
+
+export type TokenType =
+	| 'plain'
+	| 'comment'
+	| 'string'
+	| 'number'
+	| 'keyword'
+	| 'property'
+	| 'tag'
+	| 'attribute'
+	| 'punctuation';
+
+export interface HighlightToken {
+	type: TokenType;
+	text: string;
+}
+
+export type HighlightedLine = HighlightToken[];
+
+interface TokenRule {
+	type: TokenType;
+	/** Must use the sticky (y) flag, matches are tried at the current position */
+	pattern: RegExp;
+	/** Rules used to tokenize the match itself (e.g. attributes inside an HTML tag) */
+	inside?: TokenRule[];
+}
+
+const STRING_RULES: TokenRule[] = [
+	{ type: 'string', pattern: /"(?:\\.|[^\\"\n])*"?/y },
+	{ type: 'string', pattern: /'(?:\\.|[^\\'\n])*'?/y },
+];
+
+const BLOCK_COMMENT: TokenRule = {
+	type: 'comment',
+	pattern: /\/\*[\s\S]*?(?:\*\/|$)/y,
+};
+
+const HTML_TAG_RULES: TokenRule[] = [
+	{ type: 'tag', pattern: /<\/?[\w-]+/y },
+	{ type: 'attribute', pattern: /[\w:.-]+(?=\s*=)/y },
+	...STRING_RULES,
+	{ type: 'punctuation', pattern: /\/?>|=/y },
+];
+
+const LANGUAGE_RULES: Record<CodeLanguage, TokenRule[]> = {
+	json: [
+		{ type: 'property', pattern: /"(?:\\.|[^\\"\n])*"(?=\s*:)/y },
+		...STRING_RULES,
+		{ type: 'number', pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y },
+		{ type: 'keyword', pattern: /\b(?:true|false|null)\b/y },
+		{ type: 'punctuation', pattern: /[{}[\],:]/y },
+	],
+	javascript: [
+		{ type: 'comment', pattern: /\/\/[^\n]*/y },
+		BLOCK_COMMENT,
+		{ type: 'string', pattern: /`(?:\\[\s\S]|[^\\`])*`?/y },
+		...STRING_RULES,
+		{
+			type: 'keyword',
+			pattern:
+				/\b(?:async|await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|false|finally|for|from|function|if|import|in|instanceof|let|new|null|of|return|static|super|switch|this|throw|true|try|typeof|undefined|var|void|while|yield)\b/y,
+		},
+		{
+			type: 'number',
+			pattern: /\b(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y,
+		},
+		{ type: 'punctuation', pattern: /[{}()[\];,.]/y },
+	],
+	css: [
+		BLOCK_COMMENT,
+		...STRING_RULES,
+		{ type: 'keyword', pattern: /@[\w-]+|!important\b/y },
+		{ type: 'property', pattern: /[\w-]+(?=\s*:[^{;]*[;}])/y },
+		{
+			type: 'number',
+			pattern: /#[\da-fA-F]{3,8}\b|-?\d*\.?\d+(?:%|[a-z]+)?\b/y,
+		},
+		{ type: 'punctuation', pattern: /[{}();:,]/y },
+	],
+	html: [
+		{ type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/y },
+		{ type: 'keyword', pattern: /<!DOCTYPE[^>]*>/iy },
+		{
+			type: 'tag',
+			pattern: /<\/?[\w-]+(?:\s+(?:[^>"']|"[^"]*"|'[^']*')*)?\/?>/y,
+			inside: HTML_TAG_RULES,
+		},
+		{ type: 'string', pattern: /&[#\w]+;/y },
+	],
+};
+
+export class SyntaxHighlighter {
+	/**
+	 * Split source into highlighted lines (plain text when no language is given)
+	 */
+	highlight(source: string, language?: CodeLanguage): HighlightedLine[] {
+		const text = source.replace(/\r\n?/g, '\n');
+		const tokens = language
+			? this.tokenize(text, LANGUAGE_RULES[language])
+			: [{ type: 'plain' as const, text }];
+		return this.splitLines(tokens);
+	}
+
+	private tokenize(source: string, rules: TokenRule[]): HighlightToken[] {
+		const tokens: HighlightToken[] = [];
+		let plain = '';
+		let position = 0;
+
+		const flushPlain = () => {
+			if (plain) tokens.push({ type: 'plain', text: plain });
+			plain = '';
+		};
+
+		while (position < source.length) {
+			const match = this.matchRule(source, position, rules);
+			if (!match) {
+				plain += source[position++];
+				continue;
+			}
+
+			flushPlain();
+			const [rule, text] = match;
+			if (rule.inside) {
+				tokens.push(...this.tokenize(text, rule.inside));
+			} else {
+				tokens.push({ type: rule.type, text });
+			}
+			position += text.length;
+		}
+
+		flushPlain();
+		return tokens;
+	}
+
+	private matchRule(
+		source: string,
+		position: number,
+		rules: TokenRule[]
+	): [TokenRule, string] | null {
+		for (const rule of rules) {
+			rule.pattern.lastIndex = position;
+			const match = rule.pattern.exec(source);
+			if (match && match[0].length > 0) {
+				return [rule, match[0]];
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Tokens may span several lines (block comments, template strings)
+	 */
+	private splitLines(tokens: HighlightToken[]): HighlightedLine[] {
+		const lines: HighlightedLine[] = [[]];
+
+		for (const token of tokens) {
+			token.text.split('\n').forEach((part, index) => {
+				if (index > 0) lines.push([]);
+				if (part)
+					lines[lines.length - 1].push({ type: token.type, text: part });
+			});
+		}
+
+		return lines;
+	}
+}
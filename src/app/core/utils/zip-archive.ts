@@ -0,0 +1,121 @@
+/**
+ * ZIP Archive Utility (SRP - Single Responsibility)
+ * Builds a ZIP of in-memory files for repositories without a server (the API
+ * streams its archives instead). Entries are stored uncompressed: most stored
+ * files (images, PDFs, archives) are compressed already.
+ */
+export interface ZipEntry {
+	// Relative path with `/` separators
+	name: string;
+	modification: string;
+	// Absent for folders
+	content?: Blob;
+}
+
+// Same classic limits as the API (no ZIP64)
+export const MAX_ZIP_SIZE = 0xffffffff;
+export const MAX_ZIP_ENTRIES = 0xffff;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const VERSION = 20;
+const FLAG_UTF8_NAMES = 0x0800;
+const DIRECTORY_ATTRIBUTES = 0x10;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) {
+		value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	}
+	return value >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(value: string): { time: number; date: number } {
+	const parsed = new Date(value);
+	const valid = !isNaN(parsed.getTime()) && parsed.getFullYear() >= 1980;
+	const d = valid ? parsed : new Date(1980, 0, 1);
+	return {
+		time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+		date:
+			((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+	};
+}
+
+/**
+ * Header shared by the local and central records, from the version field on
+ */
+function writeCommonFields(
+	view: DataView,
+	offset: number,
+	crc: number,
+	size: number,
+	nameLength: number,
+	dosTime: { time: number; date: number }
+): void {
+	view.setUint16(offset, FLAG_UTF8_NAMES, true);
+	view.setUint16(offset + 2, 0, true); // Stored
+	view.setUint16(offset + 4, dosTime.time, true);
+	view.setUint16(offset + 6, dosTime.date, true);
+	view.setUint32(offset + 8, crc, true);
+	view.setUint32(offset + 12, size, true);
+	view.setUint32(offset + 16, size, true);
+	view.setUint16(offset + 20, nameLength, true);
+}
+
+export async function createZipArchive(entries: ZipEntry[]): Promise<Blob> {
+	const encoder = new TextEncoder();
+	const parts: BlobPart[] = [];
+	const centralDirectory: BlobPart[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const directory = !entry.content;
+		const name = encoder.encode(directory ? `${entry.name}/` : entry.name);
+		const bytes = entry.content
+			? new Uint8Array(await entry.content.arrayBuffer())
+			: new Uint8Array(0);
+		const crc = crc32(bytes);
+		const dosTime = toDosDateTime(entry.modification);
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+		local.setUint16(4, VERSION, true);
+		writeCommonFields(local, 6, crc, bytes.length, name.length, dosTime);
+		parts.push(local, name, bytes);
+
+		const central = new DataView(new ArrayBuffer(46));
+		central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+		central.setUint16(4, VERSION, true);
+		central.setUint16(6, VERSION, true);
+		writeCommonFields(central, 8, crc, bytes.length, name.length, dosTime);
+		central.setUint32(38, directory ? DIRECTORY_ATTRIBUTES : 0, true);
+		central.setUint32(42, offset, true);
+		centralDirectory.push(central, name);
+
+		offset += 30 + name.length + bytes.length;
+	}
+
+	const centralSize = centralDirectory.reduce(
+		(total, part) => total + (part as ArrayBufferView).byteLength,
+		0
+	);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...centralDirectory, end], {
+		type: 'application/zip',
+	});
+}
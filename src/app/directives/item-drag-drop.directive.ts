@@ -0,0 +1,138 @@
+/**
+ * Item Drag & Drop Directives
+ * Native HTML5 drag and drop so items can be dropped on targets owned by
+ * different components (folder cards, sidebar entries, breadcrumb segments).
+ *
+ * - `appItemDrag` marks an element as a draggable file/folder; when it is part of
+ *   `dragGroup` (the current selection) the whole group is dragged
+ * - `appItemDropTarget` marks an element as a destination folder (null = root)
+ * - ItemDragService shares the dragged items, since dataTransfer is unreadable during dragover
+ */
+import {
+	Directive,
+	EventEmitter,
+	HostBinding,
+	HostListener,
+	Injectable,
+	Input,
+	Output,
+	inject,
+} from '@angular/core';
+import { FileItem } from '../models/file-item';
+
+export const ITEM_DRAG_MIME_TYPE = 'application/x-file-manager-item';
+
+@Injectable({
+	providedIn: 'root',
+})
+export class ItemDragService {
+	draggedItems: FileItem[] = [];
+
+	/**
+	 * Items cannot be dropped on themselves, nor only on the folder that already holds them
+	 */
+	canDropOn(targetFolderId: string | null): boolean {
+		const items = this.draggedItems;
+		return (
+			items.length > 0 &&
+			items.every(item => item.id !== targetFolderId) &&
+			items.some(item => item.parentId !== targetFolderId)
+		);
+	}
+}
+
+@Directive({
+	selector: '[appItemDrag]',
+	standalone: true,
+})
+export class ItemDragDirective {
+	private readonly dragService = inject(ItemDragService);
+
+	@Input({ required: true }) appItemDrag!: FileItem;
+	@Input() dragGroup: FileItem[] = [];
+	// While renaming in place, so the mouse selects text instead of dragging
+	@Input() dragDisabled = false;
+
+	@HostBinding('attr.draggable') get draggable(): string {
+		return this.dragDisabled ? 'false' : 'true';
+	}
+	@HostBinding('class.is-dragging') isDragging = false;
+
+	@HostListener('dragstart', ['$event'])
+	onDragStart(event: DragEvent): void {
+		if (this.dragDisabled) return;
+		const inGroup = this.dragGroup.some(
+			item => item.id === this.appItemDrag.id
+		);
+		this.dragService.draggedItems = inGroup
+			? this.dragGroup
+			: [this.appItemDrag];
+		this.isDragging = true;
+		if (event.dataTransfer) {
+			event.dataTransfer.effectAllowed = 'move';
+			event.dataTransfer.setData(ITEM_DRAG_MIME_TYPE, this.appItemDrag.id);
+		}
+	}
+
+	@HostListener('dragend')
+	onDragEnd(): void {
+		this.dragService.draggedItems = [];
+		this.isDragging = false;
+	}
+}
+
+@Directive({
+	selector: '[appItemDropTarget]',
+	standalone: true,
+})
+export class ItemDropTargetDirective {
+	private readonly dragService = inject(ItemDragService);
+
+	/** Destination folder id, null for the root */
+	@Input({ required: true }) appItemDropTarget!: string | null;
+	@Input() dropDisabled = false;
+	@Output() readonly itemDrop = new EventEmitter<FileItem[]>();
+
+	@HostBinding('class.drop-target-active') isOver = false;
+
+	@HostListener('dragover', ['$event'])
+	onDragOver(event: DragEvent): void {
+		if (!this.accepts(event)) return;
+
+		event.preventDefault();
+		event.stopPropagation();
+		if (event.dataTransfer) {
+			event.dataTransfer.dropEffect = 'move';
+		}
+		this.isOver = true;
+	}
+
+	@HostListener('dragleave', ['$event'])
+	onDragLeave(event: DragEvent): void {
+		const related = event.relatedTarget as Node | null;
+		const host = event.currentTarget as HTMLElement;
+		if (!related || !host.contains(related)) {
+			this.isOver = false;
+		}
+	}
+
+	@HostListener('drop', ['$event'])
+	onDrop(event: DragEvent): void {
+		this.isOver = false;
+		const items = this.dragService.draggedItems;
+		if (!this.accepts(event)) return;
+
+		event.preventDefault();
+		event.stopPropagation();
+		this.dragService.draggedItems = [];
+		this.itemDrop.emit(items);
+	}
+
+	private accepts(event: DragEvent): boolean {
+		return (
+			!this.dropDisabled &&
+			!!event.dataTransfer?.types.includes(ITEM_DRAG_MIME_TYPE) &&
+			this.dragService.canDropOn(this.appItemDropTarget)
+		);
+	}
+}
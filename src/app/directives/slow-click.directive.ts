@@ -0,0 +1,63 @@
+/**
+ * Slow Click Directive
+ * Emits `slowClick` for a single click on an element whose item was already
+ * selected before the click (desktop "click the name again to rename").
+ * A double click within the delay cancels it.
+ */
+import {
+	Directive,
+	EventEmitter,
+	HostListener,
+	Input,
+	OnDestroy,
+	Output,
+} from '@angular/core';
+
+const SLOW_CLICK_DELAY = 500; // Longer than the usual double-click interval
+
+@Directive({
+	selector: '[appSlowClick]',
+	standalone: true,
+})
+export class SlowClickDirective implements OnDestroy {
+	/** Whether the item is selected (read when the button goes down) */
+	@Input({ required: true }) appSlowClick = false;
+	@Output() readonly slowClick = new EventEmitter<void>();
+
+	private wasSelected = false;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+
+	@HostListener('mousedown')
+	onMouseDown(): void {
+		this.wasSelected = this.appSlowClick;
+	}
+
+	@HostListener('click', ['$event'])
+	onClick(event: MouseEvent): void {
+		this.clearTimer();
+		const modified =
+			event.ctrlKey || event.metaKey || event.shiftKey || event.altKey;
+		if (this.wasSelected && !modified && event.detail === 1) {
+			this.timer = setTimeout(() => {
+				this.timer = null;
+				this.slowClick.emit();
+			}, SLOW_CLICK_DELAY);
+		}
+	}
+
+	@HostListener('dblclick')
+	onDoubleClick(): void {
+		this.clearTimer();
+	}
+
+	ngOnDestroy(): void {
+		this.clearTimer();
+	}
+
+	private clearTimer(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+}
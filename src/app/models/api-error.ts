@@ -0,0 +1,35 @@
+/**
+ * Error envelope returned by the API: { code, message, ...details }
+ */
+export type ApiErrorCode =
+	| 'DUPLICATE_NAME'
+	| 'FOLDER_NOT_EMPTY'
+	| 'PARENT_NOT_FOUND'
+	| 'INVALID_PARENT'
+	| 'INVALID_NAME'
+	| 'INVALID_INPUT'
+	| 'NOT_FOUND'
+	| 'FILE_NOT_FOUND'
+	| 'IS_FOLDER'
+	| 'UPLOAD_FAILED'
+	| 'PARTIAL_SUCCESS'
+	| 'PROCESSING_ERROR'
+	| 'UNSUPPORTED_TYPE'
+	| 'INVALID_CHUNK'
+	| 'INCOMPLETE_UPLOAD'
+	| 'PAYLOAD_TOO_LARGE'
+	| 'SERVER_ERROR';
+
+export interface ApiErrorResponse {
+	code: ApiErrorCode;
+	message: string;
+}
+
+/**
+ * One file rejected by an upload (207 PARTIAL_SUCCESS or 400 UPLOAD_FAILED)
+ */
+export interface UploadFailure {
+	filename: string;
+	code: ApiErrorCode;
+	message: string;
+}
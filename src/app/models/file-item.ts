@@ -1,3 +1,5 @@
+import { ApiErrorCode, UploadFailure } from './api-error';
+
 export interface FileItem {
     id: string;
     name: string;
@@ -8,12 +10,164 @@ export interface FileItem {
     size?: number;
     modification: string; // Change this from modified?: Date
     preview?: string;
+    version?: number; // Current version of a file (1 when absent)
+}
+
+/**
+ * Stored revision of a file (GET /api/items/:id/versions), newest first
+ */
+export interface FileVersion {
+    version: number;
+    size: number;
+    mimeType?: string;
+    uploadedBy: string | null;
+    created: string;
+    restoredFrom?: number;
+    current: boolean;
 }
 
+/**
+ * 201: every file uploaded, 207 (PARTIAL_SUCCESS): `errors` lists the rejected files
+ */
 export interface UploadResponse {
     items: FileItem[];
-    errors?: {
-        file: string;
-        error: string;
-    }[];
-}
\ No newline at end of file
+    code?: ApiErrorCode;
+    message?: string;
+    errors?: UploadFailure[];
+    skipped?: string[];
+}
+
+/**
+ * How to handle an item whose name already exists in the destination
+ * ('fail' is the server default: 409 DUPLICATE_NAME, 'new-version' is for file uploads only)
+ */
+export type ConflictStrategy =
+    | 'fail'
+    | 'replace'
+    | 'keep-both'
+    | 'skip'
+    | 'new-version';
+
+export interface ConflictResolution {
+    strategy: Exclude<ConflictStrategy, 'fail'>;
+    applyToAll: boolean;
+}
+
+export interface SearchResult extends FileItem {
+    parentPath: Pick<FileItem, 'id' | 'name'>[];
+}
+
+export interface TrashItem extends FileItem {
+    trashedAt: string;
+    originalPath: Pick<FileItem, 'id' | 'name'>[];
+}
+
+/**
+ * Folder of the sidebar tree; `children` is only present down to the requested depth
+ */
+export interface FolderTreeNode {
+    id: string;
+    name: string;
+    parentId: string | null;
+    hasChildren: boolean;
+    children?: FolderTreeNode[];
+}
+
+/**
+ * Loaded subfolders per parent id ('' for the root)
+ */
+export type FolderTree = Record<string, FolderTreeNode[]>;
+
+/**
+ * Name committed by an in-place rename on a card or table row
+ */
+export interface ItemRenameEvent {
+    item: FileItem;
+    name: string;
+}
+
+export interface ItemMoveEvent {
+    items: FileItem[];
+    targetFolderId: string | null;
+    targetName: string;
+}
+
+export type BatchOperation = 'delete' | 'move';
+
+export interface BatchResult {
+    id: string;
+    success: boolean;
+    item?: FileItem;
+    skipped?: boolean;
+    code?: ApiErrorCode;
+    message?: string;
+}
+
+export interface BatchResponse {
+    results: BatchResult[];
+}
+
+export type UploadStatus =
+    | 'queued'
+    | 'uploading'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'skipped';
+
+/**
+ * One file of the upload queue
+ */
+export interface UploadTask {
+    id: string;
+    file: File;
+    parentId: string | null;
+    conflict: ConflictStrategy;
+    status: UploadStatus;
+    loaded: number;
+    total: number;
+    bytesPerSecond: number;
+    startedAt?: number;
+    error?: string;
+}
+
+/**
+ * Server-side state of a chunked upload (POST/GET /api/uploads)
+ */
+export interface UploadSession {
+    uploadId: string;
+    name: string;
+    size: number;
+    parentId: string | null;
+    chunkSize: number;
+    totalChunks: number;
+    receivedChunks: number[];
+}
+
+/**
+ * Events emitted while a single file is uploaded
+ */
+export type UploadEvent =
+    | { type: 'progress'; loaded: number; total: number }
+    | { type: 'complete'; response: UploadResponse };
+
+export type ItemChangeType = 'created' | 'updated' | 'moved' | 'deleted';
+
+/**
+ * Change pushed by the server (GET /api/events) for items changed by any client
+ */
+export interface ItemChangeEvent {
+    type: ItemChangeType;
+    item: FileItem;
+    // Folder a moved item came from
+    previousParentId?: string | null;
+    // X-Client-Id of the app instance whose request made the change
+    clientId?: string;
+}
+
+/**
+ * Changes were missed and cannot be replayed: everything listed may be stale
+ */
+export interface ItemsResetEvent {
+    type: 'reset';
+}
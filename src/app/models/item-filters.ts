@@ -0,0 +1,32 @@
+/**
+ * Filters of the folder view, combined with AND (mirrored in the `type`,
+ * `minSize`, `maxSize`, `from`, `to` and `name` query params)
+ */
+export type FileCategory =
+	| 'images'
+	| 'documents'
+	| 'spreadsheets'
+	| 'presentations'
+	| 'archives'
+	| 'code'
+	| 'text';
+
+export interface ItemFilterCriteria {
+	category: FileCategory | null;
+	/** Size bounds in bytes, inclusive */
+	minSize: number | null;
+	maxSize: number | null;
+	/** Modification date bounds as YYYY-MM-DD, inclusive (local time) */
+	modifiedFrom: string | null;
+	modifiedTo: string | null;
+	nameContains: string;
+}
+
+export const EMPTY_FILTER_CRITERIA: ItemFilterCriteria = {
+	category: null,
+	minSize: null,
+	maxSize: null,
+	modifiedFrom: null,
+	modifiedTo: null,
+	nameContains: '',
+};
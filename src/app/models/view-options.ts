@@ -0,0 +1,24 @@
+/**
+ * How the folder content is laid out and ordered (persisted per user and
+ * mirrored in the `view`, `sort` and `dir` query params)
+ */
+export type ViewMode = 'grid' | 'list';
+
+export type SortField = 'name' | 'size' | 'type' | 'modified';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortOptions {
+	field: SortField;
+	direction: SortDirection;
+}
+
+export interface ViewOptions {
+	mode: ViewMode;
+	sort: SortOptions;
+}
+
+export const DEFAULT_VIEW_OPTIONS: ViewOptions = {
+	mode: 'grid',
+	sort: { field: 'name', direction: 'asc' },
+};
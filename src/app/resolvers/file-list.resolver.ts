@@ -12,12 +12,12 @@ import { inject } from '@angular/core';
 import { ResolveFn, ActivatedRouteSnapshot } from '@angular/router';
 import { Observable, combineLatest, map } from 'rxjs';
 import { FileManagerFacade } from '../core/facades/file-manager.facade';
-import { FileItem } from '../models/file-item';
+import { FileItem, FolderTree } from '../models/file-item';
 
 export interface FileListResolverData {
 	items: FileItem[];
 	breadcrumbPath: FileItem[];
-	rootFolders: FileItem[];
+	folderTree: FolderTree;
 }
 
 /**
@@ -34,6 +34,6 @@ export const fileListResolver: ResolveFn<FileListResolverData> = (
 	return combineLatest({
 		items: facade.loadItems(folderId || undefined),
 		breadcrumbPath: facade.loadBreadcrumbPath(folderId),
-		rootFolders: facade.getRootFolders(),
+		folderTree: facade.loadFolderTree(),
 	});
 };
@@ -6,6 +6,20 @@ export interface FileTypeInfo {
     preview: boolean;
 }
 
+/**
+ * How the preview overlay renders a file type
+ * - image: <img>, pdf: embedded viewer, text: plain text or highlighted source
+ */
+export type FileViewerKind = 'image' | 'pdf' | 'text';
+
+export type CodeLanguage = 'json' | 'css' | 'javascript' | 'html';
+
+export interface FileViewer {
+    kind: FileViewerKind;
+    /** Syntax highlighting for text viewers, plain text when omitted */
+    language?: CodeLanguage;
+}
+
 @Injectable({
     providedIn: 'root'
 })
@@ -15,9 +29,9 @@ export class FileTypeService {
         'image/jpeg': { icon: 'image', color: '#34A853', preview: true },
         'image/png': { icon: 'image', color: '#34A853', preview: true },
         'image/gif': { icon: 'gif', color: '#34A853', preview: true },
-        'image/svg+xml': { icon: 'image', color: '#34A853', preview: false },
+        'image/svg+xml': { icon: 'image', color: '#34A853', preview: true },
         // Documents
-        'application/pdf': { icon: 'picture_as_pdf', color: '#EA4335', preview: false },
+        'application/pdf': { icon: 'picture_as_pdf', color: '#EA4335', preview: true },
         'application/msword': { icon: 'description', color: '#4285F4', preview: false },
         'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
             icon: 'description',
@@ -39,12 +53,12 @@ export class FileTypeService {
             preview: false
         },
         // Code
-        'text/javascript': { icon: 'code', color: '#FFC107', preview: false },
-        'text/css': { icon: 'code', color: '#FFC107', preview: false },
-        'text/html': { icon: 'html', color: '#FFC107', preview: false },
-        'application/json': { icon: 'code', color: '#FFC107', preview: false },
+        'text/javascript': { icon: 'code', color: '#FFC107', preview: true },
+        'text/css': { icon: 'code', color: '#FFC107', preview: true },
+        'text/html': { icon: 'html', color: '#FFC107', preview: true },
+        'application/json': { icon: 'code', color: '#FFC107', preview: true },
         // Text
-        'text/plain': { icon: 'text_snippet', color: '#607D8B', preview: false },
+        'text/plain': { icon: 'text_snippet', color: '#607D8B', preview: true },
         // Archives
         'application/zip': { icon: 'folder_zip', color: '#795548', preview: false },
         'application/x-rar-compressed': { icon: 'folder_zip', color: '#795548', preview: false },
@@ -52,6 +66,20 @@ export class FileTypeService {
         default: { icon: 'help_outline', color: '#9E9E9E', preview: false } // Changed to a question mark icon for unknown files
     };
 
+    // Preview overlay viewers by MIME type (a type is previewable when it has one)
+    private readonly viewers: Record<string, FileViewer> = {
+        'image/jpeg': { kind: 'image' },
+        'image/png': { kind: 'image' },
+        'image/gif': { kind: 'image' },
+        'image/svg+xml': { kind: 'image' },
+        'application/pdf': { kind: 'pdf' },
+        'text/plain': { kind: 'text' },
+        'application/json': { kind: 'text', language: 'json' },
+        'text/css': { kind: 'text', language: 'css' },
+        'text/javascript': { kind: 'text', language: 'javascript' },
+        'text/html': { kind: 'text', language: 'html' }
+    };
+
     getFileTypeInfo(mimeType: string | undefined): FileTypeInfo {
         return this.fileTypes[mimeType || 'default'] || this.fileTypes['default'];
     }
@@ -64,4 +92,17 @@ export class FileTypeService {
         const typeInfo = this.getFileTypeInfo(mimeType);
         return typeInfo.preview;
     }
+
+    getViewer(mimeType: string | undefined): FileViewer | null {
+        return (mimeType && this.viewers[mimeType]) || null;
+    }
+
+    /**
+     * Make a MIME type previewable (or change how it is rendered)
+     */
+    registerViewer(mimeType: string, viewer: FileViewer, typeInfo?: Omit<FileTypeInfo, 'preview'>): void {
+        const info = typeInfo ?? this.fileTypes[mimeType] ?? this.fileTypes['default'];
+        this.viewers[mimeType] = viewer;
+        this.fileTypes[mimeType] = { ...info, preview: true };
+    }
 }
\ No newline at end of file
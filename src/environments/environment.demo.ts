@@ -0,0 +1,6 @@
+import { FileRepositoryBackend } from '../app/core/interfaces/file-repository.interface';
+
+export const environment = {
+	// Files are stored in the browser (IndexedDB), no API needed
+	fileRepository: 'indexeddb' as FileRepositoryBackend,
+};
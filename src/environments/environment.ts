@@ -0,0 +1,6 @@
+import { FileRepositoryBackend } from '../app/core/interfaces/file-repository.interface';
+
+export const environment = {
+	// Files are stored by the API (`npm start` runs it next to the app)
+	fileRepository: 'http' as FileRepositoryBackend,
+};